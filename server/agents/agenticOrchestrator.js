@@ -1,28 +1,36 @@
 import { TopicAnalysisAgent } from './topicAnalysisAgent.js';
 import { QuestionGenerationAgent } from './questionGenerationAgent.js';
+import { QuestionPlanningAgent } from './questionPlanningAgent.js';
+import { CandidateContextUtils } from '../utils/candidateContext.js';
+import { CompanyPackUtils } from '../utils/companyPack.js';
+import { StreamingUtils } from '../utils/streaming.js';
+import { createSessionStore } from '../sessionStore.js';
 
 /**
  * Agentic Orchestrator
  * Streamlined workflow with only topic analysis and question generation for maximum speed
  */
 export class AgenticOrchestrator {
-  constructor(llmService) {
+  constructor(llmService, sessionStore) {
     this.llmService = llmService;
     
     // Initialize only essential agents for speed
     this.topicAnalysisAgent = new TopicAnalysisAgent(llmService);
     this.questionGenerationAgent = new QuestionGenerationAgent(llmService);
+    // Only its response-quality heuristics are used (for adaptive difficulty); its LLM planning step stays skipped
+    this.questionPlanningAgent = new QuestionPlanningAgent(llmService);
     
-    // Session memory for maintaining context
-    this.sessionMemory = new Map();
+    // Session memory for maintaining context, persisted so cached topic analyses survive a restart
+    this.sessionMemory = sessionStore || createSessionStore('agent-memory');
     
     console.log('Agentic Orchestrator initialized with minimal agents for maximum speed (Topic Analysis + Question Generation only)');
   }
 
   /**
-   * Generate a high-quality, topic-relevant interview question (streamlined)
+   * Generate a high-quality, topic-relevant interview question (streamlined).
+   * onProgress(event, data) hears 'agent' as each agent finishes and 'token' as the question text arrives.
    */
-  async generateQuestion({ config, previousQuestions = [], previousResponses = [], questionNumber = 1 }) {
+  async generateQuestion({ config, previousQuestions = [], previousResponses = [], questionNumber = 1, difficulty, onProgress }) {
     const sessionId = this.getSessionId(config);
     
     try {
@@ -30,6 +38,7 @@ export class AgenticOrchestrator {
       
       // Step 1: Topic Analysis (cached after first call)
       const topicAnalysis = await this.getOrCreateTopicAnalysis(config, sessionId);
+      onProgress?.('agent', { agent: this.topicAnalysisAgent.name });
       
       // Step 2: Direct Question Generation (no planning, no validation)
       const finalQuestion = await this.generateQuestionStreamlined({
@@ -37,11 +46,14 @@ export class AgenticOrchestrator {
         config,
         previousQuestions,
         previousResponses,
-        questionNumber
+        questionNumber,
+        difficulty,
+        onProgress
       });
+      onProgress?.('agent', { agent: this.questionGenerationAgent.name });
       
       // Store in session memory
-      this.updateSessionMemory(sessionId, {
+      await this.updateSessionMemory(sessionId, {
         lastQuestion: finalQuestion.question,
         lastQuestionMetadata: finalQuestion.metadata,
         questionNumber
@@ -59,11 +71,20 @@ export class AgenticOrchestrator {
     }
   }
 
+  /**
+   * Adaptive difficulty: choose the next question's difficulty from how the previous answer scored
+   */
+  planDifficulty({ config, previousResponses = [] }) {
+    const recommendation = this.questionPlanningAgent.recommendDifficulty(previousResponses, config.experienceLevel);
+    console.log(`[Orchestrator] Adaptive difficulty for question ${previousResponses.length + 1}: ${recommendation.difficulty} (${recommendation.reason})`);
+    return recommendation;
+  }
+
   /**
    * Get or create topic analysis (cached per session)
    */
   async getOrCreateTopicAnalysis(config, sessionId) {
-    const cached = this.sessionMemory.get(`${sessionId}_topicAnalysis`);
+    const cached = await this.sessionMemory.get(`${sessionId}_topicAnalysis`);
     
     if (cached) {
       console.log('[Orchestrator] Using cached topic analysis');
@@ -75,11 +96,14 @@ export class AgenticOrchestrator {
       topic: config.topic,
       style: config.style,
       experienceLevel: config.experienceLevel,
-      companyName: config.companyName
+      companyName: config.companyName,
+      resume: config.resume,
+      jobDescription: config.jobDescription,
+      companyPack: config.companyPack
     });
     
     // Cache the analysis
-    this.sessionMemory.set(`${sessionId}_topicAnalysis`, analysisResult);
+    await this.sessionMemory.set(`${sessionId}_topicAnalysis`, analysisResult);
     
     return analysisResult;
   }
@@ -87,7 +111,7 @@ export class AgenticOrchestrator {
   /**
    * Generate question with streamlined approach (no planning, no validation)
    */
-  async generateQuestionStreamlined({ topicAnalysis, config, previousQuestions, previousResponses, questionNumber }) {
+  async generateQuestionStreamlined({ topicAnalysis, config, previousQuestions, previousResponses, questionNumber, difficulty, onProgress }) {
     console.log('[Orchestrator] Generating question with streamlined approach');
     
     try {
@@ -96,14 +120,18 @@ export class AgenticOrchestrator {
         topicAnalysis,
         config,
         previousQuestions,
-        questionNumber
+        questionNumber,
+        difficulty
       });
       
+      // The agent answers in JSON, so only the question field's text is passed on while it streams
+      const onToken = onProgress && StreamingUtils.createFieldStream('question', text => onProgress('token', { text }));
       const generationResult = await this.questionGenerationAgent.execute({
         questionSpec,
         topicAnalysis,
-        config
-      });
+        config,
+        previousResponses
+      }, {}, onToken);
       
       if (!generationResult.success) {
         throw new Error('Question generation failed');
@@ -142,10 +170,12 @@ export class AgenticOrchestrator {
   /**
    * Create a simple question specification without planning agent
    */
-  createSimpleQuestionSpec({ topicAnalysis, config, previousQuestions, questionNumber }) {
-    // Determine difficulty based on question number and experience level
+  createSimpleQuestionSpec({ topicAnalysis, config, previousQuestions, questionNumber, difficulty: plannedDifficulty }) {
+    // Determine difficulty based on question number and experience level, unless adaptive mode planned one
     let difficulty = 'easy';
-    if (questionNumber > 2) {
+    if (plannedDifficulty) {
+      difficulty = plannedDifficulty;
+    } else if (questionNumber > 2) {
       difficulty = config.experienceLevel === 'fresher' ? 'medium' : 'hard';
     } else if (questionNumber > 1) {
       difficulty = 'medium';
@@ -168,13 +198,17 @@ export class AgenticOrchestrator {
       questionType = 'practical';
     }
 
+    // Anchor on the candidate's resume or the role's requirements when provided
+    const anchor = CandidateContextUtils.getQuestionAnchor(config, questionNumber);
+
     return {
       category: config.style,
       difficulty,
       focusArea,
       concepts,
       avoidTopics: previousQuestions || [],
-      questionType
+      questionType,
+      ...(anchor && { anchor })
     };
   }
 
@@ -182,21 +216,32 @@ export class AgenticOrchestrator {
    * Generate session ID for caching
    */
   getSessionId(config) {
-    return `${config.topic}_${config.style}_${config.experienceLevel}`.replace(/\s+/g, '_').toLowerCase();
+    const signature = [CandidateContextUtils.getSignature(config), CompanyPackUtils.getSignature(config)].filter(Boolean).join('_');
+    return `${config.topic}_${config.style}_${config.experienceLevel}${signature ? `_${signature}` : ''}`.replace(/\s+/g, '_').toLowerCase();
   }
 
   /**
    * Update session memory
    */
-  updateSessionMemory(sessionId, data) {
-    const existing = this.sessionMemory.get(sessionId) || {};
-    this.sessionMemory.set(sessionId, { ...existing, ...data });
+  async updateSessionMemory(sessionId, data) {
+    const existing = await this.sessionMemory.get(sessionId) || {};
+    await this.sessionMemory.set(sessionId, { ...existing, ...data });
   }
 
   /**
    * Fallback question generation
    */
   generateFallbackQuestion(config, questionNumber) {
+    const anchor = CandidateContextUtils.getQuestionAnchor(config, questionNumber);
+    if (anchor) {
+      return CandidateContextUtils.createAnchoredQuestion(anchor);
+    }
+
+    const packQuestion = CompanyPackUtils.getFallbackQuestion(config, questionNumber);
+    if (packQuestion) {
+      return packQuestion;
+    }
+
     const fallbacks = {
       technical: [
         `What are the key concepts and best practices in ${config.topic}?`,
@@ -230,19 +275,20 @@ export class AgenticOrchestrator {
   /**
    * Clear session memory for a specific session
    */
-  clearSession(sessionId) {
-    const keys = Array.from(this.sessionMemory.keys()).filter(key => key.startsWith(sessionId));
-    keys.forEach(key => this.sessionMemory.delete(key));
+  async clearSession(sessionId) {
+    const keys = (await this.sessionMemory.entries()).map(([key]) => key).filter(key => key.startsWith(sessionId));
+    await Promise.all(keys.map(key => this.sessionMemory.delete(key)));
   }
 
   /**
    * Get session statistics
    */
-  getSessionStats() {
+  async getSessionStats() {
+    const entries = await this.sessionMemory.entries();
     return {
-      activeSessions: new Set(Array.from(this.sessionMemory.keys()).map(key => key.split('_')[0])).size,
-      totalCachedItems: this.sessionMemory.size,
-      memoryUsage: JSON.stringify(Array.from(this.sessionMemory.entries())).length,
+      activeSessions: new Set(entries.map(([key]) => key.split('_')[0])).size,
+      totalCachedItems: entries.length,
+      memoryUsage: JSON.stringify(entries).length,
       agentsEnabled: ['TopicAnalysis', 'QuestionGeneration'],
       planningEnabled: false,
       validationEnabled: false,
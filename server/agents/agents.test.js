@@ -0,0 +1,115 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+
+// Replay the recorded responses in server/fixtures, so a prompt change without a new recording fails here
+process.env.LLM_PROVIDER = 'mock';
+process.env.LLM_MOCK_MODE = 'replay';
+process.env.SESSION_STORE = 'memory';
+
+const config = {
+  topic: 'Distributed Caching',
+  style: 'technical',
+  experienceLevel: 'senior',
+  companyName: 'Acme',
+  duration: 30
+};
+
+const question = 'How would you keep a Redis cache consistent with the database when the same record is updated from several services?';
+
+const response = 'I would use cache-aside: services read through the cache and, on a write, update the database first and then ' +
+  'delete the cache key instead of updating it, so a racing reader refills it from the database. To cover a delete that ' +
+  'fails, every key gets a TTL, and for hot records I would publish invalidation events on a queue that all services consume.';
+
+let llmService;
+let agents;
+
+beforeAll(async () => {
+  const { LLMQuestionGenerator } = await import('../llmService.js');
+  const { TopicAnalysisAgent } = await import('./topicAnalysisAgent.js');
+  const { QuestionGenerationAgent } = await import('./questionGenerationAgent.js');
+  const { ResponseAnalysisAgent } = await import('./responseAnalysisAgent.js');
+  const { OverallAnalysisAgent } = await import('./overallAnalysisAgent.js');
+
+  llmService = new LLMQuestionGenerator();
+  agents = {
+    topicAnalysis: new TopicAnalysisAgent(llmService),
+    questionGeneration: new QuestionGenerationAgent(llmService),
+    responseAnalysis: new ResponseAnalysisAgent(llmService),
+    overallAnalysis: new OverallAnalysisAgent(llmService)
+  };
+});
+
+describe('agents replaying recorded responses', () => {
+  it('TopicAnalysisAgent breaks the topic into concepts and keywords', async () => {
+    const result = await agents.topicAnalysis.execute(config);
+
+    expect(result.success).toBe(true);
+    expect(result.metadata.topic).toBe('Distributed Caching');
+    expect(result.analysis.mainConcepts).toContain('cache invalidation');
+    expect(result.analysis.relevanceKeywords).toContain('redis');
+    expect(result.analysis.focusAreas.length).toBeGreaterThan(0);
+  });
+
+  it('QuestionGenerationAgent writes a question that matches the topic keywords', async () => {
+    const result = await agents.questionGeneration.execute({
+      questionSpec: {
+        concepts: ['cache invalidation', 'consistency'],
+        difficulty: 'hard',
+        focusArea: 'consistency between cache and database',
+        questionType: 'scenario',
+        avoidTopics: []
+      },
+      topicAnalysis: {
+        analysis: {
+          mainConcepts: ['cache invalidation', 'consistency'],
+          skills: ['system design'],
+          technologies: ['Redis'],
+          relevanceKeywords: ['redis', 'cache']
+        }
+      },
+      config
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.question).toBe(question);
+    expect(result.metadata.topicRelevance).toBe('high');
+    expect(result.metadata.difficulty).toBe('hard');
+  });
+
+  it('ResponseAnalysisAgent scores the answer', async () => {
+    const result = await agents.responseAnalysis.execute({ question, response, config, questionNumber: 1 });
+
+    expect(result.success).toBe(true);
+    expect(result.analysis.score).toBe(84);
+    expect(result.analysis.responseAnalysis).toMatchObject({ technical: 88, relevance: 90 });
+    expect(result.analysis.exemplar.coveredConcepts).toEqual(['cache-aside', 'delete on write', 'TTL']);
+    expect(result.metadata.responseLength).toBe(response.length);
+  });
+
+  it('OverallAnalysisAgent summarizes the session', async () => {
+    const result = await agents.overallAnalysis.execute({
+      responseAnalyses: [{
+        question,
+        response,
+        analysis: {
+          responseAnalysis: { clarity: 82, structure: 80, technical: 88, communication: 81, confidence: 79, relevance: 90 },
+          score: 84,
+          strengths: ['Chooses delete over update on write'],
+          improvements: ['Explain the race the delete avoids']
+        }
+      }],
+      config,
+      sessionMetadata: { questionsAnswered: 1 }
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.analysis.overallScore).toBe(82);
+    expect(result.analysis.performanceLevel).toBe('good');
+    expect(result.analysis.trends.consistency).toBe('high');
+    expect(result.metadata.totalResponses).toBe(1);
+  });
+
+  it('fails in replay mode when a prompt has no recording', async () => {
+    await expect(agents.topicAnalysis.execute({ ...config, topic: 'Compilers' }))
+      .rejects.toThrow(/No recorded response for TopicAnalysisAgent prompt/);
+  });
+});
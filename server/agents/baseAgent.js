@@ -13,9 +13,10 @@ export class BaseAgent {
   }
 
   /**
-   * Execute the agent's main function with robust error handling
+   * Execute the agent's main function with robust error handling.
+   * onToken, when given, receives the raw response as it streams in.
    */
-  async execute(input, context = {}) {
+  async execute(input, context = {}, onToken = null) {
     try {
       console.log(`[${this.name}] Executing with input:`, Object.keys(input));
       
@@ -30,7 +31,7 @@ export class BaseAgent {
       
       const response = await this.llmService.makeAPICall([
         { role: 'user', content: prompt }
-      ], enhancedSystemPrompt);
+      ], enhancedSystemPrompt, this.name, onToken);
       
       // Process and validate response with robust parsing
       const result = this.processResponse(response, input, context);
@@ -1,4 +1,7 @@
 import { BaseAgent } from './baseAgent.js';
+import { CompanyPackUtils } from '../utils/companyPack.js';
+import { LoopContextUtils } from '../utils/loopContext.js';
+import { RubricUtils } from '../utils/rubric.js';
 
 /**
  * Overall Analysis Agent
@@ -55,7 +58,24 @@ Provide strategic, actionable insights for interview improvement.`;
       scores: analysis.analysis.responseAnalysis,
       overallScore: analysis.analysis.score,
       strengths: analysis.analysis.strengths,
-      improvements: analysis.analysis.improvements
+      improvements: analysis.analysis.improvements,
+      ...(analysis.analysis.rubricScores && {
+        rubricScores: analysis.analysis.rubricScores.map(item => ({ name: item.name, score: item.score, level: item.level }))
+      }),
+      ...(analysis.analysis.conceptCoverage && { missedConcepts: analysis.analysis.conceptCoverage.missed }),
+      ...(analysis.analysis.codeReview && { codeReview: analysis.analysis.codeReview }),
+      ...(analysis.analysis.designReview && { designReview: analysis.analysis.designReview }),
+      ...(analysis.analysis.star && {
+        star: { score: analysis.analysis.star.score, missing: analysis.analysis.star.missing, weak: analysis.analysis.star.weak }
+      }),
+      // Spoken answers carry pace, filler and pause measurements from the voice interview
+      ...(analysis.delivery && {
+        delivery: {
+          wordsPerMinute: analysis.delivery.wordsPerMinute,
+          fillers: analysis.delivery.fillers,
+          longPauses: analysis.delivery.longPauses
+        }
+      })
     }));
 
     return `Analyze the overall interview performance based on individual response analyses:
@@ -71,7 +91,20 @@ INTERVIEW CONTEXT:
 INDIVIDUAL RESPONSE ANALYSES:
 ${JSON.stringify(analysisData, null, 2)}
 
-SESSION METADATA:
+${CompanyPackUtils.hasPack(config) ? `${CompanyPackUtils.formatRubricForPrompt(config) || `COMPANY: ${config.companyPack.name}`}
+
+Judge overall readiness for ${config.companyPack.name} specifically: which of its rubric criteria and principles the candidate showed, and which are missing.
+
+` : ''}${RubricUtils.hasRubric(config) ? `${RubricUtils.formatForPrompt(config)}
+
+Base the strengths, improvements and recommendations on this rubric, naming the criteria where the candidate
+was strongest and the ones with the lowest level across answers.
+
+` : ''}${LoopContextUtils.isLaterRound(config) ? `${LoopContextUtils.formatForPrompt(config)}
+
+Note where answers in this round are consistent with, or contradict, what the candidate said in earlier rounds.
+
+` : ''}SESSION METADATA:
 ${JSON.stringify(sessionMetadata, null, 2)}
 
 ANALYSIS REQUIREMENTS:
@@ -84,6 +117,7 @@ ANALYSIS REQUIREMENTS:
 
 Focus on:
 - Performance consistency across questions
+- Speaking pace, filler words and long pauses, for answers that include delivery data
 - Improvement or decline trends during the interview
 - Adaptability to different question types
 - Overall readiness for the target role
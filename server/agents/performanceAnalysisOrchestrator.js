@@ -1,5 +1,11 @@
 import { ResponseAnalysisAgent } from './responseAnalysisAgent.js';
 import { OverallAnalysisAgent } from './overallAnalysisAgent.js';
+import { CodingSubmissionUtils } from '../utils/codingSubmission.js';
+import { SystemDesignUtils } from '../utils/systemDesign.js';
+import { StarAnalysisUtils } from '../utils/starAnalysis.js';
+import { RubricUtils } from '../utils/rubric.js';
+import { ExemplarUtils } from '../utils/exemplar.js';
+import { CaseStudyUtils } from '../utils/caseStudy.js';
 
 /**
  * Performance Analysis Orchestrator
@@ -20,19 +26,25 @@ export class PerformanceAnalysisOrchestrator {
   }
 
   /**
-   * Generate comprehensive interview performance analytics
+   * Generate comprehensive interview performance analytics.
+   * onProgress(event, data) hears 'review' as each answer is scored and 'overall' once the session summary is ready.
    */
-  async generateComprehensiveAnalytics({ responses, config }) {
+  async generateComprehensiveAnalytics({ responses, config, onProgress }) {
     const sessionId = this.getSessionId(config, responses);
     
     try {
       console.log(`[PerformanceOrchestrator] Starting comprehensive analysis for session ${sessionId}`);
       
       // Step 1: Analyze each individual response
-      const responseAnalyses = await this.analyzeIndividualResponses(responses, config);
+      const responseAnalyses = await this.analyzeIndividualResponses(responses, config, onProgress);
       
       // Step 2: Generate overall performance analysis
       const overallAnalysis = await this.generateOverallAnalysis(responseAnalyses, config, responses);
+      onProgress?.('overall', {
+        strengths: overallAnalysis.strengths,
+        improvements: overallAnalysis.improvements,
+        executiveSummary: overallAnalysis.executiveSummary
+      });
       
       // Step 3: Synthesize final analytics
       const finalAnalytics = this.synthesizeFinalAnalytics(responseAnalyses, overallAnalysis, config);
@@ -55,7 +67,7 @@ export class PerformanceAnalysisOrchestrator {
   /**
    * Analyze each individual response using the Response Analysis Agent
    */
-  async analyzeIndividualResponses(responses, config) {
+  async analyzeIndividualResponses(responses, config, onProgress) {
     console.log('[PerformanceOrchestrator] Analyzing individual responses');
     
     const responseAnalyses = [];
@@ -70,7 +82,12 @@ export class PerformanceAnalysisOrchestrator {
           question: response.question,
           response: response.response,
           config,
-          questionNumber: i + 1
+          questionNumber: i + 1,
+          coding: response.coding,
+          diagram: response.diagram,
+          exemplar: response.exemplar,
+          // Case answers can draw on any exhibit shown so far, not just the one handed over with this question
+          exhibits: responses.slice(0, i + 1).flatMap(item => item.exhibits || [])
         });
         
         responseAnalyses.push({
@@ -78,6 +95,11 @@ export class PerformanceAnalysisOrchestrator {
           question: response.question,
           response: response.response,
           timestamp: response.timestamp,
+          coding: response.coding,
+          diagram: response.diagram,
+          delivery: response.delivery,
+          exemplar: response.exemplar,
+          exhibits: response.exhibits,
           analysis: analysisResult.analysis,
           metadata: analysisResult.metadata
         });
@@ -91,10 +113,46 @@ export class PerformanceAnalysisOrchestrator {
           question: response.question,
           response: response.response,
           timestamp: response.timestamp,
+          coding: response.coding,
+          diagram: response.diagram,
+          delivery: response.delivery,
+          exemplar: response.exemplar,
+          exhibits: response.exhibits,
           analysis: this.generateFallbackResponseAnalysis(response, config),
           metadata: { fallback: true, analyzedAt: new Date().toISOString() }
         });
       }
+      
+      // Correctness always comes from the sandboxed test run, whichever path produced the analysis
+      const latest = responseAnalyses[responseAnalyses.length - 1];
+      if (latest.coding) {
+        latest.analysis.codeReview = CodingSubmissionUtils.normalizeCodeReview(latest.analysis.codeReview, latest.coding);
+      }
+      if (SystemDesignUtils.hasDiagram(latest.diagram)) {
+        latest.analysis.designReview = SystemDesignUtils.normalizeDesignReview(latest.analysis.designReview, latest.diagram);
+      }
+      if (StarAnalysisUtils.isBehavioral(config) && !latest.coding) {
+        latest.analysis.star = StarAnalysisUtils.normalize(latest.analysis.star, latest.response);
+      }
+      // The answer's score is the rubric's weighted score so it matches the criteria shown to the candidate
+      if (RubricUtils.hasRubric(config)) {
+        latest.analysis.rubricScores = RubricUtils.normalizeScores(config, latest.analysis.rubricScores, latest.analysis.responseAnalysis, latest.analysis.score);
+        latest.analysis.score = RubricUtils.getWeightedScore(latest.analysis.rubricScores);
+      }
+      const exemplar = ExemplarUtils.normalize(latest.analysis.exemplar, latest.response, latest.exemplar);
+      latest.analysis.exemplar = exemplar?.exemplar;
+      latest.analysis.conceptCoverage = exemplar?.conceptCoverage;
+
+      onProgress?.('review', {
+        index: i,
+        total: responses.length,
+        review: {
+          questionId: latest.questionId,
+          question: latest.question,
+          score: latest.analysis.score,
+          feedback: latest.analysis.feedback
+        }
+      });
     }
     
     console.log(`[PerformanceOrchestrator] Completed analysis of ${responseAnalyses.length} responses`);
@@ -147,21 +205,46 @@ export class PerformanceAnalysisOrchestrator {
       feedback: analysis.analysis.feedback,
       strengths: analysis.analysis.strengths,
       improvements: analysis.analysis.improvements,
-      detailedScores: analysis.analysis.responseAnalysis
+      detailedScores: analysis.analysis.responseAnalysis,
+      ...(analysis.coding && {
+        coding: analysis.coding,
+        codeReview: analysis.analysis.codeReview
+      }),
+      ...(SystemDesignUtils.hasDiagram(analysis.diagram) && {
+        diagram: analysis.diagram,
+        designReview: analysis.analysis.designReview
+      }),
+      ...(CaseStudyUtils.hasExhibits(analysis.exhibits) && { exhibits: analysis.exhibits }),
+      ...(analysis.analysis.star && { star: analysis.analysis.star }),
+      ...(analysis.analysis.rubricScores && { rubricScores: analysis.analysis.rubricScores }),
+      ...(analysis.analysis.exemplar && {
+        exemplar: analysis.analysis.exemplar,
+        conceptCoverage: analysis.analysis.conceptCoverage
+      })
     }));
     
+    const codingAnalysis = CodingSubmissionUtils.summarize(responseAnalyses);
+    const rubricScores = RubricUtils.hasRubric(config)
+      ? RubricUtils.aggregate(config, responseAnalyses.map(analysis => analysis.analysis.rubricScores))
+      : [];
+    const graded = rubricScores.length > 0;
+    
     // Combine everything into final analytics
     return {
-      overallScore: overallAnalysis.overallScore,
+      overallScore: graded ? RubricUtils.getWeightedScore(rubricScores) : overallAnalysis.overallScore,
       performanceLevel: overallAnalysis.performanceLevel,
       strengths: overallAnalysis.strengths,
       improvements: overallAnalysis.improvements,
-      responseAnalysis: overallAnalysis.responseAnalysis,
+      responseAnalysis: graded
+        ? RubricUtils.toResponseAnalysis(config, rubricScores, overallAnalysis.responseAnalysis)
+        : overallAnalysis.responseAnalysis,
+      ...(graded && { rubricScores, rubricName: config.rubric.name }),
       trends: overallAnalysis.trends,
       recommendations: overallAnalysis.recommendations,
       executiveSummary: overallAnalysis.executiveSummary,
       nextSteps: overallAnalysis.nextSteps,
       questionReviews,
+      ...(codingAnalysis && { codingAnalysis }),
       metadata: {
         generatedAt: new Date().toISOString(),
         analysisMethod: 'agentic',
@@ -247,17 +330,21 @@ export class PerformanceAnalysisOrchestrator {
       feedback: "Good response with room for improvement."
     }));
     
+    const responseAnalysis = {
+      clarity: 75,
+      structure: 70,
+      technical: 80,
+      communication: 75,
+      confidence: 70
+    };
+    const rubricScores = RubricUtils.normalizeScores(config, [], responseAnalysis, 75);
+    
     return {
-      overallScore: 75,
+      overallScore: rubricScores.length > 0 ? RubricUtils.getWeightedScore(rubricScores) : 75,
       strengths: ["Clear communication", "Good technical understanding"],
       improvements: ["Add more specific examples", "Structure responses better"],
-      responseAnalysis: {
-        clarity: 75,
-        structure: 70,
-        technical: 80,
-        communication: 75,
-        confidence: 70
-      },
+      responseAnalysis,
+      ...(rubricScores.length > 0 && { rubricScores, rubricName: config.rubric.name }),
       questionReviews,
       metadata: {
         generatedAt: new Date().toISOString(),
@@ -1,4 +1,8 @@
 import { BaseAgent } from './baseAgent.js';
+import { CandidateContextUtils } from '../utils/candidateContext.js';
+import { CompanyPackUtils } from '../utils/companyPack.js';
+import { LoopContextUtils } from '../utils/loopContext.js';
+import { PersonaUtils } from '../utils/interviewerPersona.js';
 
 /**
  * Question Generation Agent
@@ -43,7 +47,13 @@ Generate questions that are:
   }
 
   preparePrompt(input, context) {
-    const { questionSpec, topicAnalysis, config } = input;
+    const { questionSpec, topicAnalysis, config, previousResponses = [] } = input;
+    const candidateContext = CandidateContextUtils.formatForPrompt(config);
+    const companyContext = CompanyPackUtils.formatForPrompt(config);
+    const loopContext = LoopContextUtils.isLaterRound(config) ? LoopContextUtils.formatForPrompt(config) : '';
+    const personaContext = PersonaUtils.formatForPrompt(config);
+    const lastExchange = previousResponses[previousResponses.length - 1];
+    const anchor = questionSpec.anchor;
 
     return `Generate a specific interview question based on these specifications:
 
@@ -61,13 +71,32 @@ INTERVIEW CONTEXT:
 - Style: ${config.style}
 - Experience Level: ${config.experienceLevel}
 - Company: ${config.companyName || 'General'}
+${candidateContext ? `
+${candidateContext}
+` : ''}${companyContext ? `
+${companyContext}
 
+Ask the question the way this company would: follow its question style and, where it fits, probe one of its principles or values.
+` : ''}${loopContext ? `
+${loopContext}
+
+This interviewer has read the earlier rounds. Where it fits, refer back to something the candidate said there and probe it from this round's angle.
+` : ''}${personaContext ? `
+${personaContext}
+${lastExchange ? `
+PREVIOUS EXCHANGE:
+Q: ${lastExchange.question}
+A: ${lastExchange.response}
+` : ''}
+Word the question the way this interviewer would.
+` : ''}
 REQUIREMENTS:
 1. Create a question that directly addresses the specified concepts: ${questionSpec.concepts?.join(', ')}
 2. Match the difficulty level: ${questionSpec.difficulty}
 3. Focus on: ${questionSpec.focusArea}
 4. Question type: ${questionSpec.questionType}
-5. Avoid these topics: ${questionSpec.avoidTopics?.join(', ') || 'None'}
+5. Avoid these topics: ${questionSpec.avoidTopics?.join(', ') || 'None'}${anchor ? `
+6. Ground the question in this ${anchor.type === 'project' ? "item from the candidate's resume" : 'requirement of the target role'}: "${anchor.detail}"${anchor.type === 'project' ? ' - ask about what they actually built, decided or learned there' : ' - ask how their experience meets it'}` : ''}
 
 The question should be:
 - Specific to the topic "${config.topic}"
@@ -161,6 +190,10 @@ Remember: Return ONLY the JSON object without any markdown formatting or code bl
   generateFallbackQuestion(input) {
     const { config, questionSpec } = input;
     
+    if (questionSpec?.anchor) {
+      return CandidateContextUtils.createAnchoredQuestion(questionSpec.anchor);
+    }
+    
     const fallbackQuestions = {
       technical: {
         easy: [
@@ -1,4 +1,5 @@
 import { BaseAgent } from './baseAgent.js';
+import { DIFFICULTIES, STEP_DOWN_SCORE, STEP_UP_SCORE, getNextDifficulty, getStartingDifficulty } from '../../shared/adaptiveDifficulty.js';
 
 /**
  * Question Planning Agent
@@ -66,7 +67,7 @@ INTERVIEW CONFIG:
 INTERVIEW PROGRESS:
 - Current Question Number: ${questionNumber}
 - Previous Questions: ${previousQuestions.length > 0 ? previousQuestions.join('; ') : 'None'}
-- Previous Response Quality: ${this.assessResponseQuality(previousResponses)}
+- Previous Response Quality: ${this.assessResponseQuality(previousResponses).summary}
 
 REQUIREMENTS:
 1. Plan the next question to build logically on previous ones
@@ -79,13 +80,61 @@ Provide a detailed plan for the next question including specific requirements an
   }
 
   assessResponseQuality(responses) {
-    if (responses.length === 0) return 'No previous responses';
-    
-    const avgLength = responses.reduce((sum, r) => sum + r.response.length, 0) / responses.length;
-    
-    if (avgLength > 200) return 'Detailed responses - can increase complexity';
-    if (avgLength > 100) return 'Moderate responses - maintain current level';
-    return 'Brief responses - may need simpler questions';
+    if (responses.length === 0) {
+      return { averageScore: null, latestScore: null, summary: 'No previous responses' };
+    }
+
+    const scores = responses.map(response => this.scoreResponse(response));
+    const averageScore = Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+    const latestScore = scores[scores.length - 1];
+
+    let summary = 'Brief or vague responses - may need simpler questions';
+    if (latestScore >= STEP_UP_SCORE) summary = 'Strong responses - can increase complexity';
+    else if (latestScore >= STEP_DOWN_SCORE) summary = 'Moderate responses - maintain current level';
+
+    return { averageScore, latestScore, summary: `${summary} (latest ${latestScore}/100, average ${averageScore}/100)` };
+  }
+
+  /**
+   * Quick 0-100 score for an answer: coach-mode feedback when the client has it, otherwise a content heuristic
+   */
+  scoreResponse(response) {
+    if (typeof response.liveFeedback?.score === 'number') {
+      return response.liveFeedback.score;
+    }
+
+    const text = (response.response || '').toLowerCase();
+    const words = text.split(/\s+/).filter(Boolean).length;
+    let score = 45 + Math.min(25, Math.round(words / 6));
+
+    if (/for example|for instance|such as|e\.g\.|in my (last|previous) (role|project)/.test(text)) score += 10;
+    if (/\d/.test(text)) score += 5;
+    if (['first', 'second', 'because', 'therefore', 'however', 'finally'].some(keyword => text.includes(keyword))) score += 5;
+    if (words >= 60) score += 5;
+
+    return Math.min(95, score);
+  }
+
+  /**
+   * Pick the next question's difficulty from the previous one and how well it was answered
+   */
+  recommendDifficulty(previousResponses, experienceLevel) {
+    const latest = previousResponses[previousResponses.length - 1];
+
+    if (!latest?.difficulty || !DIFFICULTIES.includes(latest.difficulty)) {
+      return { difficulty: getStartingDifficulty(experienceLevel), reason: 'Starting difficulty for experience level' };
+    }
+
+    const { latestScore } = this.assessResponseQuality(previousResponses);
+    const difficulty = getNextDifficulty(latest.difficulty, latestScore);
+
+    if (latestScore >= STEP_UP_SCORE) {
+      return { difficulty, reason: `Strong answer (${latestScore}) - stepping up` };
+    }
+    if (latestScore < STEP_DOWN_SCORE) {
+      return { difficulty, reason: `Weak answer (${latestScore}) - stepping down` };
+    }
+    return { difficulty, reason: `Solid answer (${latestScore}) - holding level` };
   }
 
   processResponse(response, input, context) {
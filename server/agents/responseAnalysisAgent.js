@@ -1,4 +1,11 @@
 import { BaseAgent } from './baseAgent.js';
+import { CodingSubmissionUtils } from '../utils/codingSubmission.js';
+import { SystemDesignUtils } from '../utils/systemDesign.js';
+import { StarAnalysisUtils } from '../utils/starAnalysis.js';
+import { CompanyPackUtils } from '../utils/companyPack.js';
+import { RubricUtils } from '../utils/rubric.js';
+import { ExemplarUtils } from '../utils/exemplar.js';
+import { CaseStudyUtils } from '../utils/caseStudy.js';
 
 /**
  * Response Analysis Agent
@@ -35,27 +42,101 @@ Always respond with a JSON object containing:
   "reasoning": "explanation of the analysis"
 }
 
+When a code submission is included, also add:
+  "codeReview": {
+    "correctness": number (0-100),
+    "codeQuality": number (0-100),
+    "feedback": "review of readability, naming, complexity and edge-case handling"
+  }
+
+When a whiteboard diagram is included, also add:
+  "designReview": {
+    "components": "critique of the chosen components and anything missing",
+    "dataFlow": "critique of how requests and data move between components",
+    "scaling": "critique of scaling, bottlenecks and single points of failure",
+    "score": number (0-100)
+  }
+
+For behavioral interviews, also add a STAR breakdown. Each component quotes the part of the answer that covers it
+(empty string when absent) and rates it "strong", "weak" or "missing":
+  "star": {
+    "situation": { "strength": "strong|weak|missing", "excerpt": "quoted text", "feedback": "how to improve this part" },
+    "task": { ... },
+    "action": { ... },
+    "result": { ... }
+  }
+
+When a scoring rubric is included, also score every criterion against its level descriptors:
+  "rubricScores": [
+    { "criterionId": "id from the rubric", "score": number (0-100), "feedback": "one sentence on this criterion" }
+  ]
+
+Always add a model answer showing what a strong answer at the candidate's experience level looks like, the key
+concepts it relies on (short phrases that appear in the answer) and which of them the candidate's response covered:
+  "exemplar": {
+    "answer": "model answer of 120-200 words",
+    "keyConcepts": ["concept 1", "concept 2"],
+    "coveredConcepts": ["concept 1"]
+  }
+When a model answer from the question bank is provided, copy it and its key concepts unchanged and only decide "coveredConcepts".
+
 Be specific and constructive in your analysis.`;
 
     super('ResponseAnalysisAgent', llmService, systemPrompt);
   }
 
   preparePrompt(input, context) {
-    const { question, response, config, questionNumber } = input;
+    const { question, response, config, questionNumber, coding, diagram, exemplar, exhibits } = input;
 
     return `Analyze this interview response in detail:
 
 QUESTION: "${question}"
 
 RESPONSE: "${response}"
+${coding ? `
+${CodingSubmissionUtils.formatForPrompt(coding)}
+
+This is a coding challenge. The response above is the candidate's explanation of their approach.
+Base "technical" on the code and test results, and include a "codeReview" object covering correctness
+(how far the test results and edge-case handling show the solution works) and code quality
+(readability, naming, structure, time/space complexity).
+` : ''}${SystemDesignUtils.hasDiagram(diagram) ? `
+${SystemDesignUtils.formatForPrompt(diagram)}
 
+This is a system design question answered on a whiteboard. Judge the diagram together with the response
+and include a "designReview" object critiquing the components, the data flow between them and the
+scaling choices (load distribution, caching, storage, asynchronous processing, failure points).
+` : ''}${CaseStudyUtils.hasExhibits(exhibits) ? `
+${CaseStudyUtils.formatForPrompt(exhibits)}
+
+${CaseStudyUtils.formatGradingNote()}
+` : ''}${StarAnalysisUtils.isBehavioral(config) && !coding ? `
+This is a behavioral question. Split the response into its Situation, Task, Action and Result parts and
+include a "star" object. Mark a part "weak" when it is vague, too short, hides the candidate's own role
+behind "we", or (for Result) gives no measurable outcome.
+` : ''}
 INTERVIEW CONTEXT:
 - Topic: ${config.topic}
 - Style: ${config.style}
 - Experience Level: ${config.experienceLevel}
 - Question Number: ${questionNumber}
 - Company: ${config.companyName || 'General'}
+${CompanyPackUtils.formatRubricForPrompt(config) ? `
+${CompanyPackUtils.formatRubricForPrompt(config)}
+
+Weigh the scores and feedback against this rubric, and name the criteria the response meets or misses.
+` : ''}${RubricUtils.hasRubric(config) ? `
+${RubricUtils.formatForPrompt(config)}
+
+Grade the response against each criterion above, using the level descriptors to pick the score band,
+and include a "rubricScores" entry for every criterion.
+` : ''}${ExemplarUtils.hasExemplar(exemplar) ? `
+${ExemplarUtils.formatForPrompt(exemplar)}
 
+Use this model answer in "exemplar", and count a key concept as covered when the response explains it, even in other words.
+` : `
+Write the "exemplar" as a strong ${config.experienceLevel} candidate would answer this question.
+`}
 ANALYSIS REQUIREMENTS:
 1. Clarity: How clear and understandable is the response?
 2. Structure: Is the response well-organized and logical?
@@ -1,4 +1,6 @@
 import { BaseAgent } from './baseAgent.js';
+import { CandidateContextUtils } from '../utils/candidateContext.js';
+import { CompanyPackUtils } from '../utils/companyPack.js';
 
 /**
  * Topic Analysis Agent
@@ -13,7 +15,8 @@ Your role is to:
 2. Identify relevant skills and technologies
 3. Determine appropriate focus areas for questions
 4. Consider the experience level and interview style
-5. Provide a structured analysis that guides question generation
+5. When a resume or job description is provided, prioritize the candidate's real projects and the role's stated requirements
+6. Provide a structured analysis that guides question generation
 
 CRITICAL: Always respond with ONLY a valid JSON object. Do NOT use markdown code blocks, backticks, or any other formatting. Return raw JSON only.
 
@@ -35,6 +38,8 @@ Be thorough and specific to ensure generated questions will be highly relevant.`
 
   preparePrompt(input, context) {
     const { topic, style, experienceLevel, companyName } = input;
+    const candidateContext = CandidateContextUtils.formatForPrompt(input);
+    const companyContext = CompanyPackUtils.formatForPrompt(input);
     
     return `Analyze this interview topic and provide a structured breakdown:
 
@@ -42,7 +47,15 @@ Topic: "${topic}"
 Interview Style: ${style}
 Experience Level: ${experienceLevel}
 Company: ${companyName || 'General'}
+${candidateContext ? `
+${candidateContext}
 
+Use the resume and role details above: focus areas should map to the role's requirements and to the projects and technologies the candidate has actually worked with.
+` : ''}${companyContext ? `
+${companyContext}
+
+Include focus areas that let the candidate show the company's principles and values, in the style its rounds use.
+` : ''}
 Please provide a comprehensive analysis that will guide the generation of highly relevant interview questions. Focus on:
 
 1. Core concepts that should be covered
@@ -217,6 +230,19 @@ Remember: Return ONLY the JSON object without any markdown formatting or code bl
       };
     }
     
+    // Pull skills and requirements straight from the resume / job description when provided
+    if (CandidateContextUtils.hasContext(input)) {
+      const profileSkills = [...(input.jobDescription?.skills || []), ...(input.resume?.skills || [])];
+      const requirements = input.jobDescription?.requirements || [];
+
+      analysis = {
+        ...analysis,
+        skills: [...new Set([...profileSkills, ...analysis.skills])].slice(0, 10),
+        focusAreas: [...requirements.slice(0, 3), ...analysis.focusAreas],
+        relevanceKeywords: [...new Set([...profileSkills.map(skill => skill.toLowerCase()), ...analysis.relevanceKeywords])]
+      };
+    }
+    
     console.log(`[TopicAnalysisAgent] Generated fallback analysis for topic: ${topic}`);
     
     return {
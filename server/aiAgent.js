@@ -3,6 +3,7 @@ import WebSocket from 'ws';
 import { Readable } from 'stream';
 import dotenv from 'dotenv';
 import { LLMQuestionGenerator } from './llmService.js';
+import { PersonaUtils } from './utils/interviewerPersona.js';
 
 dotenv.config();
 
@@ -155,9 +156,36 @@ export class MultiProviderAIInterviewAgent {
         const data = JSON.parse(new TextDecoder().decode(payload));
         console.log(`📨 Data received from ${participant?.identity}:`, data);
         
+        // The candidate started talking over the interviewer: stop speaking and listen to them
+        if (data.type === 'user_barge_in') {
+          console.log('🗣️ Candidate barged in, stopping speech');
+          sessionData.bargedIn = true;
+          sessionData.isAISpeaking = false;
+          sessionData.isListening = true;
+          sessionData.conversationHistory.push({
+            speaker: 'user',
+            message: 'Cut in while the interviewer was speaking',
+            timestamp: Date.now(),
+            type: 'barge-in'
+          });
+        }
+
         // Handle user turn ended signal
         if (data.type === 'user_turn_ended') {
           console.log('🎤 User turn ended signal received');
+          sessionData.bargedIn = false;
+
+          // The candidate's browser cut the answer short on the persona's behalf; say so before responding
+          if (data.interjection) {
+            console.log(`✋ Interviewer interjection: "${data.interjection}"`);
+            await this.speakText(data.interjection, sessionData);
+            sessionData.conversationHistory.push({
+              speaker: 'ai',
+              message: data.interjection,
+              timestamp: Date.now(),
+              type: 'interjection'
+            });
+          }
           
           // Check if we have a final transcript to process
           if (sessionData.lastFinalTranscript && sessionData.lastFinalTranscript.trim().length > 0) {
@@ -239,6 +267,7 @@ export class MultiProviderAIInterviewAgent {
         conversationHistory: [],
         isAISpeaking: false,
         isListening: false,
+        bargedIn: false, // The candidate cut in; stay quiet until they end their turn
         lastFinalTranscript: '', // Store the last complete transcript
         provider: this.provider
       };
@@ -552,7 +581,7 @@ export class MultiProviderAIInterviewAgent {
       `Welcome! I'm here to help you practice your interview skills using ${providerName} technology. We'll be doing a ${config.style} interview about ${config.topic} today.`
     ];
     
-    const greeting = greetings[Math.floor(Math.random() * greetings.length)];
+    const greeting = PersonaUtils.getGreeting(config) || greetings[Math.floor(Math.random() * greetings.length)];
     const readyCheck = "Are you ready to begin? Just say 'yes' or 'I'm ready' when you'd like to start!";
     
     return `${greeting} ${readyCheck}`;
@@ -562,6 +591,11 @@ export class MultiProviderAIInterviewAgent {
    * Convert text to speech using the selected provider
    */
   async speakText(text, sessionData) {
+    if (sessionData.bargedIn) {
+      console.log(`🤐 Candidate has the floor, not speaking: "${text.substring(0, 50)}..."`);
+      return;
+    }
+
     try {
       sessionData.isAISpeaking = true;
       sessionData.isListening = false;
@@ -604,7 +638,8 @@ export class MultiProviderAIInterviewAgent {
         },
         body: JSON.stringify({
           model: 'tts-1',
-          voice: 'nova',
+          voice: PersonaUtils.getVoice(sessionData.config, 'openai')?.voice || 'nova',
+          speed: PersonaUtils.getVoice(sessionData.config, 'openai')?.speed || 1.0,
           input: text,
           response_format: 'wav'
         })
@@ -630,16 +665,19 @@ export class MultiProviderAIInterviewAgent {
    */
   async speakWithGoogle(text, sessionData) {
     try {
+      const personaVoice = PersonaUtils.getVoice(sessionData.config, 'google');
       const [response] = await this.ttsClient.synthesizeSpeech({
         input: { text },
         voice: {
           languageCode: 'en-US',
-          name: 'en-US-Neural2-F',
-          ssmlGender: 'FEMALE'
+          name: personaVoice?.name || 'en-US-Neural2-F',
+          ssmlGender: personaVoice?.ssmlGender || 'FEMALE'
         },
         audioConfig: {
           audioEncoding: 'LINEAR16',
-          sampleRateHertz: 48000
+          sampleRateHertz: 48000,
+          speakingRate: personaVoice?.speakingRate || 1.0,
+          pitch: personaVoice?.pitch || 0.0
         }
       });
       
@@ -666,6 +704,11 @@ export class MultiProviderAIInterviewAgent {
       const frameSize = 1920; // 40ms at 48kHz mono
       
       for (let i = 0; i < audioData.length; i += frameSize * 2) {
+        if (sessionData.bargedIn) {
+          console.log('✋ Playback cut off by the candidate');
+          break;
+        }
+
         const frameData = audioData.slice(i, i + frameSize * 2);
         
         // Convert to Float32Array for LiveKit audio source
@@ -834,14 +877,22 @@ export class MultiProviderAIInterviewAgent {
    * Generate response feedback using the selected provider
    */
   async generateResponseFeedback(question, response, config) {
+    // Some personas (the silent note-taker) move straight on without reacting
+    const feedbackStyle = PersonaUtils.getFeedbackStyle(config);
+    if (!feedbackStyle) {
+      return null;
+    }
+
     try {
-      const prompt = `As an AI interviewer, provide brief, encouraging feedback (1-2 sentences) for this interview response:
+      const prompt = `As an AI interviewer, provide brief feedback (1-2 sentences) for this interview response:
 
 Question: "${question}"
 Response: "${response}"
 Interview Context: ${config.style} interview for ${config.topic}, ${config.experienceLevel} level
-
-Provide constructive, positive feedback that acknowledges their response and transitions to the next question. Keep it conversational and encouraging.`;
+${PersonaUtils.getPersona(config) ? `
+${PersonaUtils.formatForPrompt(config)}
+` : ''}
+${feedbackStyle}`;
 
       let feedback;
 
@@ -851,7 +902,7 @@ Provide constructive, positive feedback that acknowledges their response and tra
       } else {
         // Use the existing LLM service as fallback
         const messages = [{ role: 'user', content: prompt }];
-        feedback = await this.llmService.makeAPICall(messages);
+        feedback = await this.llmService.makeAPICall(messages, '', 'InterviewerFeedback');
       }
       
       return feedback;
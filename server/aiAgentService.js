@@ -87,7 +87,9 @@ export class AIAgentService {
         VOICE_AGENT_PROVIDER: this.provider,
         INTERVIEW_ROOM: roomName,
         INTERVIEW_CONFIG: JSON.stringify(interviewConfig),
-        LLM_PROVIDER: process.env.LLM_PROVIDER || 'gemini'
+        LLM_PROVIDER: process.env.LLM_PROVIDER || 'gemini',
+        // Agents live for one room; only the server process writes the session files
+        SESSION_STORE: 'memory'
       };
 
       // Add provider-specific environment variables
@@ -0,0 +1,86 @@
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { JsonFileWriter } from './jsonFileWriter.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Interview History Store
+ * Persists completed interview sessions to a JSON file so history can be shared across devices
+ */
+export class InterviewHistoryStore {
+  constructor(filePath) {
+    this.filePath = filePath || process.env.HISTORY_STORE_FILE || join(__dirname, 'data', 'history.json');
+    this.sessions = null;
+    this.writer = new JsonFileWriter(this.filePath);
+  }
+
+  /**
+   * Load sessions from disk on first access
+   */
+  async load() {
+    if (this.sessions) {
+      return this.sessions;
+    }
+
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(content);
+      this.sessions = new Map((parsed.sessions || []).map(session => [session.id, session]));
+      console.log(`[HistoryStore] Loaded ${this.sessions.size} sessions from ${this.filePath}`);
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        console.error('[HistoryStore] Failed to read history file, starting empty:', error);
+      }
+      this.sessions = new Map();
+    }
+
+    return this.sessions;
+  }
+
+  /**
+   * Write sessions to disk, serializing concurrent writes
+   */
+  async persist() {
+    return this.writer.write(JSON.stringify({ sessions: Array.from(this.sessions.values()) }, null, 2));
+  }
+
+  async saveSession(session) {
+    if (!session || !session.id || !session.config) {
+      throw new Error('Session must include an id and config');
+    }
+
+    const sessions = await this.load();
+    sessions.set(session.id, session);
+    await this.persist();
+
+    return session;
+  }
+
+  async getSession(id) {
+    const sessions = await this.load();
+    return sessions.get(id) || null;
+  }
+
+  async listSessions({ style, experienceLevel } = {}) {
+    const sessions = await this.load();
+
+    return Array.from(sessions.values())
+      .filter(session => !style || session.config.style === style)
+      .filter(session => !experienceLevel || session.config.experienceLevel === experienceLevel)
+      .sort((a, b) => (b.completedAt || 0) - (a.completedAt || 0));
+  }
+
+  async deleteSession(id) {
+    const sessions = await this.load();
+    const deleted = sessions.delete(id);
+
+    if (deleted) {
+      await this.persist();
+    }
+
+    return deleted;
+  }
+}
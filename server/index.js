@@ -5,6 +5,8 @@ import { LLMQuestionGenerator } from './llmService.js';
 import { LiveKitService } from './livekitService.js';
 import { VoiceInterviewService } from './voiceInterviewService.js';
 import { AIAgentService } from './aiAgentService.js';
+import { InterviewHistoryStore } from './historyStore.js';
+import { StreamingUtils } from './utils/streaming.js';
 
 dotenv.config();
 
@@ -13,6 +15,9 @@ const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
+// Whole sessions (answers, analytics, code, diagrams, exhibits) are posted to these routes, well past the 100kb default
+const LARGE_BODY_LIMIT = process.env.LARGE_BODY_LIMIT || '10mb';
+app.use(['/api/history', '/api/generate-question', '/api/analyze-response', '/api/generate-analytics'], express.json({ limit: LARGE_BODY_LIMIT }));
 app.use(express.json());
 
 // Initialize services
@@ -20,20 +25,27 @@ const questionGenerator = new LLMQuestionGenerator();
 const livekitService = new LiveKitService();
 const voiceInterviewService = new VoiceInterviewService(livekitService, questionGenerator);
 const aiAgentService = new AIAgentService();
+const historyStore = new InterviewHistoryStore();
 
 // Existing text-based interview routes
 app.post('/api/generate-question', async (req, res) => {
   try {
     const { config, previousQuestions, previousResponses, questionNumber } = req.body;
     
+    const difficultyPlan = questionGenerator.planDifficulty({
+      config,
+      previousResponses: previousResponses || []
+    });
+    
     const question = await questionGenerator.generateQuestion({
       config,
       previousQuestions: previousQuestions || [],
       previousResponses: previousResponses || [],
-      questionNumber: questionNumber || 1
+      questionNumber: questionNumber || 1,
+      difficulty: difficultyPlan?.difficulty
     });
     
-    res.json({ question });
+    res.json({ question, ...(difficultyPlan && { difficulty: difficultyPlan.difficulty }) });
   } catch (error) {
     console.error('Error generating question:', error);
     res.status(500).json({ 
@@ -65,12 +77,15 @@ app.post('/api/generate-followup', async (req, res) => {
 
 app.post('/api/analyze-response', async (req, res) => {
   try {
-    const { question, response, config } = req.body;
+    const { question, response, config, coding, diagram, exhibits } = req.body;
     
     const analysis = await questionGenerator.analyzeResponse({
       question,
       response,
-      config
+      config,
+      coding,
+      diagram,
+      exhibits
     });
     
     res.json({ analysis });
@@ -102,6 +117,173 @@ app.post('/api/generate-analytics', async (req, res) => {
   }
 });
 
+// Streaming variants: progress arrives as Server-Sent Events, then a 'done' event with the same body as the routes above
+app.post('/api/generate-question/stream', async (req, res) => {
+  const stream = StreamingUtils.openEventStream(res);
+
+  try {
+    const { config, previousQuestions, previousResponses, questionNumber } = req.body;
+
+    const difficultyPlan = questionGenerator.planDifficulty({
+      config,
+      previousResponses: previousResponses || []
+    });
+
+    const question = await questionGenerator.generateQuestion({
+      config,
+      previousQuestions: previousQuestions || [],
+      previousResponses: previousResponses || [],
+      questionNumber: questionNumber || 1,
+      difficulty: difficultyPlan?.difficulty,
+      onProgress: stream.send
+    });
+
+    stream.send('done', { question, ...(difficultyPlan && { difficulty: difficultyPlan.difficulty }) });
+  } catch (error) {
+    console.error('Error streaming question:', error);
+    stream.send('error', { error: 'Failed to generate question', message: error.message });
+  } finally {
+    stream.close();
+  }
+});
+
+app.post('/api/analyze-response/stream', async (req, res) => {
+  const stream = StreamingUtils.openEventStream(res);
+
+  try {
+    const { question, response, config, coding, diagram, exhibits } = req.body;
+
+    const analysis = await questionGenerator.analyzeResponse({
+      question,
+      response,
+      config,
+      coding,
+      diagram,
+      exhibits,
+      onProgress: stream.send
+    });
+
+    stream.send('done', { analysis });
+  } catch (error) {
+    console.error('Error streaming response analysis:', error);
+    stream.send('error', { error: 'Failed to analyze response', message: error.message });
+  } finally {
+    stream.close();
+  }
+});
+
+app.post('/api/generate-analytics/stream', async (req, res) => {
+  const stream = StreamingUtils.openEventStream(res);
+
+  try {
+    const { responses, config } = req.body;
+
+    const analytics = await questionGenerator.generateComprehensiveAnalytics({
+      responses,
+      config,
+      onProgress: stream.send
+    });
+
+    stream.send('done', { analytics });
+  } catch (error) {
+    console.error('Error streaming analytics:', error);
+    stream.send('error', { error: 'Failed to generate analytics', message: error.message });
+  } finally {
+    stream.close();
+  }
+});
+
+app.post('/api/hiring-committee', async (req, res) => {
+  try {
+    const { config, rounds } = req.body;
+
+    if (!Array.isArray(rounds) || rounds.length === 0) {
+      return res.status(400).json({ error: 'At least one completed round is required' });
+    }
+
+    const summary = await questionGenerator.generateHiringDecision({
+      config: config || {},
+      rounds
+    });
+
+    res.json({ summary });
+  } catch (error) {
+    console.error('Error generating hiring decision:', error);
+    res.status(500).json({
+      error: 'Failed to generate hiring decision',
+      message: error.message
+    });
+  }
+});
+
+// Interview history routes
+app.get('/api/history', async (req, res) => {
+  try {
+    const { style, experienceLevel } = req.query;
+    const sessions = await historyStore.listSessions({ style, experienceLevel });
+    res.json({ sessions });
+  } catch (error) {
+    console.error('Error listing interview history:', error);
+    res.status(500).json({
+      error: 'Failed to list interview history',
+      message: error.message
+    });
+  }
+});
+
+app.get('/api/history/:id', async (req, res) => {
+  try {
+    const session = await historyStore.getSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({
+        error: 'Session not found',
+        message: `No interview session with id ${req.params.id}`
+      });
+    }
+    res.json({ session });
+  } catch (error) {
+    console.error('Error loading interview session:', error);
+    res.status(500).json({
+      error: 'Failed to load interview session',
+      message: error.message
+    });
+  }
+});
+
+app.post('/api/history', async (req, res) => {
+  try {
+    const { session } = req.body;
+    if (!session || !session.id || !session.config) {
+      return res.status(400).json({
+        error: 'Invalid session',
+        message: 'Session with id and config is required'
+      });
+    }
+
+    const saved = await historyStore.saveSession(session);
+    res.json({ session: saved });
+  } catch (error) {
+    console.error('Error saving interview session:', error);
+    res.status(500).json({
+      error: 'Failed to save interview session',
+      message: error.message
+    });
+  }
+});
+
+app.delete('/api/history/:id', async (req, res) => {
+  try {
+    const deleted = await historyStore.deleteSession(req.params.id);
+    res.json({ deleted });
+  } catch (error) {
+    console.error('Error deleting interview session:', error);
+    res.status(500).json({
+      error: 'Failed to delete interview session',
+      message: error.message
+    });
+  }
+});
+
 // Enhanced voice interview routes with AI agent support
 app.post('/api/voice-interview/start', async (req, res) => {
   try {
@@ -241,7 +423,7 @@ app.post('/api/voice-interview/:sessionId/followup', async (req, res) => {
 app.post('/api/voice-interview/:sessionId/pause', async (req, res) => {
   try {
     const { sessionId } = req.params;
-    const result = voiceInterviewService.pauseInterview(sessionId);
+    const result = await voiceInterviewService.pauseInterview(sessionId);
     res.json(result);
   } catch (error) {
     console.error('Error pausing interview:', error);
@@ -255,7 +437,7 @@ app.post('/api/voice-interview/:sessionId/pause', async (req, res) => {
 app.post('/api/voice-interview/:sessionId/resume', async (req, res) => {
   try {
     const { sessionId } = req.params;
-    const result = voiceInterviewService.resumeInterview(sessionId);
+    const result = await voiceInterviewService.resumeInterview(sessionId);
     res.json(result);
   } catch (error) {
     console.error('Error resuming interview:', error);
@@ -294,7 +476,7 @@ app.post('/api/voice-interview/:sessionId/end', async (req, res) => {
 app.get('/api/voice-interview/:sessionId/status', async (req, res) => {
   try {
     const { sessionId } = req.params;
-    const status = voiceInterviewService.getSessionStatus(sessionId);
+    const status = await voiceInterviewService.getSessionStatus(sessionId);
     
     // Add AI agent status if available
     if (aiAgentService.isServiceEnabled()) {
@@ -407,9 +589,9 @@ app.post('/api/ai-agent/:roomName/stop', async (req, res) => {
 });
 
 // Admin routes
-app.get('/api/voice-interview/sessions/active', (req, res) => {
+app.get('/api/voice-interview/sessions/active', async (req, res) => {
   try {
-    const sessions = voiceInterviewService.getActiveSessions();
+    const sessions = await voiceInterviewService.getActiveSessions();
     const agents = aiAgentService.getActiveAgents();
     
     res.json({ 
@@ -479,7 +661,7 @@ app.get('/api/health', async (req, res) => {
       environment: process.env.NODE_ENV || 'development',
       services: {
         llm: {
-          configured: !!questionGenerator.apiKey,
+          configured: questionGenerator.isConfigured(),
           provider: questionGenerator.provider?.toUpperCase() || 'UNKNOWN',
           status: 'operational'
         },
@@ -516,13 +698,13 @@ app.get('/api/health', async (req, res) => {
     // Perform basic service checks
     try {
       // Test LLM service availability
-      if (questionGenerator.apiKey) {
+      if (questionGenerator.isConfigured()) {
         healthStatus.services.llm.lastCheck = new Date().toISOString();
       }
 
       // Test agentic framework stats
       if (questionGenerator.agenticOrchestrator) {
-        const agenticStats = questionGenerator.getAgenticStats();
+        const agenticStats = await questionGenerator.getAgenticStats();
         healthStatus.services.agentic.stats = agenticStats;
       }
 
@@ -667,7 +849,7 @@ process.on('SIGINT', async () => {
 });
 
 // Start server
-app.listen(PORT, () => {
+app.listen(PORT, async () => {
   console.log(`🚀 AI Interview Backend running on port ${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
   console.log(`ℹ️  System info: http://localhost:${PORT}/api/system/info`);
@@ -687,7 +869,7 @@ app.listen(PORT, () => {
   console.log(`🧠 Agentic Framework: ${questionGenerator.agenticOrchestrator ? 'ENABLED' : 'DISABLED'}`);
   
   if (questionGenerator.agenticOrchestrator) {
-    const stats = questionGenerator.getAgenticStats();
+    const stats = await questionGenerator.getAgenticStats();
     console.log(`📈 Agentic Stats:`, stats);
   }
 
@@ -0,0 +1,27 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * JSON File Writer
+ * Replaces a file's content atomically (temp file, then rename), one write at a time so concurrent saves land in order
+ */
+export class JsonFileWriter {
+  constructor(filePath) {
+    this.filePath = filePath;
+    this.queue = Promise.resolve();
+  }
+
+  /**
+   * Queue a write of the given text. A failed write rejects for its own caller only; the writes after it still run.
+   */
+  write(content) {
+    this.queue = this.queue.catch(() => {}).then(async () => {
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, content, 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+
+    return this.queue;
+  }
+}
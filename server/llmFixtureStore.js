@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { JsonFileWriter } from './jsonFileWriter.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// A fixture under this key answers every prompt for its agent
+const ANY_PROMPT = '*';
+
+/**
+ * LLM Fixture Store
+ * Responses for the mock provider, keyed by agent name and prompt hash, kept in a JSON file:
+ *   { "fixtures": { "TopicAnalysisAgent": { "<prompt hash>": "<response>", "*": "<response for any prompt>" } } }
+ */
+export class LLMFixtureStore {
+  constructor(filePath) {
+    this.filePath = filePath || process.env.LLM_FIXTURES_FILE || join(__dirname, 'fixtures', 'llm-fixtures.json');
+    this.fixtures = null;
+    this.writer = new JsonFileWriter(this.filePath);
+  }
+
+  /**
+   * Stable hash of everything sent to the model, so a recorded response only replays for the same prompt
+   */
+  static hashPrompt(messages, systemPrompt = '') {
+    return createHash('sha256')
+      .update(JSON.stringify({ systemPrompt, messages: messages.map(({ role, content }) => ({ role, content })) }))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  /**
+   * Load fixtures from disk on first access
+   */
+  async load() {
+    if (this.fixtures) {
+      return this.fixtures;
+    }
+
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      this.fixtures = JSON.parse(content).fixtures || {};
+      const count = Object.values(this.fixtures).reduce((sum, prompts) => sum + Object.keys(prompts).length, 0);
+      console.log(`[FixtureStore] Loaded ${count} fixtures from ${this.filePath}`);
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        console.error('[FixtureStore] Failed to read fixtures file, starting empty:', error);
+      }
+      this.fixtures = {};
+    }
+
+    return this.fixtures;
+  }
+
+  /**
+   * Write fixtures to disk, serializing concurrent writes
+   */
+  async persist() {
+    return this.writer.write(JSON.stringify({ fixtures: this.fixtures }, null, 2));
+  }
+
+  /**
+   * The recorded response for this exact prompt, else the agent's scripted response, else null
+   */
+  async find(agent, hash) {
+    const prompts = (await this.load())[agent] || {};
+    return prompts[hash] ?? prompts[ANY_PROMPT] ?? null;
+  }
+
+  async save(agent, hash, response) {
+    const fixtures = await this.load();
+    fixtures[agent] = { ...fixtures[agent], [hash]: response };
+    await this.persist();
+    return response;
+  }
+}
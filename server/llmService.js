@@ -1,12 +1,32 @@
+import { CandidateContextUtils } from './utils/candidateContext.js';
+import { CodingSubmissionUtils } from './utils/codingSubmission.js';
+import { SystemDesignUtils } from './utils/systemDesign.js';
+import { StarAnalysisUtils } from './utils/starAnalysis.js';
+import { CompanyPackUtils } from './utils/companyPack.js';
+import { LoopContextUtils } from './utils/loopContext.js';
+import { HiringCommitteeUtils } from './utils/hiringCommittee.js';
+import { PersonaUtils } from './utils/interviewerPersona.js';
+import { RubricUtils } from './utils/rubric.js';
+import { MockLLMUtils } from './utils/mockLLM.js';
+import { LLMFixtureStore } from './llmFixtureStore.js';
+import { StreamingUtils } from './utils/streaming.js';
+import { CaseStudyUtils } from './utils/caseStudy.js';
+
 export class LLMQuestionGenerator {
   constructor() {
-    this.apiKey = process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY || process.env.GEMINI_API_KEY;
-    this.provider = process.env.LLM_PROVIDER || 'openai'; // 'openai', 'anthropic', or 'gemini'
+    this.provider = process.env.LLM_PROVIDER || 'openai'; // 'openai', 'anthropic', 'gemini', 'local' or 'mock'
+    // The mock provider answers from fixtures; in record mode, prompts without one go to a real provider and are saved
+    this.mockMode = process.env.LLM_MOCK_MODE || 'scripted'; // 'scripted', 'replay' or 'record'
+    this.upstreamProvider = this.provider === 'mock' ? process.env.LLM_RECORD_PROVIDER || 'openai' : this.provider;
+    this.fixtureStore = this.provider === 'mock' ? new LLMFixtureStore() : null;
+    this.apiKey = this.getAPIKey();
     this.baseURL = this.getBaseURL();
+    // Local runtimes (llama.cpp server, Ollama, LM Studio, vLLM) serve whichever model they were started with
+    this.localModel = process.env.LOCAL_LLM_MODEL || 'llama3.1';
     
     // Debug API key loading
     console.log('=== API KEY DEBUGGING ===');
-    console.log(`[LLMService] Provider: ${this.provider}`);
+    console.log(`[LLMService] Provider: ${this.provider}${this.provider === 'mock' ? ` (${this.mockMode}${this.mockMode === 'record' ? ` from ${this.upstreamProvider}` : ''})` : ''}`);
     console.log(`[LLMService] API Key (first 5 chars): ${this.apiKey ? this.apiKey.substring(0, 5) : 'Not Set'}`);
     console.log(`[LLMService] API Key length: ${this.apiKey ? this.apiKey.length : 0}`);
     console.log(`[LLMService] Raw process.env.GEMINI_API_KEY (first 5 chars): ${process.env.GEMINI_API_KEY ? process.env.GEMINI_API_KEY.substring(0, 5) : 'Not Set'}`);
@@ -17,7 +37,7 @@ export class LLMQuestionGenerator {
     console.log('=== END API KEY DEBUGGING ===');
     
     // Initialize Gemini if using Google's API
-    if (this.provider === 'gemini') {
+    if (this.upstreamProvider === 'gemini') {
       this.initializeGemini();
     }
     
@@ -65,8 +85,26 @@ export class LLMQuestionGenerator {
     }
   }
 
+  getAPIKey() {
+    switch (this.upstreamProvider) {
+      case 'local':
+        return process.env.LOCAL_LLM_API_KEY || null;
+      default:
+        return process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY || process.env.GEMINI_API_KEY;
+    }
+  }
+
+  /**
+   * Local and mock providers work without an API key
+   */
+  isConfigured() {
+    return this.provider === 'local' || this.provider === 'mock' || !!this.apiKey;
+  }
+
   getBaseURL() {
-    switch (this.provider) {
+    switch (this.upstreamProvider) {
+      case 'local':
+        return `${(process.env.LOCAL_LLM_URL || 'http://localhost:11434/v1').replace(/\/+$/, '')}/chat/completions`;
       case 'anthropic':
         return 'https://api.anthropic.com/v1/messages';
       case 'gemini':
@@ -77,24 +115,65 @@ export class LLMQuestionGenerator {
     }
   }
 
-  async makeAPICall(messages, systemPrompt = '') {
-    console.log(`[LLM] Making API call using ${this.provider.toUpperCase()}`);
+  /**
+   * Send a chat request to the configured provider. The agent name identifies the caller so the mock provider can
+   * keep separate fixtures per agent. When onToken is given the response is streamed and each token is passed to it
+   * as it arrives; the full text is still returned.
+   */
+  async makeAPICall(messages, systemPrompt = '', agent = 'LLMService', onToken = null) {
+    console.log(`[LLM] Making API call using ${this.provider.toUpperCase()} for ${agent}`);
     
     // Add explicit instruction to avoid markdown formatting
     const enhancedSystemPrompt = systemPrompt + '\n\nIMPORTANT: Always respond with ONLY valid JSON. Do NOT use markdown code blocks, backticks (```), or any other formatting. Return raw JSON only.';
     
-    switch (this.provider) {
+    if (this.provider === 'mock') {
+      return await this.makeMockCall(messages, enhancedSystemPrompt, agent, onToken);
+    }
+    return await this.makeProviderCall(this.provider, messages, enhancedSystemPrompt, onToken);
+  }
+
+  async makeProviderCall(provider, messages, systemPrompt, onToken = null) {
+    switch (provider) {
       case 'gemini':
-        return await this.makeGeminiCall(messages, enhancedSystemPrompt);
+        return await this.makeGeminiCall(messages, systemPrompt, onToken);
       case 'anthropic':
-        return await this.makeAnthropicCall(messages, enhancedSystemPrompt);
+        return await this.makeAnthropicCall(messages, systemPrompt, onToken);
+      case 'local':
+        return await this.makeLocalCall(messages, systemPrompt, onToken);
       case 'openai':
       default:
-        return await this.makeOpenAICall(messages, enhancedSystemPrompt);
+        return await this.makeOpenAICall(messages, systemPrompt, onToken);
+    }
+  }
+
+  /**
+   * Fixture for this agent and prompt when there is one. Otherwise replay mode fails (so a changed prompt shows up
+   * in CI), record mode asks the real provider and saves the answer, and scripted mode uses the built-in mock answers.
+   */
+  async makeMockCall(messages, systemPrompt, agent, onToken = null) {
+    const hash = LLMFixtureStore.hashPrompt(messages, systemPrompt);
+    const fixture = await this.fixtureStore.find(agent, hash);
+    let response = fixture;
+
+    if (fixture !== null) {
+      console.log(`[Mock] Using fixture ${agent}/${hash}`);
+    } else if (this.mockMode === 'replay') {
+      throw new Error(`No recorded response for ${agent} prompt ${hash}`);
+    } else if (this.mockMode === 'record') {
+      response = await this.makeProviderCall(this.upstreamProvider, messages, systemPrompt, onToken);
+      console.log(`[Mock] Recorded ${agent}/${hash}`);
+      return await this.fixtureStore.save(agent, hash, response);
+    } else {
+      response = MockLLMUtils.respond(messages, systemPrompt);
+    }
+
+    if (onToken) {
+      StreamingUtils.emitTokens(response, onToken);
     }
+    return response;
   }
 
-  async makeGeminiCall(messages, systemPrompt = '') {
+  async makeGeminiCall(messages, systemPrompt = '', onToken = null) {
     if (!this.geminiModel) {
       throw new Error('Gemini model not initialized');
     }
@@ -123,9 +202,19 @@ export class LLMQuestionGenerator {
 
       console.log(`[Gemini 2.5 Flash] Sending request with prompt length: ${fullPrompt.length}`);
       
-      const result = await this.geminiModel.generateContent(fullPrompt);
-      const response = await result.response;
-      const text = response.text();
+      let text = '';
+      if (onToken) {
+        const result = await this.geminiModel.generateContentStream(fullPrompt);
+        for await (const chunk of result.stream) {
+          const token = chunk.text();
+          text += token;
+          onToken(token);
+        }
+      } else {
+        const result = await this.geminiModel.generateContent(fullPrompt);
+        const response = await result.response;
+        text = response.text();
+      }
       
       console.log(`[Gemini 2.5 Flash] Received response with length: ${text.length}`);
       return text;
@@ -141,7 +230,7 @@ export class LLMQuestionGenerator {
     }
   }
 
-  async makeAnthropicCall(messages, systemPrompt = '') {
+  async makeAnthropicCall(messages, systemPrompt = '', onToken = null) {
     const headers = {
       'Content-Type': 'application/json',
       'x-api-key': this.apiKey,
@@ -155,7 +244,8 @@ export class LLMQuestionGenerator {
       messages: messages.map(msg => ({
         role: msg.role === 'system' ? 'user' : msg.role,
         content: msg.content
-      }))
+      })),
+      ...(onToken && { stream: true })
     };
 
     console.log(`[Anthropic] Sending request`);
@@ -170,12 +260,25 @@ export class LLMQuestionGenerator {
       throw new Error(`Anthropic API error: ${response.status} ${response.statusText}`);
     }
 
+    if (onToken) {
+      let text = '';
+      await StreamingUtils.readEventStream(response.body, data => {
+        const event = JSON.parse(data);
+        if (event.type === 'content_block_delta' && event.delta?.text) {
+          text += event.delta.text;
+          onToken(event.delta.text);
+        }
+      });
+      console.log(`[Anthropic] Streamed response`);
+      return text;
+    }
+
     const data = await response.json();
     console.log(`[Anthropic] Received response`);
     return data.content[0].text;
   }
 
-  async makeOpenAICall(messages, systemPrompt = '') {
+  async makeOpenAICall(messages, systemPrompt = '', onToken = null) {
     const headers = {
       'Content-Type': 'application/json',
       'Authorization': `Bearer ${this.apiKey}`
@@ -189,7 +292,8 @@ export class LLMQuestionGenerator {
       model: 'gpt-4o-mini',
       messages: allMessages,
       max_tokens: 1000,
-      temperature: 0.7
+      temperature: 0.7,
+      ...(onToken && { stream: true })
     };
 
     console.log(`[OpenAI] Sending request`);
@@ -204,12 +308,94 @@ export class LLMQuestionGenerator {
       throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
     }
 
+    if (onToken) {
+      const text = await this.readChatCompletionStream(response, onToken);
+      console.log(`[OpenAI] Streamed response`);
+      return text;
+    }
+
     const data = await response.json();
     console.log(`[OpenAI] Received response`);
     return data.choices[0].message.content;
   }
 
-  async generateQuestion({ config, previousQuestions, previousResponses, questionNumber }) {
+  /**
+   * OpenAI-compatible chat completions endpoint served by a local runtime, so interviews work without internet access
+   */
+  async makeLocalCall(messages, systemPrompt = '', onToken = null) {
+    const headers = {
+      'Content-Type': 'application/json',
+      ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
+    };
+
+    const allMessages = systemPrompt
+      ? [{ role: 'system', content: systemPrompt }, ...messages]
+      : messages;
+
+    const requestBody = {
+      model: this.localModel,
+      messages: allMessages,
+      max_tokens: 1000,
+      temperature: 0.7,
+      stream: !!onToken
+    };
+
+    console.log(`[Local] Sending request to ${this.baseURL} (${this.localModel})`);
+
+    let response;
+    try {
+      response = await fetch(this.baseURL, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(requestBody)
+      });
+    } catch (error) {
+      throw new Error(`Local LLM unreachable at ${this.baseURL}: ${error.message}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Local LLM error: ${response.status} ${response.statusText}`);
+    }
+
+    if (onToken) {
+      const text = await this.readChatCompletionStream(response, onToken);
+      console.log(`[Local] Streamed response`);
+      return text;
+    }
+
+    const data = await response.json();
+    console.log(`[Local] Received response`);
+    return data.choices[0].message.content;
+  }
+
+  /**
+   * Collect a streamed OpenAI-compatible chat completion, passing each content delta to onToken
+   */
+  async readChatCompletionStream(response, onToken) {
+    let text = '';
+    await StreamingUtils.readEventStream(response.body, data => {
+      if (data === '[DONE]') return;
+      const token = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (token) {
+        text += token;
+        onToken(token);
+      }
+    });
+    return text;
+  }
+
+  /**
+   * Adaptive difficulty for the next question; null when adaptive mode is off or the agents are unavailable
+   */
+  planDifficulty({ config, previousResponses = [] }) {
+    if (!config?.adaptiveDifficulty || !this.agenticOrchestrator) return null;
+    return this.agenticOrchestrator.planDifficulty({ config, previousResponses });
+  }
+
+  /**
+   * onProgress(event, data), when given, hears 'agent' as each agent finishes and 'token' as the question text streams in
+   */
+  async generateQuestion({ config, previousQuestions, previousResponses, questionNumber, difficulty, onProgress }) {
     // Try agentic approach first
     if (this.agenticOrchestrator) {
       try {
@@ -218,7 +404,9 @@ export class LLMQuestionGenerator {
           config,
           previousQuestions,
           previousResponses,
-          questionNumber
+          questionNumber,
+          difficulty,
+          onProgress
         });
         
         console.log('✅ Agentic question generated successfully');
@@ -230,10 +418,10 @@ export class LLMQuestionGenerator {
 
     // Fallback to traditional method
     console.log(`📝 Using traditional ${this.provider.toUpperCase()} approach`);
-    return this.generateQuestionTraditional({ config, previousQuestions, previousResponses, questionNumber });
+    return this.generateQuestionTraditional({ config, previousQuestions, previousResponses, questionNumber, difficulty, onProgress });
   }
 
-  async generateQuestionTraditional({ config, previousQuestions, previousResponses, questionNumber }) {
+  async generateQuestionTraditional({ config, previousQuestions, previousResponses, questionNumber, difficulty, onProgress }) {
     const systemPrompt = `You are an expert AI interviewer conducting a ${config.style} interview for a ${config.experienceLevel} level candidate interested in ${config.topic}. ${config.companyName ? `The interview is for ${config.companyName}.` : ''}
 
 Your role is to:
@@ -249,10 +437,29 @@ Interview Context:
 - Experience Level: ${config.experienceLevel}
 - Company: ${config.companyName || 'General'}
 - Duration: ${config.duration} minutes
-- Question Number: ${questionNumber}
+- Question Number: ${questionNumber}${difficulty ? `
+- Target Difficulty: ${difficulty} (adapted to how the candidate answered the previous question)` : ''}
 
 Previous Questions Asked: ${previousQuestions.join(', ') || 'None'}
-
+${CandidateContextUtils.hasContext(config) ? `
+${CandidateContextUtils.formatForPrompt(config)}
+
+Where it fits, ask about the candidate's actual projects or the role's stated requirements rather than generic topic questions.
+` : ''}${CompanyPackUtils.hasPack(config) ? `
+${CompanyPackUtils.formatForPrompt(config)}
+
+Ask the question the way ${config.companyPack.name} would, following its question style and principles.
+` : ''}${LoopContextUtils.isLaterRound(config) ? `
+${LoopContextUtils.formatForPrompt(config)}
+
+This interviewer has read the earlier rounds. Where it fits, refer back to something the candidate said there and probe it from this round's angle.
+` : ''}${PersonaUtils.getPersona(config) ? `
+${PersonaUtils.formatForPrompt(config)}
+${previousResponses?.length ? `
+Previous Answer: "${previousResponses[previousResponses.length - 1].response}"
+` : ''}
+Word the question the way this interviewer would.
+` : ''}
 Generate ONE interview question that is:
 - Appropriate for the experience level
 - Relevant to the topic
@@ -270,7 +477,8 @@ CRITICAL: Return ONLY the question text without any markdown formatting, code bl
     ];
 
     try {
-      const question = await this.makeAPICall(messages, systemPrompt);
+      const onToken = onProgress && (text => onProgress('token', { text }));
+      const question = await this.makeAPICall(messages, systemPrompt, 'QuestionGenerator', onToken);
       
       // Clean the response to remove any markdown formatting
       let cleanedQuestion = question.trim();
@@ -310,13 +518,16 @@ Interview Context:
 - Style: ${config.style}
 - Experience Level: ${config.experienceLevel}
 - Company: ${config.companyName || 'General'}
-
+${PersonaUtils.getPersona(config) ? `
+${PersonaUtils.formatForPrompt(config)}
+` : ''}
 Generate a natural follow-up question that:
 1. Builds on their response
 2. Probes deeper into their answer
 3. Tests their understanding further
 4. Feels conversational and natural
-5. Is appropriate for the interview style
+5. Is appropriate for the interview style${PersonaUtils.getFollowUpAggressiveness(config) === 'high' ? `
+6. Challenges the weakest or vaguest part of the answer directly` : ''}
 
 CRITICAL: Return ONLY the follow-up question text without any markdown formatting, code blocks, or additional text.`;
 
@@ -328,7 +539,7 @@ CRITICAL: Return ONLY the follow-up question text without any markdown formattin
     ];
 
     try {
-      const followUp = await this.makeAPICall(messages, systemPrompt);
+      const followUp = await this.makeAPICall(messages, systemPrompt, 'FollowUpGenerator');
       
       // Clean the response similar to generateQuestion
       let cleanedFollowUp = followUp.trim();
@@ -354,17 +565,33 @@ CRITICAL: Return ONLY the follow-up question text without any markdown formattin
     }
   }
 
-  async analyzeResponse({ question, response, config }) {
+  /**
+   * onProgress(event, data), when given, hears 'token' as the feedback text streams in
+   */
+  async analyzeResponse({ question, response, config, coding, diagram, exhibits, onProgress }) {
+    const hasDiagram = SystemDesignUtils.hasDiagram(diagram);
+    const wantsStar = StarAnalysisUtils.isBehavioral(config) && !coding;
+
     const systemPrompt = `You are an expert interview assessor analyzing a candidate's response.
 
 Question: "${question}"
 Response: "${response}"
-
+${coding ? `
+${CodingSubmissionUtils.formatForPrompt(coding)}
+` : ''}${hasDiagram ? `
+${SystemDesignUtils.formatForPrompt(diagram)}
+` : ''}${CaseStudyUtils.hasExhibits(exhibits) ? `
+${CaseStudyUtils.formatForPrompt(exhibits)}
+
+${CaseStudyUtils.formatGradingNote()}
+` : ''}
 Interview Context:
 - Topic: ${config.topic}
 - Style: ${config.style}
 - Experience Level: ${config.experienceLevel}
-
+${CompanyPackUtils.formatRubricForPrompt(config) ? `
+${CompanyPackUtils.formatRubricForPrompt(config)}
+` : ''}
 Analyze the response and provide:
 1. A score from 0-100
 2. Brief feedback (2-3 sentences)
@@ -378,7 +605,15 @@ Return a JSON object with this structure:
   "score": number,
   "feedback": "string",
   "strengths": ["string"],
-  "improvements": ["string"]
+  "improvements": ["string"]${coding ? `,
+  "codeReview": { "correctness": number, "codeQuality": number, "feedback": "string" }` : ''}${hasDiagram ? `,
+  "designReview": { "components": "string", "dataFlow": "string", "scaling": "string", "score": number }` : ''}${wantsStar ? `,
+  "star": {
+    "situation": { "strength": "strong|weak|missing", "excerpt": "string", "feedback": "string" },
+    "task": { "strength": "strong|weak|missing", "excerpt": "string", "feedback": "string" },
+    "action": { "strength": "strong|weak|missing", "excerpt": "string", "feedback": "string" },
+    "result": { "strength": "strong|weak|missing", "excerpt": "string", "feedback": "string" }
+  }` : ''}
 }`;
 
     const messages = [
@@ -389,7 +624,8 @@ Return a JSON object with this structure:
     ];
 
     try {
-      const analysis = await this.makeAPICall(messages, systemPrompt);
+      const onToken = onProgress && StreamingUtils.createFieldStream('feedback', text => onProgress('token', { text }));
+      const analysis = await this.makeAPICall(messages, systemPrompt, 'ResponseAnalyzer', onToken);
       
       // Clean the response to remove markdown code block delimiters and stray backticks
       let cleanedAnalysis = analysis.trim();
@@ -408,19 +644,35 @@ Return a JSON object with this structure:
       // Add general backtick removal
       cleanedAnalysis = cleanedAnalysis.replace(/^`+|`+$/g, '');
       
-      return JSON.parse(cleanedAnalysis);
+      const result = JSON.parse(cleanedAnalysis);
+      if (coding) {
+        result.codeReview = CodingSubmissionUtils.normalizeCodeReview(result.codeReview, coding);
+      }
+      if (hasDiagram) {
+        result.designReview = SystemDesignUtils.normalizeDesignReview(result.designReview, diagram);
+      }
+      if (wantsStar) {
+        result.star = StarAnalysisUtils.normalize(result.star, response);
+      }
+      return result;
     } catch (error) {
       console.error('Error analyzing response:', error);
       return {
         score: 75,
         feedback: "Good response with room for improvement.",
         strengths: ["Clear communication"],
-        improvements: ["Add more specific examples"]
+        improvements: ["Add more specific examples"],
+        ...(coding && { codeReview: CodingSubmissionUtils.normalizeCodeReview(null, coding) }),
+        ...(hasDiagram && { designReview: SystemDesignUtils.reviewDiagram(diagram) }),
+        ...(wantsStar && { star: StarAnalysisUtils.analyze(response) })
       };
     }
   }
 
-  async generateComprehensiveAnalytics({ responses, config }) {
+  /**
+   * onProgress(event, data), when given, hears 'review' as each answer is scored and 'overall' once the summary is ready
+   */
+  async generateComprehensiveAnalytics({ responses, config, onProgress }) {
     // Try agentic performance analysis first
     if (this.performanceAnalysisOrchestrator) {
       try {
@@ -429,7 +681,8 @@ Return a JSON object with this structure:
         
         const analytics = await this.performanceAnalysisOrchestrator.generateComprehensiveAnalytics({
           responses,
-          config
+          config,
+          onProgress
         });
         
         console.log('✅ Agentic performance analysis completed successfully');
@@ -456,9 +709,15 @@ Interview Context:
 - Style: ${config.style}
 - Experience Level: ${config.experienceLevel}
 - Total Questions: ${responses.length}
+${CompanyPackUtils.formatRubricForPrompt(config) ? `
+${CompanyPackUtils.formatRubricForPrompt(config)}
+` : ''}${RubricUtils.hasRubric(config) ? `
+${RubricUtils.formatForPrompt(config)}
 
+Grade the session against every criterion above and include "rubricScores" with one entry per criterion.
+` : ''}
 Interview Q&A:
-${responses.map((r, i) => `Q${i+1}: ${r.question}\nA${i+1}: ${r.response}\n`).join('\n')}
+${responses.map((r, i) => `Q${i+1}: ${r.question}\nA${i+1}: ${r.response}\n${r.coding ? `${CodingSubmissionUtils.formatForPrompt(r.coding)}\n` : ''}${SystemDesignUtils.hasDiagram(r.diagram) ? `${SystemDesignUtils.formatForPrompt(r.diagram)}\n` : ''}`).join('\n')}
 
 CRITICAL: Return ONLY a valid JSON object without any markdown formatting or code blocks.
 
@@ -474,6 +733,9 @@ Provide comprehensive analytics in this JSON format:
     "communication": number (0-100),
     "confidence": number (0-100)
   },
+  "rubricScores": [
+    { "criterionId": "string", "score": number (0-100), "feedback": "string" }
+  ],
   "questionReviews": [
     {
       "questionId": "string",
@@ -493,7 +755,7 @@ Provide comprehensive analytics in this JSON format:
     ];
 
     try {
-      const analytics = await this.makeAPICall(messages, systemPrompt);
+      const analytics = await this.makeAPICall(messages, systemPrompt, 'SessionAnalyzer');
       
       // Clean the response to remove markdown code block delimiters and stray backticks
       let cleanedAnalytics = analytics.trim();
@@ -512,14 +774,70 @@ Provide comprehensive analytics in this JSON format:
       // Add general backtick removal
       cleanedAnalytics = cleanedAnalytics.replace(/^`+|`+$/g, '');
       
-      return JSON.parse(cleanedAnalytics);
+      const parsed = JSON.parse(cleanedAnalytics);
+      if (!RubricUtils.hasRubric(config)) return parsed;
+
+      const rubricScores = RubricUtils.normalizeScores(config, parsed.rubricScores, parsed.responseAnalysis, parsed.overallScore);
+      return {
+        ...parsed,
+        overallScore: RubricUtils.getWeightedScore(rubricScores),
+        rubricScores,
+        rubricName: config.rubric.name
+      };
     } catch (error) {
       console.error('Error generating analytics:', error);
       return this.getFallbackAnalytics(responses);
     }
   }
 
+  /**
+   * Hiring committee decision across every round of an interview loop
+   */
+  async generateHiringDecision({ config, rounds }) {
+    const systemPrompt = `You are the hiring committee reviewing a candidate's full interview loop.
+
+Candidate Context:
+- Topic: ${config.topic}
+- Experience Level: ${config.experienceLevel}
+- Company: ${config.companyName || 'General'}
+${CompanyPackUtils.formatRubricForPrompt(config) ? `
+${CompanyPackUtils.formatRubricForPrompt(config)}
+` : ''}
+Interview Rounds:
+${HiringCommitteeUtils.formatForPrompt(rounds)}
+
+Weigh the rounds the way a committee would: a clear failure in one round is a serious concern even when the
+average is high, and consistent evidence across rounds counts more than one strong answer.
+
+Return a JSON object with this structure:
+{
+  "recommendation": "strong-hire|hire|lean-no-hire|no-hire",
+  "justification": "3-4 sentences explaining the decision with evidence from specific rounds",
+  "strengths": ["string"],
+  "concerns": ["string"]
+}`;
+
+    const messages = [
+      {
+        role: 'user',
+        content: 'Review the interview loop and make a hiring recommendation.'
+      }
+    ];
+
+    try {
+      const decision = await this.makeAPICall(messages, systemPrompt, 'HiringCommittee');
+      const cleanedDecision = decision.trim().replace(/^```(?:json)?|```$/g, '').trim();
+      return HiringCommitteeUtils.normalize(JSON.parse(cleanedDecision), rounds);
+    } catch (error) {
+      console.error('Error generating hiring decision:', error);
+      return HiringCommitteeUtils.summarize(rounds);
+    }
+  }
+
   getFallbackQuestion(config, questionNumber) {
+    const packQuestion = CompanyPackUtils.getFallbackQuestion(config, questionNumber);
+    if (packQuestion) return packQuestion;
+
     const fallbackQuestions = {
       technical: [
         "Explain the difference between synchronous and asynchronous programming.",
@@ -565,8 +883,8 @@ Provide comprehensive analytics in this JSON format:
   }
 
   // Get agentic framework statistics
-  getAgenticStats() {
-    const questionStats = this.agenticOrchestrator ? this.agenticOrchestrator.getSessionStats() : { status: 'not_initialized' };
+  async getAgenticStats() {
+    const questionStats = this.agenticOrchestrator ? await this.agenticOrchestrator.getSessionStats() : { status: 'not_initialized' };
     const analysisStats = this.performanceAnalysisOrchestrator ? this.performanceAnalysisOrchestrator.getAnalysisStats() : { status: 'not_initialized' };
     
     return {
@@ -0,0 +1,253 @@
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { JsonFileWriter } from './jsonFileWriter.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Sessions untouched for this long are dropped; every write pushes the expiry out again
+const DEFAULT_TTL_MINUTES = 24 * 60;
+
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+
+// One store per name, so every service in the process shares the same file
+const stores = new Map();
+
+/**
+ * Session Store
+ * Interface for persisting in-progress session state so it survives a server restart.
+ * Values must be JSON-serializable. Other backends (SQLite, Redis, ...) extend this class
+ * and implement get, set, delete, entries and purgeExpired.
+ */
+export class SessionStore {
+  constructor({ ttlMs = DEFAULT_TTL_MINUTES * 60 * 1000 } = {}) {
+    this.ttlMs = ttlMs;
+    this.cleanupTimer = null;
+  }
+
+  /**
+   * The value stored under key, or null when missing or expired
+   */
+  async get(key) {
+    throw new Error(`${this.constructor.name} does not implement get()`);
+  }
+
+  /**
+   * Store a value under key and restart its expiry
+   */
+  async set(key, value) {
+    throw new Error(`${this.constructor.name} does not implement set()`);
+  }
+
+  /**
+   * Remove key, returning whether it existed
+   */
+  async delete(key) {
+    throw new Error(`${this.constructor.name} does not implement delete()`);
+  }
+
+  /**
+   * All live [key, value] pairs
+   */
+  async entries() {
+    throw new Error(`${this.constructor.name} does not implement entries()`);
+  }
+
+  /**
+   * Remove expired sessions, returning how many were removed
+   */
+  async purgeExpired() {
+    throw new Error(`${this.constructor.name} does not implement purgeExpired()`);
+  }
+
+  /**
+   * Purge expired sessions now and then on an interval that doesn't keep the process alive
+   */
+  startCleanup(intervalMs = CLEANUP_INTERVAL_MS) {
+    if (this.cleanupTimer) {
+      return;
+    }
+
+    const cleanup = async () => {
+      try {
+        const removed = await this.purgeExpired();
+        if (removed > 0) {
+          console.log(`[SessionStore] Removed ${removed} expired sessions`);
+        }
+      } catch (error) {
+        console.error('[SessionStore] Failed to remove expired sessions:', error);
+      }
+    };
+
+    cleanup();
+    this.cleanupTimer = setInterval(cleanup, intervalMs);
+    this.cleanupTimer.unref?.();
+  }
+
+  stopCleanup() {
+    clearInterval(this.cleanupTimer);
+    this.cleanupTimer = null;
+  }
+
+  isExpired(record, now = Date.now()) {
+    return record.expiresAt <= now;
+  }
+}
+
+/**
+ * Keeps sessions in process memory only; they are lost on restart
+ */
+export class MemorySessionStore extends SessionStore {
+  constructor(options) {
+    super(options);
+    this.records = new Map();
+  }
+
+  /**
+   * Records keyed by session key: { value, expiresAt }
+   */
+  async load() {
+    return this.records;
+  }
+
+  async persist() {}
+
+  async get(key) {
+    const records = await this.load();
+    const record = records.get(key);
+    if (!record) {
+      return null;
+    }
+
+    if (this.isExpired(record)) {
+      records.delete(key);
+      await this.persist();
+      return null;
+    }
+
+    return record.value;
+  }
+
+  async set(key, value) {
+    const records = await this.load();
+    records.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    await this.persist();
+    return value;
+  }
+
+  async delete(key) {
+    const records = await this.load();
+    const deleted = records.delete(key);
+
+    if (deleted) {
+      await this.persist();
+    }
+
+    return deleted;
+  }
+
+  async entries() {
+    const records = await this.load();
+    const now = Date.now();
+
+    return Array.from(records.entries())
+      .filter(([, record]) => !this.isExpired(record, now))
+      .map(([key, record]) => [key, record.value]);
+  }
+
+  async purgeExpired() {
+    const records = await this.load();
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [key, record] of records) {
+      if (this.isExpired(record, now)) {
+        records.delete(key);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      await this.persist();
+    }
+
+    return removed;
+  }
+}
+
+/**
+ * Keeps sessions in memory and writes them through to a JSON file, reloading it on first access after a restart
+ */
+export class FileSessionStore extends MemorySessionStore {
+  constructor({ filePath, ...options } = {}) {
+    super(options);
+    this.filePath = filePath;
+    this.records = null;
+    this.loading = null;
+    this.writer = new JsonFileWriter(filePath);
+  }
+
+  /**
+   * Load sessions from disk on first access; concurrent first calls share one read
+   */
+  async load() {
+    if (this.records) {
+      return this.records;
+    }
+
+    this.loading = this.loading || this.readFile();
+    this.records = await this.loading;
+    return this.records;
+  }
+
+  async readFile() {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(content);
+      const records = new Map(Object.entries(parsed.sessions || {}));
+      console.log(`[SessionStore] Loaded ${records.size} sessions from ${this.filePath}`);
+      return records;
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        console.error('[SessionStore] Failed to read session file, starting empty:', error);
+      }
+      return new Map();
+    }
+  }
+
+  /**
+   * Write sessions to disk, serializing concurrent writes
+   */
+  async persist() {
+    return this.writer.write(JSON.stringify({ sessions: Object.fromEntries(this.records) }));
+  }
+}
+
+/**
+ * The configured store for one kind of session: SESSION_STORE picks the backend ('file' by default, or 'memory'),
+ * SESSION_STORE_DIR where file stores live and SESSION_TTL_MINUTES how long idle sessions are kept
+ */
+export function createSessionStore(name, options = {}) {
+  if (stores.has(name)) {
+    return stores.get(name);
+  }
+
+  const type = options.type || process.env.SESSION_STORE || 'file';
+  const ttlMs = options.ttlMs ?? (Number(process.env.SESSION_TTL_MINUTES) || DEFAULT_TTL_MINUTES) * 60 * 1000;
+
+  let store;
+  if (type === 'memory') {
+    store = new MemorySessionStore({ ttlMs });
+  } else {
+    if (type !== 'file') {
+      console.warn(`[SessionStore] Unknown SESSION_STORE "${type}", using file`);
+    }
+    const directory = options.directory || process.env.SESSION_STORE_DIR || join(__dirname, 'data', 'sessions');
+    store = new FileSessionStore({ filePath: join(directory, `${name}.json`), ttlMs });
+  }
+
+  store.startCleanup();
+  stores.set(name, store);
+  return store;
+}
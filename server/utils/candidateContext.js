@@ -0,0 +1,103 @@
+/**
+ * Candidate Context Utility
+ * Turns the parsed resume and job description sent with the interview config into prompt context
+ */
+
+export class CandidateContextUtils {
+  /**
+   * Whether the config carries any resume or job description details worth using
+   */
+  static hasContext(config) {
+    const { resume, jobDescription } = config || {};
+    return Boolean(
+      resume?.skills?.length || resume?.projects?.length || resume?.experience?.length ||
+      jobDescription?.requirements?.length || jobDescription?.responsibilities?.length || jobDescription?.skills?.length
+    );
+  }
+
+  /**
+   * Build a prompt section describing the candidate and the role, or an empty string
+   */
+  static formatForPrompt(config) {
+    if (!this.hasContext(config)) return '';
+
+    const { resume, jobDescription } = config;
+    const lines = [];
+
+    if (resume) {
+      lines.push('CANDIDATE RESUME:');
+      if (resume.summary) lines.push(`- Summary: ${resume.summary}`);
+      if (resume.skills?.length) lines.push(`- Skills: ${resume.skills.join(', ')}`);
+      if (resume.projects?.length) {
+        lines.push('- Projects:');
+        resume.projects.forEach(project => lines.push(`  • ${project}`));
+      }
+      if (resume.experience?.length) {
+        lines.push('- Experience:');
+        resume.experience.forEach(role => lines.push(`  • ${role}`));
+      }
+    }
+
+    if (jobDescription) {
+      if (lines.length) lines.push('');
+      lines.push(`TARGET ROLE${jobDescription.title ? ` (${jobDescription.title})` : ''}:`);
+      if (jobDescription.skills?.length) lines.push(`- Required Skills: ${jobDescription.skills.join(', ')}`);
+      if (jobDescription.requirements?.length) {
+        lines.push('- Requirements:');
+        jobDescription.requirements.forEach(requirement => lines.push(`  • ${requirement}`));
+      }
+      if (jobDescription.responsibilities?.length) {
+        lines.push('- Responsibilities:');
+        jobDescription.responsibilities.forEach(responsibility => lines.push(`  • ${responsibility}`));
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Pick what a given question should be anchored on, alternating between the
+   * candidate's projects and the role's requirements so both get covered
+   */
+  static getQuestionAnchor(config, questionNumber) {
+    if (!this.hasContext(config)) return null;
+
+    const projects = [...(config.resume?.projects || []), ...(config.resume?.experience || [])];
+    const requirements = [...(config.jobDescription?.requirements || []), ...(config.jobDescription?.responsibilities || [])];
+    const preferProject = questionNumber % 2 === 1;
+
+    const pick = (items, type) => {
+      if (!items.length) return null;
+      const index = Math.floor((questionNumber - 1) / 2) % items.length;
+      return { type, detail: items[index] };
+    };
+
+    return preferProject
+      ? pick(projects, 'project') || pick(requirements, 'requirement')
+      : pick(requirements, 'requirement') || pick(projects, 'project');
+  }
+
+  /**
+   * Template question for an anchor, used when the LLM is unavailable
+   */
+  static createAnchoredQuestion(anchor) {
+    if (anchor.type === 'project') {
+      return `Your resume mentions "${anchor.detail}". Walk me through your role there, the key technical decisions you made and what you would do differently today.`;
+    }
+    return `This role calls for "${anchor.detail}". Tell me about a specific time your experience demonstrated this, and what the outcome was.`;
+  }
+
+  /**
+   * Short stable signature so cached topic analysis is not shared across different resumes/roles
+   */
+  static getSignature(config) {
+    if (!this.hasContext(config)) return '';
+
+    const source = JSON.stringify([config.resume?.fileName, config.resume?.skills, config.jobDescription?.requirements]);
+    let hash = 0;
+    for (let i = 0; i < source.length; i++) {
+      hash = (hash * 31 + source.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash).toString(36);
+  }
+}
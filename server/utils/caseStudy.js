@@ -0,0 +1,39 @@
+/**
+ * Case Study Utility
+ * Formats the exhibits shown during a case interview for the analysis prompts
+ */
+
+const MAX_ROWS = 20;
+
+export class CaseStudyUtils {
+  static hasExhibits(exhibits) {
+    return Array.isArray(exhibits) && exhibits.some(exhibit => Array.isArray(exhibit?.rows) && exhibit.rows.length > 0);
+  }
+
+  /**
+   * Build a prompt section with each exhibit as a small table, or an empty string
+   */
+  static formatForPrompt(exhibits) {
+    if (!this.hasExhibits(exhibits)) return '';
+
+    const tables = exhibits.map((exhibit, index) => {
+      const columns = Array.isArray(exhibit.columns) ? exhibit.columns.join(' | ') : '';
+      const rows = exhibit.rows.slice(0, MAX_ROWS).map(row => `  ${row.join(' | ')}`);
+      return `Exhibit ${index + 1}: ${exhibit.title}
+  ${columns}
+${rows.join('\n')}`;
+    });
+
+    return `CASE EXHIBITS (data the interviewer showed the candidate):
+${tables.join('\n\n')}`;
+  }
+
+  /**
+   * Instructions for grading a case answer against the exhibits
+   */
+  static formatGradingNote() {
+    return `This is a case interview answer. Check every figure the candidate calculates against the exhibits and name
+any calculation errors in the feedback. Reward stating a hypothesis and asking for the data that tests it, and
+drawing the "so what" from each exhibit.`;
+  }
+}
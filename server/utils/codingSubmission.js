@@ -0,0 +1,83 @@
+import { assessCodeQuality } from '../../shared/codeQuality.js';
+
+/**
+ * Coding Submission Utility
+ * Formats sandboxed test results for the analysis prompts and derives correctness/code quality scores
+ */
+
+const MAX_CODE_LENGTH = 6000;
+
+export class CodingSubmissionUtils {
+  /**
+   * Correctness is taken straight from the hidden test results rather than the LLM's opinion
+   */
+  static getCorrectness(coding) {
+    return coding?.totalCount > 0 ? Math.round((coding.passedCount / coding.totalCount) * 100) : 0;
+  }
+
+  /**
+   * Build a prompt section with the candidate's code, test results and runtime
+   */
+  static formatForPrompt(coding) {
+    if (!coding) return '';
+
+    const code = coding.code.length > MAX_CODE_LENGTH
+      ? `${coding.code.slice(0, MAX_CODE_LENGTH)}\n// ...truncated`
+      : coding.code;
+
+    const failures = (coding.results || [])
+      .filter(result => !result.passed)
+      .slice(0, 5)
+      .map(result => `  • Test ${result.index + 1}: expected ${result.expected}, got ${result.error ? `error "${result.error}"` : result.actual}`);
+
+    return `CODE SUBMISSION (${coding.language}):
+${code}
+
+TEST RESULTS:
+- Passed: ${coding.passedCount}/${coding.totalCount} (${this.getCorrectness(coding)}%)
+- Total runtime: ${coding.runtimeMs}ms${coding.timedOut ? ' (timed out)' : ''}${coding.error ? `
+- Runner error: ${coding.error}` : ''}${failures.length ? `
+- Failing cases:
+${failures.join('\n')}` : ''}`;
+  }
+
+  /**
+   * Readability heuristic used when the LLM does not return a code quality score; the app scores offline sessions the same way
+   */
+  static estimateCodeQuality(code) {
+    return assessCodeQuality(code).score;
+  }
+
+  /**
+   * Merge the LLM's code review with deterministic test results
+   */
+  static normalizeCodeReview(review, coding) {
+    const codeQuality = typeof review?.codeQuality === 'number' && review.codeQuality >= 0 && review.codeQuality <= 100
+      ? Math.round(review.codeQuality)
+      : this.estimateCodeQuality(coding.code);
+
+    return {
+      correctness: this.getCorrectness(coding),
+      codeQuality,
+      feedback: review?.feedback || `Passed ${coding.passedCount} of ${coding.totalCount} tests.`
+    };
+  }
+
+  /**
+   * Aggregate coding scores across all coding answers in a session
+   */
+  static summarize(responseAnalyses) {
+    const coded = responseAnalyses.filter(item => item.coding && item.analysis?.codeReview);
+    if (coded.length === 0) return undefined;
+
+    const average = values => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+    return {
+      correctness: average(coded.map(item => item.analysis.codeReview.correctness)),
+      codeQuality: average(coded.map(item => item.analysis.codeReview.codeQuality)),
+      testsPassed: coded.reduce((sum, item) => sum + item.coding.passedCount, 0),
+      testsTotal: coded.reduce((sum, item) => sum + item.coding.totalCount, 0),
+      averageRuntimeMs: average(coded.map(item => item.coding.runtimeMs))
+    };
+  }
+}
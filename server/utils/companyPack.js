@@ -0,0 +1,83 @@
+import { getCompanyPackQuestions } from '../../shared/companyPack.js';
+
+/**
+ * Company Pack Utility
+ * Turns the company pack sent with the interview config into prompt context, rubric guidance and fallback questions
+ */
+
+const MAX_LIST_ITEMS = 10;
+
+const list = (items) => (Array.isArray(items) ? items.filter(item => typeof item === 'string' && item.trim()).slice(0, MAX_LIST_ITEMS) : []);
+
+export class CompanyPackUtils {
+  static hasPack(config) {
+    return Boolean(config?.companyPack?.name);
+  }
+
+  /**
+   * Build a prompt section describing how the company interviews, or an empty string
+   */
+  static formatForPrompt(config) {
+    if (!this.hasPack(config)) return '';
+
+    const pack = config.companyPack;
+    const lines = [`COMPANY PACK (${pack.name}):`];
+
+    if (pack.description) lines.push(`- About: ${pack.description}`);
+    if (list(pack.values).length) lines.push(`- Values: ${list(pack.values).join(', ')}`);
+    if (list(pack.leadershipPrinciples).length) lines.push(`- Leadership Principles: ${list(pack.leadershipPrinciples).join(', ')}`);
+    if (Array.isArray(pack.rounds) && pack.rounds.length) {
+      lines.push('- Typical Rounds:');
+      pack.rounds.slice(0, MAX_LIST_ITEMS).forEach(round =>
+        lines.push(`  • ${round.name} (${round.style})${round.focus ? `: ${round.focus}` : ''}`)
+      );
+    }
+    if (list(pack.questionStyles).length) {
+      lines.push('- How Questions Are Asked:');
+      list(pack.questionStyles).forEach(style => lines.push(`  • ${style}`));
+    }
+
+    const examples = this.getPackQuestions(pack, config.style).slice(0, 3);
+    if (examples.length) {
+      lines.push('- Example Questions:');
+      examples.forEach(question => lines.push(`  • ${question}`));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Rubric section for response and overall analysis prompts, or an empty string
+   */
+  static formatRubricForPrompt(config) {
+    const rubric = config?.companyPack?.rubric;
+    if (!this.hasPack(config) || !Array.isArray(rubric) || rubric.length === 0) return '';
+
+    return `${config.companyPack.name.toUpperCase()} SCORING RUBRIC (weight in brackets):
+${rubric.slice(0, MAX_LIST_ITEMS).map(criterion => `  • ${criterion.name} [${criterion.weight || 1}]${criterion.description ? `: ${criterion.description}` : ''}`).join('\n')}`;
+  }
+
+  /**
+   * Question texts the pack contributes for a style, the same ones the app asks offline
+   */
+  static getPackQuestions(pack, style) {
+    return getCompanyPackQuestions(pack, style).map(question => question.text);
+  }
+
+  /**
+   * Pack question for a given question number, used when the LLM is unavailable
+   */
+  static getFallbackQuestion(config, questionNumber) {
+    if (!this.hasPack(config)) return null;
+
+    const questions = this.getPackQuestions(config.companyPack, config.style);
+    return questions[questionNumber - 1] || null;
+  }
+
+  /**
+   * Short signature so cached topic analysis is not shared across packs
+   */
+  static getSignature(config) {
+    return this.hasPack(config) ? config.companyPack.id || config.companyPack.name : '';
+  }
+}
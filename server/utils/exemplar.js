@@ -0,0 +1,53 @@
+import { analyzeConceptCoverage } from '../../shared/exemplar.js';
+
+/**
+ * Exemplar Utility
+ * Model answers and concept coverage for question reviews. Curated exemplars come from the client's question bank;
+ * otherwise the response analysis generates one.
+ */
+
+const MAX_CONCEPTS = 10;
+
+const strings = (items) => (Array.isArray(items) ? items.filter(item => typeof item === 'string' && item.trim()).map(item => item.trim()) : []);
+
+export class ExemplarUtils {
+  static hasExemplar(exemplar) {
+    return typeof exemplar?.answer === 'string' && exemplar.answer.trim() !== '' && strings(exemplar.keyConcepts).length > 0;
+  }
+
+  /**
+   * Prompt section with the question bank's model answer, or an empty string
+   */
+  static formatForPrompt(exemplar) {
+    if (!this.hasExemplar(exemplar)) return '';
+
+    return `MODEL ANSWER (from the question bank):
+"${exemplar.answer}"
+KEY CONCEPTS: ${strings(exemplar.keyConcepts).join(', ')}`;
+  }
+
+  /**
+   * Exemplar and concept coverage for a review: the provided bank exemplar wins over a generated one, and the
+   * LLM's coveredConcepts are trusted when present, with keyword matching otherwise. Null when there is no exemplar.
+   */
+  static normalize(generated, response, provided) {
+    const exemplar = this.hasExemplar(provided)
+      ? { answer: provided.answer, keyConcepts: strings(provided.keyConcepts), source: 'question-bank' }
+      : this.hasExemplar(generated)
+        ? { answer: generated.answer.trim(), keyConcepts: strings(generated.keyConcepts).slice(0, MAX_CONCEPTS), source: 'llm' }
+        : null;
+    if (!exemplar) return null;
+
+    if (!Array.isArray(generated?.coveredConcepts)) {
+      return { exemplar, conceptCoverage: analyzeConceptCoverage(response || '', exemplar.keyConcepts) };
+    }
+
+    const reported = strings(generated.coveredConcepts).map(concept => concept.toLowerCase());
+    const covered = exemplar.keyConcepts.filter(concept => reported.includes(concept.toLowerCase()));
+
+    return {
+      exemplar,
+      conceptCoverage: { covered, missed: exemplar.keyConcepts.filter(concept => !covered.includes(concept)) }
+    };
+  }
+}
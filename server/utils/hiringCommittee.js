@@ -0,0 +1,54 @@
+import { summarizeRounds } from '../../shared/hiringCommittee.js';
+
+/**
+ * Hiring Committee Utility
+ * Aggregates the rounds of an interview loop into a hire/no-hire decision and validates LLM decisions
+ */
+
+const RECOMMENDATIONS = ['strong-hire', 'hire', 'lean-no-hire', 'no-hire'];
+
+export class HiringCommitteeUtils {
+  /**
+   * Deterministic decision used when the LLM is unavailable; the app falls back to the same one offline
+   */
+  static summarize(rounds) {
+    return summarizeRounds(rounds);
+  }
+
+  /**
+   * Keep the LLM's recommendation and reasoning, but always compute scores and verdicts from the rounds themselves
+   */
+  static normalize(decision, rounds) {
+    const fallback = this.summarize(rounds);
+    if (!decision || typeof decision !== 'object') return fallback;
+
+    const text = value => typeof value === 'string' && value.trim() ? value : null;
+    const list = value => Array.isArray(value) ? value.filter(item => typeof item === 'string' && item.trim()) : [];
+
+    return {
+      recommendation: RECOMMENDATIONS.includes(decision.recommendation) ? decision.recommendation : fallback.recommendation,
+      overallScore: fallback.overallScore,
+      justification: text(decision.justification) || fallback.justification,
+      strengths: list(decision.strengths).length ? list(decision.strengths) : fallback.strengths,
+      concerns: list(decision.concerns).length ? list(decision.concerns) : fallback.concerns,
+      rounds: fallback.rounds,
+      source: 'ai'
+    };
+  }
+
+  /**
+   * Prompt section describing each round's outcome
+   */
+  static formatForPrompt(rounds) {
+    return rounds.map((round, index) => {
+      const answers = (round.questionReviews || []).slice(0, 5).map(review =>
+        `    • Q: ${review.question}\n      A: ${(review.response || '').slice(0, 300)}\n      Score: ${review.score} - ${review.feedback}`
+      );
+      return `ROUND ${index + 1}: ${round.name} (${round.style}, ${round.duration} min) - overall ${Math.round(round.overallScore)}
+  Strengths: ${(round.strengths || []).join('; ') || 'None noted'}
+  Improvements: ${(round.improvements || []).join('; ') || 'None noted'}
+  Answers:
+${answers.join('\n')}`;
+    }).join('\n\n');
+  }
+}
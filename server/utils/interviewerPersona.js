@@ -0,0 +1,55 @@
+import { interviewerPersonas } from '../../shared/personas.js';
+
+/**
+ * Interviewer Persona Utility
+ * Turns the interviewer personas in shared/personas.js into prompt sections, feedback tone, greetings and voice agent voices
+ */
+
+const PERSONAS = Object.fromEntries(interviewerPersonas.map(persona => [persona.id, persona]));
+
+const FOLLOW_UP_GUIDANCE = {
+  low: 'Only build on the previous answer when it is clearly incomplete; otherwise move to a new area.',
+  medium: 'Often build on the previous answer, asking for specifics or evidence before moving to a new area.',
+  high: 'Most questions should dig into the previous answer: challenge it, ask "why" and "what if", and do not move on until it holds up.'
+};
+
+export class PersonaUtils {
+  static getPersona(config) {
+    return (config?.persona && PERSONAS[config.persona]) || null;
+  }
+
+  /**
+   * Prompt section describing the interviewer's manner and how hard to follow up, or an empty string
+   */
+  static formatForPrompt(config) {
+    const persona = this.getPersona(config);
+    if (!persona) return '';
+
+    return `INTERVIEWER PERSONA (${persona.name}):
+${persona.prompt}
+Follow-up aggressiveness (${persona.followUpAggressiveness}): ${FOLLOW_UP_GUIDANCE[persona.followUpAggressiveness]}`;
+  }
+
+  static getFollowUpAggressiveness(config) {
+    return this.getPersona(config)?.followUpAggressiveness || 'medium';
+  }
+
+  /**
+   * Tone for spoken feedback between questions; null means the persona gives none
+   */
+  static getFeedbackStyle(config) {
+    const persona = this.getPersona(config);
+    return persona ? persona.feedback : 'Provide constructive, positive feedback that acknowledges their response and transitions to the next question. Keep it conversational and encouraging.';
+  }
+
+  static getGreeting(config) {
+    return this.getPersona(config)?.greeting || null;
+  }
+
+  /**
+   * Voice settings for the voice agent's TTS provider ('openai' or 'google'), or null for the default voice
+   */
+  static getVoice(config, provider) {
+    return this.getPersona(config)?.serverVoices[provider] || null;
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Loop Context Utility
+ * Carries answers from earlier rounds of an interview loop into the prompts for later rounds
+ */
+
+export class LoopContextUtils {
+  static isLaterRound(config) {
+    return Array.isArray(config?.loopContext?.previousRounds) && config.loopContext.previousRounds.length > 0;
+  }
+
+  /**
+   * Build a prompt section summarizing earlier rounds, or an empty string for standalone interviews and first rounds
+   */
+  static formatForPrompt(config) {
+    if (!config?.loopContext) return '';
+
+    const { roundNumber, totalRounds, roundName, previousRounds = [] } = config.loopContext;
+    const lines = [`INTERVIEW LOOP: this is round ${roundNumber} of ${totalRounds} (${roundName}).`];
+
+    if (previousRounds.length > 0) {
+      lines.push('EARLIER ROUNDS:');
+      previousRounds.forEach(round => {
+        lines.push(`- ${round.name} (${round.style}, scored ${round.score}):`);
+        (round.highlights || []).forEach(highlight => {
+          lines.push(`  • Q: ${highlight.question}`);
+          lines.push(`    A: ${highlight.response}`);
+        });
+      });
+    }
+
+    return lines.join('\n');
+  }
+}
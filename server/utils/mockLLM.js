@@ -0,0 +1,301 @@
+/**
+ * Mock LLM Utility
+ * Deterministic stand-in for a model, selected with LLM_PROVIDER=mock. It recognizes each prompt the service and
+ * agents send and answers in the shape they expect, derived only from the prompt text, so the same prompt always
+ * gets the same answer and the whole pipeline runs without a network.
+ */
+
+const QUESTION_TEMPLATES = {
+  technical: [
+    'How would you explain the core ideas behind {topic} to a new teammate?',
+    'Walk me through a real problem you solved with {topic}. What trade-offs did you weigh?',
+    'What are the most common performance pitfalls in {topic}, and how do you avoid them?',
+    'How do you test and debug code that relies on {topic}?',
+    'If you had to design a small service around {topic} from scratch, what would its main components be?',
+    'What is something about {topic} you changed your mind on as you gained experience?'
+  ],
+  behavioral: [
+    'Tell me about a time a {topic} project did not go to plan. What did you do?',
+    'Describe a situation where you disagreed with a teammate about {topic}. How was it resolved?',
+    'Give me an example of when you had to learn part of {topic} quickly to deliver something.',
+    'Tell me about the {topic} work you are most proud of and the result it had.',
+    'Describe a time you had to make a decision about {topic} without all the information you wanted.',
+    'Tell me about a time you received hard feedback on your {topic} work.'
+  ],
+  hr: [
+    'What draws you to a role focused on {topic}?',
+    'How do you keep your {topic} skills current?',
+    'Describe the kind of team you do your best {topic} work in.',
+    'Where do you want your {topic} career to be in three years?',
+    'How do you handle pressure when a {topic} deadline is at risk?',
+    'What would your last manager say is your biggest strength in {topic}?'
+  ],
+  'salary-negotiation': [
+    'What compensation range are you expecting for a {topic} role, and how did you arrive at it?',
+    'How do you weigh base salary against equity and benefits for this {topic} position?',
+    'Our offer comes in below your range. How would you respond?',
+    'Which parts of the package matter most to you besides salary?',
+    'How would you justify a higher level for your {topic} experience?',
+    'What would make you accept this offer today?'
+  ],
+  'case-study': [
+    'A {topic} product has seen a 20% drop in weekly active users. How would you find the cause?',
+    'How would you size the market for a new {topic} offering?',
+    'Walk me through how you would prioritize the next quarter of {topic} work with half the usual team.',
+    'A key {topic} system failed during peak traffic. How do you handle the next 48 hours?',
+    'How would you decide whether to build or buy a {topic} capability?',
+    'What metrics would you put on a dashboard for a {topic} launch, and why?'
+  ]
+};
+
+const FOLLOW_UPS = [
+  'Can you walk me through a specific example of that?',
+  'What would you do differently if you faced that again?',
+  'How did you measure whether that worked?',
+  'What trade-offs did you consider before choosing that approach?'
+];
+
+const EXAMPLE_WORDS = /\b(for example|for instance|such as|e\.g\.|when i|in my last|at my)\b/i;
+const STRUCTURE_WORDS = /\b(first|second|then|next|finally|because|so that|as a result)\b/gi;
+const RESULT_WORDS = /\b(result|outcome|impact|improved|reduced|increased|saved|learned)\b/i;
+const HEDGE_WORDS = /\b(maybe|i think|i guess|not sure|kind of|sort of|probably)\b/gi;
+
+const clamp = (value) => Math.max(0, Math.min(100, Math.round(value)));
+
+/**
+ * FNV-1a hash, used to vary wording deterministically
+ */
+const hash = (text) => {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
+
+const field = (text, label) => text.match(new RegExp(`${label}:\\s*"?([^"\\n]+?)"?\\s*$`, 'mi'))?.[1]?.trim() || '';
+
+const quoted = (text, label) => text.match(new RegExp(`${label}:\\s*"([\\s\\S]*?)"\\s*(\\n|$)`, 'i'))?.[1] || '';
+
+const average = (values, fallback) =>
+  values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : fallback;
+
+export class MockLLMUtils {
+  /**
+   * Answer a chat request the way the real provider would, as the raw response text
+   */
+  static respond(messages, systemPrompt = '') {
+    const prompt = messages.map(message => message.content).join('\n');
+    const text = `${systemPrompt}\n${prompt}`;
+    const kind = this.detectKind(systemPrompt);
+    console.log(`[Mock] Answering ${kind} prompt`);
+
+    switch (kind) {
+      case 'topic-analysis':
+        return JSON.stringify(this.topicAnalysis(text));
+      case 'question-planning':
+        return JSON.stringify(this.questionPlan(text));
+      case 'question-generation':
+        return JSON.stringify({
+          question: this.question(text),
+          metadata: {
+            category: field(text, 'Style') || 'technical',
+            difficulty: text.match(/"difficulty": "(easy|medium|hard)"/)?.[1] || 'medium',
+            focusArea: text.match(/"focusArea": "([^"]+)"/)?.[1] || 'General Knowledge',
+            concepts: [],
+            questionType: 'practical',
+            estimatedTime: '5',
+            followUpPotential: 'medium'
+          },
+          reasoning: 'Mock question chosen from the templates for this interview style'
+        });
+      case 'validation':
+        return JSON.stringify({
+          validation: { isValid: true, topicRelevance: 85, difficultyMatch: 80, clarity: 85, overallScore: 83 },
+          issues: [],
+          suggestions: [],
+          decision: 'approve',
+          reasoning: 'Mock validation approves every question'
+        });
+      case 'response-analysis':
+        return JSON.stringify(this.responseAnalysis(quoted(text, 'response'), text));
+      case 'overall-analysis':
+        return JSON.stringify(this.overallAnalysis(text));
+      case 'session-analytics':
+        return JSON.stringify(this.sessionAnalytics(text));
+      case 'hiring-decision':
+        return JSON.stringify(this.hiringDecision(text));
+      case 'follow-up':
+        return FOLLOW_UPS[hash(quoted(text, "Candidate's Response")) % FOLLOW_UPS.length];
+      case 'question':
+        return this.question(text);
+      default:
+        return 'Thank you, that gives me a clear picture. Let us move on to the next question.';
+    }
+  }
+
+  /**
+   * Which prompt this is, from the role its system prompt opens with
+   */
+  static detectKind(systemPrompt) {
+    const roles = [
+      ['You are a Topic Analysis Agent', 'topic-analysis'],
+      ['You are a Question Planning Agent', 'question-planning'],
+      ['You are a Question Generation Agent', 'question-generation'],
+      ['You are a Validation Agent', 'validation'],
+      ['You are a Response Analysis Agent', 'response-analysis'],
+      ['You are an expert interview assessor', 'response-analysis'],
+      ['You are an Overall Analysis Agent', 'overall-analysis'],
+      ['You are an expert interview analyst', 'session-analytics'],
+      ['You are the hiring committee', 'hiring-decision'],
+      ['You are an expert interviewer conducting a follow-up', 'follow-up'],
+      ['You are an expert AI interviewer', 'question']
+    ];
+    return roles.find(([opening]) => systemPrompt.startsWith(opening))?.[1] || 'feedback';
+  }
+
+  static topicAnalysis(text) {
+    const topic = field(text, 'Topic') || 'the role';
+    return {
+      mainConcepts: [`${topic} fundamentals`, `${topic} in practice`],
+      skills: ['problem solving', 'communication'],
+      technologies: [topic],
+      focusAreas: [`${topic} fundamentals`, `Applying ${topic}`, `Debugging ${topic}`, `Designing with ${topic}`, `${topic} trade-offs`],
+      complexity: 'medium',
+      questionCategories: ['conceptual', 'practical', 'scenario'],
+      relevanceKeywords: topic.toLowerCase().split(/\s+/)
+    };
+  }
+
+  static questionPlan(text) {
+    const questionNumber = parseInt(field(text, 'Current Question Number'), 10) || 1;
+    return {
+      questionPlan: {
+        totalQuestions: 5,
+        progression: 'easy-to-hard',
+        focusDistribution: { fundamentals: 40, practical: 40, advanced: 20 }
+      },
+      nextQuestionSpec: {
+        category: field(text, 'Style') || 'technical',
+        difficulty: questionNumber === 1 ? 'easy' : questionNumber === 2 ? 'medium' : 'hard',
+        focusArea: field(text, 'Topic') || 'General Knowledge',
+        concepts: [],
+        avoidTopics: [],
+        questionType: questionNumber === 1 ? 'theoretical' : 'practical'
+      },
+      reasoning: 'Mock plan steps difficulty up with each question'
+    };
+  }
+
+  /**
+   * The first template for the style that the prompt has not already listed as asked
+   */
+  static question(text) {
+    const topic = field(text, 'Topic') || 'this role';
+    const style = field(text, 'Style');
+    const templates = QUESTION_TEMPLATES[style] || QUESTION_TEMPLATES.technical;
+    const candidates = templates.map(template => template.replace('{topic}', topic));
+    return candidates.find(candidate => !text.includes(candidate)) || candidates[hash(text) % candidates.length];
+  }
+
+  /**
+   * Scores from simple, repeatable signals in the answer: length, examples, structure, outcomes and hedging
+   */
+  static scoreResponse(response) {
+    const words = (response.match(/\S+/g) || []).length;
+    const length = Math.min(words, 150) / 150;
+    const hasExample = EXAMPLE_WORDS.test(response);
+    const structure = Math.min((response.match(STRUCTURE_WORDS) || []).length, 4);
+    const hasResult = RESULT_WORDS.test(response);
+    const hedges = (response.match(HEDGE_WORDS) || []).length;
+
+    const responseAnalysis = {
+      clarity: clamp(45 + length * 30 + structure * 4 - hedges * 3),
+      structure: clamp(40 + structure * 10 + length * 15),
+      technical: clamp(40 + length * 35 + (hasExample ? 10 : 0)),
+      communication: clamp(50 + length * 25 + (hasExample ? 8 : 0) - hedges * 2),
+      confidence: clamp(65 + length * 15 - hedges * 8),
+      relevance: clamp(55 + length * 30)
+    };
+    const score = clamp(average(Object.values(responseAnalysis), 0) + (hasResult ? 5 : 0));
+    return { words, hasExample, structure, hasResult, hedges, responseAnalysis, score };
+  }
+
+  static responseAnalysis(response, text) {
+    const { words, hasExample, structure, hasResult, hedges, responseAnalysis, score } = this.scoreResponse(response);
+
+    const strengths = [
+      words >= 80 && 'Gave a complete, detailed answer',
+      hasExample && 'Backed the answer with a concrete example',
+      structure >= 2 && 'Structured the answer in clear steps',
+      hasResult && 'Explained the outcome'
+    ].filter(Boolean);
+    const improvements = [
+      words < 80 && 'Expand the answer with more detail',
+      !hasExample && 'Add a specific example from your experience',
+      structure < 2 && 'Walk through the answer in clear steps',
+      hedges > 1 && 'Commit to your answer instead of hedging'
+    ].filter(Boolean);
+
+    return {
+      responseAnalysis,
+      strengths: strengths.length > 0 ? strengths : ['Answered the question directly'],
+      improvements: improvements.length > 0 ? improvements : ['Tie the answer back to the role'],
+      feedback: `A ${score >= 75 ? 'strong' : score >= 60 ? 'reasonable' : 'thin'} answer of ${words} words.`,
+      score,
+      keyInsights: [`${words} words`, hasExample ? 'Uses an example' : 'No concrete example'],
+      reasoning: 'Mock analysis scores length, examples, structure, outcomes and hedging',
+      ...(text.includes('"codeReview"') && { codeReview: { correctness: score, codeQuality: score, feedback: 'Mock review of the submitted code.' } }),
+      ...(text.includes('"designReview"') && {
+        designReview: { components: 'Mock component review.', dataFlow: 'Mock data flow review.', scaling: 'Mock scaling review.', score }
+      })
+    };
+  }
+
+  static overallAnalysis(text) {
+    const scores = [...text.matchAll(/"overallScore":\s*(\d+(?:\.\d+)?)/g)].map(match => Number(match[1]));
+    const overallScore = average(scores, 70);
+    return {
+      overallScore,
+      performanceLevel: overallScore >= 85 ? 'excellent' : overallScore >= 70 ? 'good' : overallScore >= 55 ? 'fair' : 'needs_improvement',
+      strengths: ['Stayed on topic across the interview'],
+      improvements: ['Use a concrete example in every answer'],
+      responseAnalysis: { clarity: overallScore, structure: overallScore, technical: overallScore, communication: overallScore, confidence: overallScore },
+      trends: { improvement: 'consistent', consistency: 'medium', adaptability: 'medium' },
+      recommendations: ['Practice structuring answers as situation, approach and result'],
+      executiveSummary: `Mock summary: an average score of ${overallScore} across ${scores.length} answers.`,
+      nextSteps: ['Run another practice session on the weakest questions']
+    };
+  }
+
+  static sessionAnalytics(text) {
+    const questionReviews = [...text.matchAll(/^Q(\d+): (.*)\nA\1: (.*)$/gm)].map(([, number, question, response]) => {
+      const { score } = this.scoreResponse(response);
+      return { questionId: `q${number}`, question, response, score, feedback: this.responseAnalysis(response, '').feedback };
+    });
+    const overallScore = average(questionReviews.map(review => review.score), 70);
+
+    return {
+      overallScore,
+      strengths: ['Stayed on topic across the interview'],
+      improvements: ['Use a concrete example in every answer'],
+      responseAnalysis: { clarity: overallScore, structure: overallScore, technical: overallScore, communication: overallScore, confidence: overallScore },
+      questionReviews
+    };
+  }
+
+  static hiringDecision(text) {
+    const scores = [...text.matchAll(/- overall (\d+)/g)].map(match => Number(match[1]));
+    const lowest = scores.length > 0 ? Math.min(...scores) : 70;
+    const overall = average(scores, 70);
+    const recommendation = lowest < 50 ? 'no-hire' : overall >= 85 ? 'strong-hire' : overall >= 70 ? 'hire' : 'lean-no-hire';
+
+    return {
+      recommendation,
+      justification: `Mock decision from ${scores.length} rounds averaging ${overall}, with the weakest round at ${lowest}.`,
+      strengths: ['Consistent answers across rounds'],
+      concerns: lowest < 60 ? ['At least one round scored below the bar'] : []
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { getWeightedRubricScore, toResponseAnalysis, toRubricScore } from '../../shared/rubric.js';
+
+/**
+ * Rubric Utility
+ * Prompt sections and score normalization for the scoring rubric sent with the interview config
+ */
+
+const MAX_CRITERIA = 12;
+
+const isScore = (value) => typeof value === 'number' && value >= 0 && value <= 100;
+
+export class RubricUtils {
+  static hasRubric(config) {
+    return Array.isArray(config?.rubric?.criteria) && config.rubric.criteria.length > 0;
+  }
+
+  static getCriteria(config) {
+    return this.hasRubric(config) ? config.rubric.criteria.slice(0, MAX_CRITERIA) : [];
+  }
+
+  /**
+   * Prompt section listing each criterion with its weight and level descriptors, or an empty string
+   */
+  static formatForPrompt(config) {
+    if (!this.hasRubric(config)) return '';
+
+    const criteria = this.getCriteria(config).map(criterion => {
+      const levels = (criterion.levels || [])
+        .filter(level => level.descriptor)
+        .map(level => `      ${level.label} (${level.minScore}+): ${level.descriptor}`);
+
+      return [
+        `  • ${criterion.name} [weight ${criterion.weight}] (id: ${criterion.id})${criterion.description ? `: ${criterion.description}` : ''}`,
+        ...levels
+      ].join('\n');
+    });
+
+    return `SCORING RUBRIC (${config.rubric.name}):
+${criteria.join('\n')}`;
+  }
+
+  static getWeightedScore(scores) {
+    return getWeightedRubricScore(scores);
+  }
+
+  /**
+   * One score per rubric criterion from the LLM's rubricScores. Criteria it skipped fall back to the
+   * response dimension they map to, then to the answer's overall score.
+   */
+  static normalizeScores(config, rubricScores, responseAnalysis, fallbackScore = 70) {
+    const given = Array.isArray(rubricScores) ? rubricScores : [];
+
+    return this.getCriteria(config).map(criterion => {
+      const match = given.find(item => item && (item.criterionId === criterion.id || item.name === criterion.name));
+      const mapped = criterion.dimension && responseAnalysis?.[criterion.dimension];
+      const score = isScore(match?.score) ? match.score : isScore(mapped) ? mapped : fallbackScore;
+
+      return toRubricScore(criterion, score, typeof match?.feedback === 'string' ? match.feedback : undefined);
+    });
+  }
+
+  /**
+   * Session scores: each criterion averaged across the per-answer rubric scores
+   */
+  static aggregate(config, perResponse) {
+    return this.getCriteria(config).flatMap(criterion => {
+      const scores = perResponse
+        .map(list => (list || []).find(item => item.criterionId === criterion.id)?.score)
+        .filter(isScore);
+      if (scores.length === 0) return [];
+
+      return [toRubricScore(criterion, scores.reduce((sum, score) => sum + score, 0) / scores.length)];
+    });
+  }
+
+  /**
+   * Fill the response dimensions from the criteria that map to them, keeping the fallback where none do
+   */
+  static toResponseAnalysis(config, scores, fallback) {
+    return toResponseAnalysis(this.getCriteria(config), scores, fallback);
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * STAR Analysis Utility
+ * Splits behavioral answers into Situation, Task, Action and Result segments and validates LLM STAR breakdowns
+ */
+
+const COMPONENTS = ['situation', 'task', 'action', 'result'];
+const STRENGTHS = ['strong', 'weak', 'missing'];
+const STRENGTH_POINTS = { strong: 25, weak: 15, missing: 0 };
+
+const CUES = {
+  situation: [
+    /\b(at my (previous|last|current|old) (job|company|role|team))\b/i,
+    /\b(when i was|while i was|while working|back in|a few years ago|last year|in my (previous|last) role)\b/i,
+    /\b(we were|there was|there were|our team|the team was|the company|the project|our product|the client)\b/i,
+    /\b(situation|context|background)\b/i
+  ],
+  task: [
+    /\b(my (task|goal|job|role|responsibility|objective) (was|is))\b/i,
+    /\b(i was (responsible|asked|tasked|expected|assigned))\b/i,
+    /\b(i (needed|had|wanted) to|we (needed|had) to)\b/i,
+    /\b(the (goal|challenge|problem|objective|deadline) was)\b/i
+  ],
+  action: [
+    /\b(i (decided|implemented|created|built|led|organized|reached out|started|proposed|set up|scheduled|analy[sz]ed|designed|wrote|talked|met|suggested|introduced|broke|prioriti[sz]ed|automated|coordinated|escalated|refactored|investigated))\b/i,
+    /\b(so i|first,? i|then,? i|next,? i|after that,? i|i also)\b/i,
+    /\bi \w+ed\b/i
+  ],
+  result: [
+    /\b(as a result|in the end|ultimately|eventually|the outcome|the result|which (led|resulted) to|resulted in|ended up)\b/i,
+    /\b(improved|reduced|increased|saved|cut|grew|delivered|launched|shipped|achieved|exceeded)\b/i,
+    /\b(i learned|lesson|taught me|since then|going forward)\b/i,
+    /\d+\s?(%|percent|x\b|hours|days|weeks|users|customers)/i
+  ]
+};
+
+const MIN_WORDS = { situation: 12, task: 8, action: 20, result: 10 };
+
+const MISSING_FEEDBACK = {
+  situation: 'Open with a sentence of context: where you were and what was going on.',
+  task: 'State what you specifically were responsible for or trying to achieve.',
+  action: 'Walk through the concrete steps you personally took.',
+  result: 'Finish with the outcome, ideally with a number, and what you learned.'
+};
+
+export class StarAnalysisUtils {
+  static isBehavioral(config) {
+    return config?.style === 'behavioral';
+  }
+
+  static splitSentences(text) {
+    return text
+      .replace(/\s+/g, ' ')
+      .split(/(?<=[.!?])\s+(?=[A-Z0-9"'])/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+  }
+
+  /**
+   * Sentences without cues inherit the previous component, since answers usually stay on one part for several sentences
+   */
+  static classifySentence(sentence, position, previous) {
+    const scores = COMPONENTS.map(component => ({
+      component,
+      score: CUES[component].filter(cue => cue.test(sentence)).length
+    }));
+
+    if (position < 0.25) scores[0].score += 0.5;
+    if (position > 0.75) scores[3].score += 0.5;
+
+    const best = scores.reduce((top, current) => current.score > top.score ? current : top);
+    return best.score >= 1 ? best.component : previous || 'situation';
+  }
+
+  static assessSegment(component, text) {
+    if (!text) {
+      return { strength: 'missing', excerpt: '', feedback: MISSING_FEEDBACK[component] };
+    }
+
+    const issues = [];
+    const label = component.charAt(0).toUpperCase() + component.slice(1);
+
+    if (text.split(/\s+/).filter(Boolean).length < MIN_WORDS[component]) {
+      issues.push(`${label} is only briefly mentioned; add more detail.`);
+    }
+    if (component === 'action' && (text.match(/\bwe\b/gi) || []).length > (text.match(/\bi\b/gi) || []).length) {
+      issues.push('Mostly "we"; make your own contribution clear with "I".');
+    }
+    if (component === 'result' && !/\d/.test(text)) {
+      issues.push('Quantify the impact (time saved, percentage improved, users affected).');
+    }
+
+    return {
+      strength: issues.length > 0 ? 'weak' : 'strong',
+      excerpt: text.length > 160 ? `${text.slice(0, 160).trim()}…` : text,
+      feedback: issues.join(' ') || `Clear ${component}.`
+    };
+  }
+
+  /**
+   * Deterministic STAR breakdown used offline and whenever the LLM omits or garbles one
+   */
+  static analyze(response) {
+    const sentences = this.splitSentences(response || '');
+    const segments = { situation: [], task: [], action: [], result: [] };
+
+    let previous = null;
+    sentences.forEach((sentence, index) => {
+      const position = sentences.length > 1 ? index / (sentences.length - 1) : 0;
+      previous = this.classifySentence(sentence, position, previous);
+      segments[previous].push(sentence);
+    });
+
+    const analysis = {};
+    for (const component of COMPONENTS) {
+      analysis[component] = this.assessSegment(component, segments[component].join(' '));
+    }
+
+    return this.withTotals(analysis);
+  }
+
+  static withTotals(analysis) {
+    return {
+      ...analysis,
+      score: COMPONENTS.reduce((sum, component) => sum + STRENGTH_POINTS[analysis[component].strength], 0),
+      missing: COMPONENTS.filter(component => analysis[component].strength === 'missing'),
+      weak: COMPONENTS.filter(component => analysis[component].strength === 'weak')
+    };
+  }
+
+  /**
+   * Keep valid parts of the LLM's STAR breakdown and fill the rest from the deterministic analysis
+   */
+  static normalize(star, response) {
+    const fallback = this.analyze(response);
+    if (!star || typeof star !== 'object') return fallback;
+
+    const analysis = {};
+    for (const component of COMPONENTS) {
+      const segment = star[component];
+      analysis[component] = segment && STRENGTHS.includes(segment.strength)
+        ? {
+            strength: segment.strength,
+            excerpt: typeof segment.excerpt === 'string' ? segment.excerpt : '',
+            feedback: typeof segment.feedback === 'string' && segment.feedback.trim()
+              ? segment.feedback
+              : fallback[component].feedback
+          }
+        : fallback[component];
+    }
+
+    return this.withTotals(analysis);
+  }
+}
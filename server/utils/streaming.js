@@ -0,0 +1,120 @@
+/**
+ * Streaming Utility
+ * Reads token streams from the LLM providers and pushes progress to the browser as Server-Sent Events
+ */
+
+export class StreamingUtils {
+  /**
+   * Switch an Express response to an event stream. Returns send(event, data) and close(); sends after the client
+   * disconnects are dropped.
+   */
+  static openEventStream(res) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    let open = true;
+    res.on('close', () => {
+      open = false;
+    });
+
+    return {
+      send(event, data) {
+        if (!open) return;
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      },
+      close() {
+        if (!open) return;
+        open = false;
+        res.end();
+      }
+    };
+  }
+
+  /**
+   * Call onData with the payload of every "data:" line in a provider's event stream
+   */
+  static async readEventStream(body, onData) {
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const chunk of body) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop();
+
+      lines.forEach(line => {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('data:')) {
+          onData(trimmed.slice(5).trim());
+        }
+      });
+    }
+
+    const rest = buffer.trim();
+    if (rest.startsWith('data:')) {
+      onData(rest.slice(5).trim());
+    }
+  }
+
+  /**
+   * Replay a complete response as word-sized tokens, for providers that answered without streaming
+   */
+  static emitTokens(text, onToken) {
+    (text.match(/\s*\S+/g) || []).forEach(token => onToken(token));
+  }
+
+  /**
+   * The value of a string field in JSON that is still arriving, decoded as far as it has been received.
+   * Returns null until the field's opening quote has arrived.
+   */
+  static readPartialField(json, field) {
+    const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(json);
+    if (!match) return null;
+
+    let value = '';
+    for (let i = match.index + match[0].length; i < json.length; i++) {
+      const char = json[i];
+      if (char === '"') break;
+      if (char !== '\\') {
+        value += char;
+        continue;
+      }
+
+      const next = json[i + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = json.slice(i + 2, i + 6);
+        if (hex.length < 4) break;
+        value += String.fromCharCode(parseInt(hex, 16));
+        i += 5;
+      } else {
+        value += { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' }[next] ?? next;
+        i += 1;
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * Token handler for a JSON response that passes on only the newly received text of one string field
+   */
+  static createFieldStream(field, onText) {
+    let json = '';
+    let sent = 0;
+
+    return token => {
+      json += token;
+      const value = StreamingUtils.readPartialField(json, field);
+      if (value !== null && value.length > sent) {
+        onText(value.slice(sent));
+        sent = value.length;
+      }
+    };
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * System Design Utility
+ * Formats whiteboard diagrams for the analysis prompts and derives a heuristic design review
+ */
+
+const MAX_NODES = 40;
+
+const KIND_LABELS = {
+  client: 'Client',
+  loadBalancer: 'Load Balancer',
+  service: 'Service',
+  database: 'Database',
+  cache: 'Cache',
+  queue: 'Queue',
+  storage: 'Object Storage',
+  external: 'External API'
+};
+
+export class SystemDesignUtils {
+  static hasDiagram(diagram) {
+    return Array.isArray(diagram?.nodes) && diagram.nodes.length > 0;
+  }
+
+  /**
+   * Build a prompt section listing the components and connections of the candidate's diagram
+   */
+  static formatForPrompt(diagram) {
+    if (!this.hasDiagram(diagram)) return '';
+
+    const nodes = diagram.nodes.slice(0, MAX_NODES);
+    const labels = new Map(nodes.map(node => [node.id, node.label]));
+    const edges = (diagram.edges || []).filter(edge => labels.has(edge.from) && labels.has(edge.to));
+
+    const components = nodes.map(node => `  • ${node.label} (${KIND_LABELS[node.kind] || node.kind})`);
+    const connections = edges.map(edge =>
+      `  • ${labels.get(edge.from)} → ${labels.get(edge.to)}${edge.label ? ` [${edge.label}]` : ''}`
+    );
+
+    return `WHITEBOARD DIAGRAM:
+Components:
+${components.join('\n')}
+Data flow:
+${connections.length ? connections.join('\n') : '  • (no connections drawn)'}`;
+  }
+
+  /**
+   * Structural critique used when the LLM does not return a design review
+   */
+  static reviewDiagram(diagram) {
+    const nodes = diagram.nodes || [];
+    const edges = diagram.edges || [];
+    const kinds = new Set(nodes.map(node => node.kind));
+    const connected = new Set(edges.flatMap(edge => [edge.from, edge.to]));
+    const orphans = nodes.filter(node => !connected.has(node.id));
+    const unlabeled = edges.filter(edge => !edge.label?.trim()).length;
+
+    let score = 40;
+    if (nodes.length >= 4) score += 10;
+    if (kinds.has('database') || kinds.has('storage')) score += 10;
+    if (orphans.length === 0) score += 10;
+    if (edges.length > 0 && unlabeled === 0) score += 5;
+    if (kinds.has('loadBalancer')) score += 10;
+    if (kinds.has('cache')) score += 10;
+    if (kinds.has('queue')) score += 5;
+
+    return {
+      components: `${nodes.length} components drawn.${kinds.has('database') || kinds.has('storage') ? '' : ' No persistent data store is shown.'}`,
+      dataFlow: orphans.length > 0
+        ? `Not connected to anything: ${orphans.map(node => node.label).join(', ')}.`
+        : `${edges.length} connections drawn${unlabeled > 0 ? `, ${unlabeled} unlabeled` : ''}.`,
+      scaling: [
+        kinds.has('loadBalancer') ? 'Load balancer allows horizontal scaling.' : 'No load balancer in front of the service tier.',
+        kinds.has('cache') ? 'Cache reduces read load.' : 'No cache for hot reads.',
+        kinds.has('queue') ? 'Queue decouples bursty workloads.' : ''
+      ].filter(Boolean).join(' '),
+      score: Math.min(95, score)
+    };
+  }
+
+  /**
+   * Fill gaps in the LLM's design review with the structural critique
+   */
+  static normalizeDesignReview(review, diagram) {
+    const fallback = this.reviewDiagram(diagram);
+    const text = value => typeof value === 'string' && value.trim() ? value : null;
+
+    return {
+      components: text(review?.components) || fallback.components,
+      dataFlow: text(review?.dataFlow) || fallback.dataFlow,
+      scaling: text(review?.scaling) || fallback.scaling,
+      score: typeof review?.score === 'number' && review.score >= 0 && review.score <= 100
+        ? Math.round(review.score)
+        : fallback.score
+    };
+  }
+}
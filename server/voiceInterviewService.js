@@ -1,10 +1,29 @@
 import { LLMQuestionGenerator } from './llmService.js';
+import { createSessionStore } from './sessionStore.js';
+
+// Session timestamps round-trip through the store as ISO strings
+const toTime = (value) => new Date(value).getTime();
 
 export class VoiceInterviewService {
-  constructor(livekitService, llmService) {
+  constructor(livekitService, llmService, sessionStore) {
     this.livekit = livekitService;
     this.llm = llmService || new LLMQuestionGenerator();
-    this.activeInterviews = new Map(); // Store active interview sessions
+    this.activeInterviews = sessionStore || createSessionStore('voice-interviews'); // Persisted so interviews survive a restart
+  }
+
+  /**
+   * Load a session from the store, throwing when it is missing or expired
+   */
+  async getSession(sessionId) {
+    const session = await this.activeInterviews.get(sessionId);
+    if (!session) {
+      throw new Error('Interview session not found');
+    }
+    return session;
+  }
+
+  async saveSession(session) {
+    await this.activeInterviews.set(session.sessionId, session);
   }
 
   /**
@@ -44,7 +63,7 @@ export class VoiceInterviewService {
       };
 
       // Store session
-      this.activeInterviews.set(sessionId, interviewSession);
+      await this.saveSession(interviewSession);
 
       // Generate first question
       const firstQuestionData = await this.generateNextQuestion(sessionId);
@@ -89,10 +108,7 @@ export class VoiceInterviewService {
    * Generate the next question for an interview session
    */
   async generateNextQuestion(sessionId) {
-    const session = this.activeInterviews.get(sessionId);
-    if (!session) {
-      throw new Error('Interview session not found');
-    }
+    const session = await this.getSession(sessionId);
 
     try {
       const question = await this.llm.generateQuestion({
@@ -108,7 +124,7 @@ export class VoiceInterviewService {
       session.currentQuestionIndex++;
 
       // Update session
-      this.activeInterviews.set(sessionId, session);
+      await this.saveSession(session);
 
       return {
         question: questionText,
@@ -125,10 +141,7 @@ export class VoiceInterviewService {
    * Process voice response from participant
    */
   async processVoiceResponse(sessionId, transcription, audioMetadata = {}) {
-    const session = this.activeInterviews.get(sessionId);
-    if (!session) {
-      throw new Error('Interview session not found');
-    }
+    let session = await this.getSession(sessionId);
 
     try {
       const currentQuestion = session.questions[session.currentQuestionIndex - 1];
@@ -140,10 +153,11 @@ export class VoiceInterviewService {
         response: transcription,
         timestamp: new Date(),
         audioMetadata,
-        duration: Date.now() - session.startTime
+        duration: Date.now() - toTime(session.startTime)
       };
 
       session.responses.push(response);
+      await this.saveSession(session);
 
       // Analyze response in real-time
       let analysis = null;
@@ -165,16 +179,16 @@ export class VoiceInterviewService {
         try {
           const questionData = await this.generateNextQuestion(sessionId);
           nextQuestion = questionData;
+          // generateNextQuestion saved its own copy with the new question
+          session = await this.getSession(sessionId);
         } catch (error) {
           console.error('Error generating next question:', error);
         }
       } else {
         session.status = 'completed';
+        await this.saveSession(session);
       }
 
-      // Update session
-      this.activeInterviews.set(sessionId, session);
-
       return {
         responseProcessed: true,
         analysis,
@@ -196,10 +210,7 @@ export class VoiceInterviewService {
    * Generate follow-up question based on response
    */
   async generateFollowUp(sessionId, responseText) {
-    const session = this.activeInterviews.get(sessionId);
-    if (!session) {
-      throw new Error('Interview session not found');
-    }
+    const session = await this.getSession(sessionId);
 
     try {
       const currentQuestion = session.questions[session.currentQuestionIndex - 1];
@@ -224,15 +235,12 @@ export class VoiceInterviewService {
   /**
    * Pause an interview session
    */
-  pauseInterview(sessionId) {
-    const session = this.activeInterviews.get(sessionId);
-    if (!session) {
-      throw new Error('Interview session not found');
-    }
+  async pauseInterview(sessionId) {
+    const session = await this.getSession(sessionId);
 
     session.status = 'paused';
     session.pausedAt = new Date();
-    this.activeInterviews.set(sessionId, session);
+    await this.saveSession(session);
 
     return { paused: true, sessionId };
   }
@@ -240,18 +248,15 @@ export class VoiceInterviewService {
   /**
    * Resume an interview session
    */
-  resumeInterview(sessionId) {
-    const session = this.activeInterviews.get(sessionId);
-    if (!session) {
-      throw new Error('Interview session not found');
-    }
+  async resumeInterview(sessionId) {
+    const session = await this.getSession(sessionId);
 
     session.status = 'active';
     if (session.pausedAt) {
-      session.pauseDuration = (session.pauseDuration || 0) + (Date.now() - session.pausedAt.getTime());
+      session.pauseDuration = (session.pauseDuration || 0) + (Date.now() - toTime(session.pausedAt));
       delete session.pausedAt;
     }
-    this.activeInterviews.set(sessionId, session);
+    await this.saveSession(session);
 
     return { resumed: true, sessionId };
   }
@@ -260,14 +265,12 @@ export class VoiceInterviewService {
    * End an interview session and generate analytics
    */
   async endInterview(sessionId) {
-    const session = this.activeInterviews.get(sessionId);
-    if (!session) {
-      throw new Error('Interview session not found');
-    }
+    const session = await this.getSession(sessionId);
 
     try {
       session.status = 'completed';
       session.endTime = new Date();
+      await this.saveSession(session);
 
       // Generate comprehensive analytics
       const analytics = await this.llm.generateComprehensiveAnalytics({
@@ -280,7 +283,7 @@ export class VoiceInterviewService {
         ...analytics,
         sessionMetadata: {
           sessionId,
-          duration: session.endTime - session.startTime,
+          duration: toTime(session.endTime) - toTime(session.startTime),
           pauseDuration: session.pauseDuration || 0,
           questionsAsked: session.questions.length,
           responsesGiven: session.responses.length,
@@ -288,8 +291,7 @@ export class VoiceInterviewService {
         }
       };
 
-      // Clean up session (optional - you might want to keep for history)
-      // this.activeInterviews.delete(sessionId);
+      // Completed sessions stay in the store until they expire, so status keeps answering
 
       return {
         completed: true,
@@ -309,8 +311,8 @@ export class VoiceInterviewService {
   /**
    * Get interview session status
    */
-  getSessionStatus(sessionId) {
-    const session = this.activeInterviews.get(sessionId);
+  async getSessionStatus(sessionId) {
+    const session = await this.activeInterviews.get(sessionId);
     if (!session) {
       return { found: false };
     }
@@ -324,7 +326,7 @@ export class VoiceInterviewService {
         total: this.calculateTotalQuestions(session.config.duration),
         percentage: (session.currentQuestionIndex / this.calculateTotalQuestions(session.config.duration)) * 100
       },
-      duration: Date.now() - session.startTime.getTime(),
+      duration: Date.now() - toTime(session.startTime),
       questionsAsked: session.questions.length,
       responsesGiven: session.responses.length
     };
@@ -334,10 +336,7 @@ export class VoiceInterviewService {
    * Reconnect to an existing interview session
    */
   async reconnectToSession(sessionId, participantName) {
-    const session = this.activeInterviews.get(sessionId);
-    if (!session) {
-      throw new Error('Interview session not found');
-    }
+    const session = await this.getSession(sessionId);
 
     try {
       // Generate new token for reconnection
@@ -373,7 +372,7 @@ export class VoiceInterviewService {
    */
   shouldContinueInterview(session) {
     const maxQuestions = this.calculateTotalQuestions(session.config.duration);
-    const timeElapsed = Date.now() - session.startTime.getTime();
+    const timeElapsed = Date.now() - toTime(session.startTime);
     const maxDuration = session.config.duration * 60 * 1000; // Convert to milliseconds
 
     return session.currentQuestionIndex < maxQuestions && timeElapsed < maxDuration;
@@ -389,9 +388,9 @@ export class VoiceInterviewService {
   /**
    * Get all active sessions (for monitoring/admin purposes)
    */
-  getActiveSessions() {
+  async getActiveSessions() {
     const sessions = [];
-    for (const [sessionId, session] of this.activeInterviews) {
+    for (const [sessionId, session] of await this.activeInterviews.entries()) {
       sessions.push({
         sessionId,
         participantName: session.participantName,
@@ -0,0 +1,10 @@
+import type { Difficulty, ExperienceLevel } from '../src/types';
+
+export const DIFFICULTIES: Difficulty[];
+
+export const STEP_UP_SCORE: number;
+export const STEP_DOWN_SCORE: number;
+
+export function getStartingDifficulty(level: ExperienceLevel): Difficulty;
+
+export function getNextDifficulty(current: Difficulty, latestScore: number): Difficulty;
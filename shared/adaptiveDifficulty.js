@@ -0,0 +1,21 @@
+export const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+// Score bands for moving between difficulty levels
+export const STEP_UP_SCORE = 75;
+export const STEP_DOWN_SCORE = 55;
+
+export function getStartingDifficulty(level) {
+  if (level === 'fresher' || level === 'junior') return 'easy';
+  return 'medium';
+}
+
+/**
+ * Raise the difficulty after a strong answer, lower it after a weak one, otherwise hold
+ */
+export function getNextDifficulty(current, latestScore) {
+  const index = DIFFICULTIES.indexOf(current);
+
+  if (latestScore >= STEP_UP_SCORE) return DIFFICULTIES[Math.min(index + 1, DIFFICULTIES.length - 1)];
+  if (latestScore < STEP_DOWN_SCORE) return DIFFICULTIES[Math.max(index - 1, 0)];
+  return current;
+}
@@ -0,0 +1,6 @@
+export interface CodeQualityAssessment {
+  score: number;
+  notes: string[];
+}
+
+export function assessCodeQuality(code: string): CodeQualityAssessment;
@@ -0,0 +1,66 @@
+/**
+ * Heuristic code quality score used when the LLM review is unavailable.
+ * Looks at readability signals only; correctness comes from the test results.
+ * Used by the app for offline analytics and by the server when the LLM review omits a score.
+ */
+export function assessCodeQuality(code) {
+  const lines = code.split('\n').filter(line => line.trim().length > 0);
+  const notes = [];
+  let score = 65;
+
+  if (lines.length <= 2) {
+    return { score: 20, notes: ['Solution is essentially empty'] };
+  }
+
+  if (/\bvar\s/.test(code)) {
+    score -= 5;
+    notes.push('Prefer const/let over var');
+  } else {
+    score += 5;
+  }
+
+  if (/\/\/|\/\*/.test(code)) {
+    score += 5;
+  } else if (lines.length > 15) {
+    notes.push('Consider a short comment explaining the approach');
+  }
+
+  if (/console\.log/.test(code)) {
+    score -= 5;
+    notes.push('Remove leftover console.log debugging');
+  }
+
+  // Deep nesting is a readability smell
+  let depth = 0;
+  let maxDepth = 0;
+  for (const char of code) {
+    if (char === '{') maxDepth = Math.max(maxDepth, ++depth);
+    if (char === '}') depth--;
+  }
+  if (maxDepth > 4) {
+    score -= 10;
+    notes.push('Reduce nesting by extracting helpers or returning early');
+  } else {
+    score += 5;
+  }
+
+  const declaredNames = Array.from(code.matchAll(/\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)/g)).map(match => match[1]);
+  const shortNames = declaredNames.filter(name => name.length === 1 && !['i', 'j', 'k', 'n', 'a', 'b'].includes(name));
+  if (shortNames.length > 2) {
+    score -= 5;
+    notes.push('Use more descriptive variable names');
+  } else if (declaredNames.length > 0) {
+    score += 5;
+  }
+
+  if (/\b(Map|Set)\b/.test(code)) {
+    score += 5;
+  }
+
+  if (lines.length > 60) {
+    score -= 5;
+    notes.push('Solution is long; look for a simpler approach');
+  }
+
+  return { score: Math.max(30, Math.min(95, score)), notes };
+}
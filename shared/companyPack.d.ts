@@ -0,0 +1,3 @@
+import type { CompanyPack, InterviewStyle, Question } from '../src/types';
+
+export function getCompanyPackQuestions(pack: CompanyPack, style: InterviewStyle): Question[];
@@ -0,0 +1,34 @@
+const strings = items => (Array.isArray(items) ? items.filter(item => typeof item === 'string' && item.trim()) : []);
+
+/**
+ * Questions a pack contributes for an interview style: its own questions first, then prompts built
+ * from its leadership principles (behavioral) or values (HR). Packs reach the server as sent by the
+ * client, so fields are checked rather than assumed.
+ */
+export function getCompanyPackQuestions(pack, style) {
+  const own = (pack.questions || [])
+    .filter(question => question.style === style && question.text)
+    .map((question, index) => ({
+      id: `${pack.id}-${style}-${index + 1}`,
+      text: question.text,
+      category: question.category || pack.name,
+      difficulty: question.difficulty || 'medium'
+    }));
+
+  const templates =
+    style === 'behavioral'
+      ? strings(pack.leadershipPrinciples).map(principle => `Tell me about a time you demonstrated "${principle}". What did you do and what was the outcome?`)
+      : style === 'hr'
+        ? strings(pack.values).map(value => `${pack.name} values "${value}". How has that shown up in the way you work?`)
+        : [];
+
+  return [
+    ...own,
+    ...templates.map((text, index) => ({
+      id: `${pack.id}-${style}-principle-${index + 1}`,
+      text,
+      category: pack.name,
+      difficulty: 'medium'
+    }))
+  ];
+}
@@ -0,0 +1,7 @@
+import type { ConceptCoverage } from '../src/types';
+
+export function conceptPattern(concepts: string[], flags: string): RegExp;
+
+export function isConceptCovered(response: string, concept: string): boolean;
+
+export function analyzeConceptCoverage(response: string, keyConcepts: string[]): ConceptCoverage;
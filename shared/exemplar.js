@@ -0,0 +1,29 @@
+// Words match on their first few letters so "hoisting" covers "hoisted" and "promise" covers "promises"
+const STEM_LENGTH = 5;
+const MIN_SIGNIFICANT_LENGTH = 4;
+
+const escapeRegExp = value => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Matches any of the concepts as a whole phrase
+ */
+export const conceptPattern = (concepts, flags) =>
+  new RegExp(`(?<![a-z0-9])(${concepts.map(escapeRegExp).join('|')})(?![a-z0-9])`, flags);
+
+/**
+ * A concept counts as covered when the answer uses the phrase, or a form of every significant word in it
+ */
+export function isConceptCovered(response, concept) {
+  if (conceptPattern([concept], 'i').test(response)) return true;
+
+  const significant = (concept.toLowerCase().match(/[a-z0-9]+/g) || []).filter(word => word.length >= MIN_SIGNIFICANT_LENGTH);
+  if (significant.length === 0) return false;
+
+  const responseWords = response.toLowerCase().match(/[a-z0-9]+/g) || [];
+  return significant.every(word => responseWords.some(candidate => candidate.startsWith(word.slice(0, STEM_LENGTH))));
+}
+
+export function analyzeConceptCoverage(response, keyConcepts) {
+  const covered = keyConcepts.filter(concept => isConceptCovered(response, concept));
+  return { covered, missed: keyConcepts.filter(concept => !covered.includes(concept)) };
+}
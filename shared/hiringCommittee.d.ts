@@ -0,0 +1,17 @@
+import type { HiringCommitteeSummary, InterviewStyle, RoundVerdict } from '../src/types';
+
+export const PASS_SCORE: number;
+export const BORDERLINE_SCORE: number;
+
+export interface CommitteeRound {
+  name: string;
+  style: InterviewStyle;
+  duration: number;
+  overallScore: number;
+  strengths?: string[];
+  improvements?: string[];
+}
+
+export function getRoundVerdict(score: number): RoundVerdict;
+
+export function summarizeRounds(rounds: CommitteeRound[]): HiringCommitteeSummary;
@@ -0,0 +1,60 @@
+// Round score bands
+export const PASS_SCORE = 70;
+export const BORDERLINE_SCORE = 60;
+
+export function getRoundVerdict(score) {
+  if (score >= PASS_SCORE) return 'pass';
+  if (score >= BORDERLINE_SCORE) return 'borderline';
+  return 'fail';
+}
+
+/**
+ * Deterministic hiring committee decision, used offline and whenever the LLM decision is unavailable.
+ * Longer rounds weigh more, and a single failed round blocks a hire the way a committee veto would.
+ */
+export function summarizeRounds(rounds) {
+  const scored = rounds.map(round => {
+    const score = Math.round(Number(round.overallScore) || 0);
+    return { name: round.name, style: round.style, score, verdict: getRoundVerdict(score) };
+  });
+
+  // Duration-weighted, so a 45 minute onsite counts more than a 15 minute screen
+  const totalMinutes = rounds.reduce((sum, round) => sum + (round.duration || 0), 0);
+  const overallScore = totalMinutes > 0
+    ? Math.round(rounds.reduce((sum, round) => sum + (Number(round.overallScore) || 0) * (round.duration || 0), 0) / totalMinutes)
+    : 0;
+
+  const failed = scored.filter(round => round.verdict === 'fail');
+  const borderline = scored.filter(round => round.verdict === 'borderline');
+
+  let recommendation = 'no-hire';
+  if (overallScore >= 85 && failed.length === 0 && borderline.length === 0) recommendation = 'strong-hire';
+  else if (overallScore >= PASS_SCORE && failed.length === 0) recommendation = 'hire';
+  else if (overallScore >= BORDERLINE_SCORE && failed.length <= 1) recommendation = 'lean-no-hire';
+
+  const best = [...scored].sort((a, b) => b.score - a.score)[0];
+  const justification = [
+    `Weighted score of ${overallScore} across ${scored.length} round${scored.length === 1 ? '' : 's'}.`,
+    best ? `Strongest round: ${best.name} (${best.score}).` : '',
+    failed.length > 0 ? `Below the bar in ${failed.map(round => round.name).join(', ')}.` : '',
+    borderline.length > 0 ? `Borderline in ${borderline.map(round => round.name).join(', ')}.` : '',
+    failed.length === 0 && borderline.length === 0 ? 'Cleared the bar in every round.' : ''
+  ].filter(Boolean).join(' ');
+
+  // Points raised in more than one round carry the most weight with a committee
+  const collect = lists => {
+    const counts = new Map();
+    lists.flat().forEach(item => counts.set(item, (counts.get(item) || 0) + 1));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 4).map(([item]) => item);
+  };
+
+  return {
+    recommendation,
+    overallScore,
+    justification,
+    strengths: collect(rounds.map(round => round.strengths || [])),
+    concerns: collect(rounds.map(round => round.improvements || [])),
+    rounds: scored,
+    source: 'offline'
+  };
+}
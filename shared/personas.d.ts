@@ -0,0 +1,16 @@
+import type { InterviewerPersona } from '../src/types';
+
+export interface PersonaDefinition extends InterviewerPersona {
+  /** Interviewer manner for the LLM prompts */
+  prompt: string;
+  /** Tone for spoken feedback between questions; null when the persona gives none */
+  feedback: string | null;
+  greeting: string;
+  /** Voice agent TTS settings by provider */
+  serverVoices: {
+    openai: { voice: string; speed: number };
+    google: { name: string; ssmlGender: string; speakingRate: number; pitch: number };
+  };
+}
+
+export const interviewerPersonas: PersonaDefinition[];
@@ -0,0 +1,15 @@
+import type { AnalyticsData, ResponseDimension, RubricCriterion, RubricLevel, RubricScore } from '../src/types';
+
+export const RESPONSE_DIMENSIONS: ResponseDimension[];
+
+export function getRubricLevel(criterion: RubricCriterion, score: number): RubricLevel | undefined;
+
+export function toRubricScore(criterion: RubricCriterion, score: number, feedback?: string): RubricScore;
+
+export function getWeightedRubricScore(scores: RubricScore[]): number;
+
+export function toResponseAnalysis(
+  criteria: RubricCriterion[],
+  scores: RubricScore[],
+  fallback: AnalyticsData['responseAnalysis']
+): AnalyticsData['responseAnalysis'];
@@ -0,0 +1,41 @@
+export const RESPONSE_DIMENSIONS = ['clarity', 'structure', 'technical', 'communication', 'confidence'];
+
+export function getRubricLevel(criterion, score) {
+  const levels = criterion.levels || [];
+  return levels.find(level => score >= level.minScore) || levels[levels.length - 1];
+}
+
+export function toRubricScore(criterion, score, feedback) {
+  const rounded = Math.round(Math.max(0, Math.min(100, score)));
+  return {
+    criterionId: criterion.id,
+    name: criterion.name,
+    weight: criterion.weight,
+    score: rounded,
+    level: getRubricLevel(criterion, rounded)?.label || '',
+    ...(feedback && { feedback })
+  };
+}
+
+export function getWeightedRubricScore(scores) {
+  const totalWeight = scores.reduce((sum, item) => sum + item.weight, 0);
+  if (totalWeight === 0) return 0;
+  return Math.round(scores.reduce((sum, item) => sum + item.score * item.weight, 0) / totalWeight);
+}
+
+/**
+ * Fill the legacy response dimensions from rubric criteria that map to them, keeping the fallback where none do
+ */
+export function toResponseAnalysis(criteria, scores, fallback) {
+  const analysis = { ...fallback };
+
+  RESPONSE_DIMENSIONS.forEach(dimension => {
+    const ids = criteria.filter(criterion => criterion.dimension === dimension).map(criterion => criterion.id);
+    const mapped = scores.filter(score => ids.includes(score.criterionId));
+    if (mapped.length > 0) {
+      analysis[dimension] = Math.round(mapped.reduce((sum, score) => sum + score.score, 0) / mapped.length);
+    }
+  });
+
+  return analysis;
+}
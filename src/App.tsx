@@ -2,21 +2,66 @@ import React, { useState } from 'react';
 import { ConfigurationScreen } from './components/ConfigurationScreen';
 import { InterviewScreen } from './components/InterviewScreen';
 import { AnalyticsScreen } from './components/AnalyticsScreen';
-import { InterviewConfig, AppScreen } from './types';
+import { HistoryScreen } from './components/HistoryScreen';
+import { ProgressDashboard } from './components/ProgressDashboard';
+import { LoopSummaryScreen } from './components/LoopSummaryScreen';
+import { DrillScreen } from './components/DrillScreen';
+import { QuestionBankScreen } from './components/QuestionBankScreen';
+import { InterviewConfig, AppScreen, InterviewSession, AnalyticsData, LoopRound, LoopRoundResult } from './types';
 import { AIInterviewSimulator } from './utils/aiSimulator';
+import { createRoundConfig } from './utils/interviewLoop';
+
+interface LoopState {
+  base: InterviewConfig;
+  rounds: LoopRound[];
+  results: LoopRoundResult[];
+}
 
 function App() {
   const [currentScreen, setCurrentScreen] = useState<AppScreen>('config');
   const [interviewConfig, setInterviewConfig] = useState<InterviewConfig | null>(null);
   const [completedSimulator, setCompletedSimulator] = useState<AIInterviewSimulator | null>(null);
+  const [selectedSession, setSelectedSession] = useState<InterviewSession | null>(null);
+  const [loop, setLoop] = useState<LoopState | null>(null);
 
   const handleStartInterview = (config: InterviewConfig) => {
-    setInterviewConfig(config);
+    if (config.loop?.length) {
+      setLoop({ base: config, rounds: config.loop, results: [] });
+      setInterviewConfig(createRoundConfig(config, config.loop, []));
+    } else {
+      setLoop(null);
+      setInterviewConfig(config);
+    }
     setCurrentScreen('interview');
   };
 
+  const handleContinueLoop = (analytics: AnalyticsData, sessionId: string) => {
+    if (!loop || !completedSimulator) return;
+
+    const results = [
+      ...loop.results,
+      {
+        round: loop.rounds[loop.results.length],
+        sessionId,
+        config: completedSimulator.getConfig(),
+        responses: completedSimulator.getResponses(),
+        analytics
+      }
+    ];
+    setLoop({ ...loop, results });
+    setCompletedSimulator(null);
+
+    if (results.length < loop.rounds.length) {
+      setInterviewConfig(createRoundConfig(loop.base, loop.rounds, results));
+      setCurrentScreen('interview');
+    } else {
+      setCurrentScreen('loop-summary');
+    }
+  };
+
   const handleEndInterview = (simulator: AIInterviewSimulator) => {
     setCompletedSimulator(simulator);
+    setSelectedSession(null);
     setCurrentScreen('analytics');
   };
 
@@ -24,38 +69,113 @@ function App() {
     setCurrentScreen('config');
     setInterviewConfig(null);
     setCompletedSimulator(null);
+    setSelectedSession(null);
+    setLoop(null);
   };
 
   const handleRetryInterview = () => {
     if (interviewConfig) {
       setCurrentScreen('interview');
       setCompletedSimulator(null);
+      setSelectedSession(null);
     }
   };
 
+  const handleViewHistory = () => {
+    setCompletedSimulator(null);
+    setSelectedSession(null);
+    setCurrentScreen('history');
+  };
+
+  const handleViewProgress = () => {
+    setCurrentScreen('progress');
+  };
+
+  const handleOpenDrill = () => {
+    setCompletedSimulator(null);
+    setSelectedSession(null);
+    setCurrentScreen('drill');
+  };
+
+  const handleOpenQuestionBank = () => {
+    setCurrentScreen('question-bank');
+  };
+
+  const handleOpenSession = (session: InterviewSession) => {
+    setSelectedSession(session);
+    setInterviewConfig(session.config);
+    setCurrentScreen('analytics');
+  };
+
   return (
     <div className="min-h-screen">
       {currentScreen === 'config' && (
-        <ConfigurationScreen onStartInterview={handleStartInterview} />
+        <ConfigurationScreen
+          onStartInterview={handleStartInterview}
+          onViewHistory={handleViewHistory}
+          onOpenDrill={handleOpenDrill}
+          onOpenQuestionBank={handleOpenQuestionBank}
+        />
       )}
-      
+
       {currentScreen === 'interview' && interviewConfig && (
         <InterviewScreen
+          key={interviewConfig.loopContext?.roundNumber ?? 'single'}
           config={interviewConfig}
           onEndInterview={handleEndInterview}
           onBackToConfig={handleBackToConfig}
         />
       )}
-      
-      {currentScreen === 'analytics' && completedSimulator && (
+
+      {currentScreen === 'analytics' && (completedSimulator || selectedSession) && (
         <AnalyticsScreen
-          simulator={completedSimulator}
+          key={selectedSession?.id ?? 'current'}
+          simulator={completedSimulator ?? undefined}
+          session={selectedSession ?? undefined}
           onBackToConfig={handleBackToConfig}
           onRetryInterview={handleRetryInterview}
+          onViewHistory={handleViewHistory}
+          onOpenDrill={handleOpenDrill}
+          onContinueLoop={loop && !selectedSession ? handleContinueLoop : undefined}
+        />
+      )}
+
+      {currentScreen === 'loop-summary' && loop && (
+        <LoopSummaryScreen
+          config={loop.base}
+          results={loop.results}
+          onBackToConfig={handleBackToConfig}
+          onViewHistory={handleViewHistory}
+        />
+      )}
+
+      {currentScreen === 'history' && (
+        <HistoryScreen
+          onOpenSession={handleOpenSession}
+          onViewProgress={handleViewProgress}
+          onBackToConfig={handleBackToConfig}
+        />
+      )}
+
+      {currentScreen === 'drill' && (
+        <DrillScreen
+          onStartDrill={handleStartInterview}
+          onBackToConfig={handleBackToConfig}
+        />
+      )}
+
+      {currentScreen === 'question-bank' && (
+        <QuestionBankScreen onBackToConfig={handleBackToConfig} />
+      )}
+
+      {currentScreen === 'progress' && (
+        <ProgressDashboard
+          onViewHistory={handleViewHistory}
+          onBackToConfig={handleBackToConfig}
         />
       )}
     </div>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -14,39 +14,179 @@ import {
   Zap,
   Clock,
   CheckCircle,
-  AlertTriangle
+  AlertTriangle,
+  History,
+  Code2,
+  PenTool,
+  ListChecks,
+  TrendingDown,
+  Mic,
+  ArrowRight,
+  Gavel,
+  BookOpen,
+  Repeat,
+  FileText,
+  Handshake,
+  BarChart3,
+  Calculator,
+  CornerDownRight
 } from 'lucide-react';
 import { AIInterviewSimulator } from '../utils/aiSimulator';
+import { HistoryService } from '../services/historyService';
+import { AnalyticsStreamUpdate } from '../services/apiService';
+import { DrillService } from '../services/drillService';
+import { AnalyticsData, AnswerAttempt, CaseExhibit, CaseMathCheck, CasePhaseScore, ConceptCoverage, ConcessionStrategy, DeliveryMetrics, Difficulty, DifficultyStep, InterviewSession, NegotiationStatus, NegotiationTurn, RubricScore, StarSegment, StarStrength, TranscriptFormat } from '../types';
+import { SystemDesignCanvas } from './SystemDesignCanvas';
+import { STAR_COMPONENTS, getStarLabel } from '../utils/starAnalyzer';
+import { LONG_PAUSE_MS, PACE_RANGE, getPaceLabel } from '../utils/deliveryMetrics';
+import { highlightConcepts } from '../utils/exemplar';
+import { TRANSCRIPT_FILE_TYPES, exportTranscript, getTranscriptFileName } from '../utils/transcriptExport';
+import { downloadFile } from '../utils/diagram';
+import { formatMoney, getOfferValue } from '../utils/negotiation';
+import { formatFigure } from '../utils/caseStudy';
+import { CaseExhibitView } from './CaseExhibitView';
+
+const starBadgeColors: Record<StarStrength, string> = {
+  strong: 'bg-green-100 text-green-700',
+  weak: 'bg-yellow-100 text-yellow-700',
+  missing: 'bg-red-100 text-red-700'
+};
+
+interface HighlightedAnswerProps {
+  text: string;
+  concepts: string[];
+  coverage: ConceptCoverage;
+}
+
+// Covered concepts are marked green and missed ones amber, so the two answers can be compared at a glance
+const HighlightedAnswer: React.FC<HighlightedAnswerProps> = ({ text, concepts, coverage }) => (
+  <p className="text-gray-700 text-sm whitespace-pre-wrap">
+    {highlightConcepts(text, concepts).map((segment, index) =>
+      segment.concept ? (
+        <mark
+          key={index}
+          className={`rounded px-0.5 ${coverage.covered.includes(segment.concept) ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}`}
+        >
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </p>
+);
+
+// Hardest first so the difficulty path reads like a chart
+const difficultyRows: Difficulty[] = ['hard', 'medium', 'easy'];
+
+// Offers still on the table when the session ended count as no agreement
+const negotiationStatusLabels: Record<NegotiationStatus, { label: string; color: string }> = {
+  accepted: { label: 'Offer accepted', color: 'bg-green-100 text-green-700' },
+  open: { label: 'No agreement', color: 'bg-gray-100 text-gray-700' },
+  'final-offer': { label: 'No agreement', color: 'bg-gray-100 text-gray-700' },
+  declined: { label: 'Offer declined', color: 'bg-yellow-100 text-yellow-700' },
+  rescinded: { label: 'Offer withdrawn', color: 'bg-red-100 text-red-700' }
+};
+
+const strategyLabels: Record<ConcessionStrategy, string> = {
+  firm: 'Firm',
+  balanced: 'Balanced',
+  flexible: 'Flexible'
+};
 
 interface AnalyticsScreenProps {
-  simulator: AIInterviewSimulator;
+  simulator?: AIInterviewSimulator;
+  session?: InterviewSession;
   onBackToConfig: () => void;
   onRetryInterview: () => void;
+  onViewHistory?: () => void;
+  onOpenDrill?: () => void;
+  onContinueLoop?: (analytics: AnalyticsData, sessionId: string) => void;
 }
 
 export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({
   simulator,
+  session,
   onBackToConfig,
-  onRetryInterview
+  onRetryInterview,
+  onViewHistory,
+  onOpenDrill,
+  onContinueLoop
 }) => {
   const [analytics, setAnalytics] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [analysisMethod, setAnalysisMethod] = useState<'unknown' | 'agentic' | 'traditional'>('unknown');
+  const [sessionId] = useState(() => session?.id ?? HistoryService.generateSessionId());
+  // The finished session as saved to history, which is what transcripts are exported from
+  const [completedSession, setCompletedSession] = useState<InterviewSession | null>(session ?? null);
+  const [drillUpdate, setDrillUpdate] = useState<{ added: number; reviewed: number } | null>(null);
+  // Filled in while the analysis agents work, so the loading screen shows each answer's score as it is ready
+  const [liveReviews, setLiveReviews] = useState<Extract<AnalyticsStreamUpdate, { type: 'review' }>['review'][]>([]);
+  const [liveTotal, setLiveTotal] = useState(0);
+  const [liveSummary, setLiveSummary] = useState<Extract<AnalyticsStreamUpdate, { type: 'overall' }> | null>(null);
+  const loopContext = (session?.config ?? simulator?.getConfig())?.loopContext;
 
   useEffect(() => {
+    // Set by the cleanup, so a run cancelled on unmount (or by StrictMode's re-run) leaves state and history alone
+    let cancelled = false;
+
     const loadAnalytics = async () => {
       try {
         setLoading(true);
         setError(null);
-        console.log('🔄 Starting analytics generation...');
-        
-        const startTime = Date.now();
-        const analyticsData = await simulator.generateAnalytics();
-        const duration = Date.now() - startTime;
-        
-        console.log(`✅ Analytics generated in ${duration}ms`);
-        console.log('Analytics metadata:', analyticsData.metadata);
+        setLiveReviews([]);
+        setLiveTotal(0);
+        setLiveSummary(null);
+
+        let analyticsData;
+
+        if (session) {
+          // Reopened from history - show the stored analytics as-is
+          analyticsData = session.analytics;
+        } else if (simulator) {
+          console.log('🔄 Starting analytics generation...');
+
+          const startTime = Date.now();
+          analyticsData = await simulator.generateAnalytics(update => {
+            if (cancelled) return;
+            if (update.type === 'review') {
+              setLiveTotal(update.total);
+              setLiveReviews(prev => {
+                const next = [...prev];
+                next[update.index] = update.review;
+                return next;
+              });
+            } else {
+              setLiveSummary(update);
+            }
+          });
+          if (cancelled) return;
+          const duration = Date.now() - startTime;
+
+          console.log(`✅ Analytics generated in ${duration}ms`);
+          console.log('Analytics metadata:', analyticsData.metadata);
+
+          const notes = simulator.getNotes().trim();
+          const finishedSession: InterviewSession = {
+            id: sessionId,
+            config: simulator.getConfig(),
+            responses: simulator.getResponses(),
+            analytics: analyticsData,
+            startedAt: simulator.getStartTime(),
+            completedAt: Date.now(),
+            ...(notes && { notes })
+          };
+          setCompletedSession(finishedSession);
+
+          HistoryService.saveSession(finishedSession).catch(saveError => {
+            console.error('Error saving interview to history:', saveError);
+          });
+
+          setDrillUpdate(DrillService.recordSession(sessionId, simulator.getConfig(), analyticsData));
+        } else {
+          return;
+        }
         
         setAnalytics(analyticsData);
         
@@ -60,15 +200,21 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({
         }
         
       } catch (err) {
+        if (cancelled) return;
         console.error('Error loading analytics:', err);
         setError(err instanceof Error ? err.message : 'Failed to load analytics');
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     loadAnalytics();
-  }, [simulator]);
+
+    return () => {
+      cancelled = true;
+      simulator?.cancelPendingRequests();
+    };
+  }, [simulator, session, sessionId]);
 
   const getScoreColor = (score: number): string => {
     if (score >= 85) return 'text-green-600 bg-green-100';
@@ -77,6 +223,15 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({
     return 'text-red-600 bg-red-100';
   };
 
+  // Exhibits are numbered in the order they were handed over across the case
+  const getExhibitNumber = (exhibitId: string): number =>
+    analytics.questionReviews.flatMap((review: { exhibits?: CaseExhibit[] }) => review.exhibits || [])
+      .findIndex((exhibit: CaseExhibit) => exhibit.id === exhibitId) + 1;
+
+  // Follow-ups are reviewed inside the question they drilled into
+  const getFollowUpReviews = (questionId: string) =>
+    analytics.questionReviews.filter((review: { parentQuestionId?: string }) => review.parentQuestionId === questionId);
+
   const getScoreLabel = (score: number): string => {
     if (score >= 85) return 'Excellent';
     if (score >= 70) return 'Good';
@@ -91,6 +246,11 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({
       timestamp: new Date().toISOString(),
       overallScore: analytics.overallScore,
       responseAnalysis: analytics.responseAnalysis,
+      rubricName: analytics.rubricName,
+      rubricScores: analytics.rubricScores,
+      codingAnalysis: analytics.codingAnalysis,
+      adaptiveDifficulty: analytics.adaptiveDifficulty,
+      delivery: analytics.delivery,
       strengths: analytics.strengths,
       improvements: analytics.improvements,
       questionReviews: analytics.questionReviews,
@@ -118,6 +278,16 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({
     URL.revokeObjectURL(url);
   };
 
+  const downloadTranscript = (format: TranscriptFormat) => {
+    if (!completedSession) return;
+
+    downloadFile(
+      getTranscriptFileName(completedSession, format),
+      exportTranscript(completedSession, format),
+      TRANSCRIPT_FILE_TYPES[format].mimeType
+    );
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-green-50 via-white to-blue-50 flex items-center justify-center">
@@ -129,6 +299,53 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({
           <h2 className="text-2xl font-bold text-gray-900 mb-2">Analyzing Your Performance</h2>
           <p className="text-gray-600 mb-2">Agentic AI is generating your detailed analytics...</p>
           <p className="text-sm text-purple-600">This may take up to 2 minutes for comprehensive analysis</p>
+
+          {liveTotal > 0 && (
+            <div className="mt-8 w-full max-w-2xl mx-auto px-4 space-y-4 text-left">
+              <div className="bg-white rounded-2xl shadow-lg p-6">
+                <h3 className="text-lg font-bold text-gray-900 mb-4 flex items-center">
+                  <MessageSquare className="w-5 h-5 mr-2 text-blue-600" />
+                  Answers Scored: {liveReviews.filter(Boolean).length} of {liveTotal}
+                </h3>
+                <div className="space-y-3">
+                  {liveReviews.filter(Boolean).map((review, index) => (
+                    <div key={review.questionId || index} className="flex items-start justify-between gap-4 p-3 bg-gray-50 rounded-xl">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{review.question}</p>
+                        <p className="text-sm text-gray-600 mt-1">{review.feedback}</p>
+                      </div>
+                      <span className={`px-2 py-1 rounded-lg text-sm font-semibold flex-shrink-0 ${getScoreColor(review.score)}`}>
+                        {review.score}%
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="bg-white rounded-2xl shadow-lg p-6">
+                <h3 className="text-lg font-bold text-gray-900 mb-3 flex items-center">
+                  <Brain className="w-5 h-5 mr-2 text-purple-600" />
+                  Overall Summary
+                </h3>
+                {liveSummary ? (
+                  <div className="space-y-2 text-sm">
+                    {liveSummary.executiveSummary && <p className="text-gray-700">{liveSummary.executiveSummary}</p>}
+                    {liveSummary.strengths?.[0] && (
+                      <p className="text-green-700"><CheckCircle className="w-4 h-4 inline mr-1" />{liveSummary.strengths[0]}</p>
+                    )}
+                    {liveSummary.improvements?.[0] && (
+                      <p className="text-orange-700"><Target className="w-4 h-4 inline mr-1" />{liveSummary.improvements[0]}</p>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500 flex items-center">
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Waiting for every answer to be scored...
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -197,6 +414,16 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({
             <p className="text-xl text-gray-600">
               Detailed insights and feedback on your interview performance
             </p>
+            {session && (
+              <p className="mt-2 text-sm text-gray-500">
+                {session.config.topic} • Completed {new Date(session.completedAt).toLocaleString()}
+              </p>
+            )}
+            {loopContext && (
+              <p className="mt-2 text-sm font-medium text-indigo-700">
+                Round {loopContext.roundNumber} of {loopContext.totalRounds}: {loopContext.roundName}
+              </p>
+            )}
             
             {/* Analysis Method Indicator */}
             <div className="mt-4 inline-flex items-center px-4 py-2 rounded-full text-sm font-medium bg-gradient-to-r from-purple-100 to-blue-100 text-purple-800">
@@ -334,29 +561,88 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({
             <div className="bg-white rounded-2xl shadow-lg p-6">
               <h3 className="text-xl font-bold text-gray-900 mb-6 flex items-center">
                 <TrendingUp className="w-5 h-5 mr-2 text-blue-600" />
-                Response Analysis
+                {analytics.rubricScores && analytics.rubricScores.length > 0 ? analytics.rubricName || 'Rubric Scores' : 'Response Analysis'}
               </h3>
               
-              <div className="space-y-4">
-                {analytics.responseAnalysis && Object.entries(analytics.responseAnalysis).map(([key, score]) => (
-                  <div key={key} className="flex items-center justify-between">
-                    <span className="font-medium text-gray-700 capitalize">
-                      {key.replace(/([A-Z])/g, ' $1').trim()}
-                    </span>
-                    <div className="flex items-center space-x-3">
-                      <div className="w-32 bg-gray-200 rounded-full h-2">
-                        <div
-                          className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all duration-500"
-                          style={{ width: `${score}%` }}
-                        />
+              {/* Rubric-graded sessions show the rubric's own criteria in place of the fixed dimensions */}
+              {analytics.rubricScores && analytics.rubricScores.length > 0 ? (
+                <div className="space-y-4">
+                  {analytics.rubricScores.map((item: RubricScore) => (
+                    <div key={item.criterionId} className="flex items-center justify-between">
+                      <div>
+                        <span className="font-medium text-gray-700">{item.name}</span>
+                        <span className="ml-2 text-xs text-gray-500">×{item.weight} · {item.level}</span>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <div className="w-32 bg-gray-200 rounded-full h-2">
+                          <div
+                            className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all duration-500"
+                            style={{ width: `${item.score}%` }}
+                          />
+                        </div>
+                        <span className={`px-2 py-1 rounded-lg text-sm font-semibold ${getScoreColor(item.score)}`}>
+                          {item.score}%
+                        </span>
                       </div>
-                      <span className={`px-2 py-1 rounded-lg text-sm font-semibold ${getScoreColor(score as number)}`}>
-                        {score}%
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {analytics.responseAnalysis && Object.entries(analytics.responseAnalysis).map(([key, score]) => (
+                    <div key={key} className="flex items-center justify-between">
+                      <span className="font-medium text-gray-700 capitalize">
+                        {key.replace(/([A-Z])/g, ' $1').trim()}
                       </span>
+                      <div className="flex items-center space-x-3">
+                        <div className="w-32 bg-gray-200 rounded-full h-2">
+                          <div
+                            className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all duration-500"
+                            style={{ width: `${score}%` }}
+                          />
+                        </div>
+                        <span className={`px-2 py-1 rounded-lg text-sm font-semibold ${getScoreColor(score as number)}`}>
+                          {score}%
+                        </span>
+                      </div>
                     </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Coding scores (coding challenge mode) */}
+              {analytics.codingAnalysis && (
+                <div className="mt-6 pt-6 border-t border-gray-100">
+                  <h4 className="font-semibold text-gray-900 mb-4 flex items-center">
+                    <Code2 className="w-4 h-4 mr-2 text-purple-600" />
+                    Coding
+                  </h4>
+                  <div className="space-y-4">
+                    {[
+                      { label: 'Correctness', score: analytics.codingAnalysis.correctness },
+                      { label: 'Code Quality', score: analytics.codingAnalysis.codeQuality }
+                    ].map(({ label, score }) => (
+                      <div key={label} className="flex items-center justify-between">
+                        <span className="font-medium text-gray-700">{label}</span>
+                        <div className="flex items-center space-x-3">
+                          <div className="w-32 bg-gray-200 rounded-full h-2">
+                            <div
+                              className="bg-gradient-to-r from-purple-500 to-pink-500 h-2 rounded-full transition-all duration-500"
+                              style={{ width: `${score}%` }}
+                            />
+                          </div>
+                          <span className={`px-2 py-1 rounded-lg text-sm font-semibold ${getScoreColor(score)}`}>
+                            {score}%
+                          </span>
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                ))}
-              </div>
+                  <p className="mt-3 text-sm text-gray-500">
+                    {analytics.codingAnalysis.testsPassed}/{analytics.codingAnalysis.testsTotal} hidden tests passed · avg run {analytics.codingAnalysis.averageRuntimeMs}ms
+                  </p>
+                </div>
+              )}
             </div>
 
             <div className="bg-white rounded-2xl shadow-lg p-6">
@@ -425,6 +711,301 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({
             </div>
           )}
 
+          {/* Adaptive Difficulty Path */}
+          {analytics.adaptiveDifficulty && analytics.adaptiveDifficulty.path.length > 0 && (
+            <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-xl font-bold text-gray-900 flex items-center">
+                  <TrendingUp className="w-5 h-5 mr-2 text-blue-600" />
+                  Difficulty Path
+                </h3>
+                <span className="text-sm text-gray-600">
+                  {analytics.adaptiveDifficulty.ceiling
+                    ? <>Ceiling: <span className="font-semibold capitalize text-gray-900">{analytics.adaptiveDifficulty.ceiling}</span></>
+                    : 'No level cleared yet'}
+                </span>
+              </div>
+
+              <div className="overflow-x-auto">
+                <div
+                  className="grid gap-2 items-center min-w-max"
+                  style={{ gridTemplateColumns: `5rem repeat(${analytics.adaptiveDifficulty.path.length}, 3.5rem)` }}
+                >
+                  {difficultyRows.map(row => (
+                    <React.Fragment key={row}>
+                      <span className="text-sm font-medium text-gray-600 capitalize">{row}</span>
+                      {analytics.adaptiveDifficulty.path.map((step: DifficultyStep) => (
+                        <div key={`${row}-${step.questionId}`} className="h-10 flex items-center justify-center border-b border-gray-100">
+                          {step.difficulty === row && (
+                            <span className={`px-2 py-1 rounded-lg text-xs font-semibold ${getScoreColor(step.score)}`}>
+                              {step.score}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </React.Fragment>
+                  ))}
+                  <span />
+                  {analytics.adaptiveDifficulty.path.map((step: DifficultyStep, index: number) => (
+                    <span key={step.questionId} className="text-xs text-gray-500 text-center">Q{index + 1}</span>
+                  ))}
+                </div>
+              </div>
+
+              {analytics.adaptiveDifficulty.path.some((step: DifficultyStep, index: number) =>
+                index > 0 && difficultyRows.indexOf(step.difficulty) > difficultyRows.indexOf(analytics.adaptiveDifficulty.path[index - 1].difficulty)
+              ) && (
+                <p className="mt-4 text-sm text-gray-600 flex items-center">
+                  <TrendingDown className="w-4 h-4 mr-2 text-orange-500" />
+                  Drops show where a harder question was pulled back after a weaker answer.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Speech Delivery */}
+          {analytics.delivery && (
+            <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+              <h3 className="text-xl font-bold text-gray-900 mb-6 flex items-center">
+                <Mic className="w-5 h-5 mr-2 text-teal-600" />
+                Delivery
+              </h3>
+
+              <div className="grid md:grid-cols-4 gap-4 mb-6">
+                <div className="bg-gray-50 rounded-xl p-4">
+                  <div className="text-2xl font-bold text-gray-900">{analytics.delivery.averageWpm}</div>
+                  <div className="text-sm text-gray-600">Words per minute · {getPaceLabel(analytics.delivery.averageWpm)}</div>
+                </div>
+                <div className="bg-gray-50 rounded-xl p-4">
+                  <div className="text-2xl font-bold text-gray-900">{analytics.delivery.fillersPerMinute}</div>
+                  <div className="text-sm text-gray-600">Fillers per minute ({analytics.delivery.totalFillers} total)</div>
+                </div>
+                <div className="bg-gray-50 rounded-xl p-4">
+                  <div className="text-2xl font-bold text-gray-900">{analytics.delivery.longPauses ?? '—'}</div>
+                  <div className="text-sm text-gray-600">Pauses over {LONG_PAUSE_MS / 1000}s</div>
+                </div>
+                <div className="bg-gray-50 rounded-xl p-4">
+                  <div className="text-2xl font-bold text-gray-900">
+                    {analytics.delivery.talkTimeRatio !== undefined ? `${Math.round(analytics.delivery.talkTimeRatio * 100)}%` : '—'}
+                  </div>
+                  <div className="text-sm text-gray-600">Talk time while answering</div>
+                </div>
+              </div>
+
+              {analytics.delivery.topFillers.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mb-6">
+                  <span className="text-sm text-gray-600">Most used fillers:</span>
+                  {analytics.delivery.topFillers.map((item: { filler: string; count: number }) => (
+                    <span key={item.filler} className="px-2 py-1 bg-orange-100 text-orange-700 rounded-lg text-xs font-semibold">
+                      "{item.filler}" × {item.count}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 font-medium">Answer</th>
+                      <th className="py-2 font-medium">Pace</th>
+                      <th className="py-2 font-medium">Fillers</th>
+                      <th className="py-2 font-medium">Long pauses</th>
+                      <th className="py-2 font-medium">Talk time</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analytics.questionReviews.map((review: { questionId: string; delivery?: DeliveryMetrics }, index: number) => {
+                      const delivery = review.delivery;
+                      if (!delivery) return null;
+
+                      return (
+                        <tr key={review.questionId} className="border-b border-gray-100 text-gray-700">
+                          <td className="py-2">Q{index + 1}</td>
+                          <td className={`py-2 ${getPaceLabel(delivery.wordsPerMinute) === 'Steady' ? '' : 'text-orange-600'}`}>
+                            {delivery.wordsPerMinute} wpm
+                          </td>
+                          <td className="py-2">
+                            {delivery.fillerCount}
+                            {delivery.fillerCount > 0 && (
+                              <span className="text-gray-500">
+                                {' '}({Object.entries(delivery.fillers).map(([filler, count]) => `${filler} ${count}`).join(', ')})
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-2">
+                            {delivery.longPauses ?? '—'}
+                            {!!delivery.longestPauseMs && delivery.longestPauseMs >= LONG_PAUSE_MS && (
+                              <span className="text-gray-500"> (longest {(delivery.longestPauseMs / 1000).toFixed(1)}s)</span>
+                            )}
+                          </td>
+                          <td className="py-2">
+                            {delivery.talkTimeRatio !== undefined ? `${Math.round(delivery.talkTimeRatio * 100)}%` : '—'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <p className="mt-4 text-sm text-gray-500">
+                A comfortable interview pace is {PACE_RANGE.min}-{PACE_RANGE.max} words per minute.
+              </p>
+            </div>
+          )}
+
+          {/* Salary Negotiation Outcome */}
+          {analytics.negotiation && (
+            <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-xl font-bold text-gray-900 flex items-center">
+                  <Handshake className="w-5 h-5 mr-2 text-green-600" />
+                  Negotiation Outcome
+                </h3>
+                <span className={`px-3 py-1 rounded-full text-sm font-medium ${negotiationStatusLabels[analytics.negotiation.status as NegotiationStatus].color}`}>
+                  {negotiationStatusLabels[analytics.negotiation.status as NegotiationStatus].label}
+                </span>
+              </div>
+
+              <div className="grid md:grid-cols-4 gap-4 mb-6">
+                <div className="bg-gray-50 rounded-xl p-4">
+                  <div className="text-2xl font-bold text-gray-900">{formatMoney(analytics.negotiation.initialValue)}</div>
+                  <div className="text-sm text-gray-600">Opening offer value</div>
+                </div>
+                <div className="bg-gray-50 rounded-xl p-4">
+                  <div className="text-2xl font-bold text-gray-900">{formatMoney(analytics.negotiation.finalValue)}</div>
+                  <div className="text-sm text-gray-600">Final offer value</div>
+                </div>
+                <div className="bg-gray-50 rounded-xl p-4">
+                  <div className="text-2xl font-bold text-gray-900">{formatMoney(analytics.negotiation.maxValue)}</div>
+                  <div className="text-sm text-gray-600">Hidden maximum ({strategyLabels[analytics.negotiation.strategy as ConcessionStrategy]} recruiter)</div>
+                </div>
+                <div className="bg-gray-50 rounded-xl p-4">
+                  <div className="text-2xl font-bold text-gray-900">{analytics.negotiation.capturePercent}%</div>
+                  <div className="text-sm text-gray-600">Of the available room captured</div>
+                </div>
+              </div>
+
+              <div className="w-full bg-gray-200 rounded-full h-3 mb-6">
+                <div
+                  className="bg-green-500 h-3 rounded-full transition-all duration-1000"
+                  style={{ width: `${analytics.negotiation.capturePercent}%` }}
+                />
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 font-medium">Offer</th>
+                      <th className="py-2 font-medium">Base</th>
+                      <th className="py-2 font-medium">Bonus</th>
+                      <th className="py-2 font-medium">Equity / yr</th>
+                      <th className="py-2 font-medium">Sign-on</th>
+                      <th className="py-2 font-medium">Start</th>
+                      <th className="py-2 font-medium">Value</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[
+                      { label: 'Opening', offer: analytics.negotiation.initialOffer },
+                      ...analytics.negotiation.turns.map((turn: NegotiationTurn, index: number) => ({ label: `After turn ${index + 1}`, offer: turn.offer })),
+                      { label: 'Hidden maximum', offer: analytics.negotiation.maxOffer }
+                    ].map(row => (
+                      <tr key={row.label} className={`border-b border-gray-100 ${row.label === 'Hidden maximum' ? 'text-green-700 font-medium' : 'text-gray-700'}`}>
+                        <td className="py-2">{row.label}</td>
+                        <td className="py-2">{formatMoney(row.offer.base)}</td>
+                        <td className="py-2">{row.offer.bonusPercent}%</td>
+                        <td className="py-2">{formatMoney(row.offer.equity)}</td>
+                        <td className="py-2">{formatMoney(row.offer.signOn)}</td>
+                        <td className="py-2">{row.offer.startInWeeks} weeks</td>
+                        <td className="py-2">{formatMoney(getOfferValue(row.offer))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <p className="mt-4 text-sm text-gray-500">
+                Value is first-year compensation: base, target bonus, a year of equity and the sign-on bonus.
+                {analytics.negotiation.status !== 'accepted' && ' Value is only captured when an offer is accepted.'}
+              </p>
+            </div>
+          )}
+
+          {/* Case Study Performance */}
+          {analytics.caseStudy && (
+            <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-xl font-bold text-gray-900 flex items-center">
+                  <BarChart3 className="w-5 h-5 mr-2 text-blue-600" />
+                  Case: {analytics.caseStudy.title}
+                </h3>
+                <span className="text-sm text-gray-600">
+                  Exhibits requested: <span className="font-semibold text-gray-900">{analytics.caseStudy.exhibitsRequested} of {analytics.caseStudy.exhibitsTotal}</span>
+                </span>
+              </div>
+
+              <div className="grid md:grid-cols-3 gap-4 mb-6">
+                {[
+                  { name: 'Structuring', phase: analytics.caseStudy.structuring },
+                  { name: 'Hypothesis-Driven Thinking', phase: analytics.caseStudy.hypothesis },
+                  { name: 'Recommendation', phase: analytics.caseStudy.recommendation }
+                ].map(({ name, phase }: { name: string; phase: CasePhaseScore }) => (
+                  <div key={name} className="bg-gray-50 rounded-xl p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="font-medium text-gray-900">{name}</span>
+                      <span className={`px-2 py-1 rounded-lg text-xs font-semibold ${getScoreColor(phase.score)}`}>
+                        {phase.score}%
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 mb-3">{phase.feedback}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {phase.signals.map(signal => (
+                        <span key={signal} className="px-2 py-0.5 bg-white border border-gray-200 rounded-md text-xs text-gray-600">
+                          {signal}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {analytics.caseStudy.mathChecks.length > 0 ? (
+                <div>
+                  <h4 className="font-medium text-gray-900 mb-3 flex items-center">
+                    <Calculator className="w-4 h-4 mr-2 text-gray-600" />
+                    Math Check ({analytics.caseStudy.mathChecks.filter((check: CaseMathCheck) => check.correct).length} of {analytics.caseStudy.mathChecks.length} correct)
+                  </h4>
+                  <ul className="space-y-2">
+                    {analytics.caseStudy.mathChecks.map((check: CaseMathCheck, index: number) => (
+                      <li key={index} className="flex items-start text-sm">
+                        {check.correct ? (
+                          <CheckCircle className="w-4 h-4 mr-2 mt-0.5 text-green-600 flex-shrink-0" />
+                        ) : (
+                          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 text-red-500 flex-shrink-0" />
+                        )}
+                        <span className="text-gray-700">
+                          "{check.statement}"
+                          {!check.correct && (
+                            <span className="text-red-600">
+                              {' '}· expected {check.label ? `${check.label} of ` : ''}{formatFigure(check.expected, check.unit)}
+                            </span>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  No calculations were found to check. Say your math out loud ("477k × 10% = 48k") so the numbers can be verified.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Question-by-Question Review */}
           <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
             <h3 className="text-xl font-bold text-gray-900 mb-6 flex items-center">
@@ -433,7 +1014,7 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({
             </h3>
             
             <div className="space-y-6">
-              {analytics.questionReviews && analytics.questionReviews.map((review: any, index: number) => (
+              {analytics.questionReviews && analytics.questionReviews.filter((review: { parentQuestionId?: string }) => !review.parentQuestionId).map((review: any, index: number) => (
                 <div key={review.questionId} className="border border-gray-200 rounded-xl p-6">
                   <div className="flex items-start justify-between mb-4">
                     <div className="flex-1">
@@ -447,11 +1028,195 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({
                     </span>
                   </div>
                   
-                  <div className="bg-gray-50 rounded-lg p-4 mb-4">
-                    <h5 className="font-medium text-gray-900 mb-2">Your Response:</h5>
-                    <p className="text-gray-700 text-sm">{review.response}</p>
+                  <div className={review.exemplar ? 'grid grid-cols-1 md:grid-cols-2 gap-4 mb-4' : 'mb-4'}>
+                    <div className="bg-gray-50 rounded-lg p-4">
+                      <h5 className="font-medium text-gray-900 mb-2">Your Response:</h5>
+                      {review.exemplar && review.conceptCoverage ? (
+                        <HighlightedAnswer text={review.response} concepts={review.conceptCoverage.covered} coverage={review.conceptCoverage} />
+                      ) : (
+                        <p className="text-gray-700 text-sm">{review.response}</p>
+                      )}
+                      {review.liveFeedback && (
+                        <p className="mt-2 text-xs text-amber-700">
+                          Coach score: {review.liveFeedback.score}% · {review.liveFeedback.improvement}
+                        </p>
+                      )}
+                    </div>
+
+                    {review.exemplar && (
+                      <div className="bg-blue-50 rounded-lg p-4">
+                        <h5 className="font-medium text-gray-900 mb-2 flex items-center">
+                          <BookOpen className="w-4 h-4 mr-2 text-blue-600" />
+                          Model Answer
+                          <span className="ml-2 text-xs font-normal text-gray-500">
+                            {review.exemplar.source === 'question-bank' ? 'from the question bank' : 'AI-generated for your level'}
+                          </span>
+                        </h5>
+                        <HighlightedAnswer
+                          text={review.exemplar.answer}
+                          concepts={review.exemplar.keyConcepts}
+                          coverage={review.conceptCoverage || { covered: [], missed: review.exemplar.keyConcepts }}
+                        />
+                      </div>
+                    )}
                   </div>
+
+                  {review.conceptCoverage && (review.conceptCoverage.covered.length > 0 || review.conceptCoverage.missed.length > 0) && (
+                    <div className="mb-4 flex flex-wrap items-center gap-2 text-xs">
+                      <span className="font-medium text-gray-700">
+                        Key concepts ({review.conceptCoverage.covered.length}/{review.conceptCoverage.covered.length + review.conceptCoverage.missed.length}):
+                      </span>
+                      {review.conceptCoverage.covered.map((concept: string) => (
+                        <span key={concept} className="px-2 py-1 rounded-full bg-green-100 text-green-700 flex items-center">
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          {concept}
+                        </span>
+                      ))}
+                      {review.conceptCoverage.missed.map((concept: string) => (
+                        <span key={concept} className="px-2 py-1 rounded-full bg-amber-100 text-amber-700 flex items-center">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          {concept}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  {review.attempts && review.attempts.length > 0 && (
+                    <div className="mb-4 space-y-2">
+                      {review.attempts.map((attempt: AnswerAttempt, attemptIndex: number) => (
+                        <div key={attempt.timestamp} className="border border-dashed border-gray-300 rounded-lg p-4">
+                          <div className="flex items-center justify-between mb-1">
+                            <h5 className="font-medium text-gray-700 text-sm flex items-center">
+                              <RotateCcw className="w-3 h-3 mr-1" />
+                              Attempt {attemptIndex + 1} (retried)
+                            </h5>
+                            {attempt.liveFeedback && (
+                              <span className="text-xs font-semibold text-gray-600">{attempt.liveFeedback.score}%</span>
+                            )}
+                          </div>
+                          <p className="text-gray-600 text-sm">{attempt.response}</p>
+                          {attempt.liveFeedback && (
+                            <p className="mt-1 text-xs text-amber-700">{attempt.liveFeedback.improvement}</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {review.coding && (
+                    <div className="mb-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <h5 className="font-medium text-gray-900">
+                          Your Code <span className="text-gray-500 font-normal capitalize">({review.coding.language})</span>
+                        </h5>
+                        <span className="text-sm text-gray-600">
+                          {review.coding.passedCount}/{review.coding.totalCount} tests · {review.coding.runtimeMs}ms
+                        </span>
+                      </div>
+                      <pre className="bg-gray-900 text-gray-100 rounded-lg p-4 text-xs overflow-x-auto max-h-64">
+                        {review.coding.code}
+                      </pre>
+                      {review.codeReview && (
+                        <div className="mt-3 bg-purple-50 rounded-lg p-4">
+                          <div className="flex items-center space-x-4 mb-2 text-sm">
+                            <span className="font-medium text-purple-900">Correctness: {review.codeReview.correctness}%</span>
+                            <span className="font-medium text-purple-900">Code Quality: {review.codeReview.codeQuality}%</span>
+                          </div>
+                          {review.codeReview.feedback && (
+                            <p className="text-purple-800 text-sm">{review.codeReview.feedback}</p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {review.diagram && (
+                    <div className="mb-4">
+                      <h5 className="font-medium text-gray-900 mb-2 flex items-center">
+                        <PenTool className="w-4 h-4 mr-2 text-indigo-600" />
+                        Your Whiteboard
+                      </h5>
+                      <SystemDesignCanvas diagram={review.diagram} readOnly />
+                      {review.designReview && (
+                        <div className="mt-3 bg-indigo-50 rounded-lg p-4 space-y-2 text-sm">
+                          <div className="font-medium text-indigo-900">Design Score: {review.designReview.score}%</div>
+                          <p className="text-indigo-800"><span className="font-medium">Components:</span> {review.designReview.components}</p>
+                          <p className="text-indigo-800"><span className="font-medium">Data Flow:</span> {review.designReview.dataFlow}</p>
+                          <p className="text-indigo-800"><span className="font-medium">Scaling:</span> {review.designReview.scaling}</p>
+                        </div>
+                      )}
+                    </div>
+                  )}
                   
+                  {review.exhibits && review.exhibits.length > 0 && (
+                    <div className="mb-4 space-y-3">
+                      {review.exhibits.map((exhibit: CaseExhibit) => (
+                        <CaseExhibitView key={exhibit.id} exhibit={exhibit} number={getExhibitNumber(exhibit.id)} />
+                      ))}
+                    </div>
+                  )}
+
+                  {review.mathChecks && review.mathChecks.length > 0 && (
+                    <div className="mb-4 flex flex-wrap gap-2">
+                      {review.mathChecks.map((check: CaseMathCheck, checkIndex: number) => (
+                        <span
+                          key={checkIndex}
+                          title={check.statement}
+                          className={`px-2 py-1 rounded-lg text-xs font-semibold ${check.correct ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}
+                        >
+                          {check.correct ? '✓' : '✗'} {check.label || check.statement}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  {review.rubricScores && review.rubricScores.length > 0 && (
+                    <div className="mb-4 space-y-2">
+                      <h5 className="font-medium text-gray-900">Rubric</h5>
+                      {review.rubricScores.map((item: RubricScore) => (
+                        <div key={item.criterionId} className="text-sm">
+                          <span className="font-medium text-gray-800">{item.name}:</span>{' '}
+                          <span className={`px-2 py-0.5 rounded-md text-xs font-semibold ${getScoreColor(item.score)}`}>
+                            {item.level} · {item.score}%
+                          </span>
+                          {item.feedback && <span className="ml-2 text-gray-600">{item.feedback}</span>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {review.star && (
+                    <div className="mb-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <h5 className="font-medium text-gray-900 flex items-center">
+                          <ListChecks className="w-4 h-4 mr-2 text-teal-600" />
+                          STAR Breakdown
+                        </h5>
+                        <span className="text-sm text-gray-600">STAR score: {review.star.score}%</span>
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        {STAR_COMPONENTS.map(component => {
+                          const segment: StarSegment = review.star[component];
+
+                          return (
+                            <div key={component} className="border border-gray-200 rounded-lg p-3">
+                              <div className="flex items-center justify-between mb-1">
+                                <span className="font-medium text-gray-900 text-sm">{getStarLabel(component)}</span>
+                                <span className={`px-2 py-0.5 rounded text-xs font-semibold capitalize ${starBadgeColors[segment.strength]}`}>
+                                  {segment.strength}
+                                </span>
+                              </div>
+                              {segment.excerpt && (
+                                <p className="text-gray-600 text-xs italic mb-1">"{segment.excerpt}"</p>
+                              )}
+                              <p className="text-gray-700 text-xs">{segment.feedback}</p>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
                   <div className="bg-blue-50 rounded-lg p-4">
                     <h5 className="font-medium text-blue-900 mb-2">Feedback:</h5>
                     <p className="text-blue-800 text-sm">{review.feedback}</p>
@@ -485,13 +1250,97 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({
                       </ul>
                     </div>
                   )}
+
+                  {getFollowUpReviews(review.questionId).length > 0 && (
+                    <div className="mt-4 space-y-3 border-l-4 border-purple-200 pl-4">
+                      {getFollowUpReviews(review.questionId).map((followUp: AnalyticsData['questionReviews'][number]) => (
+                        <div key={followUp.questionId} className="bg-purple-50 rounded-lg p-4">
+                          <div className="flex items-start justify-between mb-2">
+                            <h5 className="font-medium text-purple-900 text-sm flex items-center">
+                              <CornerDownRight className="w-4 h-4 mr-1" />
+                              Follow-up {followUp.followUpDepth}: {followUp.question}
+                            </h5>
+                            <span className={`ml-3 px-2 py-0.5 rounded-md text-xs font-semibold ${getScoreColor(followUp.score)}`}>
+                              {Math.round(followUp.score)}%
+                            </span>
+                          </div>
+                          <p className="text-gray-700 text-sm mb-2">{followUp.response}</p>
+                          <p className="text-purple-800 text-sm">{followUp.feedback}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
           </div>
 
+          {drillUpdate && (drillUpdate.added > 0 || drillUpdate.reviewed > 0) && (
+            <div className="bg-purple-50 border border-purple-200 rounded-2xl p-4 mb-8 flex items-center justify-between">
+              <p className="text-sm text-purple-900 flex items-center">
+                <Repeat className="w-4 h-4 mr-2 text-purple-600" />
+                {[
+                  drillUpdate.added > 0 && `${drillUpdate.added} weak question${drillUpdate.added === 1 ? '' : 's'} added to your drill deck`,
+                  drillUpdate.reviewed > 0 && `${drillUpdate.reviewed} drill card${drillUpdate.reviewed === 1 ? '' : 's'} rescheduled`
+                ].filter(Boolean).join(' · ')}
+              </p>
+              {onOpenDrill && (
+                <button
+                  onClick={onOpenDrill}
+                  className="text-sm font-semibold text-purple-700 hover:text-purple-900"
+                >
+                  Open Drill Deck
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Transcript Export */}
+          {completedSession && (
+            <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+              <h3 className="text-lg font-bold text-gray-900 mb-1 flex items-center">
+                <FileText className="w-5 h-5 mr-2 text-blue-600" />
+                Export Transcript
+              </h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Every question and answer with timings, scores, feedback and your notes, ready to share with a mentor or add to a study log.
+              </p>
+              <div className="flex flex-wrap gap-3">
+                {(Object.keys(TRANSCRIPT_FILE_TYPES) as TranscriptFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => downloadTranscript(format)}
+                    className="inline-flex items-center px-4 py-2 border-2 border-gray-200 rounded-xl text-sm font-medium text-gray-700 hover:bg-blue-50 hover:border-blue-400 transition-colors"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    {TRANSCRIPT_FILE_TYPES[format].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row items-center justify-center space-y-4 sm:space-y-0 sm:space-x-4">
+            {onContinueLoop && loopContext && (
+              <button
+                onClick={() => onContinueLoop(analytics, sessionId)}
+                className="inline-flex items-center px-6 py-3 bg-indigo-600 text-white font-semibold rounded-xl hover:bg-indigo-700 focus:outline-none focus:ring-4 focus:ring-indigo-300 transition-all"
+              >
+                {loopContext.roundNumber < loopContext.totalRounds ? (
+                  <>
+                    <ArrowRight className="w-4 h-4 mr-2" />
+                    Continue to Round {loopContext.roundNumber + 1}
+                  </>
+                ) : (
+                  <>
+                    <Gavel className="w-4 h-4 mr-2" />
+                    Hiring Committee Summary
+                  </>
+                )}
+              </button>
+            )}
+
             <button
               onClick={onBackToConfig}
               className="inline-flex items-center px-6 py-3 bg-gray-600 text-white font-semibold rounded-xl hover:bg-gray-700 focus:outline-none focus:ring-4 focus:ring-gray-300 transition-all"
@@ -516,6 +1365,16 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({
               <Download className="w-4 h-4 mr-2" />
               Download Report
             </button>
+
+            {onViewHistory && (
+              <button
+                onClick={onViewHistory}
+                className="inline-flex items-center px-6 py-3 bg-purple-600 text-white font-semibold rounded-xl hover:bg-purple-700 focus:outline-none focus:ring-4 focus:ring-purple-300 transition-all"
+              >
+                <History className="w-4 h-4 mr-2" />
+                Interview History
+              </button>
+            )}
           </div>
         </div>
       </div>
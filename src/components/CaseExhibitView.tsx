@@ -0,0 +1,115 @@
+import React from 'react';
+import { CaseExhibit } from '../types';
+import { formatExhibitValue } from '../utils/caseStudy';
+
+interface CaseExhibitViewProps {
+  exhibit: CaseExhibit;
+  number: number;
+}
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 200;
+const LABEL_WIDTH = 110;
+const PADDING = 24;
+
+// Bar and line charts plot the first column as labels against the second as values
+const getPoints = (exhibit: CaseExhibit) =>
+  exhibit.rows.map(row => ({ label: String(row[0]), value: Number(row[1]) || 0 }));
+
+const BarChart: React.FC<{ exhibit: CaseExhibit }> = ({ exhibit }) => {
+  const points = getPoints(exhibit);
+  const max = Math.max(...points.map(point => point.value), 1);
+  const barHeight = 24;
+  const height = points.length * (barHeight + 12) + 8;
+  const barSpace = CHART_WIDTH - LABEL_WIDTH - 60;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} className="w-full" role="img" aria-label={exhibit.title}>
+      {points.map((point, index) => {
+        const y = index * (barHeight + 12) + 4;
+        const width = (point.value / max) * barSpace;
+        return (
+          <g key={point.label}>
+            <text x={LABEL_WIDTH - 8} y={y + barHeight / 2 + 4} textAnchor="end" className="fill-gray-600 text-xs">{point.label}</text>
+            <rect x={LABEL_WIDTH} y={y} width={width} height={barHeight} rx={4} className="fill-blue-500" />
+            <text x={LABEL_WIDTH + width + 6} y={y + barHeight / 2 + 4} className="fill-gray-900 text-xs font-semibold">
+              {formatExhibitValue(point.value)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const LineChart: React.FC<{ exhibit: CaseExhibit }> = ({ exhibit }) => {
+  const points = getPoints(exhibit);
+  const values = points.map(point => point.value);
+  // Pad the value range so small changes are visible without exaggerating them
+  const spread = Math.max(...values) - Math.min(...values) || 1;
+  const min = Math.min(...values) - spread * 0.2;
+  const max = Math.max(...values) + spread * 0.2;
+  const step = points.length > 1 ? (CHART_WIDTH - PADDING * 2) / (points.length - 1) : 0;
+  const toX = (index: number) => PADDING + index * step;
+  const toY = (value: number) => PADDING + (1 - (value - min) / (max - min)) * (CHART_HEIGHT - PADDING * 2.5);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full" role="img" aria-label={exhibit.title}>
+      <polyline
+        points={points.map((point, index) => `${toX(index)},${toY(point.value)}`).join(' ')}
+        fill="none"
+        className="stroke-blue-500"
+        strokeWidth={2.5}
+      />
+      {points.map((point, index) => (
+        <g key={point.label}>
+          <circle cx={toX(index)} cy={toY(point.value)} r={4} className="fill-blue-600" />
+          <text x={toX(index)} y={toY(point.value) - 10} textAnchor="middle" className="fill-gray-900 text-xs font-semibold">
+            {formatExhibitValue(point.value)}
+          </text>
+          <text x={toX(index)} y={CHART_HEIGHT - 6} textAnchor="middle" className="fill-gray-600 text-xs">{point.label}</text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export const CaseExhibitView: React.FC<CaseExhibitViewProps> = ({ exhibit, number }) => (
+  <div className="border-2 border-gray-100 rounded-xl p-4">
+    <h4 className="font-semibold text-gray-900 mb-3">
+      Exhibit {number}: {exhibit.title}
+    </h4>
+
+    {exhibit.chart === 'bar' && <BarChart exhibit={exhibit} />}
+    {exhibit.chart === 'line' && <LineChart exhibit={exhibit} />}
+    {exhibit.chart === 'table' && (
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              {exhibit.columns.map(column => (
+                <th key={column} className="py-2 pr-4 font-medium">{column}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {exhibit.rows.map((row, rowIndex) => (
+              <tr key={rowIndex} className="border-b border-gray-100 text-gray-700">
+                {row.map((cell, cellIndex) => (
+                  <td key={cellIndex} className={`py-2 pr-4 ${cellIndex > 0 ? 'font-medium text-gray-900' : ''}`}>
+                    {formatExhibitValue(cell)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+
+    {exhibit.chart !== 'table' && (
+      <p className="mt-2 text-xs text-gray-500">{exhibit.columns.join(' vs. ')}</p>
+    )}
+    {exhibit.note && <p className="mt-2 text-xs text-gray-500">{exhibit.note}</p>}
+  </div>
+);
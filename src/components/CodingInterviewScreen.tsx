@@ -0,0 +1,443 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Code2,
+  Clock,
+  Play,
+  Send,
+  Square,
+  StopCircle,
+  Loader,
+  CheckCircle,
+  XCircle,
+  EyeOff,
+  ArrowRight,
+  Terminal
+} from 'lucide-react';
+import { InterviewConfig, CodingLanguage, CodingSubmission } from '../types';
+import { AIInterviewSimulator } from '../utils/aiSimulator';
+import { getChallengesForLevel } from '../data/codingChallenges';
+import { runChallenge } from '../utils/codeRunner';
+
+interface CodingInterviewScreenProps {
+  config: InterviewConfig;
+  onEndInterview: (simulator: AIInterviewSimulator) => void;
+  onBackToConfig: () => void;
+}
+
+const languages: { value: CodingLanguage; label: string }[] = [
+  { value: 'javascript', label: 'JavaScript' },
+  { value: 'typescript', label: 'TypeScript' }
+];
+
+const difficultyStyles = {
+  easy: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  hard: 'bg-red-100 text-red-800'
+};
+
+export const CodingInterviewScreen: React.FC<CodingInterviewScreenProps> = ({
+  config,
+  onEndInterview,
+  onBackToConfig
+}) => {
+  // Roughly one challenge per 15 minutes, capped at three
+  const [challenges] = useState(() =>
+    getChallengesForLevel(config.experienceLevel, Math.min(3, Math.max(1, Math.floor(config.duration / 15))))
+  );
+  const [simulator] = useState(() => {
+    const instance = new AIInterviewSimulator(config, false);
+    instance.setMaxQuestions(challenges.length);
+    return instance;
+  });
+  const [challengeIndex, setChallengeIndex] = useState(0);
+  const [language, setLanguage] = useState<CodingLanguage>('javascript');
+  const [drafts, setDrafts] = useState<Record<CodingLanguage, string>>(() => ({ ...challenges[0].starterCode }));
+  const [explanation, setExplanation] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [exampleRun, setExampleRun] = useState<CodingSubmission | null>(null);
+  const [submission, setSubmission] = useState<CodingSubmission | null>(null);
+  const [startTime] = useState(() => Date.now());
+  const [elapsedTime, setElapsedTime] = useState(0);
+  const [showEndConfirmation, setShowEndConfirmation] = useState(false);
+
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  const challenge = challenges[challengeIndex];
+  const code = drafts[language];
+  const isLastChallenge = challengeIndex === challenges.length - 1;
+
+  useEffect(() => {
+    const interval = setInterval(() => setElapsedTime(Date.now() - startTime), 1000);
+    return () => clearInterval(interval);
+  }, [startTime]);
+
+  const formatTime = (ms: number): string => {
+    const minutes = Math.floor(ms / 60000);
+    const seconds = Math.floor((ms % 60000) / 1000);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  const updateCode = (value: string) => {
+    setDrafts(prev => ({ ...prev, [language]: value }));
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Insert spaces instead of moving focus on Tab
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      const target = e.currentTarget;
+      const { selectionStart, selectionEnd } = target;
+      const updated = `${code.slice(0, selectionStart)}  ${code.slice(selectionEnd)}`;
+      updateCode(updated);
+      requestAnimationFrame(() => {
+        target.selectionStart = target.selectionEnd = selectionStart + 2;
+      });
+    }
+  };
+
+  const runExamples = async () => {
+    setIsRunning(true);
+    try {
+      setExampleRun(await runChallenge(challenge, code, language, false));
+    } catch (error) {
+      console.error('Error running examples:', error);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const submitSolution = async () => {
+    setIsRunning(true);
+    try {
+      const result = await runChallenge(challenge, code, language, true);
+      console.log(`🧪 ${challenge.id}: ${result.passedCount}/${result.totalCount} tests passed in ${result.runtimeMs}ms`);
+      simulator.submitCodingResponse(challenge, explanation, result);
+      setSubmission(result);
+    } catch (error) {
+      console.error('Error submitting solution:', error);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const endInterview = () => {
+    simulator.endInterviewEarly();
+    onEndInterview(simulator);
+  };
+
+  const goToNextChallenge = () => {
+    if (isLastChallenge) {
+      endInterview();
+      return;
+    }
+
+    const next = challenges[challengeIndex + 1];
+    setChallengeIndex(challengeIndex + 1);
+    setDrafts({ ...next.starterCode });
+    setExplanation('');
+    setExampleRun(null);
+    setSubmission(null);
+  };
+
+  const handleEndInterviewClick = () => {
+    if (challengeIndex > 0 || submission) {
+      setShowEndConfirmation(true);
+    } else {
+      endInterview();
+    }
+  };
+
+  const results = submission || exampleRun;
+  const lineCount = code.split('\n').length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50">
+      <div className="container mx-auto px-4 py-6">
+        <div className="max-w-6xl mx-auto">
+          {/* End Interview Confirmation Modal */}
+          {showEndConfirmation && (
+            <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+              <div className="bg-white rounded-2xl p-8 max-w-md mx-4">
+                <div className="text-center">
+                  <div className="w-16 h-16 bg-red-100 text-red-600 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <StopCircle className="w-8 h-8" />
+                  </div>
+                  <h3 className="text-xl font-bold text-gray-900 mb-2">End Interview Early?</h3>
+                  <p className="text-gray-600 mb-6">
+                    You've submitted {simulator.getResponses().length} out of {challenges.length} challenges.
+                    Unsubmitted code will not be analyzed.
+                  </p>
+                  <div className="flex space-x-4">
+                    <button
+                      onClick={() => setShowEndConfirmation(false)}
+                      className="flex-1 px-4 py-2 bg-gray-200 text-gray-800 rounded-xl hover:bg-gray-300 transition-colors"
+                    >
+                      Continue Interview
+                    </button>
+                    <button
+                      onClick={() => {
+                        setShowEndConfirmation(false);
+                        endInterview();
+                      }}
+                      className="flex-1 px-4 py-2 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-colors"
+                    >
+                      End & Analyze
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Header */}
+          <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+                  <Code2 className="w-6 h-6 mr-2 text-blue-600" />
+                  Coding Interview
+                </h1>
+                <p className="text-gray-600">Topic: {config.topic}</p>
+                {config.companyName && (
+                  <p className="text-gray-600">Company: {config.companyName}</p>
+                )}
+              </div>
+              <div className="text-right">
+                <div className="flex items-center text-lg font-semibold text-blue-600 mb-2">
+                  <Clock className="w-5 h-5 mr-2" />
+                  {formatTime(elapsedTime)}
+                </div>
+                <div className="text-sm text-gray-600">
+                  Duration: {config.duration} minutes
+                </div>
+              </div>
+            </div>
+
+            {/* Progress Bar */}
+            <div className="mb-4">
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-sm font-medium text-gray-700">
+                  Challenge {challengeIndex + 1} of {challenges.length}
+                </span>
+                <span className="text-sm text-gray-600">
+                  {Math.round((simulator.getResponses().length / challenges.length) * 100)}% Complete
+                </span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${(simulator.getResponses().length / challenges.length) * 100}%` }}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <button
+                onClick={handleEndInterviewClick}
+                className="inline-flex items-center px-6 py-3 bg-red-600 text-white font-semibold rounded-xl hover:bg-red-700 focus:outline-none focus:ring-4 focus:ring-red-300 transition-all"
+              >
+                <Square className="w-4 h-4 mr-2" />
+                End Interview
+              </button>
+              <button
+                onClick={onBackToConfig}
+                className="inline-flex items-center px-6 py-3 bg-gray-100 text-gray-700 font-semibold rounded-xl hover:bg-gray-200 transition-all"
+              >
+                ← Back to Configuration
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+            {/* Challenge Description */}
+            <div className="lg:col-span-2 space-y-6">
+              <div className="bg-white rounded-2xl shadow-lg p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-bold text-gray-900">{challenge.title}</h2>
+                  <span className={`px-3 py-1 rounded-full text-xs font-medium capitalize ${difficultyStyles[challenge.difficulty]}`}>
+                    {challenge.difficulty}
+                  </span>
+                </div>
+                <p className="text-gray-700 leading-relaxed mb-6">{challenge.prompt}</p>
+
+                <h3 className="font-semibold text-gray-900 mb-2">Examples</h3>
+                <div className="space-y-2 mb-4">
+                  {challenge.examples.map((example, index) => (
+                    <div key={index} className="bg-gray-50 rounded-lg p-3 font-mono text-xs text-gray-800 overflow-x-auto">
+                      <div>{challenge.functionName}({example.args.map(arg => JSON.stringify(arg)).join(', ')})</div>
+                      <div className="text-gray-500">→ {JSON.stringify(example.expected)}</div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex items-center text-sm text-gray-500">
+                  <EyeOff className="w-4 h-4 mr-2" />
+                  {challenge.hiddenTests.length} hidden test cases run on submit
+                </div>
+              </div>
+
+              <div className="bg-white rounded-2xl shadow-lg p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Explain Your Approach</h3>
+                <p className="text-sm text-gray-500 mb-3">Walk through your reasoning, trade-offs and time/space complexity</p>
+                <textarea
+                  value={explanation}
+                  onChange={(e) => setExplanation(e.target.value)}
+                  placeholder="I used a hash map to store... which gives O(n) time because..."
+                  disabled={!!submission}
+                  className="w-full h-32 px-4 py-3 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none transition-colors"
+                />
+              </div>
+            </div>
+
+            {/* Editor & Results */}
+            <div className="lg:col-span-3 space-y-6">
+              <div className="bg-white rounded-2xl shadow-lg p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Solution</h3>
+                  <select
+                    value={language}
+                    onChange={(e) => setLanguage(e.target.value as CodingLanguage)}
+                    disabled={!!submission}
+                    className="px-3 py-2 border-2 border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                  >
+                    {languages.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex rounded-xl overflow-hidden border-2 border-gray-800 bg-gray-900">
+                  <div
+                    ref={gutterRef}
+                    className="py-3 px-3 text-right font-mono text-sm leading-6 text-gray-500 select-none overflow-hidden bg-gray-800"
+                    aria-hidden="true"
+                  >
+                    {Array.from({ length: lineCount }, (_, index) => (
+                      <div key={index}>{index + 1}</div>
+                    ))}
+                  </div>
+                  <textarea
+                    value={code}
+                    onChange={(e) => updateCode(e.target.value)}
+                    onKeyDown={handleEditorKeyDown}
+                    onScroll={(e) => {
+                      if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+                    }}
+                    spellCheck={false}
+                    disabled={!!submission}
+                    className="flex-1 h-80 py-3 px-4 font-mono text-sm leading-6 bg-gray-900 text-gray-100 resize-none focus:outline-none whitespace-pre"
+                  />
+                </div>
+
+                <div className="mt-4 flex items-center justify-end space-x-3">
+                  {isRunning && (
+                    <div className="flex items-center text-sm text-blue-600 mr-auto">
+                      <Loader className="w-4 h-4 animate-spin mr-2" />
+                      Running in sandbox...
+                    </div>
+                  )}
+                  {!submission ? (
+                    <>
+                      <button
+                        onClick={runExamples}
+                        disabled={isRunning}
+                        className="inline-flex items-center px-6 py-3 bg-gray-100 text-gray-800 font-semibold rounded-xl hover:bg-gray-200 focus:outline-none focus:ring-4 focus:ring-gray-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Play className="w-4 h-4 mr-2" />
+                        Run Examples
+                      </button>
+                      <button
+                        onClick={submitSolution}
+                        disabled={isRunning}
+                        className="inline-flex items-center px-6 py-3 bg-blue-600 text-white font-semibold rounded-xl hover:bg-blue-700 focus:outline-none focus:ring-4 focus:ring-blue-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Send className="w-4 h-4 mr-2" />
+                        Submit Solution
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={goToNextChallenge}
+                      className="inline-flex items-center px-6 py-3 bg-green-600 text-white font-semibold rounded-xl hover:bg-green-700 focus:outline-none focus:ring-4 focus:ring-green-300 transition-all"
+                    >
+                      {isLastChallenge ? 'Finish & Analyze' : 'Next Challenge'}
+                      <ArrowRight className="w-4 h-4 ml-2" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {/* Test Results */}
+              {results && (
+                <div className="bg-white rounded-2xl shadow-lg p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-gray-900">
+                      {submission ? 'Submission Results' : 'Example Results'}
+                    </h3>
+                    <span className={`px-3 py-1 rounded-lg text-sm font-semibold ${
+                      results.passedCount === results.totalCount ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                    }`}>
+                      {results.passedCount}/{results.totalCount} passed · {results.runtimeMs}ms
+                    </span>
+                  </div>
+
+                  {results.error && (
+                    <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 font-mono">
+                      {results.error}
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    {results.results.map(result => {
+                      const isHidden = result.index >= challenge.examples.length;
+                      return (
+                        <div
+                          key={result.index}
+                          className={`flex items-start p-3 rounded-lg text-sm ${result.passed ? 'bg-green-50' : 'bg-red-50'}`}
+                        >
+                          {result.passed ? (
+                            <CheckCircle className="w-4 h-4 text-green-600 mr-2 mt-0.5 flex-shrink-0" />
+                          ) : (
+                            <XCircle className="w-4 h-4 text-red-600 mr-2 mt-0.5 flex-shrink-0" />
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <div className="font-medium text-gray-900">
+                              {isHidden ? `Hidden test ${result.index - challenge.examples.length + 1}` : `Example ${result.index + 1}`}
+                            </div>
+                            {/* Hidden test inputs stay hidden; only show details for examples */}
+                            {!isHidden && !result.passed && (
+                              <div className="font-mono text-xs text-gray-700 mt-1 space-y-1 overflow-x-auto">
+                                <div>Input: {result.input}</div>
+                                <div>Expected: {result.expected}</div>
+                                <div>Got: {result.error || result.actual}</div>
+                              </div>
+                            )}
+                            {isHidden && result.error && (
+                              <div className="font-mono text-xs text-red-700 mt-1">{result.error}</div>
+                            )}
+                          </div>
+                          <span className="text-xs text-gray-500 ml-2">{result.runtimeMs.toFixed(1)}ms</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {results.logs && results.logs.length > 0 && (
+                    <div className="mt-4">
+                      <h4 className="flex items-center font-medium text-gray-900 mb-2 text-sm">
+                        <Terminal className="w-4 h-4 mr-2" />
+                        Console Output
+                      </h4>
+                      <pre className="bg-gray-900 text-gray-100 rounded-lg p-3 text-xs max-h-40 overflow-auto">
+                        {results.logs.join('\n')}
+                      </pre>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,25 @@
-import React, { useState } from 'react';
-import { Settings, Play, Clock, Building, User, BookOpen, ChevronDown } from 'lucide-react';
-import { InterviewConfig, InterviewStyle, ExperienceLevel } from '../types';
+import React, { useState, useMemo } from 'react';
+import { Settings, Play, Clock, Building, User, BookOpen, ChevronDown, History, FileText, Upload, Loader2, X, Briefcase, Lightbulb, TrendingUp, Download, Layers, Plus, Trash2, UserCircle, Volume2, Ruler, Pencil, Copy, Repeat, Library, CornerDownRight } from 'lucide-react';
+import { InterviewConfig, InterviewStyle, ExperienceLevel, CompanyPack, LoopRound, InterviewerPersona, Rubric } from '../types';
+import { extractTextFromFile, SUPPORTED_DOCUMENT_EXTENSIONS } from '../utils/documentParser';
+import { parseResume, parseJobDescription, hasProfileContent } from '../utils/profileParser';
+import { COMPANY_PACK_EXTENSIONS, serializeCompanyPack } from '../utils/companyPack';
+import { downloadFile } from '../utils/diagram';
+import { DEFAULT_LOOP } from '../utils/interviewLoop';
+import { interviewerPersonas } from '../data/personas';
+import { getPersonaSpeechOptions } from '../utils/interviewerPersona';
+import { DEFAULT_FOLLOW_UP_DEPTH, FOLLOW_UP_DEPTHS, getMaxFollowUpDepth } from '../utils/followUp';
+import { browserTTS } from '../utils/speechSynthesis';
+import { CompanyPackService } from '../services/companyPackService';
+import { RubricService } from '../services/rubricService';
+import { appliesToStyle, createCriterion, getDefaultRubric, isDefaultRubric } from '../utils/rubric';
+import { RubricEditor } from './RubricEditor';
 
 interface ConfigurationScreenProps {
   onStartInterview: (config: InterviewConfig) => void;
+  onViewHistory?: () => void;
+  onOpenDrill?: () => void;
+  onOpenQuestionBank?: () => void;
 }
 
 const interviewStyles: { value: InterviewStyle; label: string; description: string }[] = [
@@ -24,7 +40,34 @@ const experienceLevels: { value: ExperienceLevel; label: string; description: st
 
 const durations = [15, 30, 45, 60];
 
-export const ConfigurationScreen: React.FC<ConfigurationScreenProps> = ({ onStartInterview }) => {
+interface OptionToggleProps {
+  enabled: boolean;
+  description: string;
+  onToggle: () => void;
+}
+
+const OptionToggle: React.FC<OptionToggleProps> = ({ enabled, description, onToggle }) => (
+  <button
+    type="button"
+    role="switch"
+    aria-checked={enabled}
+    onClick={onToggle}
+    className={`w-full flex items-center justify-between p-4 border-2 rounded-xl text-left transition-all ${
+      enabled ? 'border-amber-400 bg-amber-50' : 'border-gray-200 hover:bg-gray-50'
+    }`}
+  >
+    <span className="text-sm text-gray-600 pr-4">{description}</span>
+    <span className={`relative inline-flex h-6 w-11 flex-shrink-0 rounded-full transition-colors ${
+      enabled ? 'bg-amber-500' : 'bg-gray-300'
+    }`}>
+      <span className={`absolute top-0.5 h-5 w-5 rounded-full bg-white shadow transition-transform ${
+        enabled ? 'translate-x-5' : 'translate-x-0.5'
+      }`} />
+    </span>
+  </button>
+);
+
+export const ConfigurationScreen: React.FC<ConfigurationScreenProps> = ({ onStartInterview, onViewHistory, onOpenDrill, onOpenQuestionBank }) => {
   const [config, setConfig] = useState<InterviewConfig>({
     topic: '',
     style: 'technical',
@@ -36,6 +79,20 @@ export const ConfigurationScreen: React.FC<ConfigurationScreenProps> = ({ onStar
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [showStyleDropdown, setShowStyleDropdown] = useState(false);
   const [showExperienceDropdown, setShowExperienceDropdown] = useState(false);
+  const [jobDescriptionText, setJobDescriptionText] = useState('');
+  const [isParsingResume, setIsParsingResume] = useState(false);
+  const [resumeError, setResumeError] = useState('');
+  const [companyPacks, setCompanyPacks] = useState<CompanyPack[]>(() => CompanyPackService.getPacks());
+  const [packError, setPackError] = useState('');
+  const [loopEnabled, setLoopEnabled] = useState(false);
+  const [loopRounds, setLoopRounds] = useState<LoopRound[]>(DEFAULT_LOOP);
+  const [customRubrics, setCustomRubrics] = useState<Rubric[]>(() => RubricService.getCustomRubrics());
+  const [editingRubric, setEditingRubric] = useState<Rubric | null>(null);
+
+  const jobDescription = useMemo(
+    () => (jobDescriptionText.trim() ? parseJobDescription(jobDescriptionText) : undefined),
+    [jobDescriptionText]
+  );
 
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
@@ -44,6 +101,10 @@ export const ConfigurationScreen: React.FC<ConfigurationScreenProps> = ({ onStar
       newErrors.topic = 'Please specify your interview topic';
     }
 
+    if (loopEnabled && (loopRounds.length === 0 || loopRounds.some(round => !round.name.trim()))) {
+      newErrors.loop = 'Give every round a name, and add at least one round';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -51,10 +112,126 @@ export const ConfigurationScreen: React.FC<ConfigurationScreenProps> = ({ onStar
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (validateForm()) {
-      onStartInterview(config);
+      onStartInterview({
+        ...config,
+        jobDescription: hasProfileContent(jobDescription) ? jobDescription : undefined,
+        rubric: selectedRubric,
+        loop: loopEnabled ? loopRounds.map(round => ({ ...round, name: round.name.trim() })) : undefined
+      });
+    }
+  };
+
+  const handleResumeUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so selecting the same file again still fires onChange
+    e.target.value = '';
+    if (!file) return;
+
+    setIsParsingResume(true);
+    setResumeError('');
+
+    try {
+      const text = await extractTextFromFile(file);
+      const resume = parseResume(text, file.name);
+
+      if (!hasProfileContent(resume)) {
+        throw new Error('Could not find any skills, projects or experience in this file. Try a text-based PDF, DOCX or plain text version.');
+      }
+
+      updateConfig({ resume });
+      console.log('📄 Resume parsed:', resume);
+    } catch (error) {
+      console.error('Error parsing resume:', error);
+      setResumeError(error instanceof Error ? error.message : 'Failed to read resume');
+      updateConfig({ resume: undefined });
+    } finally {
+      setIsParsingResume(false);
+    }
+  };
+
+  const selectCompanyPack = (pack: CompanyPack | undefined) => {
+    setPackError('');
+    setConfig(prev => ({
+      ...prev,
+      companyPack: pack,
+      // Follow the pack's name unless the candidate typed a different company
+      companyName: !prev.companyName.trim() || prev.companyName === prev.companyPack?.name ? pack?.name || '' : prev.companyName
+    }));
+  };
+
+  const handlePackImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const pack = await CompanyPackService.importPack(file);
+      setCompanyPacks(CompanyPackService.getPacks());
+      selectCompanyPack(pack);
+    } catch (error) {
+      console.error('Error importing company pack:', error);
+      setPackError(error instanceof Error ? error.message : 'Failed to import company pack');
     }
   };
 
+  const removeCompanyPack = (pack: CompanyPack) => {
+    CompanyPackService.removePack(pack.id);
+    setCompanyPacks(CompanyPackService.getPacks());
+    if (config.companyPack?.id === pack.id) selectCompanyPack(undefined);
+  };
+
+  const exportCompanyPack = (pack: CompanyPack) => {
+    downloadFile(`${pack.id}.json`, serializeCompanyPack(pack), 'application/json');
+  };
+
+  const updateLoopRound = (index: number, updates: Partial<LoopRound>) => {
+    setLoopRounds(prev => prev.map((round, i) => (i === index ? { ...round, ...updates } : round)));
+    setErrors(prev => ({ ...prev, loop: '' }));
+  };
+
+  const addLoopRound = () => {
+    setLoopRounds(prev => [...prev, { name: `Round ${prev.length + 1}`, style: config.style, duration: config.duration }]);
+  };
+
+  const removeLoopRound = (index: number) => {
+    setLoopRounds(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Company packs list their typical rounds, which make a ready-made loop
+  const applyPackRounds = (pack: CompanyPack) => {
+    setLoopRounds(pack.rounds.map(round => ({ name: round.name, style: round.style, duration: 30 })));
+    setErrors(prev => ({ ...prev, loop: '' }));
+  };
+
+  const previewPersona = (persona: InterviewerPersona) => {
+    browserTTS.speak(
+      `Hi, I'll be your ${persona.name.toLowerCase()} interviewer today.`,
+      getPersonaSpeechOptions(persona.id)
+    );
+  };
+
+  const handleRubricSaved = (rubric: Rubric) => {
+    setCustomRubrics(RubricService.getCustomRubrics());
+    setEditingRubric(null);
+    updateConfig({ rubric });
+  };
+
+  const removeRubric = (rubric: Rubric) => {
+    RubricService.removeRubric(rubric.id);
+    setCustomRubrics(RubricService.getCustomRubrics());
+    if (config.rubric?.id === rubric.id) updateConfig({ rubric: undefined });
+  };
+
+  // Copies start unsaved, so they get a fresh id when the editor saves them
+  const duplicateRubric = (rubric: Rubric) => {
+    setEditingRubric({
+      ...rubric,
+      id: '',
+      name: `${rubric.name} (Copy)`,
+      styles: rubric.styles.length > 0 ? rubric.styles : [config.style]
+    });
+  };
+
   const updateConfig = (updates: Partial<InterviewConfig>) => {
     setConfig(prev => ({ ...prev, ...updates }));
     // Clear related errors
@@ -65,6 +242,10 @@ export const ConfigurationScreen: React.FC<ConfigurationScreenProps> = ({ onStar
 
   const selectedStyle = interviewStyles.find(style => style.value === config.style);
   const selectedExperience = experienceLevels.find(level => level.value === config.experienceLevel);
+  const selectedPack = config.companyPack;
+  // A rubric picked for another style falls back to the current style's default
+  const availableRubrics = [getDefaultRubric(config.style), ...customRubrics.filter(rubric => appliesToStyle(rubric, config.style))];
+  const selectedRubric = availableRubrics.find(rubric => rubric.id === config.rubric?.id) || availableRubrics[0];
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
@@ -249,6 +430,65 @@ export const ConfigurationScreen: React.FC<ConfigurationScreenProps> = ({ onStar
                   </div>
                 </div>
 
+                {/* Coach Mode */}
+                <div>
+                  <label className="flex items-center text-sm font-semibold text-gray-700 mb-3">
+                    <Lightbulb className="w-4 h-4 mr-2 text-blue-600" />
+                    Coach Mode
+                  </label>
+                  <OptionToggle
+                    enabled={!!config.coachMode}
+                    onToggle={() => updateConfig({ coachMode: !config.coachMode })}
+                    description="Get a score, a strength and an improvement after every answer, and retry answers before moving on"
+                  />
+                </div>
+
+                {/* Adaptive Difficulty */}
+                <div>
+                  <label className="flex items-center text-sm font-semibold text-gray-700 mb-3">
+                    <TrendingUp className="w-4 h-4 mr-2 text-blue-600" />
+                    Adaptive Difficulty
+                  </label>
+                  <OptionToggle
+                    enabled={!!config.adaptiveDifficulty}
+                    onToggle={() => updateConfig({ adaptiveDifficulty: !config.adaptiveDifficulty })}
+                    description="Each question gets harder after a strong answer and easier after a weak one, so you find your ceiling"
+                  />
+                </div>
+
+                {/* Follow-up Depth */}
+                <div>
+                  <label className="flex items-center text-sm font-semibold text-gray-700 mb-3">
+                    <CornerDownRight className="w-4 h-4 mr-2 text-blue-600" />
+                    Follow-up Depth
+                  </label>
+                  <div className="grid grid-cols-4 gap-3">
+                    {FOLLOW_UP_DEPTHS.map((depth) => (
+                      <label
+                        key={depth}
+                        className={`flex items-center justify-center p-3 border-2 rounded-xl cursor-pointer transition-all hover:bg-green-50 ${
+                          getMaxFollowUpDepth(config) === depth
+                            ? 'border-green-500 bg-green-50'
+                            : 'border-gray-200'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="maxFollowUpDepth"
+                          value={depth}
+                          checked={getMaxFollowUpDepth(config) === depth}
+                          onChange={(e) => updateConfig({ maxFollowUpDepth: parseInt(e.target.value) })}
+                          className="sr-only"
+                        />
+                        <span className="font-medium text-gray-900">{depth === 0 ? 'Off' : depth}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    How many follow-ups the interviewer may ask to dig into a thin answer before moving on (default {DEFAULT_FOLLOW_UP_DEPTH}); they stop early when time runs short
+                  </p>
+                </div>
+
                 {/* Additional spacing for visual balance */}
                 <div className="pt-8">
                   <div className="bg-gradient-to-r from-blue-50 to-purple-50 rounded-2xl p-6">
@@ -262,8 +502,459 @@ export const ConfigurationScreen: React.FC<ConfigurationScreenProps> = ({ onStar
               </div>
             </div>
 
+            {/* Interviewer Persona */}
+            <div className="mt-8 pt-8 border-t border-gray-100">
+              <h2 className="text-lg font-semibold text-gray-900 mb-1 flex items-center">
+                <UserCircle className="w-5 h-5 mr-2 text-blue-600" />
+                Interviewer Persona (Optional)
+              </h2>
+              <p className="text-sm text-gray-500 mb-6">
+                Choose who is across the table: their tone, how hard they follow up, their voice and whether they cut you off
+              </p>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                <button
+                  type="button"
+                  onClick={() => updateConfig({ persona: undefined })}
+                  className={`p-4 border-2 rounded-xl text-left transition-all ${
+                    !config.persona ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="font-medium text-gray-900">Neutral</div>
+                  <div className="text-sm text-gray-600">A balanced, professional interviewer</div>
+                </button>
+                {interviewerPersonas.map(persona => (
+                  <div
+                    key={persona.id}
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => updateConfig({ persona: persona.id })}
+                    onKeyDown={(e) => e.key === 'Enter' && updateConfig({ persona: persona.id })}
+                    className={`p-4 border-2 rounded-xl text-left cursor-pointer transition-all ${
+                      config.persona === persona.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="font-medium text-gray-900">{persona.name}</div>
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          previewPersona(persona);
+                        }}
+                        className="p-1 rounded-lg text-gray-500 hover:bg-blue-100 hover:text-gray-700 transition-colors"
+                        title="Preview voice"
+                      >
+                        <Volume2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="text-sm text-gray-600">{persona.description}</div>
+                    <div className="mt-2 text-xs text-gray-500">
+                      {persona.followUpAggressiveness} follow-ups · {persona.interruptAfterSeconds ? `interrupts after ${persona.interruptAfterSeconds}s` : 'lets you finish'}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Scoring Rubric */}
+            <div className="mt-8 pt-8 border-t border-gray-100">
+              <div className="flex items-start justify-between mb-6">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900 mb-1 flex items-center">
+                    <Ruler className="w-5 h-5 mr-2 text-blue-600" />
+                    Scoring Rubric
+                  </h2>
+                  <p className="text-sm text-gray-500">
+                    The criteria, weights and level descriptors your answers are graded against
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setEditingRubric({ id: '', name: '', description: '', styles: [config.style], criteria: [createCriterion()] })}
+                  className="inline-flex items-center px-4 py-2 border-2 border-gray-200 rounded-xl text-sm font-medium text-gray-700 hover:bg-blue-50 hover:border-blue-400 transition-colors flex-shrink-0"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  New Rubric
+                </button>
+              </div>
+
+              {editingRubric ? (
+                <RubricEditor
+                  key={editingRubric.id || 'new'}
+                  rubric={editingRubric}
+                  onSave={handleRubricSaved}
+                  onCancel={() => setEditingRubric(null)}
+                />
+              ) : (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                    {availableRubrics.map(rubric => (
+                      <div
+                        key={rubric.id}
+                        role="button"
+                        tabIndex={0}
+                        onClick={() => updateConfig({ rubric })}
+                        onKeyDown={(e) => e.key === 'Enter' && updateConfig({ rubric })}
+                        className={`p-4 border-2 rounded-xl text-left cursor-pointer transition-all ${
+                          selectedRubric.id === rubric.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <div className="font-medium text-gray-900">{rubric.name}</div>
+                          <div className="flex items-center">
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                duplicateRubric(rubric);
+                              }}
+                              className="p-1 rounded-lg text-gray-500 hover:bg-blue-100 hover:text-gray-700 transition-colors"
+                              title="Duplicate and edit"
+                            >
+                              <Copy className="w-4 h-4" />
+                            </button>
+                            {!isDefaultRubric(rubric) && (
+                              <>
+                                <button
+                                  type="button"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setEditingRubric(rubric);
+                                  }}
+                                  className="p-1 rounded-lg text-gray-500 hover:bg-blue-100 hover:text-gray-700 transition-colors"
+                                  title="Edit rubric"
+                                >
+                                  <Pencil className="w-4 h-4" />
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    removeRubric(rubric);
+                                  }}
+                                  className="p-1 rounded-lg text-gray-500 hover:bg-red-100 hover:text-red-600 transition-colors"
+                                  title="Delete rubric"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                        {rubric.description && <div className="text-sm text-gray-600">{rubric.description}</div>}
+                        <div className="mt-2 text-xs text-gray-500">
+                          {isDefaultRubric(rubric) ? 'Default' : 'Custom'} · {rubric.criteria.length} criteria
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {selectedRubric.criteria.map(criterion => (
+                      <span
+                        key={criterion.id}
+                        className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-xs font-medium"
+                        title={criterion.description}
+                      >
+                        {criterion.name} ×{criterion.weight}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Company Pack */}
+            <div className="mt-8 pt-8 border-t border-gray-100">
+              <div className="flex items-start justify-between mb-6">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900 mb-1">Company Pack (Optional)</h2>
+                  <p className="text-sm text-gray-500">
+                    Practice against a company's values, leadership principles, typical rounds and scoring rubric
+                  </p>
+                </div>
+                <label className="inline-flex items-center px-4 py-2 border-2 border-gray-200 rounded-xl text-sm font-medium text-gray-700 cursor-pointer hover:bg-blue-50 hover:border-blue-400 transition-colors flex-shrink-0">
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import Pack
+                  <input
+                    type="file"
+                    accept={COMPANY_PACK_EXTENSIONS.join(',')}
+                    onChange={handlePackImport}
+                    className="sr-only"
+                  />
+                </label>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                <button
+                  type="button"
+                  onClick={() => selectCompanyPack(undefined)}
+                  className={`p-4 border-2 rounded-xl text-left transition-all ${
+                    !selectedPack ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="font-medium text-gray-900">No pack</div>
+                  <div className="text-sm text-gray-600">General interview</div>
+                </button>
+                {companyPacks.map(pack => (
+                  <button
+                    key={pack.id}
+                    type="button"
+                    onClick={() => selectCompanyPack(pack)}
+                    className={`p-4 border-2 rounded-xl text-left transition-all ${
+                      selectedPack?.id === pack.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="font-medium text-gray-900 flex items-center">
+                      <Building className="w-4 h-4 mr-2 text-blue-600" />
+                      {pack.name}
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {pack.rounds.length} rounds · {pack.rubric.length} rubric criteria
+                    </div>
+                  </button>
+                ))}
+              </div>
+              {packError && (
+                <p className="mt-2 text-sm text-red-600">{packError}</p>
+              )}
+
+              {selectedPack && (
+                <div className="mt-4 border-2 border-blue-100 bg-blue-50 rounded-xl p-4">
+                  <div className="flex items-start justify-between mb-3">
+                    <div>
+                      <div className="font-medium text-gray-900">{selectedPack.name}</div>
+                      {selectedPack.description && (
+                        <div className="text-sm text-gray-600">{selectedPack.description}</div>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-1 flex-shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => exportCompanyPack(selectedPack)}
+                        className="p-1 rounded-lg text-gray-500 hover:bg-blue-100 hover:text-gray-700 transition-colors"
+                        title="Export pack to share"
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                      {CompanyPackService.isImported(selectedPack.id) && (
+                        <button
+                          type="button"
+                          onClick={() => removeCompanyPack(selectedPack)}
+                          className="p-1 rounded-lg text-gray-500 hover:bg-blue-100 hover:text-gray-700 transition-colors"
+                          title="Remove imported pack"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {selectedPack.rounds.length > 0 && (
+                    <ol className="text-sm text-gray-700 space-y-1 mb-3 list-decimal list-inside">
+                      {selectedPack.rounds.map(round => (
+                        <li key={round.name}>
+                          <span className="font-medium">{round.name}</span>
+                          <span className="text-gray-500"> ({round.style}){round.focus ? ` · ${round.focus}` : ''}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    {[...selectedPack.leadershipPrinciples, ...selectedPack.values]
+                      .filter((item, index, items) => items.indexOf(item) === index)
+                      .slice(0, 12)
+                      .map(item => (
+                        <span key={item} className="px-2 py-1 rounded-full text-xs font-medium bg-white text-blue-800 border border-blue-200">
+                          {item}
+                        </span>
+                      ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Interview Loop */}
+            <div className="mt-8 pt-8 border-t border-gray-100">
+              <h2 className="text-lg font-semibold text-gray-900 mb-1 flex items-center">
+                <Layers className="w-5 h-5 mr-2 text-blue-600" />
+                Interview Loop (Optional)
+              </h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Chain several rounds, from phone screen to onsite, and finish with a hiring committee decision
+              </p>
+              <OptionToggle
+                enabled={loopEnabled}
+                onToggle={() => setLoopEnabled(!loopEnabled)}
+                description="Each round uses its own style and duration below, and later interviewers pick up on what you said in earlier rounds"
+              />
+
+              {loopEnabled && (
+                <div className="mt-4 space-y-3">
+                  {loopRounds.map((round, index) => (
+                    <div key={index} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 border-2 border-gray-200 rounded-xl">
+                      <span className="text-sm font-semibold text-gray-500 w-6">{index + 1}.</span>
+                      <input
+                        type="text"
+                        value={round.name}
+                        onChange={(e) => updateLoopRound(index, { name: e.target.value })}
+                        placeholder="Round name"
+                        className="flex-1 px-3 py-2 border-2 border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                      />
+                      <select
+                        value={round.style}
+                        onChange={(e) => updateLoopRound(index, { style: e.target.value as InterviewStyle })}
+                        className="px-3 py-2 border-2 border-gray-200 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {interviewStyles.map(style => (
+                          <option key={style.value} value={style.value}>{style.label}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={round.duration}
+                        onChange={(e) => updateLoopRound(index, { duration: parseInt(e.target.value) })}
+                        className="px-3 py-2 border-2 border-gray-200 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {durations.map(duration => (
+                          <option key={duration} value={duration}>{duration} min</option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => removeLoopRound(index)}
+                        className="p-2 rounded-lg text-gray-500 hover:bg-red-50 hover:text-red-600 transition-colors"
+                        title="Remove round"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+
+                  <div className="flex flex-wrap items-center gap-3">
+                    <button
+                      type="button"
+                      onClick={addLoopRound}
+                      className="inline-flex items-center px-4 py-2 border-2 border-gray-200 rounded-xl text-sm font-medium text-gray-700 hover:bg-blue-50 hover:border-blue-400 transition-colors"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Round
+                    </button>
+                    {selectedPack && selectedPack.rounds.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => applyPackRounds(selectedPack)}
+                        className="inline-flex items-center px-4 py-2 border-2 border-gray-200 rounded-xl text-sm font-medium text-gray-700 hover:bg-blue-50 hover:border-blue-400 transition-colors"
+                      >
+                        <Building className="w-4 h-4 mr-2" />
+                        Use {selectedPack.name} Rounds
+                      </button>
+                    )}
+                    <span className="text-sm text-gray-500">
+                      {loopRounds.reduce((sum, round) => sum + round.duration, 0)} minutes in total
+                    </span>
+                  </div>
+                  {errors.loop && (
+                    <p className="text-sm text-red-600">{errors.loop}</p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Resume & Job Description */}
+            <div className="mt-8 pt-8 border-t border-gray-100">
+              <h2 className="text-lg font-semibold text-gray-900 mb-1">Tailor to You (Optional)</h2>
+              <p className="text-sm text-gray-500 mb-6">
+                Add your resume and the job description so the interviewer asks about your actual projects and the role's requirements
+              </p>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* Resume Upload */}
+                <div>
+                  <label className="flex items-center text-sm font-semibold text-gray-700 mb-3">
+                    <FileText className="w-4 h-4 mr-2 text-blue-600" />
+                    Resume
+                  </label>
+
+                  {config.resume ? (
+                    <div className="border-2 border-green-200 bg-green-50 rounded-xl p-4">
+                      <div className="flex items-start justify-between mb-3">
+                        <div>
+                          <div className="font-medium text-gray-900">{config.resume.fileName}</div>
+                          <div className="text-sm text-gray-600">
+                            {config.resume.skills.length} skills · {config.resume.projects.length} projects · {config.resume.experience.length} roles
+                          </div>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => updateConfig({ resume: undefined })}
+                          className="p-1 rounded-lg text-gray-500 hover:bg-green-100 hover:text-gray-700 transition-colors"
+                          title="Remove resume"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {config.resume.skills.slice(0, 12).map(skill => (
+                          <span key={skill} className="px-2 py-1 rounded-full text-xs font-medium bg-white text-green-800 border border-green-200">
+                            {skill}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  ) : (
+                    <label className="flex flex-col items-center justify-center w-full h-40 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer hover:bg-blue-50 hover:border-blue-400 transition-colors">
+                      {isParsingResume ? (
+                        <>
+                          <Loader2 className="w-8 h-8 text-blue-600 animate-spin mb-2" />
+                          <span className="text-sm text-gray-600">Reading your resume...</span>
+                        </>
+                      ) : (
+                        <>
+                          <Upload className="w-8 h-8 text-gray-400 mb-2" />
+                          <span className="text-sm font-medium text-gray-700">Click to upload your resume</span>
+                          <span className="text-xs text-gray-500 mt-1">PDF, DOCX or plain text</span>
+                        </>
+                      )}
+                      <input
+                        type="file"
+                        accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(',')}
+                        onChange={handleResumeUpload}
+                        disabled={isParsingResume}
+                        className="sr-only"
+                      />
+                    </label>
+                  )}
+                  {resumeError && (
+                    <p className="mt-2 text-sm text-red-600">{resumeError}</p>
+                  )}
+                </div>
+
+                {/* Job Description */}
+                <div>
+                  <label className="flex items-center text-sm font-semibold text-gray-700 mb-3">
+                    <Briefcase className="w-4 h-4 mr-2 text-blue-600" />
+                    Job Description
+                  </label>
+                  <textarea
+                    value={jobDescriptionText}
+                    onChange={(e) => setJobDescriptionText(e.target.value)}
+                    placeholder="Paste the job posting here..."
+                    rows={6}
+                    className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors resize-none"
+                  />
+                  {jobDescription && (
+                    <p className="mt-2 text-sm text-gray-500">
+                      Found {jobDescription.requirements.length} requirements, {jobDescription.responsibilities.length} responsibilities and {jobDescription.skills.length} skills
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+
             {/* Submit Button */}
-            <div className="mt-8 flex justify-center">
+            <div className="mt-8 flex flex-col sm:flex-row items-center justify-center space-y-4 sm:space-y-0 sm:space-x-4">
               <button
                 type="submit"
                 className="inline-flex items-center px-8 py-4 bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold rounded-2xl hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-4 focus:ring-blue-300 transition-all transform hover:scale-105 shadow-lg"
@@ -271,6 +962,39 @@ export const ConfigurationScreen: React.FC<ConfigurationScreenProps> = ({ onStar
                 <Play className="w-5 h-5 mr-2" />
                 Start Interview Practice
               </button>
+
+              {onViewHistory && (
+                <button
+                  type="button"
+                  onClick={onViewHistory}
+                  className="inline-flex items-center px-8 py-4 bg-white border-2 border-purple-200 text-purple-700 font-semibold rounded-2xl hover:bg-purple-50 focus:outline-none focus:ring-4 focus:ring-purple-200 transition-all"
+                >
+                  <History className="w-5 h-5 mr-2" />
+                  Interview History
+                </button>
+              )}
+
+              {onOpenDrill && (
+                <button
+                  type="button"
+                  onClick={onOpenDrill}
+                  className="inline-flex items-center px-8 py-4 bg-white border-2 border-purple-200 text-purple-700 font-semibold rounded-2xl hover:bg-purple-50 focus:outline-none focus:ring-4 focus:ring-purple-200 transition-all"
+                >
+                  <Repeat className="w-5 h-5 mr-2" />
+                  Drill Weak Questions
+                </button>
+              )}
+
+              {onOpenQuestionBank && (
+                <button
+                  type="button"
+                  onClick={onOpenQuestionBank}
+                  className="inline-flex items-center px-8 py-4 bg-white border-2 border-purple-200 text-purple-700 font-semibold rounded-2xl hover:bg-purple-50 focus:outline-none focus:ring-4 focus:ring-purple-200 transition-all"
+                >
+                  <Library className="w-5 h-5 mr-2" />
+                  Question Bank
+                </button>
+              )}
             </div>
           </form>
         </div>
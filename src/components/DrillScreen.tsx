@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Repeat, ArrowLeft, Play, Trash2, Inbox, Calendar, RefreshCw } from 'lucide-react';
+import { DrillCard, InterviewConfig } from '../types';
+import { DrillService } from '../services/drillService';
+import { DRILL_SCORE_THRESHOLD, DRILL_SESSION_SIZE, createDrillConfig, getDueCards, summarizeCategories } from '../utils/spacedRepetition';
+
+interface DrillScreenProps {
+  onStartDrill: (config: InterviewConfig) => void;
+  onBackToConfig: () => void;
+}
+
+const formatDue = (dueAt: number): string => {
+  const days = Math.ceil((dueAt - Date.now()) / (24 * 60 * 60 * 1000));
+  return days <= 1 ? 'tomorrow' : `in ${days} days`;
+};
+
+export const DrillScreen: React.FC<DrillScreenProps> = ({ onStartDrill, onBackToConfig }) => {
+  const [deck, setDeck] = useState<DrillCard[]>(() => DrillService.getDeck());
+
+  const dueCards = getDueCards(deck);
+  const upcomingCards = deck.filter(card => !dueCards.includes(card)).sort((a, b) => a.dueAt - b.dueAt);
+  const categories = summarizeCategories(deck);
+
+  const startDrill = (category?: string) => {
+    const cards = dueCards.filter(card => !category || card.category === category).slice(0, DRILL_SESSION_SIZE);
+    if (cards.length > 0) onStartDrill(createDrillConfig(cards, category));
+  };
+
+  const removeCard = (id: string) => {
+    DrillService.removeCard(id);
+    setDeck(DrillService.getDeck());
+  };
+
+  const getScoreColor = (score: number): string => {
+    if (score >= 70) return 'text-blue-600 bg-blue-100';
+    if (score >= 50) return 'text-yellow-600 bg-yellow-100';
+    return 'text-red-600 bg-red-100';
+  };
+
+  const renderCard = (card: DrillCard, due: boolean) => (
+    <div key={card.id} className="flex items-start justify-between py-4 border-b border-gray-100 last:border-0">
+      <div className="flex-1 mr-4">
+        <p className="text-gray-900">{card.question}</p>
+        <div className="mt-1 flex items-center flex-wrap gap-3 text-xs text-gray-500">
+          <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 font-medium">{card.category}</span>
+          <span className="flex items-center">
+            <Calendar className="w-3 h-3 mr-1" />
+            {due ? 'Due now' : `Due ${formatDue(card.dueAt)}`}
+          </span>
+          {card.repetitions > 0 && (
+            <span className="flex items-center">
+              <RefreshCw className="w-3 h-3 mr-1" />
+              {card.repetitions} in a row
+            </span>
+          )}
+        </div>
+      </div>
+      <div className="flex items-center space-x-2">
+        <span className={`px-2 py-1 rounded-lg text-xs font-semibold ${getScoreColor(card.lastScore)}`}>
+          {card.lastScore}%
+        </span>
+        <button
+          onClick={() => removeCard(card.id)}
+          className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-red-100 hover:text-red-600 transition-all"
+          title="Remove from deck"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-5xl mx-auto">
+          {/* Header */}
+          <div className="text-center mb-10">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-purple-600 text-white rounded-2xl mb-6">
+              <Repeat className="w-8 h-8" />
+            </div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">
+              Drill Mode
+            </h1>
+            <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+              Questions you scored below {DRILL_SCORE_THRESHOLD}% come back on a spaced-repetition schedule until they stick
+            </p>
+          </div>
+
+          {deck.length === 0 ? (
+            <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+              <Inbox className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Your drill deck is empty</h3>
+              <p className="text-gray-600">
+                Weak answers from your interviews are added here automatically.
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div className="bg-white rounded-2xl shadow-lg p-6 text-center">
+                  <div className="text-3xl font-bold text-purple-600">{dueCards.length}</div>
+                  <div className="text-sm text-gray-600">Due now</div>
+                </div>
+                <div className="bg-white rounded-2xl shadow-lg p-6 text-center">
+                  <div className="text-3xl font-bold text-gray-900">{deck.length}</div>
+                  <div className="text-sm text-gray-600">Cards in deck</div>
+                </div>
+                <div className="bg-white rounded-2xl shadow-lg p-6 text-center">
+                  <div className="text-3xl font-bold text-gray-900">{categories.length}</div>
+                  <div className="text-sm text-gray-600">Categories</div>
+                </div>
+              </div>
+
+              <div className="text-center mb-8">
+                <button
+                  onClick={() => startDrill()}
+                  disabled={dueCards.length === 0}
+                  className="inline-flex items-center px-8 py-4 bg-gradient-to-r from-purple-600 to-blue-600 text-white font-semibold rounded-2xl hover:from-purple-700 hover:to-blue-700 focus:outline-none focus:ring-4 focus:ring-purple-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Play className="w-5 h-5 mr-2" />
+                  {dueCards.length > 0
+                    ? `Start Drill (${Math.min(dueCards.length, DRILL_SESSION_SIZE)} cards)`
+                    : 'Nothing due right now'}
+                </button>
+              </div>
+
+              {/* Categories */}
+              <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+                <h3 className="text-xl font-bold text-gray-900 mb-4">Weakest Categories</h3>
+                <div className="space-y-3">
+                  {categories.map(category => (
+                    <div key={category.category} className="flex items-center justify-between">
+                      <div>
+                        <span className="font-medium text-gray-900">{category.category}</span>
+                        <span className="ml-3 text-sm text-gray-500">
+                          {category.total} cards · {category.due} due · avg {category.averageScore}%
+                        </span>
+                      </div>
+                      <button
+                        onClick={() => startDrill(category.category)}
+                        disabled={category.due === 0}
+                        className="inline-flex items-center px-4 py-2 bg-purple-600 text-white font-semibold rounded-xl hover:bg-purple-700 transition-all text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Play className="w-4 h-4 mr-2" />
+                        Drill
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Cards */}
+              {dueCards.length > 0 && (
+                <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+                  <h3 className="text-xl font-bold text-gray-900 mb-2">Due Cards</h3>
+                  {dueCards.map(card => renderCard(card, true))}
+                </div>
+              )}
+
+              {upcomingCards.length > 0 && (
+                <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+                  <h3 className="text-xl font-bold text-gray-900 mb-2">Upcoming</h3>
+                  {upcomingCards.map(card => renderCard(card, false))}
+                </div>
+              )}
+            </>
+          )}
+
+          {/* Navigation */}
+          <div className="flex justify-center mt-8">
+            <button
+              onClick={onBackToConfig}
+              className="inline-flex items-center px-6 py-3 bg-gray-600 text-white font-semibold rounded-xl hover:bg-gray-700 focus:outline-none focus:ring-4 focus:ring-gray-300 transition-all"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Configuration
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  History,
+  ArrowLeft,
+  Search,
+  Trash2,
+  Eye,
+  Loader2,
+  Calendar,
+  Clock,
+  MessageSquare,
+  Inbox,
+  LineChart
+} from 'lucide-react';
+import { InterviewSession, InterviewStyle, ExperienceLevel } from '../types';
+import { HistoryService, HistoryFilter } from '../services/historyService';
+
+interface HistoryScreenProps {
+  onOpenSession: (session: InterviewSession) => void;
+  onViewProgress: () => void;
+  onBackToConfig: () => void;
+}
+
+const styleLabels: Record<InterviewStyle, string> = {
+  technical: 'Technical',
+  hr: 'HR',
+  behavioral: 'Behavioral',
+  'salary-negotiation': 'Salary Negotiation',
+  'case-study': 'Case Study'
+};
+
+const experienceLabels: Record<ExperienceLevel, string> = {
+  fresher: 'Fresher',
+  junior: 'Junior',
+  'mid-level': 'Mid-Level',
+  senior: 'Senior',
+  'lead-manager': 'Lead/Manager'
+};
+
+export const HistoryScreen: React.FC<HistoryScreenProps> = ({
+  onOpenSession,
+  onViewProgress,
+  onBackToConfig
+}) => {
+  const [sessions, setSessions] = useState<InterviewSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<HistoryFilter>({});
+  const [pendingDelete, setPendingDelete] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSessions(await HistoryService.getSessions(filter));
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const updateFilter = (updates: Partial<HistoryFilter>) => {
+    setFilter(prev => ({ ...prev, ...updates }));
+  };
+
+  const deleteSession = async (id: string) => {
+    try {
+      await HistoryService.deleteSession(id);
+      setSessions(prev => prev.filter(session => session.id !== id));
+    } catch (error) {
+      console.error('Error deleting session:', error);
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  const getScoreColor = (score: number): string => {
+    if (score >= 85) return 'text-green-600 bg-green-100';
+    if (score >= 70) return 'text-blue-600 bg-blue-100';
+    if (score >= 60) return 'text-yellow-600 bg-yellow-100';
+    return 'text-red-600 bg-red-100';
+  };
+
+  const formatDuration = (ms: number): string => {
+    const minutes = Math.max(1, Math.round(ms / 60000));
+    return `${minutes} min`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-5xl mx-auto">
+          {/* Header */}
+          <div className="text-center mb-10">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-purple-600 text-white rounded-2xl mb-6">
+              <History className="w-8 h-8" />
+            </div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">
+              Interview History
+            </h1>
+            <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+              Look back at what you were asked and how you scored
+            </p>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="relative">
+                <Search className="w-4 h-4 text-gray-400 absolute left-4 top-1/2 transform -translate-y-1/2" />
+                <input
+                  type="text"
+                  value={filter.search || ''}
+                  onChange={(e) => updateFilter({ search: e.target.value })}
+                  placeholder="Search topic, company or question..."
+                  className="w-full pl-10 pr-4 py-3 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors"
+                />
+              </div>
+
+              <select
+                value={filter.style || ''}
+                onChange={(e) => updateFilter({ style: (e.target.value || undefined) as InterviewStyle | undefined })}
+                className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors bg-white"
+              >
+                <option value="">All interview styles</option>
+                {Object.entries(styleLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+
+              <select
+                value={filter.experienceLevel || ''}
+                onChange={(e) => updateFilter({ experienceLevel: (e.target.value || undefined) as ExperienceLevel | undefined })}
+                className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors bg-white"
+              >
+                <option value="">All experience levels</option>
+                {Object.entries(experienceLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Session List */}
+          {loading ? (
+            <div className="text-center py-16">
+              <Loader2 className="w-10 h-10 text-purple-600 animate-spin mx-auto mb-4" />
+              <p className="text-gray-600">Loading your interview history...</p>
+            </div>
+          ) : sessions.length === 0 ? (
+            <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+              <Inbox className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No sessions found</h3>
+              <p className="text-gray-600">
+                Completed interviews are saved here automatically.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {sessions.map(session => (
+                <div key={session.id} className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-all">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center flex-wrap gap-2 mb-2">
+                        <h3 className="text-lg font-bold text-gray-900 mr-2">{session.config.topic}</h3>
+                        <span className="px-3 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                          {styleLabels[session.config.style]}
+                        </span>
+                        <span className="px-3 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                          {experienceLabels[session.config.experienceLevel]}
+                        </span>
+                        {session.config.companyName && (
+                          <span className="px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                            {session.config.companyName}
+                          </span>
+                        )}
+                      </div>
+
+                      <div className="flex items-center flex-wrap gap-4 text-sm text-gray-600">
+                        <span className="flex items-center">
+                          <Calendar className="w-4 h-4 mr-1" />
+                          {new Date(session.completedAt).toLocaleString()}
+                        </span>
+                        <span className="flex items-center">
+                          <Clock className="w-4 h-4 mr-1" />
+                          {formatDuration(session.completedAt - session.startedAt)}
+                        </span>
+                        <span className="flex items-center">
+                          <MessageSquare className="w-4 h-4 mr-1" />
+                          {session.responses.length} answered
+                        </span>
+                      </div>
+                    </div>
+
+                    <span className={`px-3 py-1 rounded-lg text-sm font-semibold ${getScoreColor(session.analytics.overallScore)}`}>
+                      {Math.round(session.analytics.overallScore)}%
+                    </span>
+                  </div>
+
+                  <div className="mt-4 flex items-center justify-end space-x-3">
+                    {pendingDelete === session.id ? (
+                      <>
+                        <span className="text-sm text-gray-600">Delete this session?</span>
+                        <button
+                          onClick={() => setPendingDelete(null)}
+                          className="px-4 py-2 bg-gray-200 text-gray-800 rounded-xl hover:bg-gray-300 transition-colors text-sm"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => deleteSession(session.id)}
+                          className="px-4 py-2 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-colors text-sm"
+                        >
+                          Delete
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => setPendingDelete(session.id)}
+                          className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-red-100 hover:text-red-600 transition-all"
+                          title="Delete session"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => onOpenSession(session)}
+                          className="inline-flex items-center px-4 py-2 bg-purple-600 text-white font-semibold rounded-xl hover:bg-purple-700 focus:outline-none focus:ring-4 focus:ring-purple-300 transition-all text-sm"
+                        >
+                          <Eye className="w-4 h-4 mr-2" />
+                          Open Analysis
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Navigation */}
+          <div className="flex flex-col sm:flex-row items-center justify-center space-y-4 sm:space-y-0 sm:space-x-4 mt-8">
+            <button
+              onClick={onBackToConfig}
+              className="inline-flex items-center px-6 py-3 bg-gray-600 text-white font-semibold rounded-xl hover:bg-gray-700 focus:outline-none focus:ring-4 focus:ring-gray-300 transition-all"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Configuration
+            </button>
+            <button
+              onClick={onViewProgress}
+              className="inline-flex items-center px-6 py-3 bg-purple-600 text-white font-semibold rounded-xl hover:bg-purple-700 focus:outline-none focus:ring-4 focus:ring-purple-300 transition-all"
+            >
+              <LineChart className="w-4 h-4 mr-2" />
+              Progress Dashboard
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
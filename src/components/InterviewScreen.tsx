@@ -1,12 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Mic, MicOff, Volume2, VolumeX, Play, Pause, Square, MessageCircle, Clock, FileText, Send, Loader, Wifi, WifiOff, AlertCircle, Phone, Monitor, Brain, Zap, StopCircle, Speaker, Speaker as SpeakerX } from 'lucide-react';
-import { InterviewConfig } from '../types';
+import { Mic, MicOff, Volume2, VolumeX, Play, Pause, Square, MessageCircle, Clock, FileText, Send, Loader, Wifi, WifiOff, AlertCircle, Phone, Monitor, Brain, Zap, StopCircle, Speaker, Speaker as SpeakerX, Code2, PenTool, Lightbulb, RotateCcw, ArrowRight, ThumbsUp, TrendingUp, UserCircle, BarChart3, CornerDownRight } from 'lucide-react';
+import { InterviewConfig, SystemDesignDiagram, LiveFeedback } from '../types';
 import { AIInterviewSimulator } from '../utils/aiSimulator';
 import { useSpeechRecognition } from '../hooks/useSpeechRecognition';
 import { APIService } from '../services/apiService';
 import { VoiceInterviewService } from '../services/voiceInterviewService';
 import { VoiceInterviewScreen } from './VoiceInterviewScreen';
+import { CodingInterviewScreen } from './CodingInterviewScreen';
+import { CaseExhibitView } from './CaseExhibitView';
+import { SystemDesignCanvas } from './SystemDesignCanvas';
+import { isSystemDesignQuestion } from '../utils/diagram';
 import { browserTTS } from '../utils/speechSynthesis';
+import { getInterjection, getPersona } from '../utils/interviewerPersona';
+import { formatMoney } from '../utils/negotiation';
 
 interface InterviewScreenProps {
   config: InterviewConfig;
@@ -19,7 +25,8 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({
   onEndInterview,
   onBackToConfig
 }) => {
-  const [interviewMode, setInterviewMode] = useState<'text' | 'voice' | null>(null);
+  // Drill sessions replay specific questions, which only the text interview can ask
+  const [interviewMode, setInterviewMode] = useState<'text' | 'voice' | 'coding' | null>(config.drill ? 'text' : null);
   const [livekitAvailable, setLivekitAvailable] = useState(false);
   const [checkingLivekit, setCheckingLivekit] = useState(true);
 
@@ -61,6 +68,16 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({
     );
   }
 
+  if (interviewMode === 'coding') {
+    return (
+      <CodingInterviewScreen
+        config={config}
+        onEndInterview={onEndInterview}
+        onBackToConfig={onBackToConfig}
+      />
+    );
+  }
+
   // Mode selection screen
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50">
@@ -74,6 +91,11 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({
             <p className="text-xl text-gray-600 max-w-2xl mx-auto">
               Select how you'd like to conduct your {config.style} interview practice session
             </p>
+            {config.loopContext && (
+              <p className="mt-2 text-sm font-medium text-indigo-700">
+                Round {config.loopContext.roundNumber} of {config.loopContext.totalRounds}: {config.loopContext.roundName}
+              </p>
+            )}
             <div className="mt-4 inline-flex items-center px-4 py-2 bg-blue-50 rounded-full text-sm text-blue-800">
               <Clock className="w-4 h-4 mr-2" />
               Duration: {config.duration} minutes • Estimated Questions: {Math.floor(config.duration / 5)} - {Math.floor(config.duration / 3)}
@@ -198,6 +220,35 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({
                   </button>
                 </div>
               </div>
+
+              {/* Coding Challenge Mode (technical interviews only) */}
+              {config.style === 'technical' && (
+                <div className="md:col-span-2 bg-white rounded-3xl shadow-xl p-8 border-2 border-purple-200 hover:border-purple-300 transition-all hover:shadow-2xl">
+                  <div className="flex flex-col md:flex-row md:items-center gap-6">
+                    <div className="inline-flex items-center justify-center w-16 h-16 bg-purple-600 text-white rounded-2xl flex-shrink-0">
+                      <Code2 className="w-8 h-8" />
+                    </div>
+
+                    <div className="flex-1">
+                      <h3 className="text-2xl font-bold text-gray-900 mb-2">
+                        Coding Challenge
+                      </h3>
+                      <p className="text-gray-600">
+                        Solve {config.experienceLevel.replace('-', ' ')}-level problems in JavaScript or TypeScript.
+                        Your code runs against hidden test cases in a sandbox, and the analysis covers correctness and code quality.
+                      </p>
+                    </div>
+
+                    <button
+                      onClick={() => setInterviewMode('coding')}
+                      className="inline-flex items-center justify-center px-6 py-3 bg-purple-600 text-white font-semibold rounded-xl hover:bg-purple-700 focus:outline-none focus:ring-4 focus:ring-purple-300 transition-all flex-shrink-0"
+                    >
+                      <Code2 className="w-4 h-4 mr-2" />
+                      Start Coding Interview
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -235,11 +286,29 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
   const [connectionChecked, setConnectionChecked] = useState(false);
   const [showConnectionInfo, setShowConnectionInfo] = useState(false);
   const [isLoadingQuestion, setIsLoadingQuestion] = useState(false);
+  // Text of the question or coach feedback received so far while it is still streaming in
+  const [streamingQuestion, setStreamingQuestion] = useState('');
   const [isSubmittingResponse, setIsSubmittingResponse] = useState(false);
   const [showEndConfirmation, setShowEndConfirmation] = useState(false);
   const [ttsEnabled, setTtsEnabled] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [ttsStatus, setTtsStatus] = useState(browserTTS.getStatus());
+  const [diagram, setDiagram] = useState<SystemDesignDiagram>({ nodes: [], edges: [] });
+  const [showWhiteboard, setShowWhiteboard] = useState(false);
+  const [showCoachCard, setShowCoachCard] = useState(false);
+  const [coachFeedback, setCoachFeedback] = useState<LiveFeedback | null>(null);
+  const [isFeedbackLoading, setIsFeedbackLoading] = useState(false);
+  const [streamingFeedback, setStreamingFeedback] = useState('');
+  const [attemptNumber, setAttemptNumber] = useState(1);
+  const [interjection, setInterjection] = useState<string | null>(null);
+  const interruptionCountRef = useRef(0);
+  const textResponseRef = useRef(textResponse);
+  const persona = getPersona(config.persona);
+  // Ignores feedback that arrives after the candidate already retried or moved on
+  const feedbackRequestRef = useRef(0);
+
+  // The whiteboard is only offered where system design rounds are expected
+  const whiteboardAvailable = config.experienceLevel === 'senior' || config.experienceLevel === 'lead-manager';
   
   const {
     isListening,
@@ -252,6 +321,16 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
 
   const responseRef = useRef<HTMLTextAreaElement>(null);
   const notesRef = useRef<HTMLTextAreaElement>(null);
+  const isUnmountedRef = useRef(false);
+
+  // Stop waiting on the server once the screen is gone; the simulator itself lives on into the analytics screen
+  useEffect(() => {
+    isUnmountedRef.current = false;
+    return () => {
+      isUnmountedRef.current = true;
+      simulator.cancelPendingRequests();
+    };
+  }, [simulator]);
 
   // Set up TTS handlers
   useEffect(() => {
@@ -281,6 +360,31 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
     checkBackendConnection();
   }, []);
 
+  useEffect(() => {
+    textResponseRef.current = textResponse;
+  }, [textResponse]);
+
+  // Personas that interrupt cut in once per question when an answer runs past their patience
+  useEffect(() => {
+    setInterjection(null);
+    const afterSeconds = persona?.interruptAfterSeconds;
+    if (!persona || !afterSeconds || !currentQuestion || !isInterviewActive) return;
+
+    const timer = setTimeout(() => {
+      if (!textResponseRef.current.trim()) return;
+
+      const line = getInterjection(persona, interruptionCountRef.current++);
+      if (!line) return;
+
+      console.log(`✋ ${persona.name} interviewer interrupting after ${afterSeconds}s`);
+      stopListening();
+      setInterjection(line);
+      simulator.speakInterjection(line);
+    }, afterSeconds * 1000);
+
+    return () => clearTimeout(timer);
+  }, [persona, currentQuestion, isInterviewActive, simulator, stopListening]);
+
   // Timer effect
   useEffect(() => {
     let interval: NodeJS.Timeout;
@@ -383,7 +487,7 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
       console.log('🔄 Loading next question...');
       const startTime = Date.now();
       
-      const question = await simulator.getNextQuestion();
+      const question = await simulator.getNextQuestion(setStreamingQuestion);
       
       const duration = Date.now() - startTime;
       console.log(`⏱️ Question loaded in ${duration}ms`);
@@ -392,12 +496,15 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
         setCurrentQuestion(question);
         setTextResponse('');
         resetTranscript();
+        resetWhiteboard(question);
         console.log('✅ Question set successfully');
       } else {
         console.log('🏁 No more questions, ending interview');
         endInterview();
       }
     } catch (error) {
+      // Cancelled on unmount; falling back now would switch the simulator offline for the analytics
+      if (isUnmountedRef.current) return;
       console.error('❌ Error loading question:', error);
       // Force fallback mode if there's an error
       simulator.forceFallbackMode();
@@ -407,6 +514,7 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
           setCurrentQuestion(fallbackQuestion);
           setTextResponse('');
           resetTranscript();
+          resetWhiteboard(fallbackQuestion);
         } else {
           endInterview();
         }
@@ -417,11 +525,19 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
     } finally {
       setIsThinking(false);
       setIsLoadingQuestion(false);
+      setStreamingQuestion('');
     }
   };
 
+  const resetWhiteboard = (question: string) => {
+    setDiagram({ nodes: [], edges: [] });
+    setShowWhiteboard(whiteboardAvailable && isSystemDesignQuestion(question));
+  };
+
+  const hasDiagram = showWhiteboard && diagram.nodes.length > 0;
+
   const submitResponse = async () => {
-    if (!textResponse.trim()) return;
+    if (!textResponse.trim() && !hasDiagram) return;
 
     setIsSubmittingResponse(true);
     stopListening();
@@ -433,12 +549,17 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
       const startTime = Date.now();
       
       // Submit response (optimized - no real-time analysis)
-      await simulator.submitResponse(textResponse.trim());
+      await simulator.submitResponse(
+        textResponse.trim() || 'See whiteboard diagram.',
+        hasDiagram ? { diagram } : {}
+      );
       
       const duration = Date.now() - startTime;
       console.log(`✅ Response submitted in ${duration}ms`);
       
-      if (simulator.isInterviewComplete()) {
+      if (config.coachMode) {
+        requestLiveFeedback();
+      } else if (simulator.isInterviewComplete()) {
         endInterview();
       } else {
         await loadNextQuestion();
@@ -450,6 +571,61 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
     }
   };
 
+  const requestLiveFeedback = async () => {
+    const requestId = ++feedbackRequestRef.current;
+    const latest = simulator.getResponses().slice(-1)[0];
+    setAttemptNumber((latest?.attempts?.length || 0) + 1);
+    setCoachFeedback(null);
+    setStreamingFeedback('');
+    setShowCoachCard(true);
+    setIsFeedbackLoading(true);
+
+    try {
+      const feedback = await simulator.getLiveFeedback(partial => {
+        if (requestId === feedbackRequestRef.current) {
+          setStreamingFeedback(partial);
+        }
+      });
+      if (requestId === feedbackRequestRef.current) {
+        setCoachFeedback(feedback);
+      }
+    } catch (error) {
+      console.error('Error getting live feedback:', error);
+    } finally {
+      if (requestId === feedbackRequestRef.current) {
+        setIsFeedbackLoading(false);
+      }
+    }
+  };
+
+  const retryAnswer = () => {
+    const previous = simulator.retryLastResponse();
+    if (!previous) return;
+
+    feedbackRequestRef.current++;
+    setShowCoachCard(false);
+    setCoachFeedback(null);
+    setIsFeedbackLoading(false);
+    setTextResponse(previous.response);
+    if (previous.diagram) {
+      setDiagram(previous.diagram);
+      setShowWhiteboard(true);
+    }
+  };
+
+  const continueAfterFeedback = async () => {
+    feedbackRequestRef.current++;
+    setShowCoachCard(false);
+    setCoachFeedback(null);
+    setIsFeedbackLoading(false);
+
+    if (simulator.isInterviewComplete()) {
+      endInterview();
+    } else {
+      await loadNextQuestion();
+    }
+  };
+
   const toggleMicrophone = () => {
     if (isListening) {
       stopListening();
@@ -459,6 +635,9 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
   };
 
   const progress = simulator.getProgress();
+  const negotiationOffer = simulator.getNegotiationOffer();
+  const caseExhibits = simulator.getCaseExhibits();
+  const followUpDepth = simulator.getFollowUpDepth();
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50">
@@ -505,9 +684,26 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
                   Text Interview - {config.style.charAt(0).toUpperCase() + config.style.slice(1).replace('-', ' ')}
                 </h1>
                 <p className="text-gray-600">Topic: {config.topic}</p>
+                {config.loopContext && (
+                  <p className="text-gray-600">
+                    Round {config.loopContext.roundNumber} of {config.loopContext.totalRounds}: {config.loopContext.roundName}
+                  </p>
+                )}
                 {config.companyName && (
                   <p className="text-gray-600">Company: {config.companyName}</p>
                 )}
+                {config.coachMode && (
+                  <p className="flex items-center text-sm text-amber-600 mt-1">
+                    <Lightbulb className="w-4 h-4 mr-1" />
+                    Coach mode: feedback after every answer
+                  </p>
+                )}
+                {persona && (
+                  <p className="flex items-center text-sm text-indigo-600 mt-1">
+                    <UserCircle className="w-4 h-4 mr-1" />
+                    {persona.name} interviewer
+                  </p>
+                )}
               </div>
               <div className="text-right">
                 <div className="flex items-center text-lg font-semibold text-blue-600 mb-2">
@@ -716,7 +912,12 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
                 </div>
 
                 <div className="bg-gradient-to-r from-blue-50 to-purple-50 rounded-xl p-6 min-h-[200px]">
-                  {isThinking || isLoadingQuestion ? (
+                  {streamingQuestion ? (
+                    <p className="text-lg text-gray-800 leading-relaxed">
+                      {streamingQuestion}
+                      <span className="inline-block w-2 h-5 ml-1 align-middle bg-blue-500 animate-pulse" />
+                    </p>
+                  ) : isThinking || isLoadingQuestion ? (
                     <div className="flex items-center justify-center h-full">
                       <Loader className="w-6 h-6 text-blue-600 animate-spin mr-3" />
                       <span className="text-gray-600">
@@ -730,7 +931,19 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
                     </div>
                   ) : currentQuestion ? (
                     <div>
+                      {followUpDepth > 0 && (
+                        <span className="inline-flex items-center mb-2 px-2 py-1 bg-purple-100 text-purple-700 rounded-full text-xs font-medium">
+                          <CornerDownRight className="w-3 h-3 mr-1" />
+                          Follow-up {followUpDepth}
+                        </span>
+                      )}
                       <p className="text-lg text-gray-800 leading-relaxed">{currentQuestion}</p>
+                      {interjection && (
+                        <div className="mt-4 p-3 bg-white border-l-4 border-red-400 rounded-lg text-gray-800">
+                          <span className="font-semibold text-red-600">Interviewer: </span>
+                          {interjection}
+                        </div>
+                      )}
                       {isInterviewActive && (
                         <div className="mt-4 flex items-center text-sm text-blue-600">
                           <div className="w-2 h-2 bg-blue-600 rounded-full animate-pulse mr-2"></div>
@@ -753,9 +966,132 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
                 </div>
               </div>
 
+              {/* Case Exhibits, in the order the interviewer handed them over */}
+              {caseExhibits.length > 0 && (
+                <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+                  <div className="flex items-center mb-4">
+                    <BarChart3 className="w-5 h-5 text-blue-600 mr-2" />
+                    <h3 className="text-lg font-semibold text-gray-900">Case Exhibits</h3>
+                  </div>
+                  <div className="space-y-4">
+                    {caseExhibits.map((exhibit, index) => (
+                      <CaseExhibitView key={exhibit.id} exhibit={exhibit} number={index + 1} />
+                    ))}
+                  </div>
+                  <p className="mt-4 text-xs text-gray-500">
+                    Ask for the data you need to test your hypotheses; the interviewer hands over one exhibit at a time.
+                  </p>
+                </div>
+              )}
+
+              {/* Coach Feedback */}
+              {showCoachCard && (
+                <div className="bg-white rounded-2xl shadow-lg p-6 mb-6 border-2 border-amber-200">
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center">
+                      <Lightbulb className="w-5 h-5 text-amber-500 mr-2" />
+                      <h3 className="text-lg font-semibold text-gray-900">Coach Feedback</h3>
+                      {attemptNumber > 1 && (
+                        <span className="ml-3 px-2 py-0.5 rounded bg-gray-100 text-gray-600 text-xs font-medium">
+                          Attempt {attemptNumber}
+                        </span>
+                      )}
+                    </div>
+                    {coachFeedback && (
+                      <span className={`px-3 py-1 rounded-lg text-sm font-semibold ${
+                        coachFeedback.score >= 80 ? 'bg-green-100 text-green-700' : coachFeedback.score >= 60 ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700'
+                      }`}>
+                        {coachFeedback.score}%
+                      </span>
+                    )}
+                  </div>
+
+                  {isFeedbackLoading && streamingFeedback ? (
+                    <p className="text-sm text-gray-700 mb-4">
+                      {streamingFeedback}
+                      <span className="inline-block w-1.5 h-4 ml-1 align-middle bg-amber-500 animate-pulse" />
+                    </p>
+                  ) : isFeedbackLoading ? (
+                    <div className="flex items-center text-gray-600 mb-4">
+                      <Loader className="w-5 h-5 text-amber-500 animate-spin mr-3" />
+                      Reviewing your answer...
+                    </div>
+                  ) : coachFeedback ? (
+                    <div className="space-y-3 mb-4">
+                      {coachFeedback.summary && (
+                        <p className="text-sm text-gray-700">{coachFeedback.summary}</p>
+                      )}
+                      <div className="flex items-start bg-green-50 rounded-lg p-3">
+                        <ThumbsUp className="w-4 h-4 text-green-600 mr-2 mt-0.5 flex-shrink-0" />
+                        <p className="text-sm text-green-800">{coachFeedback.strength}</p>
+                      </div>
+                      <div className="flex items-start bg-amber-50 rounded-lg p-3">
+                        <TrendingUp className="w-4 h-4 text-amber-600 mr-2 mt-0.5 flex-shrink-0" />
+                        <p className="text-sm text-amber-800">{coachFeedback.improvement}</p>
+                      </div>
+                      {coachFeedback.source === 'offline' && (
+                        <p className="text-xs text-gray-500">Quick offline check; the full analysis at the end will go deeper.</p>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-600 mb-4">Feedback is unavailable for this answer.</p>
+                  )}
+
+                  <div className="flex items-center justify-end space-x-3">
+                    <button
+                      onClick={retryAnswer}
+                      disabled={isFeedbackLoading}
+                      className="inline-flex items-center px-6 py-3 bg-white border-2 border-amber-300 text-amber-700 font-semibold rounded-xl hover:bg-amber-50 focus:outline-none focus:ring-4 focus:ring-amber-200 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Retry This Answer
+                    </button>
+                    <button
+                      onClick={continueAfterFeedback}
+                      disabled={isLoadingQuestion}
+                      className="inline-flex items-center px-6 py-3 bg-blue-600 text-white font-semibold rounded-xl hover:bg-blue-700 focus:outline-none focus:ring-4 focus:ring-blue-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                    >
+                      {simulator.isInterviewComplete() ? 'Finish & Analyze' : 'Next Question'}
+                      <ArrowRight className="w-4 h-4 ml-2" />
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* System Design Whiteboard */}
+              {showWhiteboard && (
+                <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+                  <div className="flex items-center mb-4">
+                    <PenTool className="w-5 h-5 text-indigo-600 mr-2" />
+                    <h3 className="text-lg font-semibold text-gray-900">Whiteboard</h3>
+                    <span className="ml-3 text-sm text-gray-500">
+                      Sketch components and data flow; the diagram is submitted with your answer.
+                    </span>
+                  </div>
+                  <SystemDesignCanvas
+                    diagram={diagram}
+                    onChange={setDiagram}
+                    disabled={!isInterviewActive || isLoadingQuestion || isSubmittingResponse || showCoachCard}
+                  />
+                </div>
+              )}
+
               {/* Response Input */}
               <div className="bg-white rounded-2xl shadow-lg p-6">
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Your Response</h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Your Response</h3>
+                  {whiteboardAvailable && (
+                    <button
+                      onClick={() => setShowWhiteboard(!showWhiteboard)}
+                      className={`inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                        showWhiteboard ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      <PenTool className="w-4 h-4 mr-1" />
+                      {showWhiteboard ? 'Hide Whiteboard' : 'Whiteboard'}
+                    </button>
+                  )}
+                </div>
                 
                 <div className="space-y-4">
                   <textarea
@@ -764,7 +1100,7 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
                     onChange={(e) => setTextResponse(e.target.value)}
                     placeholder="Type your response here or use the microphone to speak..."
                     className="w-full h-32 px-4 py-3 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none transition-colors"
-                    disabled={!isInterviewActive || isLoadingQuestion || isSubmittingResponse}
+                    disabled={!isInterviewActive || isLoadingQuestion || isSubmittingResponse || showCoachCard}
                   />
 
                   <div className="flex items-center justify-between">
@@ -772,7 +1108,7 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
                       {speechSupported && (
                         <button
                           onClick={toggleMicrophone}
-                          disabled={!isInterviewActive || isLoadingQuestion || isSubmittingResponse}
+                          disabled={!isInterviewActive || isLoadingQuestion || isSubmittingResponse || showCoachCard}
                           className={`p-3 rounded-xl transition-all ${
                             isListening
                               ? 'bg-red-100 text-red-600 animate-pulse'
@@ -800,7 +1136,7 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
 
                     <button
                       onClick={submitResponse}
-                      disabled={!isInterviewActive || !textResponse.trim() || isLoadingQuestion || isSubmittingResponse}
+                      disabled={!isInterviewActive || (!textResponse.trim() && !hasDiagram) || isLoadingQuestion || isSubmittingResponse || showCoachCard}
                       className="inline-flex items-center px-6 py-3 bg-blue-600 text-white font-semibold rounded-xl hover:bg-blue-700 focus:outline-none focus:ring-4 focus:ring-blue-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
                     >
                       {isSubmittingResponse ? (
@@ -825,15 +1161,50 @@ const TextInterviewScreen: React.FC<InterviewScreenProps> = ({
               <textarea
                 ref={notesRef}
                 value={notes}
-                onChange={(e) => setNotes(e.target.value)}
+                onChange={(e) => {
+                  setNotes(e.target.value);
+                  simulator.setNotes(e.target.value);
+                }}
                 placeholder="Jot down key points, thoughts, or reminders during the interview..."
                 className="w-full h-64 px-4 py-3 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none transition-colors"
               />
               
               <div className="mt-4 text-xs text-gray-500">
-                Your notes will be saved and available in the analytics section.
+                Your notes are saved with the interview and included in exported transcripts.
               </div>
 
+              {/* Offer on the table in a salary negotiation */}
+              {negotiationOffer && (
+                <div className="mt-6 p-4 bg-green-50 rounded-xl">
+                  <h4 className="font-medium text-green-900 mb-2">Current Offer</h4>
+                  <div className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-green-700">Base Salary:</span>
+                      <span className="text-green-900 font-medium">{formatMoney(negotiationOffer.base)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-green-700">Bonus Target:</span>
+                      <span className="text-green-900 font-medium">{negotiationOffer.bonusPercent}%</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-green-700">Equity (per year):</span>
+                      <span className="text-green-900 font-medium">{formatMoney(negotiationOffer.equity)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-green-700">Sign-on Bonus:</span>
+                      <span className="text-green-900 font-medium">{formatMoney(negotiationOffer.signOn)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-green-700">Start Date:</span>
+                      <span className="text-green-900 font-medium">In {negotiationOffer.startInWeeks} weeks</span>
+                    </div>
+                  </div>
+                  <div className="mt-2 pt-2 border-t border-green-200 text-xs text-green-600">
+                    Counter with specific numbers; say you accept when you're happy with the offer.
+                  </div>
+                </div>
+              )}
+
               {/* TTS Status */}
               <div className="mt-6 p-4 bg-purple-50 rounded-xl">
                 <h4 className="font-medium text-purple-900 mb-2">Text-to-Speech Status</h4>
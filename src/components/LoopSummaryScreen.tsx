@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from 'react';
+import { Gavel, ArrowLeft, Loader2, CheckCircle, AlertTriangle, Brain, Zap, History } from 'lucide-react';
+import { APIService } from '../services/apiService';
+import { HiringCommitteeSummary, HiringRecommendation, InterviewConfig, LoopRoundResult, RoundVerdict } from '../types';
+import { getRecommendationLabel, summarizeLoop } from '../utils/hiringCommittee';
+
+const recommendationColors: Record<HiringRecommendation, string> = {
+  'strong-hire': 'bg-green-600 text-white',
+  hire: 'bg-blue-600 text-white',
+  'lean-no-hire': 'bg-yellow-500 text-white',
+  'no-hire': 'bg-red-600 text-white'
+};
+
+const verdictColors: Record<RoundVerdict, string> = {
+  pass: 'bg-green-100 text-green-700',
+  borderline: 'bg-yellow-100 text-yellow-700',
+  fail: 'bg-red-100 text-red-700'
+};
+
+interface LoopSummaryScreenProps {
+  config: InterviewConfig;
+  results: LoopRoundResult[];
+  onBackToConfig: () => void;
+  onViewHistory?: () => void;
+}
+
+export const LoopSummaryScreen: React.FC<LoopSummaryScreenProps> = ({
+  config,
+  results,
+  onBackToConfig,
+  onViewHistory
+}) => {
+  const [summary, setSummary] = useState<HiringCommitteeSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadSummary = async () => {
+      try {
+        setLoading(true);
+        console.log('⚖️ Requesting hiring committee decision...');
+
+        const decision = await APIService.generateHiringDecision({
+          config: { ...config, loop: undefined },
+          rounds: results.map(result => ({
+            name: result.round.name,
+            style: result.round.style,
+            duration: result.round.duration,
+            overallScore: result.analytics.overallScore,
+            responseAnalysis: result.analytics.responseAnalysis,
+            strengths: result.analytics.strengths,
+            improvements: result.analytics.improvements,
+            questionReviews: result.analytics.questionReviews.map(review => ({
+              question: review.question,
+              response: review.response,
+              score: review.score,
+              feedback: review.feedback
+            }))
+          }))
+        });
+
+        setSummary(decision);
+      } catch (error) {
+        console.error('Error generating hiring decision, using offline summary:', error);
+        setSummary(summarizeLoop(results));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSummary();
+  }, [config, results]);
+
+  if (loading || !summary) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-blue-50 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="w-12 h-12 text-indigo-600 animate-spin mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">The Hiring Committee Is Meeting</h2>
+          <p className="text-gray-600">Reviewing all {results.length} rounds of your interview loop...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-blue-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-indigo-600 text-white rounded-2xl mb-4">
+              <Gavel className="w-8 h-8" />
+            </div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">Hiring Committee Summary</h1>
+            <p className="text-xl text-gray-600">
+              {config.topic}{config.companyName ? ` at ${config.companyName}` : ''} • {results.length} rounds
+            </p>
+            <div className="mt-4 inline-flex items-center px-4 py-2 rounded-full text-sm font-medium bg-gradient-to-r from-purple-100 to-blue-100 text-purple-800">
+              {summary.source === 'ai' ? (
+                <>
+                  <Brain className="w-4 h-4 mr-2" />
+                  Decision by AI Hiring Committee
+                </>
+              ) : (
+                <>
+                  <Zap className="w-4 h-4 mr-2" />
+                  Offline Score-Based Decision
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Recommendation */}
+          <div className="bg-white rounded-2xl shadow-lg p-6 mb-8 text-center">
+            <div className={`inline-flex items-center px-6 py-3 rounded-2xl text-2xl font-bold mb-4 ${recommendationColors[summary.recommendation]}`}>
+              {getRecommendationLabel(summary.recommendation)}
+            </div>
+            <div className="text-sm text-gray-500 mb-4">Weighted loop score: {summary.overallScore}</div>
+            <p className="text-gray-700 max-w-2xl mx-auto">{summary.justification}</p>
+          </div>
+
+          {/* Rounds */}
+          <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+            <h3 className="text-lg font-bold text-gray-900 mb-4">Rounds</h3>
+            <div className="space-y-3">
+              {summary.rounds.map((round, index) => (
+                <div key={index} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+                  <div>
+                    <div className="font-medium text-gray-900">{index + 1}. {round.name}</div>
+                    <div className="text-sm text-gray-500 capitalize">{round.style.replace('-', ' ')}</div>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-lg font-bold text-gray-900">{round.score}</span>
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium capitalize ${verdictColors[round.verdict]}`}>
+                      {round.verdict}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Strengths & Concerns */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
+            <div className="bg-white rounded-2xl shadow-lg p-6">
+              <h3 className="text-lg font-bold text-gray-900 mb-4 flex items-center">
+                <CheckCircle className="w-5 h-5 mr-2 text-green-600" />
+                Strengths
+              </h3>
+              <ul className="space-y-2">
+                {summary.strengths.map((strength, index) => (
+                  <li key={index} className="flex items-start text-gray-700">
+                    <span className="text-green-600 mr-2">•</span>
+                    {strength}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div className="bg-white rounded-2xl shadow-lg p-6">
+              <h3 className="text-lg font-bold text-gray-900 mb-4 flex items-center">
+                <AlertTriangle className="w-5 h-5 mr-2 text-orange-600" />
+                Concerns
+              </h3>
+              <ul className="space-y-2">
+                {summary.concerns.map((concern, index) => (
+                  <li key={index} className="flex items-start text-gray-700">
+                    <span className="text-orange-600 mr-2">•</span>
+                    {concern}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex flex-col sm:flex-row items-center justify-center space-y-4 sm:space-y-0 sm:space-x-4">
+            <button
+              onClick={onBackToConfig}
+              className="inline-flex items-center px-6 py-3 bg-gray-600 text-white font-semibold rounded-xl hover:bg-gray-700 focus:outline-none focus:ring-4 focus:ring-gray-300 transition-all"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              New Interview
+            </button>
+
+            {onViewHistory && (
+              <button
+                onClick={onViewHistory}
+                className="inline-flex items-center px-6 py-3 bg-purple-600 text-white font-semibold rounded-xl hover:bg-purple-700 focus:outline-none focus:ring-4 focus:ring-purple-300 transition-all"
+              >
+                <History className="w-4 h-4 mr-2" />
+                Interview History
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,382 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  TrendingUp,
+  TrendingDown,
+  ArrowLeft,
+  Loader2,
+  LineChart,
+  Inbox,
+  Layers
+} from 'lucide-react';
+import { InterviewSession } from '../types';
+import { HistoryService } from '../services/historyService';
+import {
+  TREND_DIMENSIONS,
+  TrendDimension,
+  TrendGrouping,
+  TrendGroup,
+  groupSessions,
+  rollingAverage,
+  findTrendChanges
+} from '../utils/progressTrends';
+
+interface ProgressDashboardProps {
+  onViewHistory: () => void;
+  onBackToConfig: () => void;
+}
+
+const groupingOptions: { value: TrendGrouping; label: string }[] = [
+  { value: 'style', label: 'Interview Style' },
+  { value: 'experienceLevel', label: 'Experience Level' },
+  { value: 'topic', label: 'Topic' }
+];
+
+const groupLabels: Record<string, string> = {
+  technical: 'Technical',
+  hr: 'HR',
+  behavioral: 'Behavioral',
+  'salary-negotiation': 'Salary Negotiation',
+  'case-study': 'Case Study',
+  fresher: 'Fresher',
+  junior: 'Junior',
+  'mid-level': 'Mid-Level',
+  senior: 'Senior',
+  'lead-manager': 'Lead/Manager'
+};
+
+const dimensionColors: Record<TrendDimension, string> = {
+  overall: '#7c3aed',
+  clarity: '#2563eb',
+  structure: '#059669',
+  technical: '#d97706',
+  communication: '#db2777',
+  confidence: '#0891b2'
+};
+
+const rollingWindows = [2, 3, 5];
+
+const formatGroup = (key: string): string =>
+  groupLabels[key] || key.replace(/\b\w/g, letter => letter.toUpperCase());
+
+const formatDimension = (dimension: TrendDimension): string =>
+  dimension.charAt(0).toUpperCase() + dimension.slice(1);
+
+interface TrendChartProps {
+  group: TrendGroup;
+  dimensions: TrendDimension[];
+  rollingWindow: number;
+}
+
+// Lightweight SVG line chart - scores are always on a 0-100 scale
+const TrendChart: React.FC<TrendChartProps> = ({ group, dimensions, rollingWindow }) => {
+  const width = 640;
+  const height = 260;
+  const padding = { top: 16, right: 16, bottom: 36, left: 36 };
+  const innerWidth = width - padding.left - padding.right;
+  const innerHeight = height - padding.top - padding.bottom;
+  const count = group.points.length;
+
+  const x = (index: number) =>
+    padding.left + (count === 1 ? innerWidth / 2 : (index / (count - 1)) * innerWidth);
+  const y = (score: number) => padding.top + innerHeight - (score / 100) * innerHeight;
+
+  const toPath = (values: number[]) =>
+    values.map((value, index) => `${index === 0 ? 'M' : 'L'}${x(index)},${y(value)}`).join(' ');
+
+  const overallRolling = rollingAverage(group.points.map(point => point.values.overall), rollingWindow);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {[0, 25, 50, 75, 100].map(tick => (
+        <g key={tick}>
+          <line x1={padding.left} x2={width - padding.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" strokeDasharray="4 4" />
+          <text x={padding.left - 8} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{tick}</text>
+        </g>
+      ))}
+
+      {group.points.map((point, index) => (
+        <text key={point.sessionId} x={x(index)} y={height - 12} textAnchor="middle" fontSize="10" fill="#6b7280">
+          {new Date(point.timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+        </text>
+      ))}
+
+      {dimensions.map(dimension => {
+        const values = group.points.map(point => point.values[dimension]);
+        return (
+          <g key={dimension}>
+            <path d={toPath(values)} fill="none" stroke={dimensionColors[dimension]} strokeWidth={dimension === 'overall' ? 3 : 2} strokeLinejoin="round" />
+            {values.map((value, index) => (
+              <circle key={index} cx={x(index)} cy={y(value)} r={dimension === 'overall' ? 4 : 3} fill={dimensionColors[dimension]}>
+                <title>{`${formatDimension(dimension)}: ${value}%`}</title>
+              </circle>
+            ))}
+          </g>
+        );
+      })}
+
+      {dimensions.includes('overall') && count > 1 && (
+        <path d={toPath(overallRolling)} fill="none" stroke={dimensionColors.overall} strokeWidth={2} strokeDasharray="6 4" opacity={0.5} />
+      )}
+    </svg>
+  );
+};
+
+export const ProgressDashboard: React.FC<ProgressDashboardProps> = ({
+  onViewHistory,
+  onBackToConfig
+}) => {
+  const [sessions, setSessions] = useState<InterviewSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [grouping, setGrouping] = useState<TrendGrouping>('style');
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
+  const [rollingWindow, setRollingWindow] = useState(3);
+  const [visibleDimensions, setVisibleDimensions] = useState<TrendDimension[]>(TREND_DIMENSIONS);
+
+  useEffect(() => {
+    const loadSessions = async () => {
+      try {
+        setSessions(await HistoryService.getSessions());
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSessions();
+  }, []);
+
+  const groups = useMemo(() => groupSessions(sessions, grouping), [sessions, grouping]);
+  const changes = useMemo(() => findTrendChanges(groups, rollingWindow), [groups, rollingWindow]);
+
+  const activeGroup = groups.find(group => group.key === selectedGroup) || groups[0];
+  const improvements = changes.filter(change => change.delta > 0).slice(0, 5);
+  const regressions = changes.filter(change => change.delta < 0).reverse().slice(0, 5);
+
+  const toggleDimension = (dimension: TrendDimension) => {
+    setVisibleDimensions(prev =>
+      prev.includes(dimension) ? prev.filter(d => d !== dimension) : [...prev, dimension]
+    );
+  };
+
+  const changeGrouping = (value: TrendGrouping) => {
+    setGrouping(value);
+    setSelectedGroup(null);
+  };
+
+  const getScoreColor = (score: number): string => {
+    if (score >= 85) return 'text-green-600 bg-green-100';
+    if (score >= 70) return 'text-blue-600 bg-blue-100';
+    if (score >= 60) return 'text-yellow-600 bg-yellow-100';
+    return 'text-red-600 bg-red-100';
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="w-12 h-12 text-purple-600 animate-spin mx-auto mb-4" />
+          <p className="text-gray-600">Crunching your practice history...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-6xl mx-auto">
+          {/* Header */}
+          <div className="text-center mb-10">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-purple-600 text-white rounded-2xl mb-6">
+              <LineChart className="w-8 h-8" />
+            </div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">
+              Progress Dashboard
+            </h1>
+            <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+              See whether practice is paying off across every scoring dimension
+            </p>
+          </div>
+
+          {!activeGroup ? (
+            <div className="bg-white rounded-2xl shadow-lg p-12 text-center mb-8">
+              <Inbox className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No sessions yet</h3>
+              <p className="text-gray-600">Complete a few interviews to start tracking your trends.</p>
+            </div>
+          ) : (
+            <>
+              {/* Controls */}
+              <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+                <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+                  <div className="flex items-center flex-wrap gap-2">
+                    <Layers className="w-4 h-4 text-purple-600 mr-1" />
+                    <span className="text-sm font-semibold text-gray-700 mr-2">Group by</span>
+                    {groupingOptions.map(option => (
+                      <button
+                        key={option.value}
+                        onClick={() => changeGrouping(option.value)}
+                        className={`px-4 py-2 rounded-xl text-sm font-medium transition-all ${
+                          grouping === option.value ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-purple-50'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-gray-700 mr-2">Rolling average</span>
+                    {rollingWindows.map(size => (
+                      <button
+                        key={size}
+                        onClick={() => setRollingWindow(size)}
+                        className={`px-3 py-2 rounded-xl text-sm font-medium transition-all ${
+                          rollingWindow === size ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-blue-50'
+                        }`}
+                      >
+                        {size} sessions
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="mt-4 flex flex-wrap gap-2">
+                  {groups.map(group => (
+                    <button
+                      key={group.key}
+                      onClick={() => setSelectedGroup(group.key)}
+                      className={`px-3 py-1 rounded-full text-sm border-2 transition-all ${
+                        group.key === activeGroup.key
+                          ? 'border-purple-500 bg-purple-50 text-purple-800'
+                          : 'border-gray-200 text-gray-700 hover:border-purple-200'
+                      }`}
+                    >
+                      {formatGroup(group.key)} <span className="text-gray-500">({group.points.length})</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Chart */}
+              <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+                <h3 className="text-xl font-bold text-gray-900 mb-4 flex items-center">
+                  <TrendingUp className="w-5 h-5 mr-2 text-purple-600" />
+                  {formatGroup(activeGroup.key)} over time
+                </h3>
+
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {TREND_DIMENSIONS.map(dimension => (
+                    <button
+                      key={dimension}
+                      onClick={() => toggleDimension(dimension)}
+                      className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border transition-all ${
+                        visibleDimensions.includes(dimension) ? 'border-gray-300 text-gray-800' : 'border-gray-200 text-gray-400'
+                      }`}
+                    >
+                      <span
+                        className="w-3 h-3 rounded-full mr-2"
+                        style={{ backgroundColor: visibleDimensions.includes(dimension) ? dimensionColors[dimension] : '#d1d5db' }}
+                      />
+                      {formatDimension(dimension)}
+                    </button>
+                  ))}
+                </div>
+
+                <TrendChart group={activeGroup} dimensions={visibleDimensions} rollingWindow={rollingWindow} />
+
+                <p className="mt-2 text-xs text-gray-500">
+                  Dashed line shows the {rollingWindow}-session rolling average of the overall score.
+                </p>
+              </div>
+
+              {/* Rolling Averages */}
+              <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+                <h3 className="text-xl font-bold text-gray-900 mb-4">Rolling Averages</h3>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                  {TREND_DIMENSIONS.map(dimension => {
+                    const values = activeGroup.points.map(point => point.values[dimension]);
+                    const rolling = rollingAverage(values, rollingWindow);
+                    const latest = rolling[rolling.length - 1];
+
+                    return (
+                      <div key={dimension} className="rounded-xl p-4 bg-gray-50">
+                        <div className="text-sm font-medium text-gray-600 mb-2">{formatDimension(dimension)}</div>
+                        <span className={`px-2 py-1 rounded-lg text-lg font-bold ${getScoreColor(latest)}`}>
+                          {latest}%
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Improvements and Regressions */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+                <div className="bg-white rounded-2xl shadow-lg p-6">
+                  <h3 className="text-xl font-bold text-gray-900 mb-4 flex items-center">
+                    <TrendingUp className="w-5 h-5 mr-2 text-green-600" />
+                    Biggest Improvements
+                  </h3>
+                  {improvements.length === 0 ? (
+                    <p className="text-sm text-gray-500">Not enough repeat sessions to show improvements yet.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {improvements.map(change => (
+                        <div key={`${change.group}-${change.dimension}`} className="flex items-center justify-between bg-green-50 rounded-xl p-3">
+                          <div>
+                            <div className="font-medium text-gray-900">{formatDimension(change.dimension)}</div>
+                            <div className="text-xs text-gray-600">{formatGroup(change.group)} • {change.from}% → {change.to}%</div>
+                          </div>
+                          <span className="text-green-700 font-bold">+{change.delta}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="bg-white rounded-2xl shadow-lg p-6">
+                  <h3 className="text-xl font-bold text-gray-900 mb-4 flex items-center">
+                    <TrendingDown className="w-5 h-5 mr-2 text-red-600" />
+                    Biggest Regressions
+                  </h3>
+                  {regressions.length === 0 ? (
+                    <p className="text-sm text-gray-500">No regressions - keep it up!</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {regressions.map(change => (
+                        <div key={`${change.group}-${change.dimension}`} className="flex items-center justify-between bg-red-50 rounded-xl p-3">
+                          <div>
+                            <div className="font-medium text-gray-900">{formatDimension(change.dimension)}</div>
+                            <div className="text-xs text-gray-600">{formatGroup(change.group)} • {change.from}% → {change.to}%</div>
+                          </div>
+                          <span className="text-red-700 font-bold">{change.delta}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Navigation */}
+          <div className="flex flex-col sm:flex-row items-center justify-center space-y-4 sm:space-y-0 sm:space-x-4">
+            <button
+              onClick={onBackToConfig}
+              className="inline-flex items-center px-6 py-3 bg-gray-600 text-white font-semibold rounded-xl hover:bg-gray-700 focus:outline-none focus:ring-4 focus:ring-gray-300 transition-all"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Configuration
+            </button>
+            <button
+              onClick={onViewHistory}
+              className="inline-flex items-center px-6 py-3 bg-purple-600 text-white font-semibold rounded-xl hover:bg-purple-700 focus:outline-none focus:ring-4 focus:ring-purple-300 transition-all"
+            >
+              Interview History
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,402 @@
+import React, { useMemo, useState } from 'react';
+import { Library, ArrowLeft, Search, Plus, Upload, Download, Pencil, Trash2, Copy, RotateCcw, Inbox, Tag } from 'lucide-react';
+import { BankQuestion, Difficulty, ExperienceLevel, InterviewStyle, QuestionBankFormat } from '../types';
+import { QuestionBankService } from '../services/questionBankService';
+import {
+  QUESTION_BANK_EXTENSIONS,
+  QUESTION_BANK_FILE_TYPES,
+  QuestionBankFilter,
+  createBankQuestionId,
+  findDuplicateQuestions,
+  getQuestionTags,
+  searchQuestions
+} from '../utils/questionBank';
+import { downloadFile } from '../utils/diagram';
+import { QuestionEditor } from './QuestionEditor';
+
+interface QuestionBankScreenProps {
+  onBackToConfig: () => void;
+}
+
+const styleLabels: Record<InterviewStyle, string> = {
+  technical: 'Technical',
+  hr: 'HR',
+  behavioral: 'Behavioral',
+  'salary-negotiation': 'Salary Negotiation',
+  'case-study': 'Case Study'
+};
+
+const experienceLabels: Record<ExperienceLevel, string> = {
+  fresher: 'Fresher',
+  junior: 'Junior',
+  'mid-level': 'Mid-Level',
+  senior: 'Senior',
+  'lead-manager': 'Lead/Manager'
+};
+
+const exportFormats: { value: QuestionBankFormat; label: string }[] = [
+  { value: 'json', label: 'JSON' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'markdown', label: 'Markdown' }
+];
+
+const difficultyColors: Record<Difficulty, string> = {
+  easy: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  hard: 'bg-red-100 text-red-800'
+};
+
+const selectClass = 'w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors bg-white';
+
+export const QuestionBankScreen: React.FC<QuestionBankScreenProps> = ({ onBackToConfig }) => {
+  const [questions, setQuestions] = useState<BankQuestion[]>(() => QuestionBankService.getQuestions());
+  const [filter, setFilter] = useState<QuestionBankFilter>({});
+  const [editing, setEditing] = useState<BankQuestion | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [pendingReset, setPendingReset] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const filtered = useMemo(() => searchQuestions(questions, filter), [questions, filter]);
+  const duplicates = useMemo(() => findDuplicateQuestions(questions), [questions]);
+  const tags = useMemo(() => getQuestionTags(questions), [questions]);
+  const isNew = editing !== null && !questions.some(question => question.id === editing.id);
+
+  const refresh = (note = '') => {
+    setQuestions(QuestionBankService.getQuestions());
+    setMessage(note);
+    setError('');
+  };
+
+  const updateFilter = (updates: Partial<QuestionBankFilter>) => {
+    setFilter(prev => ({ ...prev, ...updates }));
+  };
+
+  const addQuestion = () => {
+    const style = filter.style || 'technical';
+    setEditing({
+      id: createBankQuestionId(style),
+      style,
+      ...(filter.experienceLevel && { experienceLevel: filter.experienceLevel }),
+      text: '',
+      category: '',
+      difficulty: filter.difficulty || 'medium'
+    });
+  };
+
+  const removeQuestions = (ids: string[], note: string) => {
+    try {
+      QuestionBankService.removeQuestions(ids);
+      refresh(note);
+    } catch (removeError) {
+      console.error('Error removing questions:', removeError);
+      setError(removeError instanceof Error ? removeError.message : 'Failed to remove questions');
+    }
+  };
+
+  const removeDuplicates = () => {
+    const ids = duplicates.flatMap(group => group.slice(1).map(question => question.id));
+    removeQuestions(ids, `Removed ${ids.length} duplicate question${ids.length === 1 ? '' : 's'}`);
+    setShowDuplicates(false);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { added, updated, skipped } = await QuestionBankService.importQuestions(file);
+      refresh(`Imported ${file.name}: ${added} added, ${updated} updated, ${skipped} duplicates skipped`);
+    } catch (importError) {
+      console.error('Error importing questions:', importError);
+      setMessage('');
+      setError(importError instanceof Error ? importError.message : 'Failed to import questions');
+    }
+  };
+
+  const handleExport = (format: QuestionBankFormat) => {
+    const { extension, mimeType } = QUESTION_BANK_FILE_TYPES[format];
+    downloadFile(`question-bank${extension}`, QuestionBankService.exportQuestions(format), mimeType);
+  };
+
+  const resetBank = () => {
+    QuestionBankService.resetQuestions();
+    setPendingReset(false);
+    setEditing(null);
+    refresh('Question bank reset to the built-in questions');
+  };
+
+  const renderQuestion = (question: BankQuestion) => (
+    <div key={question.id} className="py-4 border-b border-gray-100 last:border-0">
+      {editing?.id === question.id ? (
+        <QuestionEditor
+          question={editing}
+          onSave={() => {
+            setEditing(null);
+            refresh('Question saved');
+          }}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        <div className="flex items-start justify-between">
+          <div className="flex-1 mr-4">
+            <p className="text-gray-900">{question.text}</p>
+            {question.followUp && question.followUp.length > 0 && (
+              <p className="mt-1 text-sm text-gray-500">Follow-up: {question.followUp.join(' · ')}</p>
+            )}
+            <div className="mt-2 flex items-center flex-wrap gap-2 text-xs">
+              <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 font-medium">{question.category}</span>
+              <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{styleLabels[question.style]}</span>
+              <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                {question.experienceLevel ? experienceLabels[question.experienceLevel] : 'Any level'}
+              </span>
+              <span className={`px-2 py-0.5 rounded-full capitalize ${difficultyColors[question.difficulty]}`}>{question.difficulty}</span>
+              {question.tags?.map(tag => (
+                <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded-full bg-blue-50 text-blue-700">
+                  <Tag className="w-3 h-3 mr-1" />
+                  {tag}
+                </span>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setEditing(question)}
+              className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-blue-100 hover:text-blue-600 transition-all"
+              title="Edit question"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => removeQuestions([question.id], 'Question removed')}
+              className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-red-100 hover:text-red-600 transition-all"
+              title="Remove question"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-5xl mx-auto">
+          {/* Header */}
+          <div className="text-center mb-10">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-purple-600 text-white rounded-2xl mb-6">
+              <Library className="w-8 h-8" />
+            </div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">
+              Question Bank
+            </h1>
+            <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+              The questions offline and adaptive interviews draw from. Add your own, tag them, or import and export them as JSON, CSV or Markdown
+            </p>
+          </div>
+
+          {/* Actions */}
+          <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                onClick={addQuestion}
+                className="inline-flex items-center px-4 py-2 bg-purple-600 text-white font-semibold rounded-xl hover:bg-purple-700 transition-all text-sm"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Question
+              </button>
+              <label className="inline-flex items-center px-4 py-2 border-2 border-gray-200 rounded-xl text-sm font-medium text-gray-700 cursor-pointer hover:bg-blue-50 hover:border-blue-400 transition-colors">
+                <Upload className="w-4 h-4 mr-2" />
+                Import
+                <input
+                  type="file"
+                  accept={QUESTION_BANK_EXTENSIONS.join(',')}
+                  onChange={handleImport}
+                  className="sr-only"
+                />
+              </label>
+              {exportFormats.map(format => (
+                <button
+                  key={format.value}
+                  onClick={() => handleExport(format.value)}
+                  className="inline-flex items-center px-4 py-2 border-2 border-gray-200 rounded-xl text-sm font-medium text-gray-700 hover:bg-blue-50 hover:border-blue-400 transition-colors"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  {format.label}
+                </button>
+              ))}
+              {duplicates.length > 0 && (
+                <button
+                  onClick={() => setShowDuplicates(!showDuplicates)}
+                  className="inline-flex items-center px-4 py-2 border-2 border-yellow-200 bg-yellow-50 rounded-xl text-sm font-medium text-yellow-800 hover:bg-yellow-100 transition-colors"
+                >
+                  <Copy className="w-4 h-4 mr-2" />
+                  {duplicates.length} possible duplicate{duplicates.length === 1 ? '' : 's'}
+                </button>
+              )}
+              <div className="ml-auto">
+                {pendingReset ? (
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setPendingReset(false)}
+                      className="px-4 py-2 bg-gray-200 text-gray-800 rounded-xl hover:bg-gray-300 transition-colors text-sm"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={resetBank}
+                      className="px-4 py-2 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-colors text-sm"
+                    >
+                      Reset
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setPendingReset(true)}
+                    className="inline-flex items-center px-4 py-2 rounded-xl text-sm font-medium text-gray-600 hover:bg-gray-100 transition-colors"
+                    title="Drop your edits and go back to the built-in questions"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Reset to Defaults
+                  </button>
+                )}
+              </div>
+            </div>
+            {message && <p className="mt-3 text-sm text-green-700">{message}</p>}
+            {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+          </div>
+
+          {/* Duplicates */}
+          {showDuplicates && duplicates.length > 0 && (
+            <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <h3 className="text-xl font-bold text-gray-900">Possible Duplicates</h3>
+                  <p className="text-sm text-gray-500">Questions in the same style with the same or nearly the same wording</p>
+                </div>
+                <button
+                  onClick={removeDuplicates}
+                  className="inline-flex items-center px-4 py-2 bg-yellow-500 text-white font-semibold rounded-xl hover:bg-yellow-600 transition-all text-sm flex-shrink-0"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Keep First of Each
+                </button>
+              </div>
+              <div className="space-y-4">
+                {duplicates.map(group => (
+                  <div key={group[0].id} className="p-4 border border-yellow-200 bg-yellow-50 rounded-xl space-y-1">
+                    {group.map((question, index) => (
+                      <p key={question.id} className={`text-sm ${index === 0 ? 'text-gray-900 font-medium' : 'text-gray-600'}`}>
+                        {question.text}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Filters */}
+          <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+            <div className="relative mb-4">
+              <Search className="w-4 h-4 text-gray-400 absolute left-4 top-1/2 transform -translate-y-1/2" />
+              <input
+                type="text"
+                value={filter.query || ''}
+                onChange={(e) => updateFilter({ query: e.target.value })}
+                placeholder="Search questions, follow-ups, categories or tags..."
+                className="w-full pl-10 pr-4 py-3 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors"
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+              <select
+                value={filter.style || ''}
+                onChange={(e) => updateFilter({ style: (e.target.value || undefined) as InterviewStyle | undefined })}
+                className={selectClass}
+              >
+                <option value="">All interview styles</option>
+                {Object.entries(styleLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <select
+                value={filter.experienceLevel || ''}
+                onChange={(e) => updateFilter({ experienceLevel: (e.target.value || undefined) as ExperienceLevel | undefined })}
+                className={selectClass}
+              >
+                <option value="">All experience levels</option>
+                {Object.entries(experienceLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <select
+                value={filter.difficulty || ''}
+                onChange={(e) => updateFilter({ difficulty: (e.target.value || undefined) as Difficulty | undefined })}
+                className={`${selectClass} capitalize`}
+              >
+                <option value="">All difficulties</option>
+                {Object.keys(difficultyColors).map(difficulty => (
+                  <option key={difficulty} value={difficulty}>{difficulty}</option>
+                ))}
+              </select>
+              <select
+                value={filter.tag || ''}
+                onChange={(e) => updateFilter({ tag: e.target.value || undefined })}
+                className={selectClass}
+                disabled={tags.length === 0}
+              >
+                <option value="">{tags.length > 0 ? 'All tags' : 'No tags yet'}</option>
+                {tags.map(tag => (
+                  <option key={tag} value={tag}>{tag}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Questions */}
+          <div className="bg-white rounded-2xl shadow-lg p-6">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">
+              {filtered.length} of {questions.length} questions
+            </h3>
+
+            {isNew && editing && (
+              <div className="py-4">
+                <QuestionEditor
+                  question={editing}
+                  onSave={() => {
+                    setEditing(null);
+                    refresh('Question added');
+                  }}
+                  onCancel={() => setEditing(null)}
+                />
+              </div>
+            )}
+
+            {filtered.length === 0 ? (
+              <div className="py-12 text-center">
+                <Inbox className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+                <p className="text-gray-600">No questions match these filters.</p>
+              </div>
+            ) : (
+              filtered.map(renderQuestion)
+            )}
+          </div>
+
+          {/* Navigation */}
+          <div className="flex justify-center mt-8">
+            <button
+              onClick={onBackToConfig}
+              className="inline-flex items-center px-6 py-3 bg-gray-600 text-white font-semibold rounded-xl hover:bg-gray-700 focus:outline-none focus:ring-4 focus:ring-gray-300 transition-all"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Configuration
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
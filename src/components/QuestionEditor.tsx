@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Save, X } from 'lucide-react';
+import { BankQuestion, Difficulty, ExperienceLevel, InterviewStyle } from '../types';
+import { QuestionBankService } from '../services/questionBankService';
+
+interface QuestionEditorProps {
+  question: BankQuestion;
+  onSave: (question: BankQuestion) => void;
+  onCancel: () => void;
+}
+
+const styleLabels: Record<InterviewStyle, string> = {
+  technical: 'Technical',
+  hr: 'HR',
+  behavioral: 'Behavioral',
+  'salary-negotiation': 'Salary Negotiation',
+  'case-study': 'Case Study'
+};
+
+const experienceLabels: Record<ExperienceLevel, string> = {
+  fresher: 'Fresher',
+  junior: 'Junior',
+  'mid-level': 'Mid-Level',
+  senior: 'Senior',
+  'lead-manager': 'Lead/Manager'
+};
+
+const difficulties: Difficulty[] = ['easy', 'medium', 'hard'];
+
+const inputClass = 'w-full px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus:border-blue-500 focus:outline-none transition-colors';
+
+export const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<BankQuestion>(question);
+  const [error, setError] = useState('');
+
+  const updateDraft = (updates: Partial<BankQuestion>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+    setError('');
+  };
+
+  const handleSave = () => {
+    try {
+      onSave(QuestionBankService.saveQuestion(draft));
+    } catch (saveError) {
+      console.error('Error saving question:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save question');
+    }
+  };
+
+  return (
+    <div className="p-5 border-2 border-blue-200 bg-blue-50/40 rounded-xl space-y-4">
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Question</label>
+        <textarea
+          value={draft.text}
+          onChange={(e) => updateDraft({ text: e.target.value })}
+          placeholder="What would you ask the candidate?"
+          rows={2}
+          className={`${inputClass} resize-none`}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Style</label>
+          <select
+            value={draft.style}
+            onChange={(e) => updateDraft({ style: e.target.value as InterviewStyle })}
+            className={`${inputClass} bg-white`}
+          >
+            {Object.entries(styleLabels).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Experience Level</label>
+          <select
+            value={draft.experienceLevel || ''}
+            onChange={(e) => updateDraft({ experienceLevel: (e.target.value || undefined) as ExperienceLevel | undefined })}
+            className={`${inputClass} bg-white`}
+          >
+            <option value="">Any level</option>
+            {Object.entries(experienceLabels).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Category</label>
+          <input
+            type="text"
+            value={draft.category}
+            onChange={(e) => updateDraft({ category: e.target.value })}
+            placeholder="e.g., System Design"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Difficulty</label>
+          <select
+            value={draft.difficulty}
+            onChange={(e) => updateDraft({ difficulty: e.target.value as Difficulty })}
+            className={`${inputClass} bg-white capitalize`}
+          >
+            {difficulties.map(difficulty => (
+              <option key={difficulty} value={difficulty}>{difficulty}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Tags</label>
+        <input
+          type="text"
+          value={(draft.tags || []).join(',')}
+          onChange={(e) => updateDraft({ tags: e.target.value.split(',') })}
+          placeholder="Comma separated, e.g. frontend, favourite"
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Follow-up Questions (one per line)</label>
+        <textarea
+          value={(draft.followUp || []).join('\n')}
+          onChange={(e) => updateDraft({ followUp: e.target.value.split('\n') })}
+          rows={2}
+          className={`${inputClass} resize-none`}
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="inline-flex items-center px-4 py-2 border-2 border-gray-200 rounded-xl text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          <X className="w-4 h-4 mr-2" />
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-medium hover:bg-blue-700 transition-colors"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Save Question
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Save, X } from 'lucide-react';
+import { InterviewStyle, Rubric, RubricCriterion, RubricLevel } from '../types';
+import { createCriterion, createRubricId } from '../utils/rubric';
+import { RubricService } from '../services/rubricService';
+
+interface RubricEditorProps {
+  rubric: Rubric;
+  onSave: (rubric: Rubric) => void;
+  onCancel: () => void;
+}
+
+const styleLabels: Record<InterviewStyle, string> = {
+  technical: 'Technical',
+  hr: 'HR',
+  behavioral: 'Behavioral',
+  'salary-negotiation': 'Salary Negotiation',
+  'case-study': 'Case Study'
+};
+
+const inputClass = 'w-full px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus:border-blue-500 focus:outline-none transition-colors';
+
+export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<Rubric>(rubric);
+  const [error, setError] = useState('');
+
+  const updateDraft = (updates: Partial<Rubric>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+    setError('');
+  };
+
+  const updateCriterion = (index: number, updates: Partial<RubricCriterion>) => {
+    updateDraft({ criteria: draft.criteria.map((criterion, i) => (i === index ? { ...criterion, ...updates } : criterion)) });
+  };
+
+  const updateLevel = (criterionIndex: number, levelIndex: number, updates: Partial<RubricLevel>) => {
+    const levels = draft.criteria[criterionIndex].levels.map((level, i) => (i === levelIndex ? { ...level, ...updates } : level));
+    updateCriterion(criterionIndex, { levels });
+  };
+
+  const toggleStyle = (style: InterviewStyle) => {
+    updateDraft({
+      styles: draft.styles.includes(style) ? draft.styles.filter(item => item !== style) : [...draft.styles, style]
+    });
+  };
+
+  const handleSave = () => {
+    try {
+      const saved = RubricService.saveRubric({ ...draft, id: draft.id || createRubricId(draft.name) });
+      onSave(saved);
+    } catch (saveError) {
+      console.error('Error saving rubric:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save rubric');
+    }
+  };
+
+  return (
+    <div className="p-5 border-2 border-blue-200 bg-blue-50/40 rounded-xl space-y-5">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Rubric Name</label>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            placeholder="e.g., Senior Backend Bar"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Description</label>
+          <input
+            type="text"
+            value={draft.description || ''}
+            onChange={(e) => updateDraft({ description: e.target.value })}
+            placeholder="What this rubric is for"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="text-xs font-medium text-gray-600 mb-2">Applies To (none selected means every style)</div>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(styleLabels) as InterviewStyle[]).map(style => (
+            <button
+              key={style}
+              type="button"
+              onClick={() => toggleStyle(style)}
+              className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                draft.styles.includes(style) ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-600 hover:border-blue-400'
+              }`}
+            >
+              {styleLabels[style]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {draft.criteria.map((criterion, index) => (
+          <div key={criterion.id} className="p-4 bg-white border border-gray-200 rounded-xl space-y-3">
+            <div className="flex items-start gap-3">
+              <div className="flex-1 grid grid-cols-1 sm:grid-cols-4 gap-3">
+                <input
+                  type="text"
+                  value={criterion.name}
+                  onChange={(e) => updateCriterion(index, { name: e.target.value })}
+                  placeholder="Criterion name"
+                  className={`${inputClass} sm:col-span-3`}
+                />
+                <input
+                  type="number"
+                  min={0.5}
+                  step={0.5}
+                  value={criterion.weight}
+                  onChange={(e) => updateCriterion(index, { weight: parseFloat(e.target.value) || 0 })}
+                  title="Weight"
+                  className={inputClass}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => updateDraft({ criteria: draft.criteria.filter((_, i) => i !== index) })}
+                className="p-2 rounded-lg text-gray-400 hover:bg-red-50 hover:text-red-600 transition-colors"
+                title="Remove criterion"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <input
+              type="text"
+              value={criterion.description}
+              onChange={(e) => updateCriterion(index, { description: e.target.value })}
+              placeholder="What a good answer shows for this criterion"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={criterion.keywords.join(',')}
+              onChange={(e) => updateCriterion(index, { keywords: e.target.value.split(',') })}
+              placeholder="Keywords for offline grading, comma separated"
+              className={inputClass}
+            />
+
+            <div className="space-y-2">
+              {criterion.levels.map((level, levelIndex) => (
+                <div key={level.label} className="flex items-center gap-3">
+                  <span className="w-32 flex-shrink-0 text-xs font-medium text-gray-600">
+                    {level.label} ({level.minScore}+)
+                  </span>
+                  <input
+                    type="text"
+                    value={level.descriptor}
+                    onChange={(e) => updateLevel(index, levelIndex, { descriptor: e.target.value })}
+                    placeholder={`What "${level.label}" looks like`}
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <button
+          type="button"
+          onClick={() => updateDraft({ criteria: [...draft.criteria, createCriterion()] })}
+          className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-700"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Criterion
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="inline-flex items-center px-4 py-2 border-2 border-gray-200 rounded-xl text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          <X className="w-4 h-4 mr-2" />
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-medium hover:bg-blue-700 transition-colors"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Save Rubric
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,334 @@
+import React, { useRef, useState } from 'react';
+import { ArrowRight, Download, FileJson, MousePointer2, Plus, Trash2 } from 'lucide-react';
+import { DiagramNode, DiagramNodeKind, SystemDesignDiagram } from '../types';
+import {
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  createDiagramId,
+  diagramToSVG,
+  downloadFile,
+  getDiagramBounds,
+  getEdgeEndpoints,
+  nodeKinds
+} from '../utils/diagram';
+
+interface SystemDesignCanvasProps {
+  diagram: SystemDesignDiagram;
+  onChange?: (diagram: SystemDesignDiagram) => void;
+  disabled?: boolean;
+  readOnly?: boolean;
+}
+
+type Selection = { type: 'node' | 'edge'; id: string } | null;
+
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 480;
+
+export const SystemDesignCanvas: React.FC<SystemDesignCanvasProps> = ({
+  diagram,
+  onChange,
+  disabled = false,
+  readOnly = false
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ id: string; offsetX: number; offsetY: number } | null>(null);
+  const [selection, setSelection] = useState<Selection>(null);
+  const [connectMode, setConnectMode] = useState(false);
+  const [connectFrom, setConnectFrom] = useState<string | null>(null);
+
+  const editable = !readOnly && !disabled && !!onChange;
+  const nodesById = new Map(diagram.nodes.map(node => [node.id, node]));
+  const selectedNode = selection?.type === 'node' ? nodesById.get(selection.id) : undefined;
+  const selectedEdge = selection?.type === 'edge' ? diagram.edges.find(edge => edge.id === selection.id) : undefined;
+
+  const update = (next: SystemDesignDiagram) => {
+    if (onChange) onChange(next);
+  };
+
+  const toCanvasPoint = (event: React.PointerEvent) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return { x: 0, y: 0 };
+
+    const point = svg.createSVGPoint();
+    point.x = event.clientX;
+    point.y = event.clientY;
+    const transformed = point.matrixTransform(matrix.inverse());
+    return { x: transformed.x, y: transformed.y };
+  };
+
+  const addNode = (kind: DiagramNodeKind) => {
+    // Stagger new nodes so they don't stack exactly on top of each other
+    const offset = (diagram.nodes.length % 6) * 24;
+    const node: DiagramNode = {
+      id: createDiagramId('node'),
+      kind,
+      label: nodeKinds[kind].label,
+      x: 40 + offset,
+      y: 40 + offset
+    };
+    update({ ...diagram, nodes: [...diagram.nodes, node] });
+    setSelection({ type: 'node', id: node.id });
+  };
+
+  const handleNodePointerDown = (event: React.PointerEvent, node: DiagramNode) => {
+    if (!editable) return;
+    event.stopPropagation();
+
+    if (connectMode) {
+      if (!connectFrom) {
+        setConnectFrom(node.id);
+      } else if (connectFrom !== node.id) {
+        const exists = diagram.edges.some(edge => edge.from === connectFrom && edge.to === node.id);
+        if (!exists) {
+          const edge = { id: createDiagramId('edge'), from: connectFrom, to: node.id, label: '' };
+          update({ ...diagram, edges: [...diagram.edges, edge] });
+          setSelection({ type: 'edge', id: edge.id });
+        }
+        setConnectFrom(null);
+      }
+      return;
+    }
+
+    const point = toCanvasPoint(event);
+    dragRef.current = { id: node.id, offsetX: point.x - node.x, offsetY: point.y - node.y };
+    (event.target as Element).setPointerCapture?.(event.pointerId);
+    setSelection({ type: 'node', id: node.id });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const point = toCanvasPoint(event);
+    const x = Math.max(0, Math.min(CANVAS_WIDTH - NODE_WIDTH, point.x - drag.offsetX));
+    const y = Math.max(0, Math.min(CANVAS_HEIGHT - NODE_HEIGHT, point.y - drag.offsetY));
+    update({
+      ...diagram,
+      nodes: diagram.nodes.map(node => node.id === drag.id ? { ...node, x: Math.round(x), y: Math.round(y) } : node)
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const updateLabel = (label: string) => {
+    if (selectedNode) {
+      update({ ...diagram, nodes: diagram.nodes.map(node => node.id === selectedNode.id ? { ...node, label } : node) });
+    } else if (selectedEdge) {
+      update({ ...diagram, edges: diagram.edges.map(edge => edge.id === selectedEdge.id ? { ...edge, label } : edge) });
+    }
+  };
+
+  const deleteSelection = () => {
+    if (selectedNode) {
+      update({
+        nodes: diagram.nodes.filter(node => node.id !== selectedNode.id),
+        edges: diagram.edges.filter(edge => edge.from !== selectedNode.id && edge.to !== selectedNode.id)
+      });
+    } else if (selectedEdge) {
+      update({ ...diagram, edges: diagram.edges.filter(edge => edge.id !== selectedEdge.id) });
+    }
+    setSelection(null);
+  };
+
+  const toggleConnectMode = () => {
+    setConnectMode(!connectMode);
+    setConnectFrom(null);
+  };
+
+  const exportJSON = () => {
+    downloadFile(`system-design-${Date.now()}.json`, JSON.stringify(diagram, null, 2), 'application/json');
+  };
+
+  const exportSVG = () => {
+    downloadFile(`system-design-${Date.now()}.svg`, diagramToSVG(diagram), 'image/svg+xml');
+  };
+
+  const viewBox = readOnly
+    ? (() => {
+        const bounds = getDiagramBounds(diagram, 20);
+        return `${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`;
+      })()
+    : `0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`;
+
+  const canvas = (
+    <svg
+      ref={svgRef}
+      viewBox={viewBox}
+      className={`w-full bg-gray-50 rounded-xl border-2 border-gray-200 ${readOnly ? 'max-h-72' : 'touch-none select-none'} ${connectMode ? 'cursor-crosshair' : ''}`}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={handlePointerUp}
+      onPointerDown={() => !readOnly && setSelection(null)}
+    >
+      <defs>
+        <marker id="diagram-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280" />
+        </marker>
+      </defs>
+
+      {diagram.edges.map(edge => {
+        const from = nodesById.get(edge.from);
+        const to = nodesById.get(edge.to);
+        if (!from || !to) return null;
+
+        const { x1, y1, x2, y2 } = getEdgeEndpoints(from, to);
+        const isSelected = selection?.type === 'edge' && selection.id === edge.id;
+
+        return (
+          <g
+            key={edge.id}
+            onPointerDown={(event) => {
+              if (!editable) return;
+              event.stopPropagation();
+              setSelection({ type: 'edge', id: edge.id });
+            }}
+            className={editable ? 'cursor-pointer' : ''}
+          >
+            {/* Wide transparent stroke makes thin edges easier to click */}
+            <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="transparent" strokeWidth={12} />
+            <line
+              x1={x1}
+              y1={y1}
+              x2={x2}
+              y2={y2}
+              stroke={isSelected ? '#2563eb' : '#6b7280'}
+              strokeWidth={isSelected ? 3 : 2}
+              markerEnd="url(#diagram-arrow)"
+            />
+            {edge.label && (
+              <text x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 6} textAnchor="middle" fontSize={11} fill="#374151">
+                {edge.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      {diagram.nodes.map(node => {
+        const style = nodeKinds[node.kind];
+        const isSelected = selection?.type === 'node' && selection.id === node.id;
+        const isConnectSource = connectFrom === node.id;
+
+        return (
+          <g
+            key={node.id}
+            onPointerDown={(event) => handleNodePointerDown(event, node)}
+            className={editable ? (connectMode ? 'cursor-crosshair' : 'cursor-move') : ''}
+          >
+            <rect
+              x={node.x}
+              y={node.y}
+              width={NODE_WIDTH}
+              height={NODE_HEIGHT}
+              rx={10}
+              fill={style.fill}
+              stroke={isSelected || isConnectSource ? '#2563eb' : style.stroke}
+              strokeWidth={isSelected || isConnectSource ? 3 : 2}
+              strokeDasharray={isConnectSource ? '6 3' : undefined}
+            />
+            <text x={node.x + NODE_WIDTH / 2} y={node.y + 24} textAnchor="middle" fontSize={13} fontWeight={600} fill="#111827">
+              {node.label}
+            </text>
+            <text x={node.x + NODE_WIDTH / 2} y={node.y + 42} textAnchor="middle" fontSize={10} fill={style.stroke}>
+              {style.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+
+  if (readOnly) {
+    return canvas;
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(nodeKinds) as DiagramNodeKind[]).map(kind => (
+          <button
+            key={kind}
+            onClick={() => addNode(kind)}
+            disabled={!editable}
+            className="inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-lg border-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+            style={{ borderColor: nodeKinds[kind].stroke, color: nodeKinds[kind].stroke }}
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            {nodeKinds[kind].label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={toggleConnectMode}
+            disabled={!editable || diagram.nodes.length < 2}
+            className={`inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              connectMode ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {connectMode ? <ArrowRight className="w-4 h-4 mr-1" /> : <MousePointer2 className="w-4 h-4 mr-1" />}
+            {connectMode ? 'Connecting' : 'Connect'}
+          </button>
+          <button
+            onClick={deleteSelection}
+            disabled={!editable || !selection}
+            className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg bg-gray-100 text-gray-700 hover:bg-red-100 hover:text-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={exportJSON}
+            disabled={diagram.nodes.length === 0}
+            className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileJson className="w-4 h-4 mr-1" />
+            JSON
+          </button>
+          <button
+            onClick={exportSVG}
+            disabled={diagram.nodes.length === 0}
+            className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            SVG
+          </button>
+        </div>
+      </div>
+
+      {connectMode && (
+        <p className="text-xs text-blue-600">
+          {connectFrom
+            ? `Now click the component that ${nodesById.get(connectFrom)?.label || 'it'} sends data to.`
+            : 'Click the component where the data flow starts.'}
+        </p>
+      )}
+
+      {canvas}
+
+      {(selectedNode || selectedEdge) && editable && (
+        <div className="flex items-center gap-3">
+          <label className="text-sm font-medium text-gray-700 whitespace-nowrap">
+            {selectedNode ? 'Component label' : 'Connection label'}
+          </label>
+          <input
+            type="text"
+            value={selectedNode ? selectedNode.label : selectedEdge?.label || ''}
+            onChange={(e) => updateLabel(e.target.value)}
+            placeholder={selectedEdge ? 'e.g. HTTPS, gRPC, writes events' : ''}
+            className="flex-1 px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -31,6 +31,10 @@ import { AIInterviewSimulator } from '../utils/aiSimulator';
 import { useLiveKit } from '../hooks/useLiveKit';
 import { VoiceInterviewService } from '../services/voiceInterviewService';
 import { useSpeechRecognition } from '../hooks/useSpeechRecognition';
+import { useVoiceActivity } from '../hooks/useVoiceActivity';
+import { DeliveryTracker } from '../utils/deliveryMetrics';
+import { measureAudioLevel } from '../utils/voiceActivity';
+import { getInterjection, getInterruptAfterSeconds, getPersona, getPersonaSpeechOptions } from '../utils/interviewerPersona';
 
 interface VoiceInterviewScreenProps {
   config: InterviewConfig;
@@ -69,6 +73,11 @@ export const VoiceInterviewScreen: React.FC<VoiceInterviewScreenProps> = ({
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioElementsRef = useRef<Map<string, HTMLAudioElement>>(new Map());
   const speechSynthesisRef = useRef<SpeechSynthesis | null>(null);
+  // Collects microphone levels for the answer in progress; null between the candidate's turns
+  const deliveryTrackerRef = useRef<DeliveryTracker | null>(null);
+  const interruptionCountRef = useRef(0);
+  const interruptTurnRef = useRef<(() => void) | null>(null);
+  const persona = getPersona(config.persona);
   
   // Refs for stable event handlers
   const isInterviewActiveRef = useRef(isInterviewActive);
@@ -347,18 +356,51 @@ export const VoiceInterviewScreen: React.FC<VoiceInterviewScreenProps> = ({
 
   }, [remoteAudioTracks]); // Only depend on remoteAudioTracks
 
-  // Audio level monitoring
+  // Audio level monitoring; levels also feed the delivery metrics while the candidate is answering
   useEffect(() => {
-    if (localAudioTrack) {
+    const audioContext = audioContextRef.current;
+    if (localAudioTrack && audioContext) {
+      const source = audioContext.createMediaStreamSource(new MediaStream([localAudioTrack.mediaStreamTrack]));
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 512;
+      source.connect(analyser);
+      if (audioContext.state === 'suspended') {
+        audioContext.resume().catch(error => console.warn('⚠️ Could not resume AudioContext:', error));
+      }
+      const samples = new Uint8Array(analyser.fftSize);
+
       const analyzeAudio = () => {
-        setAudioLevel(Math.random() * 100);
+        analyser.getByteTimeDomainData(samples);
+        const level = measureAudioLevel(samples);
+
+        setAudioLevel(level);
+        deliveryTrackerRef.current?.addSample(level);
       };
       
       const interval = setInterval(analyzeAudio, 100);
-      return () => clearInterval(interval);
+      return () => {
+        clearInterval(interval);
+        source.disconnect();
+      };
     }
   }, [localAudioTrack]);
 
+  // Each listening session is one answer, whether the candidate opened the mic or it resumed after the AI spoke
+  useEffect(() => {
+    if (isListening && !deliveryTrackerRef.current) {
+      deliveryTrackerRef.current = new DeliveryTracker();
+    }
+  }, [isListening]);
+
+  // The interviewer ends the candidate's turn when an answer runs past the persona's patience, or far too long for anyone
+  useEffect(() => {
+    const afterSeconds = getInterruptAfterSeconds(persona);
+    if (!isListening) return;
+
+    const timer = setTimeout(() => interruptTurnRef.current?.(), afterSeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [isListening, persona]);
+
   // Update connection status based on LiveKit state
   useEffect(() => {
     if (!livekitProps) {
@@ -453,11 +495,12 @@ export const VoiceInterviewScreen: React.FC<VoiceInterviewScreenProps> = ({
       speechSynthesisRef.current.cancel();
       
       const utterance = new SpeechSynthesisUtterance(text);
-      utterance.rate = 0.9;
-      utterance.pitch = 1.0;
-      utterance.volume = 1.0;
+      const speech = getPersonaSpeechOptions(config.persona);
+      utterance.rate = speech.rate ?? 0.9;
+      utterance.pitch = speech.pitch ?? 1.0;
+      utterance.volume = speech.volume ?? 1.0;
       
-      // Try to use a female voice
+      // Use the persona's voice, otherwise try to use a female voice
       const voices = speechSynthesisRef.current.getVoices();
       const femaleVoice = voices.find(voice => 
         voice.name.toLowerCase().includes('female') || 
@@ -466,7 +509,9 @@ export const VoiceInterviewScreen: React.FC<VoiceInterviewScreenProps> = ({
         voice.name.toLowerCase().includes('karen')
       );
       
-      if (femaleVoice) {
+      if (speech.voice) {
+        utterance.voice = speech.voice;
+      } else if (femaleVoice) {
         utterance.voice = femaleVoice;
       }
       
@@ -482,9 +527,10 @@ export const VoiceInterviewScreen: React.FC<VoiceInterviewScreenProps> = ({
       utterance.onend = () => {
         console.log('🗣️ Fallback TTS ended');
         setIsAISpeaking(false);
+        // Read through refs: by now the candidate may have barged in and started their turn already
         setTimeout(() => {
-          if (isInterviewActive && !isListening) {
-            startListening();
+          if (isInterviewActiveRef.current && !isListeningRef.current && startListeningRef.current) {
+            startListeningRef.current();
           }
         }, 500);
       };
@@ -627,7 +673,7 @@ export const VoiceInterviewScreen: React.FC<VoiceInterviewScreenProps> = ({
     setShowEndConfirmation(false);
   };
 
-  const toggleMicrophone = async () => {
+  const toggleMicrophone = async (interjection?: string) => {
     if (isListening) {
       // User is stopping their turn - send end of turn signal to AI agent
       console.log('[VoiceInterview] 🎤 User ending turn, sending signal to AI agent');
@@ -639,14 +685,28 @@ export const VoiceInterviewScreen: React.FC<VoiceInterviewScreenProps> = ({
         stopAudio();
       }
       
+      // Let the interviewer be heard again if the candidate cut them off earlier
+      audioElementsRef.current.forEach(audio => {
+        audio.muted = false;
+      });
+
       // Send "end of turn" signal to AI agent via LiveKit data channel
+      const delivery = deliveryTrackerRef.current?.finish(transcript.trim());
+      deliveryTrackerRef.current = null;
+
       if (sendDataMessage && transcript && transcript.trim().length > 0) {
         console.log('[VoiceInterview] 📨 Sending user_turn_ended signal with transcript:', transcript.substring(0, 50) + '...');
         
+        simulator.recordVoiceResponse(currentQuestion, transcript.trim(), delivery);
+        if (delivery) {
+          console.log(`[VoiceInterview] 🗣️ Delivery: ${delivery.wordsPerMinute} wpm, ${delivery.fillerCount} fillers, ${delivery.longPauses ?? 0} long pauses`);
+        }
+        
         sendDataMessage({
           type: 'user_turn_ended',
           transcript: transcript.trim(),
-          timestamp: Date.now()
+          timestamp: Date.now(),
+          ...(interjection ? { interjection } : {})
         });
         
         // Add final user response to conversation history
@@ -655,7 +715,12 @@ export const VoiceInterviewScreen: React.FC<VoiceInterviewScreenProps> = ({
           message: transcript.trim(),
           timestamp: Date.now(),
           type: 'response'
-        }]);
+        }, ...(interjection ? [{
+          speaker: 'ai',
+          message: interjection,
+          timestamp: Date.now(),
+          type: 'interjection'
+        }] : [])]);
         
         // Clear the transcript for next turn
         resetTranscript();
@@ -674,6 +739,39 @@ export const VoiceInterviewScreen: React.FC<VoiceInterviewScreenProps> = ({
     }
   };
 
+  // Ends the turn on the interviewer's behalf; only when the candidate has actually been talking
+  interruptTurnRef.current = () => {
+    if (!transcript.trim()) return;
+
+    const line = getInterjection(persona, interruptionCountRef.current++);
+    console.log(`[VoiceInterview] ✋ ${persona?.name || 'AI'} interviewer interrupting`);
+    toggleMicrophone(line);
+  };
+
+  // The candidate started talking over the interviewer: silence the interviewer's voice and hand the candidate the floor
+  const bargeIn = () => {
+    if (!isInterviewActive) return;
+
+    console.log('[VoiceInterview] 🗣️ Candidate barged in, stopping interviewer speech');
+    speechSynthesisRef.current?.cancel();
+    audioElementsRef.current.forEach(audio => {
+      audio.muted = true;
+    });
+    setIsAISpeaking(false);
+    sendDataMessage({ type: 'user_barge_in', timestamp: Date.now() });
+
+    setConversationHistory(prev => [...prev, {
+      speaker: 'user',
+      message: 'Cut in while the interviewer was speaking',
+      timestamp: Date.now(),
+      type: 'barge-in'
+    }]);
+
+    toggleMicrophone();
+  };
+
+  useVoiceActivity({ enabled: isInterviewActive && isAISpeaking && !isListening, onSpeechStart: bargeIn });
+
   const testAudio = () => {
     const testMessage = "This is a test of the audio system. If you can hear this, the audio is working correctly.";
     setAudioTestResult('none');
@@ -1036,6 +1134,8 @@ export const VoiceInterviewScreen: React.FC<VoiceInterviewScreenProps> = ({
                                 entry.type === 'greeting' ? 'bg-green-100 text-green-700' :
                                 entry.type === 'question' ? 'bg-blue-100 text-blue-700' :
                                 entry.type === 'speaking' ? 'bg-yellow-100 text-yellow-700' :
+                                entry.type === 'interjection' ? 'bg-red-100 text-red-700' :
+                                entry.type === 'barge-in' ? 'bg-orange-100 text-orange-700' :
                                 'bg-gray-100 text-gray-700'
                               }`}>
                                 {entry.type}
@@ -1097,7 +1197,7 @@ export const VoiceInterviewScreen: React.FC<VoiceInterviewScreenProps> = ({
                     <div className="flex items-center space-x-3">
                       {speechSupported && (
                         <button
-                          onClick={toggleMicrophone}
+                          onClick={() => toggleMicrophone()}
                           disabled={!isInterviewActive || connectionStatus !== 'connected'}
                           className={`p-4 rounded-xl transition-all ${
                             isListening
@@ -1132,7 +1232,7 @@ export const VoiceInterviewScreen: React.FC<VoiceInterviewScreenProps> = ({
                         <div className="text-blue-800 text-sm">
                           <p className="font-medium mb-1">How to Respond:</p>
                           <ol className="list-decimal list-inside space-y-1 text-xs">
-                            <li>Wait for the AI to finish speaking (you'll see "AI Speaking" indicator)</li>
+                            <li>Wait for the AI to finish speaking (you'll see "AI Speaking" indicator), or just start talking to interrupt it</li>
                             <li>The microphone will automatically start listening when AI finishes</li>
                             <li>Speak your response clearly</li>
                             <li>Click the microphone button when you're done speaking to signal your turn is complete</li>
@@ -0,0 +1,182 @@
+import { CaseStudy, ExperienceLevel } from '../types';
+
+export const caseStudies: CaseStudy[] = [
+  {
+    id: 'case-coffee-profitability',
+    title: 'Coffee Chain Profitability',
+    prompt: 'Our client, BrewCo, runs 200 coffee shops. Revenue has grown every year, but profit has fallen for two years running and the CEO wants to know why and what to do about it.',
+    experienceLevels: ['fresher', 'junior', 'mid-level'],
+    exhibits: [
+      {
+        id: 'financials',
+        title: 'Revenue and costs ($M)',
+        chart: 'table',
+        columns: ['Year', 'Revenue', 'Cost of goods', 'Labor', 'Rent'],
+        rows: [
+          ['2022', 120, 36, 30, 18],
+          ['2023', 126, 39, 34, 19],
+          ['2024', 130, 42, 40, 20]
+        ],
+        keywords: ['revenue', 'cost', 'costs', 'profit', 'financial', 'financials', 'p&l', 'margin', 'expenses'],
+        prompt: 'What happened to operating profit and margin, and which cost is driving it?'
+      },
+      {
+        id: 'transactions',
+        title: 'Transactions per store per day',
+        chart: 'line',
+        columns: ['Year', 'Transactions'],
+        rows: [
+          ['2022', 520],
+          ['2023', 505],
+          ['2024', 480]
+        ],
+        keywords: ['transactions', 'customers', 'traffic', 'volume', 'footfall', 'visits'],
+        prompt: 'Revenue is still growing. What does this tell you about where that growth comes from?'
+      },
+      {
+        id: 'labor',
+        title: 'Store labor',
+        chart: 'table',
+        columns: ['Measure', '2022', '2024'],
+        rows: [
+          ['Average hourly wage ($)', 14, 17.5],
+          ['Staff per shift', 4, 4],
+          ['Opening hours per day', 14, 16]
+        ],
+        keywords: ['labor', 'labour', 'staff', 'wage', 'wages', 'employees', 'hours', 'headcount'],
+        prompt: 'How much of the labor cost increase comes from wages versus longer opening hours?'
+      }
+    ],
+    calculations: [
+      { label: '2024 operating profit', value: 28000000, keywords: ['profit'] },
+      { label: '2022 operating profit', value: 36000000, keywords: ['profit'] },
+      { label: '2024 operating margin', value: 21.5, unit: '%', keywords: ['margin'] },
+      { label: '2022 operating margin', value: 30, unit: '%', keywords: ['margin'] },
+      { label: 'Labor cost growth 2022-2024', value: 33.3, unit: '%', keywords: ['labor', 'labour'] },
+      { label: 'Wage growth 2022-2024', value: 25, unit: '%', keywords: ['wage'] },
+      { label: 'Transaction decline 2022-2024', value: 7.7, unit: '%', keywords: ['transactions', 'traffic'] }
+    ]
+  },
+  {
+    id: 'case-scooter-market-entry',
+    title: 'E-Scooter Market Entry',
+    prompt: 'Our client runs e-scooter sharing in five cities and is deciding whether to launch in Riverton, a city of two million people. They want to know if the market is big enough to make money in the first year.',
+    experienceLevels: ['junior', 'mid-level', 'senior'],
+    exhibits: [
+      {
+        id: 'population',
+        title: 'Riverton residents by age',
+        chart: 'table',
+        columns: ['Age group', 'Residents (k)', 'Commute under 5 km'],
+        rows: [
+          ['18-24', 300, '40%'],
+          ['25-34', 450, '35%'],
+          ['35-49', 500, '25%'],
+          ['50+', 750, '10%']
+        ],
+        keywords: ['population', 'residents', 'demographic', 'demographics', 'age', 'commute', 'commuters', 'market size', 'people'],
+        prompt: 'How many residents are realistic scooter users?'
+      },
+      {
+        id: 'adoption',
+        title: 'Adoption among short commuters in comparable cities',
+        chart: 'bar',
+        columns: ['City', 'Adoption (%)'],
+        rows: [
+          ['Lakeside', 8],
+          ['Port Elm', 12],
+          ['Westbrook', 10]
+        ],
+        keywords: ['adoption', 'comparable', 'benchmark', 'benchmarks', 'other cities', 'penetration', 'share', 'competitors'],
+        prompt: 'What adoption rate would you assume for Riverton, and how many riders does that give you?'
+      },
+      {
+        id: 'unit-economics',
+        title: 'Unit economics',
+        chart: 'table',
+        columns: ['Item', 'Value'],
+        rows: [
+          ['Price per ride ($)', 4],
+          ['Variable cost per ride ($)', 2.8],
+          ['Rides per active rider per week', 3],
+          ['Fixed costs per year ($M)', 2.5]
+        ],
+        keywords: ['price', 'pricing', 'cost', 'costs', 'unit economics', 'economics', 'rides', 'margin', 'fixed'],
+        prompt: 'Would Riverton make money in the first year? Walk me through the numbers.'
+      }
+    ],
+    calculations: [
+      { label: 'Short-commute residents', value: 477500, keywords: ['commute', 'residents', 'addressable', 'market', 'people'] },
+      { label: 'Active riders at 10% adoption', value: 47750, keywords: ['riders', 'users', 'adoption'] },
+      { label: 'Average adoption in comparable cities', value: 10, unit: '%', keywords: ['adoption', 'average'] },
+      { label: 'Rides per year', value: 7449000, keywords: ['rides'] },
+      { label: 'Contribution per ride', value: 1.2, keywords: ['contribution', 'per ride', 'margin'] },
+      { label: 'Annual contribution', value: 8938800, keywords: ['contribution'] },
+      { label: 'First-year profit', value: 6438800, keywords: ['profit'] },
+      { label: 'Break-even rides per year', value: 2083333, keywords: ['break-even', 'breakeven', 'break even'] }
+    ]
+  },
+  {
+    id: 'case-airline-route',
+    title: 'New Airline Route',
+    prompt: 'Our client is a regional airline considering a new daily route between Harbor City and Pine Valley, flown four times a day. Leadership wants a go or no-go recommendation.',
+    experienceLevels: ['mid-level', 'senior', 'lead-manager'],
+    exhibits: [
+      {
+        id: 'route-economics',
+        title: 'Route economics',
+        chart: 'table',
+        columns: ['Item', 'Value'],
+        rows: [
+          ['Seats per aircraft', 150],
+          ['Flights per day', 4],
+          ['Average fare ($)', 120],
+          ['Operating cost per flight ($)', 12000]
+        ],
+        keywords: ['cost', 'costs', 'fare', 'fares', 'price', 'revenue', 'economics', 'seats', 'aircraft', 'capacity'],
+        prompt: 'What load factor does the route need to break even?'
+      },
+      {
+        id: 'load-factor',
+        title: 'Forecast load factor by month (%)',
+        chart: 'line',
+        columns: ['Month', 'Load factor (%)'],
+        rows: [
+          ['Jan', 68], ['Feb', 70], ['Mar', 74], ['Apr', 76], ['May', 78], ['Jun', 82],
+          ['Jul', 85], ['Aug', 84], ['Sep', 76], ['Oct', 72], ['Nov', 69], ['Dec', 71]
+        ],
+        keywords: ['demand', 'load factor', 'passengers', 'forecast', 'seasonality', 'occupancy', 'volume'],
+        prompt: 'Given the forecast, what profit would you expect per flight and per year?'
+      },
+      {
+        id: 'competition',
+        title: 'Competing fares ($)',
+        chart: 'bar',
+        columns: ['Option', 'One-way fare ($)'],
+        rows: [
+          ['Coastal Air', 135],
+          ['SkyLink', 110],
+          ['Rail', 85]
+        ],
+        keywords: ['competition', 'competitor', 'competitors', 'rail', 'train', 'alternatives', 'market share'],
+        prompt: 'How does the competition change your view of the $120 fare?'
+      }
+    ],
+    calculations: [
+      { label: 'Break-even load factor', value: 66.7, unit: '%', keywords: ['break-even', 'breakeven', 'break even'] },
+      { label: 'Average forecast load factor', value: 75.4, unit: '%', keywords: ['load factor', 'average'] },
+      { label: 'Revenue per flight at 75% load', value: 13500, keywords: ['revenue'] },
+      { label: 'Profit per flight at 75% load', value: 1500, keywords: ['profit'] },
+      { label: 'Annual profit at 75% load', value: 2190000, keywords: ['annual', 'per year', 'a year'] }
+    ]
+  }
+];
+
+/**
+ * Pick a case suited to the candidate's level
+ */
+export function getCaseStudyForLevel(level: ExperienceLevel): CaseStudy {
+  const matching = caseStudies.filter(caseStudy => caseStudy.experienceLevels.includes(level));
+  const pool = matching.length > 0 ? matching : caseStudies;
+  return pool[Math.floor(Math.random() * pool.length)];
+}
@@ -0,0 +1,175 @@
+import { CodingChallenge, ExperienceLevel } from '../types';
+
+export const codingChallenges: CodingChallenge[] = [
+  {
+    id: 'code-reverse-words',
+    title: 'Reverse Words',
+    prompt: 'Write a function reverseWords(sentence) that returns the words of the sentence in reverse order. Words are separated by one or more spaces; the result should use single spaces and have no leading or trailing whitespace.',
+    functionName: 'reverseWords',
+    difficulty: 'easy',
+    experienceLevels: ['fresher', 'junior'],
+    starterCode: {
+      javascript: 'function reverseWords(sentence) {\n  // Your code here\n}\n',
+      typescript: 'function reverseWords(sentence: string): string {\n  // Your code here\n  return \'\';\n}\n'
+    },
+    examples: [
+      { args: ['hello world'], expected: 'world hello' }
+    ],
+    hiddenTests: [
+      { args: ['the sky is blue'], expected: 'blue is sky the' },
+      { args: ['  leading and trailing  '], expected: 'trailing and leading' },
+      { args: ['a   b    c'], expected: 'c b a' },
+      { args: ['single'], expected: 'single' },
+      { args: [''], expected: '' }
+    ]
+  },
+  {
+    id: 'code-two-sum',
+    title: 'Two Sum',
+    prompt: 'Write a function twoSum(nums, target) that returns the indices [i, j] (i < j) of the two numbers in nums that add up to target. Exactly one solution exists. Aim for better than O(n²).',
+    functionName: 'twoSum',
+    difficulty: 'easy',
+    experienceLevels: ['fresher', 'junior', 'mid-level'],
+    starterCode: {
+      javascript: 'function twoSum(nums, target) {\n  // Your code here\n}\n',
+      typescript: 'function twoSum(nums: number[], target: number): number[] {\n  // Your code here\n  return [];\n}\n'
+    },
+    examples: [
+      { args: [[2, 7, 11, 15], 9], expected: [0, 1] }
+    ],
+    hiddenTests: [
+      { args: [[3, 2, 4], 6], expected: [1, 2] },
+      { args: [[3, 3], 6], expected: [0, 1] },
+      { args: [[-1, -2, -3, -4, -5], -8], expected: [2, 4] },
+      { args: [[0, 4, 3, 0], 0], expected: [0, 3] },
+      { args: [[1, 5, 9, 13, 20], 33], expected: [3, 4] }
+    ]
+  },
+  {
+    id: 'code-valid-brackets',
+    title: 'Balanced Brackets',
+    prompt: 'Write a function isBalanced(s) that returns true if every bracket in s — (), [] and {} — is closed by the same type of bracket in the correct order. Other characters should be ignored.',
+    functionName: 'isBalanced',
+    difficulty: 'medium',
+    experienceLevels: ['junior', 'mid-level'],
+    starterCode: {
+      javascript: 'function isBalanced(s) {\n  // Your code here\n}\n',
+      typescript: 'function isBalanced(s: string): boolean {\n  // Your code here\n  return false;\n}\n'
+    },
+    examples: [
+      { args: ['({[]})'], expected: true }
+    ],
+    hiddenTests: [
+      { args: ['()[]{}'], expected: true },
+      { args: ['(]'], expected: false },
+      { args: ['([)]'], expected: false },
+      { args: ['function f() { return [1, 2]; }'], expected: true },
+      { args: ['(('], expected: false },
+      { args: [''], expected: true }
+    ]
+  },
+  {
+    id: 'code-group-anagrams',
+    title: 'Group Anagrams',
+    prompt: 'Write a function groupAnagrams(words) that groups words that are anagrams of each other. Sort the words inside each group alphabetically, then sort the groups by their first word.',
+    functionName: 'groupAnagrams',
+    difficulty: 'medium',
+    experienceLevels: ['mid-level', 'senior'],
+    starterCode: {
+      javascript: 'function groupAnagrams(words) {\n  // Your code here\n}\n',
+      typescript: 'function groupAnagrams(words: string[]): string[][] {\n  // Your code here\n  return [];\n}\n'
+    },
+    examples: [
+      { args: [['eat', 'tea', 'tan', 'ate', 'nat', 'bat']], expected: [['ate', 'eat', 'tea'], ['bat'], ['nat', 'tan']] }
+    ],
+    hiddenTests: [
+      { args: [['']], expected: [['']] },
+      { args: [['a']], expected: [['a']] },
+      { args: [['listen', 'silent', 'enlist', 'google', 'gooegl']], expected: [['enlist', 'listen', 'silent'], ['gooegl', 'google']] },
+      { args: [['abc', 'def', 'cba', 'fed', 'ghi']], expected: [['abc', 'cba'], ['def', 'fed'], ['ghi']] }
+    ]
+  },
+  {
+    id: 'code-merge-intervals',
+    title: 'Merge Intervals',
+    prompt: 'Write a function mergeIntervals(intervals) that merges all overlapping [start, end] intervals and returns them sorted by start. Intervals that touch (e.g. [1, 3] and [3, 5]) should be merged.',
+    functionName: 'mergeIntervals',
+    difficulty: 'medium',
+    experienceLevels: ['mid-level', 'senior', 'lead-manager'],
+    starterCode: {
+      javascript: 'function mergeIntervals(intervals) {\n  // Your code here\n}\n',
+      typescript: 'function mergeIntervals(intervals: number[][]): number[][] {\n  // Your code here\n  return [];\n}\n'
+    },
+    examples: [
+      { args: [[[1, 3], [2, 6], [8, 10], [15, 18]]], expected: [[1, 6], [8, 10], [15, 18]] }
+    ],
+    hiddenTests: [
+      { args: [[[1, 4], [4, 5]]], expected: [[1, 5]] },
+      { args: [[[5, 7], [1, 2]]], expected: [[1, 2], [5, 7]] },
+      { args: [[[1, 10], [2, 3], [4, 5]]], expected: [[1, 10]] },
+      { args: [[]], expected: [] },
+      { args: [[[1, 4], [0, 0]]], expected: [[0, 0], [1, 4]] }
+    ]
+  },
+  {
+    id: 'code-lru-cache',
+    title: 'LRU Cache Operations',
+    prompt: 'Write a function runLRU(capacity, operations) that simulates an LRU cache. Each operation is either ["put", key, value] or ["get", key]. Return an array with the result of every "get" (-1 if missing). Both operations should be O(1).',
+    functionName: 'runLRU',
+    difficulty: 'hard',
+    experienceLevels: ['senior', 'lead-manager'],
+    starterCode: {
+      javascript: 'function runLRU(capacity, operations) {\n  // Your code here\n}\n',
+      typescript: 'type Operation = [\'put\', number, number] | [\'get\', number];\n\nfunction runLRU(capacity: number, operations: Operation[]): number[] {\n  // Your code here\n  return [];\n}\n'
+    },
+    examples: [
+      {
+        args: [2, [['put', 1, 1], ['put', 2, 2], ['get', 1], ['put', 3, 3], ['get', 2], ['get', 3]]],
+        expected: [1, -1, 3]
+      }
+    ],
+    hiddenTests: [
+      { args: [1, [['put', 1, 1], ['put', 2, 2], ['get', 1], ['get', 2]]], expected: [-1, 2] },
+      { args: [2, [['put', 1, 1], ['put', 1, 10], ['get', 1]]], expected: [10] },
+      {
+        args: [2, [['put', 1, 1], ['put', 2, 2], ['get', 1], ['put', 3, 3], ['get', 1], ['get', 2], ['get', 3]]],
+        expected: [1, 1, -1, 3]
+      },
+      { args: [3, [['get', 5]]], expected: [-1] }
+    ]
+  },
+  {
+    id: 'code-rate-limiter',
+    title: 'Sliding Window Rate Limiter',
+    prompt: 'Write a function rateLimit(timestamps, limit, windowMs) that, given request timestamps in ascending order, returns an array of booleans saying whether each request is allowed. A request is allowed if fewer than limit requests were allowed in the preceding windowMs milliseconds (the window is (t - windowMs, t]).',
+    functionName: 'rateLimit',
+    difficulty: 'hard',
+    experienceLevels: ['senior', 'lead-manager'],
+    starterCode: {
+      javascript: 'function rateLimit(timestamps, limit, windowMs) {\n  // Your code here\n}\n',
+      typescript: 'function rateLimit(timestamps: number[], limit: number, windowMs: number): boolean[] {\n  // Your code here\n  return [];\n}\n'
+    },
+    examples: [
+      { args: [[0, 100, 200, 1000], 2, 1000], expected: [true, true, false, true] }
+    ],
+    hiddenTests: [
+      { args: [[], 5, 1000], expected: [] },
+      { args: [[0, 0, 0], 1, 10], expected: [true, false, false] },
+      { args: [[0, 5, 10, 15, 20], 2, 10], expected: [true, true, true, true, true] },
+      { args: [[0, 1, 2, 3, 4], 3, 100], expected: [true, true, true, false, false] }
+    ]
+  }
+];
+
+/**
+ * Pick challenges suited to the candidate's level, easiest first
+ */
+export function getChallengesForLevel(level: ExperienceLevel, count: number): CodingChallenge[] {
+  const order = { easy: 0, medium: 1, hard: 2 };
+  const matching = codingChallenges.filter(challenge => challenge.experienceLevels.includes(level));
+  const pool = matching.length > 0 ? matching : codingChallenges;
+
+  return [...pool]
+    .sort((a, b) => order[a.difficulty] - order[b.difficulty])
+    .slice(0, Math.max(1, count));
+}
@@ -0,0 +1,99 @@
+import { CompanyPack } from '../types';
+
+// Built-in packs; candidates can import more as JSON or YAML from the configuration screen
+export const companyPacks: CompanyPack[] = [
+  {
+    id: 'amazon',
+    name: 'Amazon',
+    description: 'Loops are built around the Leadership Principles, with a bar raiser in every loop.',
+    values: ['Customer Obsession', 'Frugality', 'Bias for Action'],
+    leadershipPrinciples: [
+      'Customer Obsession',
+      'Ownership',
+      'Invent and Simplify',
+      'Are Right, A Lot',
+      'Dive Deep',
+      'Have Backbone; Disagree and Commit',
+      'Deliver Results'
+    ],
+    rounds: [
+      { name: 'Online assessment', style: 'technical', focus: 'Coding and work-style survey' },
+      { name: 'Phone screen', style: 'technical', focus: 'Data structures plus one Leadership Principle story' },
+      { name: 'Loop', style: 'behavioral', focus: 'Two Leadership Principles per interviewer alongside technical depth' },
+      { name: 'Bar raiser', style: 'behavioral', focus: 'Long-term hiring bar across all principles' }
+    ],
+    questionStyles: [
+      'Every behavioral question maps to a Leadership Principle',
+      'Expect repeated "what exactly did you do?" follow-ups and requests for metrics',
+      'Answers should use STAR and focus on "I", not "we"'
+    ],
+    questions: [
+      { text: 'Tell me about a time you went beyond what the customer asked for.', style: 'behavioral', difficulty: 'medium', category: 'Customer Obsession' },
+      { text: 'Describe a time you disagreed with your manager and what you did once a decision was made.', style: 'behavioral', difficulty: 'hard', category: 'Disagree and Commit' },
+      { text: 'Tell me about a problem you solved by digging into the data when others relied on intuition.', style: 'behavioral', difficulty: 'hard', category: 'Dive Deep' }
+    ],
+    rubric: [
+      { name: 'Leadership Principle evidence', description: 'Concrete, personal examples that clearly show the principle being asked about', weight: 3 },
+      { name: 'Data and metrics', description: 'Quantified results and decisions backed by data', weight: 2 },
+      { name: 'Ownership', description: 'Takes responsibility end to end, including for failures', weight: 2 },
+      { name: 'Technical depth', description: 'Sound technical reasoning appropriate to the level', weight: 2 }
+    ]
+  },
+  {
+    id: 'google',
+    name: 'Google',
+    description: 'Structured interviews scored on general cognitive ability, role-related knowledge, leadership and Googleyness.',
+    values: ['Focus on the user', 'Intellectual humility', 'Comfort with ambiguity', 'Collaboration'],
+    leadershipPrinciples: ['Emergent leadership', 'Bias to action with ambiguity', 'Valuing others\' ideas'],
+    rounds: [
+      { name: 'Recruiter screen', style: 'hr', focus: 'Background and role fit' },
+      { name: 'Technical phone screen', style: 'technical', focus: 'Coding in a shared doc' },
+      { name: 'Onsite coding', style: 'technical', focus: 'Algorithms and data structures, 2-3 rounds' },
+      { name: 'System design', style: 'case-study', focus: 'Large-scale design for senior roles' },
+      { name: 'Googleyness & leadership', style: 'behavioral', focus: 'Collaboration, ambiguity, humility' }
+    ],
+    questionStyles: [
+      'Open-ended problems where clarifying questions are expected',
+      'Think out loud; the reasoning is scored as much as the answer',
+      'Follow-ups push on complexity, edge cases and trade-offs'
+    ],
+    questions: [
+      { text: 'Tell me about a time you had to make progress on a project with very unclear requirements.', style: 'behavioral', difficulty: 'medium', category: 'Googleyness' },
+      { text: 'How would you design a service that suggests search queries as the user types?', style: 'case-study', difficulty: 'hard', category: 'System Design' },
+      { text: 'Given a stream of integers, how would you report the median at any point? Discuss complexity.', style: 'technical', difficulty: 'hard', category: 'Algorithms' }
+    ],
+    rubric: [
+      { name: 'General cognitive ability', description: 'Structures ambiguous problems and reasons clearly toward a solution', weight: 3 },
+      { name: 'Role-related knowledge', description: 'Depth in the skills the role needs', weight: 3 },
+      { name: 'Leadership', description: 'Steps up and mobilizes others without formal authority', weight: 2 },
+      { name: 'Googleyness', description: 'Humility, collaboration and comfort with ambiguity', weight: 2 }
+    ]
+  },
+  {
+    id: 'netflix',
+    name: 'Netflix',
+    description: 'Culture-first interviews focused on judgment, candor and context over control.',
+    values: ['Judgment', 'Candor', 'Courage', 'Curiosity', 'Selflessness', 'Impact'],
+    leadershipPrinciples: ['Freedom and responsibility', 'Context, not control', 'Highly aligned, loosely coupled'],
+    rounds: [
+      { name: 'Hiring manager screen', style: 'hr', focus: 'Motivation and culture memo' },
+      { name: 'Technical deep dive', style: 'technical', focus: 'Past systems and the decisions behind them' },
+      { name: 'Culture interviews', style: 'behavioral', focus: 'Judgment, feedback and independent decision-making' }
+    ],
+    questionStyles: [
+      'Conversational deep dives into real past decisions',
+      'Expect questions about giving and receiving candid feedback',
+      'Interviewers probe how you act without a process to follow'
+    ],
+    questions: [
+      { text: 'Tell me about the most candid feedback you have given a peer. How did you deliver it?', style: 'behavioral', difficulty: 'medium', category: 'Candor' },
+      { text: 'Describe a decision you made without approval because you had the context to make it.', style: 'behavioral', difficulty: 'hard', category: 'Freedom and Responsibility' },
+      { text: 'Which part of the Netflix culture memo resonates least with you, and why?', style: 'hr', difficulty: 'medium', category: 'Culture' }
+    ],
+    rubric: [
+      { name: 'Judgment', description: 'Makes sound decisions with incomplete information and explains the trade-offs', weight: 3 },
+      { name: 'Candor', description: 'Open, direct communication, including about mistakes', weight: 2 },
+      { name: 'Impact', description: 'Focus on outcomes that mattered to the business', weight: 2 }
+    ]
+  }
+];
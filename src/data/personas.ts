@@ -0,0 +1,5 @@
+import { InterviewerPersona } from '../types';
+import { interviewerPersonas as personaDefinitions } from '../../shared/personas.js';
+
+// Built-in interviewer personas; the server reads their prompt templates and voices from the same file
+export const interviewerPersonas: InterviewerPersona[] = personaDefinitions;
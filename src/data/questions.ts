@@ -1,589 +1,1265 @@
-import { Question, InterviewStyle, ExperienceLevel } from '../types';
+import { BankQuestion } from '../types';
 
-export const questionBank: Record<InterviewStyle, Record<ExperienceLevel, Question[]>> = {
-  technical: {
-    fresher: [
-      {
-        id: 'tech-fresher-1',
-        text: 'What is the difference between let, const, and var in JavaScript?',
-        followUp: ['Can you give me an example of when you would use each one?'],
-        category: 'JavaScript Fundamentals',
-        difficulty: 'easy'
-      },
-      {
-        id: 'tech-fresher-2',
-        text: 'Explain what HTML semantic elements are and why they are important.',
-        followUp: ['Can you name a few semantic elements and their purposes?'],
-        category: 'HTML/CSS',
-        difficulty: 'easy'
-      },
-      {
-        id: 'tech-fresher-3',
-        text: 'What is the difference between == and === in JavaScript?',
-        followUp: ['Can you provide examples where this difference matters?'],
-        category: 'JavaScript Fundamentals',
-        difficulty: 'medium'
-      }
-    ],
-    junior: [
-      {
-        id: 'tech-junior-1',
-        text: 'Explain the concept of closures in JavaScript with an example.',
-        followUp: ['How would you use closures to create a private variable?'],
-        category: 'JavaScript Advanced',
-        difficulty: 'medium'
-      },
-      {
-        id: 'tech-junior-2',
-        text: 'What is the difference between synchronous and asynchronous programming?',
-        followUp: ['How do you handle asynchronous operations in JavaScript?'],
-        category: 'Async Programming',
-        difficulty: 'medium'
-      },
-      {
-        id: 'tech-junior-3',
-        text: 'Explain the CSS Box Model and how margin collapsing works.',
-        followUp: ['How would you prevent margin collapsing?'],
-        category: 'CSS',
-        difficulty: 'medium'
-      }
-    ],
-    'mid-level': [
-      {
-        id: 'tech-mid-1',
-        text: 'Design a simple caching system. What considerations would you make?',
-        followUp: ['How would you handle cache invalidation?', 'What about cache size limits?'],
-        category: 'System Design',
-        difficulty: 'hard'
-      },
-      {
-        id: 'tech-mid-2',
-        text: 'Explain the virtual DOM and how React uses it for performance optimization.',
-        followUp: ['What are the benefits and potential drawbacks?'],
-        category: 'React',
-        difficulty: 'medium'
-      },
-      {
-        id: 'tech-mid-3',
-        text: 'How would you optimize the performance of a web application?',
-        followUp: ['What tools would you use to identify performance bottlenecks?'],
-        category: 'Performance',
-        difficulty: 'hard'
-      }
-    ],
-    senior: [
-      {
-        id: 'tech-senior-1',
-        text: 'Design a scalable architecture for a real-time chat application.',
-        followUp: ['How would you handle millions of concurrent users?', 'What database would you choose and why?'],
-        category: 'System Design',
-        difficulty: 'hard'
-      },
-      {
-        id: 'tech-senior-2',
-        text: 'Explain different software architectural patterns and when you would use each.',
-        followUp: ['How do you decide between microservices and monolithic architecture?'],
-        category: 'Architecture',
-        difficulty: 'hard'
-      },
-      {
-        id: 'tech-senior-3',
-        text: 'How do you approach technical debt in a codebase?',
-        followUp: ['How do you balance feature development with technical debt reduction?'],
-        category: 'Technical Leadership',
-        difficulty: 'hard'
-      }
-    ],
-    'lead-manager': [
-      {
-        id: 'tech-lead-1',
-        text: 'How do you establish and maintain coding standards across a large development team?',
-        followUp: ['How do you handle resistance to new standards?'],
-        category: 'Team Leadership',
-        difficulty: 'hard'
-      },
-      {
-        id: 'tech-lead-2',
-        text: 'Describe your approach to technology stack decisions for new projects.',
-        followUp: ['How do you balance innovation with stability?'],
-        category: 'Technical Strategy',
-        difficulty: 'hard'
-      },
-      {
-        id: 'tech-lead-3',
-        text: 'How do you mentor junior developers and help them grow?',
-        followUp: ['How do you measure the success of your mentoring?'],
-        category: 'Team Development',
-        difficulty: 'hard'
-      }
-    ]
-  },
-  hr: {
-    fresher: [
-      {
-        id: 'hr-fresher-1',
-        text: 'Tell me about yourself and why you are interested in this role.',
-        followUp: ['What specific skills do you hope to develop in this position?'],
-        category: 'Introduction',
-        difficulty: 'easy'
-      },
-      {
-        id: 'hr-fresher-2',
-        text: 'Why did you choose this field/technology?',
-        followUp: ['What excites you most about working in this industry?'],
-        category: 'Motivation',
-        difficulty: 'easy'
-      },
-      {
-        id: 'hr-fresher-3',
-        text: 'How do you handle learning new technologies or skills?',
-        followUp: ['Can you give me an example of a recent skill you learned?'],
-        category: 'Learning',
-        difficulty: 'easy'
-      }
-    ],
-    junior: [
-      {
-        id: 'hr-junior-1',
-        text: 'Describe a challenging project you worked on and how you overcame obstacles.',
-        followUp: ['What would you do differently if you faced a similar situation again?'],
-        category: 'Problem Solving',
-        difficulty: 'medium'
-      },
-      {
-        id: 'hr-junior-2',
-        text: 'How do you prioritize your work when you have multiple deadlines?',
-        followUp: ['Can you give me a specific example?'],
-        category: 'Time Management',
-        difficulty: 'medium'
-      },
-      {
-        id: 'hr-junior-3',
-        text: 'Tell me about a time you had to work with a difficult team member.',
-        followUp: ['How did you handle the situation?'],
-        category: 'Teamwork',
-        difficulty: 'medium'
-      }
-    ],
-    'mid-level': [
-      {
-        id: 'hr-mid-1',
-        text: 'Describe a time when you had to make a difficult decision with limited information.',
-        followUp: ['How did you gather the information you needed?', 'What was the outcome?'],
-        category: 'Decision Making',
-        difficulty: 'medium'
-      },
-      {
-        id: 'hr-mid-2',
-        text: 'How do you handle feedback, both giving and receiving it?',
-        followUp: ['Can you share an example of difficult feedback you had to give?'],
-        category: 'Communication',
-        difficulty: 'medium'
-      },
-      {
-        id: 'hr-mid-3',
-        text: 'Tell me about a time you had to adapt to a significant change at work.',
-        followUp: ['How did you help your team through the transition?'],
-        category: 'Adaptability',
-        difficulty: 'medium'
-      }
-    ],
-    senior: [
-      {
-        id: 'hr-senior-1',
-        text: 'Describe your leadership style and how you motivate your team.',
-        followUp: ['How do you handle underperforming team members?'],
-        category: 'Leadership',
-        difficulty: 'hard'
-      },
-      {
-        id: 'hr-senior-2',
-        text: 'Tell me about a time you had to influence stakeholders without direct authority.',
-        followUp: ['What strategies did you use?', 'What was the result?'],
-        category: 'Influence',
-        difficulty: 'hard'
-      },
-      {
-        id: 'hr-senior-3',
-        text: 'How do you approach building and maintaining relationships across different departments?',
-        followUp: ['Can you share a specific example of cross-functional collaboration?'],
-        category: 'Collaboration',
-        difficulty: 'hard'
-      }
-    ],
-    'lead-manager': [
-      {
-        id: 'hr-lead-1',
-        text: 'How do you develop and communicate your vision for the team/organization?',
-        followUp: ['How do you ensure buy-in from stakeholders?'],
-        category: 'Vision & Strategy',
-        difficulty: 'hard'
-      },
-      {
-        id: 'hr-lead-2',
-        text: 'Describe your approach to conflict resolution between team members.',
-        followUp: ['How do you prevent conflicts from escalating?'],
-        category: 'Conflict Management',
-        difficulty: 'hard'
-      },
-      {
-        id: 'hr-lead-3',
-        text: 'How do you balance the needs of your team with organizational demands?',
-        followUp: ['Can you share an example of a difficult balance you had to strike?'],
-        category: 'Strategic Leadership',
-        difficulty: 'hard'
-      }
-    ]
-  },
-  behavioral: {
-    fresher: [
-      {
-        id: 'behavioral-fresher-1',
-        text: 'Tell me about a time you faced a significant challenge in your studies or projects.',
-        followUp: ['How did you approach solving it?', 'What did you learn from the experience?'],
-        category: 'Problem Solving',
-        difficulty: 'easy'
-      },
-      {
-        id: 'behavioral-fresher-2',
-        text: 'Describe a situation where you had to work in a team with different personalities.',
-        followUp: ['How did you ensure effective collaboration?'],
-        category: 'Teamwork',
-        difficulty: 'easy'
-      },
-      {
-        id: 'behavioral-fresher-3',
-        text: 'Tell me about a time you had to learn something completely new quickly.',
-        followUp: ['What strategies did you use?', 'How did you measure your progress?'],
-        category: 'Learning Agility',
-        difficulty: 'easy'
-      }
-    ],
-    junior: [
-      {
-        id: 'behavioral-junior-1',
-        text: 'Describe a time when you disagreed with your supervisor or team lead.',
-        followUp: ['How did you handle the situation?', 'What was the outcome?'],
-        category: 'Conflict Resolution',
-        difficulty: 'medium'
-      },
-      {
-        id: 'behavioral-junior-2',
-        text: 'Tell me about a project where you exceeded expectations.',
-        followUp: ['What specific actions did you take?', 'How did you measure success?'],
-        category: 'Achievement',
-        difficulty: 'medium'
-      },
-      {
-        id: 'behavioral-junior-3',
-        text: 'Describe a time when you made a mistake and how you handled it.',
-        followUp: ['What did you learn?', 'How do you prevent similar mistakes now?'],
-        category: 'Accountability',
-        difficulty: 'medium'
-      }
-    ],
-    'mid-level': [
-      {
-        id: 'behavioral-mid-1',
-        text: 'Tell me about a time you had to persuade someone to change their mind.',
-        followUp: ['What approach did you take?', 'How did you handle resistance?'],
-        category: 'Influence',
-        difficulty: 'medium'
-      },
-      {
-        id: 'behavioral-mid-2',
-        text: 'Describe a situation where you had to take initiative without being asked.',
-        followUp: ['What was the impact?', 'How did you communicate your actions to stakeholders?'],
-        category: 'Initiative',
-        difficulty: 'medium'
-      },
-      {
-        id: 'behavioral-mid-3',
-        text: 'Tell me about a time you had to work under significant pressure or tight deadlines.',
-        followUp: ['How did you manage your stress?', 'What was the outcome?'],
-        category: 'Pressure Management',
-        difficulty: 'hard'
-      }
-    ],
-    senior: [
-      {
-        id: 'behavioral-senior-1',
-        text: 'Describe a time you had to make an unpopular decision.',
-        followUp: ['How did you communicate it?', 'How did you handle the backlash?'],
-        category: 'Difficult Decisions',
-        difficulty: 'hard'
-      },
-      {
-        id: 'behavioral-senior-2',
-        text: 'Tell me about a time you failed to meet an important goal or deadline.',
-        followUp: ['How did you handle the situation?', 'What did you learn?'],
-        category: 'Failure Management',
-        difficulty: 'hard'
-      },
-      {
-        id: 'behavioral-senior-3',
-        text: 'Describe a situation where you had to coach or develop someone.',
-        followUp: ['What approach did you take?', 'What was the result?'],
-        category: 'Development',
-        difficulty: 'hard'
-      }
-    ],
-    'lead-manager': [
-      {
-        id: 'behavioral-lead-1',
-        text: 'Tell me about a time you had to lead your team through a major organizational change.',
-        followUp: ['How did you maintain morale?', 'What challenges did you face?'],
-        category: 'Change Leadership',
-        difficulty: 'hard'
-      },
-      {
-        id: 'behavioral-lead-2',
-        text: 'Describe a situation where you had to balance competing priorities from different stakeholders.',
-        followUp: ['How did you make the decision?', 'How did you communicate it?'],
-        category: 'Stakeholder Management',
-        difficulty: 'hard'
-      },
-      {
-        id: 'behavioral-lead-3',
-        text: 'Tell me about a time you had to rebuild trust after a significant setback.',
-        followUp: ['What specific actions did you take?', 'How long did it take?'],
-        category: 'Trust Building',
-        difficulty: 'hard'
-      }
-    ]
-  },
-  'salary-negotiation': {
-    fresher: [
-      {
-        id: 'salary-fresher-1',
-        text: 'What are your salary expectations for this role?',
-        followUp: ['How did you arrive at this figure?'],
-        category: 'Compensation',
-        difficulty: 'easy'
-      },
-      {
-        id: 'salary-fresher-2',
-        text: 'Besides salary, what other benefits are important to you?',
-        followUp: ['How do you prioritize these benefits?'],
-        category: 'Benefits',
-        difficulty: 'easy'
-      },
-      {
-        id: 'salary-fresher-3',
-        text: 'How flexible are you with your salary expectations?',
-        followUp: ['What factors would make you consider a lower offer?'],
-        category: 'Flexibility',
-        difficulty: 'medium'
-      }
-    ],
-    junior: [
-      {
-        id: 'salary-junior-1',
-        text: 'Based on your experience and skills, justify your salary expectation.',
-        followUp: ['How does this compare to your current compensation?'],
-        category: 'Justification',
-        difficulty: 'medium'
-      },
-      {
-        id: 'salary-junior-2',
-        text: 'What would you do if our budget for this role is lower than your expectations?',
-        followUp: ['Are there other forms of compensation you would consider?'],
-        category: 'Negotiation',
-        difficulty: 'medium'
-      },
-      {
-        id: 'salary-junior-3',
-        text: 'How do you research salary ranges for positions?',
-        followUp: ['What sources do you trust most?'],
-        category: 'Market Research',
-        difficulty: 'medium'
-      }
-    ],
-    'mid-level': [
-      {
-        id: 'salary-mid-1',
-        text: 'What value do you bring that justifies a premium over other candidates?',
-        followUp: ['Can you quantify the impact you have made in previous roles?'],
-        category: 'Value Proposition',
-        difficulty: 'medium'
-      },
-      {
-        id: 'salary-mid-2',
-        text: 'How do you approach total compensation versus base salary?',
-        followUp: ['What mix works best for your situation?'],
-        category: 'Total Compensation',
-        difficulty: 'medium'
-      },
-      {
-        id: 'salary-mid-3',
-        text: 'What are your long-term compensation growth expectations?',
-        followUp: ['How do you see your value increasing over time?'],
-        category: 'Growth Expectations',
-        difficulty: 'hard'
-      }
-    ],
-    senior: [
-      {
-        id: 'salary-senior-1',
-        text: 'How do you evaluate equity compensation versus cash compensation?',
-        followUp: ['What factors do you consider when assessing equity offers?'],
-        category: 'Equity Evaluation',
-        difficulty: 'hard'
-      },
-      {
-        id: 'salary-senior-2',
-        text: 'What would make you accept an offer that is below your initial expectations?',
-        followUp: ['How do you weigh compensation against other factors?'],
-        category: 'Trade-offs',
-        difficulty: 'hard'
-      },
-      {
-        id: 'salary-senior-3',
-        text: 'How do you negotiate when you have multiple offers?',
-        followUp: ['What is your approach to leveraging competing offers?'],
-        category: 'Multiple Offers',
-        difficulty: 'hard'
-      }
-    ],
-    'lead-manager': [
-      {
-        id: 'salary-lead-1',
-        text: 'How do you structure compensation discussions for executive-level roles?',
-        followUp: ['What components are most important at this level?'],
-        category: 'Executive Compensation',
-        difficulty: 'hard'
-      },
-      {
-        id: 'salary-lead-2',
-        text: 'How do you approach performance-based compensation structures?',
-        followUp: ['What metrics do you think should drive variable compensation?'],
-        category: 'Performance Pay',
-        difficulty: 'hard'
-      },
-      {
-        id: 'salary-lead-3',
-        text: 'What is your philosophy on compensation transparency and equity?',
-        followUp: ['How do you ensure fair compensation across your team?'],
-        category: 'Compensation Philosophy',
-        difficulty: 'hard'
-      }
-    ]
-  },
-  'case-study': {
-    fresher: [
-      {
-        id: 'case-fresher-1',
-        text: 'A user reports that a web page is loading slowly. Walk me through how you would investigate this issue.',
-        followUp: ['What tools would you use?', 'How would you prioritize potential causes?'],
-        category: 'Problem Solving',
-        difficulty: 'medium'
-      },
-      {
-        id: 'case-fresher-2',
-        text: 'You need to choose between two similar JavaScript libraries for a project. How would you make this decision?',
-        followUp: ['What criteria would you use?', 'How would you present your recommendation?'],
-        category: 'Decision Making',
-        difficulty: 'medium'
-      },
-      {
-        id: 'case-fresher-3',
-        text: 'A client wants to add a new feature that conflicts with the existing design. How would you handle this?',
-        followUp: ['How would you communicate the trade-offs?'],
-        category: 'Client Management',
-        difficulty: 'medium'
-      }
-    ],
-    junior: [
-      {
-        id: 'case-junior-1',
-        text: 'Design a simple booking system for a restaurant. What are the key components and considerations?',
-        followUp: ['How would you handle conflicts in reservations?', 'What about different table sizes?'],
-        category: 'System Design',
-        difficulty: 'medium'
-      },
-      {
-        id: 'case-junior-2',
-        text: 'Your team is consistently missing sprint deadlines. How would you analyze and address this problem?',
-        followUp: ['What data would you collect?', 'How would you present solutions to management?'],
-        category: 'Process Improvement',
-        difficulty: 'medium'
-      },
-      {
-        id: 'case-junior-3',
-        text: 'A legacy system needs to be modernized. How would you approach planning this migration?',
-        followUp: ['How would you minimize downtime?', 'What risks would you identify?'],
-        category: 'Migration Planning',
-        difficulty: 'hard'
-      }
-    ],
-    'mid-level': [
-      {
-        id: 'case-mid-1',
-        text: 'Design a monitoring system for a microservices architecture. What would you monitor and why?',
-        followUp: ['How would you handle alerting?', 'What about distributed tracing?'],
-        category: 'System Design',
-        difficulty: 'hard'
-      },
-      {
-        id: 'case-mid-2',
-        text: 'A competitor just launched a feature similar to yours but with better performance. How would you respond?',
-        followUp: ['How would you prioritize improvements?', 'What would your timeline look like?'],
-        category: 'Competitive Response',
-        difficulty: 'hard'
-      },
-      {
-        id: 'case-mid-3',
-        text: 'Your application needs to handle a 10x increase in traffic. How would you prepare?',
-        followUp: ['What would you optimize first?', 'How would you test your improvements?'],
-        category: 'Scaling',
-        difficulty: 'hard'
-      }
-    ],
-    senior: [
-      {
-        id: 'case-senior-1',
-        text: 'Design the architecture for a global content delivery system. Consider latency, reliability, and cost.',
-        followUp: ['How would you handle data consistency?', 'What about regional compliance requirements?'],
-        category: 'Architecture Design',
-        difficulty: 'hard'
-      },
-      {
-        id: 'case-senior-2',
-        text: 'Your company wants to adopt a new technology stack. How would you evaluate and plan this transition?',
-        followUp: ['How would you manage risk?', 'What about team training?'],
-        category: 'Technology Strategy',
-        difficulty: 'hard'
-      },
-      {
-        id: 'case-senior-3',
-        text: 'A critical security vulnerability was discovered in your production system. Walk me through your response.',
-        followUp: ['How would you communicate with stakeholders?', 'What about preventing future incidents?'],
-        category: 'Crisis Management',
-        difficulty: 'hard'
-      }
-    ],
-    'lead-manager': [
-      {
-        id: 'case-lead-1',
-        text: 'Your engineering organization needs to scale from 50 to 200 developers. How would you structure this growth?',
-        followUp: ['How would you maintain culture?', 'What about maintaining code quality?'],
-        category: 'Organizational Scaling',
-        difficulty: 'hard'
-      },
-      {
-        id: 'case-lead-2',
-        text: 'Two of your key teams are in conflict over shared resources and priorities. How would you resolve this?',
-        followUp: ['How would you prevent similar conflicts in the future?'],
-        category: 'Conflict Resolution',
-        difficulty: 'hard'
-      },
-      {
-        id: 'case-lead-3',
-        text: 'The business wants to cut engineering costs by 30% while maintaining delivery velocity. How would you approach this?',
-        followUp: ['What trade-offs would you present?', 'How would you measure success?'],
-        category: 'Resource Management',
-        difficulty: 'hard'
-      }
-    ]
+/**
+ * Built-in question bank, in the same shape the question bank screen imports and exports.
+ * Entries without an experienceLevel suit every level and back the offline flow once the level's own questions run out.
+ */
+export const questionBank: BankQuestion[] = [
+  {
+    id: 'tech-fresher-1',
+    style: 'technical',
+    experienceLevel: 'fresher',
+    text: 'What is the difference between let, const, and var in JavaScript?',
+    followUp: ['Can you give me an example of when you would use each one?'],
+    category: 'JavaScript Fundamentals',
+    difficulty: 'easy',
+    exemplar: {
+      answer: 'var is function-scoped and hoisted, so it can be read before its declaration (as undefined) and redeclared. let and const are block-scoped: they only exist inside the nearest { } and sit in the temporal dead zone until declared, so using them early throws. let can be reassigned; const cannot be reassigned, although an object or array held in a const can still be mutated. I default to const, use let for counters or values that change, and avoid var in modern code because function scope and hoisting cause bugs like loop closures all sharing one variable.',
+      keyConcepts: ['function-scoped', 'hoisted', 'block-scoped', 'temporal dead zone', 'reassigned', 'mutated']
+    }
+  },
+  {
+    id: 'tech-fresher-2',
+    style: 'technical',
+    experienceLevel: 'fresher',
+    text: 'Explain what HTML semantic elements are and why they are important.',
+    followUp: ['Can you name a few semantic elements and their purposes?'],
+    category: 'HTML/CSS',
+    difficulty: 'easy',
+    exemplar: {
+      answer: 'Semantic elements describe what content is rather than how it looks: header, nav, main, article, section, aside and footer instead of generic divs. They matter for accessibility, because screen readers use them as landmarks to let users jump around the page; for SEO, because search engines understand the page structure better; and for maintainability, because the markup documents itself. For example, wrapping the site links in nav and the primary content in main gives assistive technology a clear outline without any extra ARIA attributes.',
+      keyConcepts: ['header', 'nav', 'main', 'article', 'accessibility', 'screen readers', 'SEO', 'maintainability']
+    }
+  },
+  {
+    id: 'tech-fresher-3',
+    style: 'technical',
+    experienceLevel: 'fresher',
+    text: 'What is the difference between == and === in JavaScript?',
+    followUp: ['Can you provide examples where this difference matters?'],
+    category: 'JavaScript Fundamentals',
+    difficulty: 'medium',
+    exemplar: {
+      answer: '== is loose equality: it performs type coercion before comparing, so 0 == \'0\' and null == undefined are both true, and \'\' == 0 is true too. === is strict equality: it compares both type and value without coercion, so 0 === \'0\' is false. I use === by default because coercion rules are surprising and hide bugs, such as form input strings compared against numbers. The one common exception is value == null, which checks for both null and undefined in one go.',
+      keyConcepts: ['loose equality', 'type coercion', 'strict equality', 'null', 'undefined']
+    }
+  },
+  {
+    id: 'tech-junior-1',
+    style: 'technical',
+    experienceLevel: 'junior',
+    text: 'Explain the concept of closures in JavaScript with an example.',
+    followUp: ['How would you use closures to create a private variable?'],
+    category: 'JavaScript Advanced',
+    difficulty: 'medium',
+    exemplar: {
+      answer: 'A closure is a function that keeps access to the variables of the lexical scope it was created in, even after the outer function has returned. For example, makeCounter declares let count = 0 and returns a function that increments and returns count; each call to makeCounter creates a new, independent count that nothing else can touch. That gives us private variables and data encapsulation, and closures power callbacks, event handlers, memoization and partial application. The classic pitfall is var in a loop, where every callback closes over the same variable; let gives each iteration its own binding.',
+      keyConcepts: ['lexical scope', 'outer function', 'private variables', 'encapsulation', 'callbacks', 'memoization']
+    }
+  },
+  {
+    id: 'tech-junior-2',
+    style: 'technical',
+    experienceLevel: 'junior',
+    text: 'What is the difference between synchronous and asynchronous programming?',
+    followUp: ['How do you handle asynchronous operations in JavaScript?'],
+    category: 'Async Programming',
+    difficulty: 'medium',
+    exemplar: {
+      answer: 'Synchronous code runs one statement after another and blocks until each finishes. Asynchronous code starts an operation such as a network request or timer and continues, handling the result later, so the single JavaScript thread is not blocked. The event loop makes this work: completed operations queue callbacks, and microtasks like promise reactions run before the next macrotask. In practice I use promises with async/await for readable sequential logic, Promise.all for independent requests in parallel, and try/catch for error handling so rejections are never silently dropped.',
+      keyConcepts: ['blocks', 'single JavaScript thread', 'event loop', 'callbacks', 'promises', 'async/await', 'Promise.all', 'error handling']
+    }
+  },
+  {
+    id: 'tech-junior-3',
+    style: 'technical',
+    experienceLevel: 'junior',
+    text: 'Explain the CSS Box Model and how margin collapsing works.',
+    followUp: ['How would you prevent margin collapsing?'],
+    category: 'CSS',
+    difficulty: 'medium',
+    exemplar: {
+      answer: 'Every element is a box made of content, padding, border and margin. With the default box-sizing: content-box, width applies only to the content, so padding and border are added on top; box-sizing: border-box includes them, which is why most resets set it globally. Margin collapsing happens when vertical margins of adjacent block elements, or a parent and its first or last child, touch: they merge into the larger of the two instead of adding up. It does not happen with horizontal margins, flex or grid items, or when a border, padding or a new block formatting context separates them.',
+      keyConcepts: ['content', 'padding', 'border', 'margin', 'box-sizing', 'vertical margins', 'block formatting context']
+    }
+  },
+  {
+    id: 'tech-mid-1',
+    style: 'technical',
+    experienceLevel: 'mid-level',
+    text: 'Design a simple caching system. What considerations would you make?',
+    followUp: ['How would you handle cache invalidation?', 'What about cache size limits?'],
+    category: 'System Design',
+    difficulty: 'hard',
+    exemplar: {
+      answer: 'I would start with requirements: what is cached, the read/write ratio, how stale data may be and the memory budget. A simple design is an in-memory key-value store with a hash map plus a doubly linked list for an LRU eviction policy, giving O(1) get and put. Each entry gets a TTL, and writes use write-through or cache-aside depending on consistency needs. Cache invalidation is the hard part: I would invalidate on writes and use versioned keys for bulk changes. At scale I would move to a distributed cache like Redis with consistent hashing, and monitor hit rate and evictions.',
+      keyConcepts: ['eviction policy', 'LRU', 'TTL', 'cache-aside', 'cache invalidation', 'consistency', 'distributed cache', 'hit rate']
+    }
+  },
+  {
+    id: 'tech-mid-2',
+    style: 'technical',
+    experienceLevel: 'mid-level',
+    text: 'Explain the virtual DOM and how React uses it for performance optimization.',
+    followUp: ['What are the benefits and potential drawbacks?'],
+    category: 'React',
+    difficulty: 'medium',
+    exemplar: {
+      answer: 'The virtual DOM is a lightweight JavaScript representation of the UI. When state changes, React renders a new tree and runs reconciliation, diffing it against the previous tree to find the minimal set of real DOM updates, then batches those updates in the commit phase. The win is not that the virtual DOM is faster than the DOM, but that it avoids unnecessary and layout-thrashing updates while letting us write declarative code. Stable keys in lists make the diff correct, and React.memo, useMemo and useCallback skip re-renders of subtrees whose props have not changed.',
+      keyConcepts: ['reconciliation', 'diffing', 'batches', 'declarative', 'keys', 'React.memo', 're-renders']
+    }
+  },
+  {
+    id: 'tech-mid-3',
+    style: 'technical',
+    experienceLevel: 'mid-level',
+    text: 'How would you optimize the performance of a web application?',
+    followUp: ['What tools would you use to identify performance bottlenecks?'],
+    category: 'Performance',
+    difficulty: 'hard',
+    exemplar: {
+      answer: 'I would measure first, using Lighthouse and real user metrics like LCP, INP and CLS to find the actual bottleneck. For load time: code splitting and lazy loading, tree shaking, compressing and caching assets behind a CDN, and optimizing images with modern formats and proper sizes. For runtime: avoid unnecessary re-renders, virtualize long lists and debounce expensive handlers. On the backend: database indexes, caching and pagination. Then I would set a performance budget in CI so regressions are caught before they ship.',
+      keyConcepts: ['measure', 'Lighthouse', 'code splitting', 'lazy loading', 'CDN', 'images', 'caching', 'performance budget']
+    }
+  },
+  {
+    id: 'tech-senior-1',
+    style: 'technical',
+    experienceLevel: 'senior',
+    text: 'Design a scalable architecture for a real-time chat application.',
+    followUp: ['How would you handle millions of concurrent users?', 'What database would you choose and why?'],
+    category: 'System Design',
+    difficulty: 'hard',
+    exemplar: {
+      answer: 'I would clarify scale and features first: one-to-one and group chat, presence, history and delivery receipts. Clients hold persistent WebSocket connections to a stateless gateway tier behind a load balancer. Messages go to a chat service that assigns ordered IDs per conversation, persists them in a partitioned store such as Cassandra keyed by conversation, and publishes them through a pub/sub layer like Kafka or Redis so the gateway holding each recipient\'s connection can push them. Offline users get push notifications and sync from history on reconnect. Presence lives in a fast TTL store, and I would shard by conversation ID and replicate across regions for availability.',
+      keyConcepts: ['WebSocket', 'load balancer', 'ordered', 'partitioned', 'pub/sub', 'push notifications', 'presence', 'shard']
+    }
+  },
+  {
+    id: 'tech-senior-2',
+    style: 'technical',
+    experienceLevel: 'senior',
+    text: 'Explain different software architectural patterns and when you would use each.',
+    followUp: ['How do you decide between microservices and monolithic architecture?'],
+    category: 'Architecture',
+    difficulty: 'hard',
+    exemplar: {
+      answer: 'The main patterns are layered architecture, which separates presentation, business logic and data access and suits most CRUD applications; microservices, which split a system into independently deployable services and pay off when many teams need to ship independently, at the cost of operational complexity; event-driven architecture, where services communicate through events for loose coupling and scalability but harder debugging; and hexagonal architecture, which isolates the domain from infrastructure behind ports and adapters to make it testable. I usually recommend starting with a modular monolith and extracting services only when team or scaling boundaries demand it.',
+      keyConcepts: ['layered', 'microservices', 'event-driven', 'loose coupling', 'hexagonal', 'modular monolith', 'independently deployable']
+    }
+  },
+  {
+    id: 'tech-senior-3',
+    style: 'technical',
+    experienceLevel: 'senior',
+    text: 'How do you approach technical debt in a codebase?',
+    followUp: ['How do you balance feature development with technical debt reduction?'],
+    category: 'Technical Leadership',
+    difficulty: 'hard',
+    exemplar: {
+      answer: 'I treat technical debt as a portfolio to manage, not something to eliminate. First I make it visible: a debt register with each item\'s impact on delivery speed, incidents or onboarding. Then I prioritize by cost of delay, fixing debt in areas we change often and leaving stable code alone. I reserve a steady share of capacity, around 15-20%, for paying it down, and apply the boy scout rule during feature work. For large items I use incremental refactoring, such as the strangler fig pattern, backed by tests, and I explain the trade-offs to the business in terms of risk and velocity.',
+      keyConcepts: ['visible', 'prioritize', 'impact', 'capacity', 'incremental refactoring', 'tests', 'trade-offs']
+    }
+  },
+  {
+    id: 'tech-lead-1',
+    style: 'technical',
+    experienceLevel: 'lead-manager',
+    text: 'How do you establish and maintain coding standards across a large development team?',
+    followUp: ['How do you handle resistance to new standards?'],
+    category: 'Team Leadership',
+    difficulty: 'hard',
+    exemplar: {
+      answer: 'I start by agreeing the standards with the team rather than imposing them, capturing them in a short living document with the reasoning behind each rule. Then I automate everything I can: linters, formatters and type checks enforced in CI, so code review focuses on design instead of style. Code review itself has clear expectations for turnaround and tone. Architecture decision records explain bigger choices, templates and shared libraries make the right way the easy way, and we revisit the standards regularly so they evolve with the codebase instead of becoming dogma.',
+      keyConcepts: ['agreeing', 'document', 'automate', 'linters', 'CI', 'code review', 'architecture decision records', 'revisit']
+    }
+  },
+  {
+    id: 'tech-lead-2',
+    style: 'technical',
+    experienceLevel: 'lead-manager',
+    text: 'Describe your approach to technology stack decisions for new projects.',
+    followUp: ['How do you balance innovation with stability?'],
+    category: 'Technical Strategy',
+    difficulty: 'hard',
+    exemplar: {
+      answer: 'I start from the problem and constraints, not the technology: requirements, scale, time to market, budget and, above all, the team\'s skills and ability to hire. I shortlist options and evaluate them on maturity, community and ecosystem, operational cost, performance and lock-in, ideally with a time-boxed proof of concept against the riskiest requirement. I favour boring, well-understood technology unless something new gives a clear advantage. The decision and its trade-offs go into an architecture decision record, with a review point to check whether it still holds.',
+      keyConcepts: ['requirements', 'team\'s skills', 'ability to hire', 'ecosystem', 'operational cost', 'proof of concept', 'boring', 'architecture decision record']
+    }
+  },
+  {
+    id: 'tech-lead-3',
+    style: 'technical',
+    experienceLevel: 'lead-manager',
+    text: 'How do you mentor junior developers and help them grow?',
+    followUp: ['How do you measure the success of your mentoring?'],
+    category: 'Team Development',
+    difficulty: 'hard',
+    exemplar: {
+      answer: 'I start by understanding each person\'s goals and current strengths, then agree a growth plan with concrete goals. Day to day I mentor through pairing and code review that explains the why, not just the what, and I delegate stretch assignments with enough support that they can succeed without me taking over. Regular one-on-ones give a space for feedback in both directions and for career conversations. I measure progress by increasing scope and autonomy, and I make their wins visible to the wider team.',
+      keyConcepts: ['goals', 'growth plan', 'pairing', 'code review', 'stretch assignments', 'one-on-ones', 'feedback', 'autonomy']
+    }
+  },
+  {
+    id: 'tech-general-1',
+    style: 'technical',
+    text: 'Describe your approach to debugging a complex issue.',
+    category: 'Debugging',
+    difficulty: 'medium'
+  },
+  {
+    id: 'tech-general-2',
+    style: 'technical',
+    text: 'What are the key principles of good software design?',
+    category: 'Software Design',
+    difficulty: 'medium'
+  },
+  {
+    id: 'tech-general-3',
+    style: 'technical',
+    text: 'How do you ensure code quality in your projects?',
+    category: 'Code Quality',
+    difficulty: 'medium'
+  },
+  {
+    id: 'tech-general-4',
+    style: 'technical',
+    text: 'Explain the concept of design patterns and give examples.',
+    category: 'Software Design',
+    difficulty: 'medium'
+  },
+  {
+    id: 'tech-general-5',
+    style: 'technical',
+    text: 'How do you handle error handling in your applications?',
+    category: 'Code Quality',
+    difficulty: 'medium'
+  },
+  {
+    id: 'tech-general-6',
+    style: 'technical',
+    text: 'Describe your experience with testing methodologies.',
+    category: 'Testing',
+    difficulty: 'medium'
+  },
+  {
+    id: 'tech-general-7',
+    style: 'technical',
+    text: 'What are the security considerations in web development?',
+    category: 'Security',
+    difficulty: 'medium'
+  },
+  {
+    id: 'tech-general-8',
+    style: 'technical',
+    text: 'How do you approach code reviews and collaboration?',
+    category: 'Collaboration',
+    difficulty: 'medium'
+  },
+  {
+    id: 'tech-general-9',
+    style: 'technical',
+    text: 'Explain the importance of documentation in software development.',
+    category: 'Collaboration',
+    difficulty: 'medium'
+  },
+  {
+    id: 'tech-general-10',
+    style: 'technical',
+    text: 'How do you stay updated with new technologies and trends?',
+    category: 'Learning',
+    difficulty: 'medium'
+  },
+  {
+    id: 'tech-general-11',
+    style: 'technical',
+    text: 'Describe your experience with version control systems.',
+    category: 'Tooling',
+    difficulty: 'medium'
+  },
+  {
+    id: 'tech-general-12',
+    style: 'technical',
+    text: 'What are the best practices for database design?',
+    category: 'Databases',
+    difficulty: 'medium'
+  },
+  {
+    id: 'tech-general-13',
+    style: 'technical',
+    text: 'How do you approach performance monitoring and optimization?',
+    category: 'Performance',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-fresher-1',
+    style: 'hr',
+    experienceLevel: 'fresher',
+    text: 'Tell me about yourself and why you are interested in this role.',
+    followUp: ['What specific skills do you hope to develop in this position?'],
+    category: 'Introduction',
+    difficulty: 'easy'
+  },
+  {
+    id: 'hr-fresher-2',
+    style: 'hr',
+    experienceLevel: 'fresher',
+    text: 'Why did you choose this field/technology?',
+    followUp: ['What excites you most about working in this industry?'],
+    category: 'Motivation',
+    difficulty: 'easy'
+  },
+  {
+    id: 'hr-fresher-3',
+    style: 'hr',
+    experienceLevel: 'fresher',
+    text: 'How do you handle learning new technologies or skills?',
+    followUp: ['Can you give me an example of a recent skill you learned?'],
+    category: 'Learning',
+    difficulty: 'easy'
+  },
+  {
+    id: 'hr-junior-1',
+    style: 'hr',
+    experienceLevel: 'junior',
+    text: 'Describe a challenging project you worked on and how you overcame obstacles.',
+    followUp: ['What would you do differently if you faced a similar situation again?'],
+    category: 'Problem Solving',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-junior-2',
+    style: 'hr',
+    experienceLevel: 'junior',
+    text: 'How do you prioritize your work when you have multiple deadlines?',
+    followUp: ['Can you give me a specific example?'],
+    category: 'Time Management',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-junior-3',
+    style: 'hr',
+    experienceLevel: 'junior',
+    text: 'Tell me about a time you had to work with a difficult team member.',
+    followUp: ['How did you handle the situation?'],
+    category: 'Teamwork',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-mid-1',
+    style: 'hr',
+    experienceLevel: 'mid-level',
+    text: 'Describe a time when you had to make a difficult decision with limited information.',
+    followUp: ['How did you gather the information you needed?', 'What was the outcome?'],
+    category: 'Decision Making',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-mid-2',
+    style: 'hr',
+    experienceLevel: 'mid-level',
+    text: 'How do you handle feedback, both giving and receiving it?',
+    followUp: ['Can you share an example of difficult feedback you had to give?'],
+    category: 'Communication',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-mid-3',
+    style: 'hr',
+    experienceLevel: 'mid-level',
+    text: 'Tell me about a time you had to adapt to a significant change at work.',
+    followUp: ['How did you help your team through the transition?'],
+    category: 'Adaptability',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-senior-1',
+    style: 'hr',
+    experienceLevel: 'senior',
+    text: 'Describe your leadership style and how you motivate your team.',
+    followUp: ['How do you handle underperforming team members?'],
+    category: 'Leadership',
+    difficulty: 'hard'
+  },
+  {
+    id: 'hr-senior-2',
+    style: 'hr',
+    experienceLevel: 'senior',
+    text: 'Tell me about a time you had to influence stakeholders without direct authority.',
+    followUp: ['What strategies did you use?', 'What was the result?'],
+    category: 'Influence',
+    difficulty: 'hard'
+  },
+  {
+    id: 'hr-senior-3',
+    style: 'hr',
+    experienceLevel: 'senior',
+    text: 'How do you approach building and maintaining relationships across different departments?',
+    followUp: ['Can you share a specific example of cross-functional collaboration?'],
+    category: 'Collaboration',
+    difficulty: 'hard'
+  },
+  {
+    id: 'hr-lead-1',
+    style: 'hr',
+    experienceLevel: 'lead-manager',
+    text: 'How do you develop and communicate your vision for the team/organization?',
+    followUp: ['How do you ensure buy-in from stakeholders?'],
+    category: 'Vision & Strategy',
+    difficulty: 'hard'
+  },
+  {
+    id: 'hr-lead-2',
+    style: 'hr',
+    experienceLevel: 'lead-manager',
+    text: 'Describe your approach to conflict resolution between team members.',
+    followUp: ['How do you prevent conflicts from escalating?'],
+    category: 'Conflict Management',
+    difficulty: 'hard'
+  },
+  {
+    id: 'hr-lead-3',
+    style: 'hr',
+    experienceLevel: 'lead-manager',
+    text: 'How do you balance the needs of your team with organizational demands?',
+    followUp: ['Can you share an example of a difficult balance you had to strike?'],
+    category: 'Strategic Leadership',
+    difficulty: 'hard'
+  },
+  {
+    id: 'hr-general-1',
+    style: 'hr',
+    text: 'Tell me about yourself and your career goals.',
+    category: 'Introduction',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-general-2',
+    style: 'hr',
+    text: 'Why are you interested in this position?',
+    category: 'Motivation',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-general-3',
+    style: 'hr',
+    text: 'How do you handle working under pressure?',
+    category: 'Work Style',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-general-4',
+    style: 'hr',
+    text: 'What motivates you in your work?',
+    category: 'Motivation',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-general-5',
+    style: 'hr',
+    text: 'Where do you see yourself in 5 years?',
+    category: 'Career Goals',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-general-6',
+    style: 'hr',
+    text: 'Describe your ideal work environment.',
+    category: 'Work Style',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-general-7',
+    style: 'hr',
+    text: 'How do you handle feedback and criticism?',
+    category: 'Self-Awareness',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-general-8',
+    style: 'hr',
+    text: 'What are your greatest strengths and weaknesses?',
+    category: 'Self-Awareness',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-general-9',
+    style: 'hr',
+    text: 'Why are you looking to leave your current position?',
+    category: 'Motivation',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-general-10',
+    style: 'hr',
+    text: 'How do you prioritize work-life balance?',
+    category: 'Work Style',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-general-11',
+    style: 'hr',
+    text: 'What type of management style works best for you?',
+    category: 'Work Style',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-general-12',
+    style: 'hr',
+    text: 'How do you handle conflicts with colleagues?',
+    category: 'Teamwork',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-general-13',
+    style: 'hr',
+    text: 'What are your salary expectations?',
+    category: 'Compensation',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-general-14',
+    style: 'hr',
+    text: 'How do you continue learning and developing professionally?',
+    category: 'Growth',
+    difficulty: 'medium'
+  },
+  {
+    id: 'hr-general-15',
+    style: 'hr',
+    text: 'What questions do you have about our company?',
+    category: 'Closing',
+    difficulty: 'medium'
+  },
+  {
+    id: 'behavioral-fresher-1',
+    style: 'behavioral',
+    experienceLevel: 'fresher',
+    text: 'Tell me about a time you faced a significant challenge in your studies or projects.',
+    followUp: ['How did you approach solving it?', 'What did you learn from the experience?'],
+    category: 'Problem Solving',
+    difficulty: 'easy',
+    exemplar: {
+      answer: 'Situation: in my final-year project, our team\'s image classifier was stuck at 60% accuracy three weeks before the deadline. Task: I was responsible for the model, so it was on me to find out why. Action: I analysed the errors and found the dataset was heavily imbalanced, so I applied data augmentation to the small classes, tuned the learning rate with a small experiment plan and set up a validation split to stop us overfitting. Result: accuracy rose to 84%, we delivered on time and got the top grade in the cohort. I learned to diagnose the data before changing the model.',
+      keyConcepts: ['responsible', 'analysed', 'deadline', 'accuracy', 'learned']
+    }
+  },
+  {
+    id: 'behavioral-fresher-2',
+    style: 'behavioral',
+    experienceLevel: 'fresher',
+    text: 'Describe a situation where you had to work in a team with different personalities.',
+    followUp: ['How did you ensure effective collaboration?'],
+    category: 'Teamwork',
+    difficulty: 'easy',
+    exemplar: {
+      answer: 'Situation: in a four-person hackathon team, one member wanted to plan every detail while another wanted to start coding immediately, and we lost the first two hours arguing. Task: as the person who had organised the team, I wanted us working together before time ran out. Action: I suggested a 20-minute planning session with a clear outcome, split the work by strengths so the planner owned the architecture and integration and the fast coder built the prototype, and set short check-ins every two hours. Result: we shipped a working demo, placed second out of 30 teams, and I learned that different styles are an asset when roles are clear.',
+      keyConcepts: ['planning', 'strengths', 'roles', 'check-ins', 'learned']
+    }
+  },
+  {
+    id: 'behavioral-fresher-3',
+    style: 'behavioral',
+    experienceLevel: 'fresher',
+    text: 'Tell me about a time you had to learn something completely new quickly.',
+    followUp: ['What strategies did you use?', 'How did you measure your progress?'],
+    category: 'Learning Agility',
+    difficulty: 'easy',
+    exemplar: {
+      answer: 'Situation: during my internship, the team needed a dashboard built in React, which I had never used, within two weeks. Task: I had to become productive fast without slowing the team down. Action: I spent the first two days on the official tutorial, then learned by building a small prototype of the actual dashboard, asked a senior engineer for a 30-minute code review each day, and kept notes of questions to batch them. Result: I delivered the dashboard in the second week, it was used in the client demo, and I now use the same plan of fundamentals, building, then feedback for any new technology.',
+      keyConcepts: ['fundamentals', 'prototype', 'code review', 'feedback', 'delivered']
+    }
+  },
+  {
+    id: 'behavioral-junior-1',
+    style: 'behavioral',
+    experienceLevel: 'junior',
+    text: 'Describe a time when you disagreed with your supervisor or team lead.',
+    followUp: ['How did you handle the situation?', 'What was the outcome?'],
+    category: 'Conflict Resolution',
+    difficulty: 'medium',
+    exemplar: {
+      answer: 'Situation: my team lead wanted to ship a feature by rewriting our payment validation in a week, and I believed the rewrite would introduce regressions. Task: I needed to raise the concern without undermining the decision. Action: I asked for a one-on-one, came with data showing the module caused three incidents last quarter and had little test coverage, and proposed an alternative: add tests first, then refactor incrementally behind a feature flag. I made clear I would support whichever path they chose. Result: we took my approach, shipped only four days later than planned with zero incidents, and my lead asked me to review future risky changes.',
+      keyConcepts: ['concern', 'one-on-one', 'data', 'alternative', 'support']
+    }
+  },
+  {
+    id: 'behavioral-junior-2',
+    style: 'behavioral',
+    experienceLevel: 'junior',
+    text: 'Tell me about a project where you exceeded expectations.',
+    followUp: ['What specific actions did you take?', 'How did you measure success?'],
+    category: 'Achievement',
+    difficulty: 'medium',
+    exemplar: {
+      answer: 'Situation: I was asked to reduce the time our support team spent on password reset tickets. Task: the goal was a 20% reduction within a quarter. Action: I analysed the tickets and found most came from an expired reset link, so I built a self-service flow with longer-lived links and clearer error messages, and then added a help-centre article that I wrote with the support lead. Result: reset tickets dropped by 65% in six weeks, saving around 30 support hours a month, well beyond the 20% target, and the pattern was reused for two other ticket types.',
+      keyConcepts: ['goal', 'analysed', 'built', 'dropped', 'target']
+    }
+  },
+  {
+    id: 'behavioral-junior-3',
+    style: 'behavioral',
+    experienceLevel: 'junior',
+    text: 'Describe a time when you made a mistake and how you handled it.',
+    followUp: ['What did you learn?', 'How do you prevent similar mistakes now?'],
+    category: 'Accountability',
+    difficulty: 'medium',
+    exemplar: {
+      answer: 'Situation: I deployed a database migration that locked a large table and took our checkout down for 12 minutes. Task: I owned the migration, so I owned fixing it. Action: I rolled back immediately, told my manager and the on-call channel what had happened, and then wrote a blameless postmortem. I rewrote the migration to run in batches and added a checklist step to test migrations against production-sized data. Result: the fixed migration ran without downtime, the checklist caught two similar issues in the next quarter, and I learned to own mistakes quickly and turn them into process improvements.',
+      keyConcepts: ['owned', 'rolled back', 'postmortem', 'checklist', 'learned']
+    }
+  },
+  {
+    id: 'behavioral-mid-1',
+    style: 'behavioral',
+    experienceLevel: 'mid-level',
+    text: 'Tell me about a time you had to persuade someone to change their mind.',
+    followUp: ['What approach did you take?', 'How did you handle resistance?'],
+    category: 'Influence',
+    difficulty: 'medium',
+    exemplar: {
+      answer: 'Situation: our product manager wanted to build a custom analytics system, which I estimated at three months of work. Task: I believed a third-party tool would meet our needs, and I had to change their mind without dismissing their concerns. Action: I first asked what they needed, which was mainly data ownership and custom events, then ran a two-day proof of concept with the tool that covered both, and presented a cost comparison and a risk list side by side. Result: they agreed to adopt the tool, we launched analytics in three weeks instead of three months, and they later used the same evaluation format for other build-versus-buy decisions.',
+      keyConcepts: ['concerns', 'asked', 'proof of concept', 'cost comparison', 'agreed']
+    }
+  },
+  {
+    id: 'behavioral-mid-2',
+    style: 'behavioral',
+    experienceLevel: 'mid-level',
+    text: 'Describe a situation where you had to take initiative without being asked.',
+    followUp: ['What was the impact?', 'How did you communicate your actions to stakeholders?'],
+    category: 'Initiative',
+    difficulty: 'medium',
+    exemplar: {
+      answer: 'Situation: our nightly builds failed about twice a week and everyone had learned to just rerun them. Task: nobody owned the problem, so I decided to. Action: I tracked every failure for two weeks, found three flaky tests and an under-provisioned runner, fixed the tests, moved the build to a larger runner and added an alert that posts failures with logs to the team channel. I shared a short write-up so others could keep it healthy. Result: failures dropped to about one a month, the team saved several hours a week of reruns, and my manager added build health to our team goals.',
+      keyConcepts: ['owned', 'tracked', 'fixed', 'alert', 'shared']
+    }
+  },
+  {
+    id: 'behavioral-mid-3',
+    style: 'behavioral',
+    experienceLevel: 'mid-level',
+    text: 'Tell me about a time you had to work under significant pressure or tight deadlines.',
+    followUp: ['How did you manage your stress?', 'What was the outcome?'],
+    category: 'Pressure Management',
+    difficulty: 'hard',
+    exemplar: {
+      answer: 'Situation: two weeks before a major client launch, a key teammate left and we were 30% behind on the integration work. Task: as the most senior engineer on the project, I had to get us over the line without burning the team out. Action: I broke the remaining work into must-have and nice-to-have with the client, negotiated moving two features to a second release, paired with the newest engineer to get them productive, and held a 10-minute daily check on blockers. Result: we launched on time with all must-have features, zero critical bugs in the first month, and the deferred features shipped three weeks later.',
+      keyConcepts: ['blockers', 'must-have', 'negotiated', 'paired', 'on time']
+    }
+  },
+  {
+    id: 'behavioral-senior-1',
+    style: 'behavioral',
+    experienceLevel: 'senior',
+    text: 'Describe a time you had to make an unpopular decision.',
+    followUp: ['How did you communicate it?', 'How did you handle the backlash?'],
+    category: 'Difficult Decisions',
+    difficulty: 'hard',
+    exemplar: {
+      answer: 'Situation: our team had three services built on a framework we loved but which had lost maintenance and had open security issues. Task: as tech lead, I needed to decide whether to migrate, knowing most of the team opposed it. Action: I laid out the risk with data, listened to the objections and addressed the biggest one, the fear of a long freeze, by planning an incremental migration one service per quarter. I made the final call and explained the reasoning openly, even though it was unpopular. Result: we completed the migration in nine months with no feature freeze, closed all critical vulnerabilities, and several engineers later said the plan changed their mind.',
+      keyConcepts: ['risk', 'data', 'listened', 'incremental', 'final call']
+    }
+  },
+  {
+    id: 'behavioral-senior-2',
+    style: 'behavioral',
+    experienceLevel: 'senior',
+    text: 'Tell me about a time you failed to meet an important goal or deadline.',
+    followUp: ['How did you handle the situation?', 'What did you learn?'],
+    category: 'Failure Management',
+    difficulty: 'hard',
+    exemplar: {
+      answer: 'Situation: I committed to delivering a data platform migration by the end of Q2, and we missed it by six weeks. Task: I owned the plan and the commitment. Action: when I saw the slip at the halfway point, I told stakeholders immediately with a revised date rather than hoping to catch up, identified the cause, which was that I had underestimated the data validation work, and re-scoped by migrating the highest-value datasets first. Result: the critical reports moved on the original date, the rest six weeks later, and I changed how I estimate by running a spike on the riskiest part before committing. I take responsibility for that miss, and it made my planning better.',
+      keyConcepts: ['commitment', 'told stakeholders', 'cause', 're-scoped', 'responsibility']
+    }
+  },
+  {
+    id: 'behavioral-senior-3',
+    style: 'behavioral',
+    experienceLevel: 'senior',
+    text: 'Describe a situation where you had to coach or develop someone.',
+    followUp: ['What approach did you take?', 'What was the result?'],
+    category: 'Development',
+    difficulty: 'hard',
+    exemplar: {
+      answer: 'Situation: a mid-level engineer on my team was technically strong but struggled in design discussions, so their ideas were often overlooked. Task: I wanted to help them grow into a senior role. Action: we agreed a specific goal of leading a design review within three months. I had them write the design doc for a medium-sized feature, coached them on structuring the trade-offs, did a dry run together, and gave specific feedback after each meeting. Result: they led two design reviews that quarter, their proposal was adopted for our caching layer, and they were promoted to senior six months later.',
+      keyConcepts: ['goal', 'coached', 'feedback', 'promoted']
+    }
+  },
+  {
+    id: 'behavioral-lead-1',
+    style: 'behavioral',
+    experienceLevel: 'lead-manager',
+    text: 'Tell me about a time you had to lead your team through a major organizational change.',
+    followUp: ['How did you maintain morale?', 'What challenges did you face?'],
+    category: 'Change Leadership',
+    difficulty: 'hard',
+    exemplar: {
+      answer: 'Situation: our company reorganised from project teams into product-aligned teams, and my group of 25 engineers was split across four new products. Task: I had to lead the transition while keeping delivery going and morale intact. Action: I explained the why behind the change openly, held one-on-ones to understand each person\'s concerns and preferences, involved the team leads in designing the new team boundaries, and set up a transition plan with an owner for every service. I kept a weekly forum for questions. Result: we completed the transition in six weeks, lost no one to attrition, and delivery velocity recovered to the previous level within two sprints.',
+      keyConcepts: ['the why', 'one-on-ones', 'concerns', 'transition plan', 'attrition']
+    }
+  },
+  {
+    id: 'behavioral-lead-2',
+    style: 'behavioral',
+    experienceLevel: 'lead-manager',
+    text: 'Describe a situation where you had to balance competing priorities from different stakeholders.',
+    followUp: ['How did you make the decision?', 'How did you communicate it?'],
+    category: 'Stakeholder Management',
+    difficulty: 'hard',
+    exemplar: {
+      answer: 'Situation: sales wanted custom features for a large prospect, while support was pushing for fixes to recurring bugs, and both asked for the same team\'s next quarter. Task: I had to decide how to allocate capacity and keep both stakeholders on side. Action: I brought them together, made the trade-offs explicit with data on revenue at stake and support hours lost, and proposed a split of 60% on the prospect\'s features and 40% on the top five bugs, with a checkpoint halfway. Result: we closed the deal, support tickets on those bugs fell by half, and both leaders agreed to use the same prioritization framework in future planning.',
+      keyConcepts: ['stakeholders', 'trade-offs', 'data', 'checkpoint', 'prioritization framework']
+    }
+  },
+  {
+    id: 'behavioral-lead-3',
+    style: 'behavioral',
+    experienceLevel: 'lead-manager',
+    text: 'Tell me about a time you had to rebuild trust after a significant setback.',
+    followUp: ['What specific actions did you take?', 'How long did it take?'],
+    category: 'Trust Building',
+    difficulty: 'hard',
+    exemplar: {
+      answer: 'Situation: after a major outage caused by a rushed release, our biggest customer threatened to leave and my own team felt blamed by leadership. Task: I had to rebuild trust on both sides. Action: I called the customer personally, took responsibility without excuses, shared a transparent postmortem and a dated list of fixes, and then sent weekly updates until every item was done. Internally I ran a blameless review, defended the team in leadership meetings and changed our release process with them. Result: the customer renewed for two years, we had no repeat incidents, and team engagement scores recovered the following quarter.',
+      keyConcepts: ['took responsibility', 'transparent', 'postmortem', 'weekly updates', 'blameless']
+    }
+  },
+  {
+    id: 'behavioral-general-1',
+    style: 'behavioral',
+    text: 'Tell me about a challenging project you worked on.',
+    category: 'Achievement',
+    difficulty: 'medium'
+  },
+  {
+    id: 'behavioral-general-2',
+    style: 'behavioral',
+    text: 'Describe a time when you had to work with a difficult team member.',
+    category: 'Conflict Resolution',
+    difficulty: 'medium'
+  },
+  {
+    id: 'behavioral-general-3',
+    style: 'behavioral',
+    text: 'Give me an example of when you had to learn something new quickly.',
+    category: 'Adaptability',
+    difficulty: 'medium'
+  },
+  {
+    id: 'behavioral-general-4',
+    style: 'behavioral',
+    text: 'Tell me about a time you failed and how you handled it.',
+    category: 'Failure Management',
+    difficulty: 'medium'
+  },
+  {
+    id: 'behavioral-general-5',
+    style: 'behavioral',
+    text: 'Describe a situation where you had to make a difficult decision.',
+    category: 'Difficult Decisions',
+    difficulty: 'medium'
+  },
+  {
+    id: 'behavioral-general-6',
+    style: 'behavioral',
+    text: 'Tell me about a time you had to meet a tight deadline.',
+    category: 'Pressure Management',
+    difficulty: 'medium'
+  },
+  {
+    id: 'behavioral-general-7',
+    style: 'behavioral',
+    text: 'Describe a situation where you had to persuade someone.',
+    category: 'Influence',
+    difficulty: 'medium'
+  },
+  {
+    id: 'behavioral-general-8',
+    style: 'behavioral',
+    text: 'Give me an example of when you showed leadership.',
+    category: 'Leadership',
+    difficulty: 'medium'
+  },
+  {
+    id: 'behavioral-general-9',
+    style: 'behavioral',
+    text: 'Tell me about a time you had to adapt to change.',
+    category: 'Adaptability',
+    difficulty: 'medium'
+  },
+  {
+    id: 'behavioral-general-10',
+    style: 'behavioral',
+    text: 'Describe a situation where you went above and beyond.',
+    category: 'Initiative',
+    difficulty: 'medium'
+  },
+  {
+    id: 'behavioral-general-11',
+    style: 'behavioral',
+    text: 'Tell me about a time you had to handle multiple priorities.',
+    category: 'Prioritization',
+    difficulty: 'medium'
+  },
+  {
+    id: 'behavioral-general-12',
+    style: 'behavioral',
+    text: 'Describe a situation where you had to work with limited resources.',
+    category: 'Resource Management',
+    difficulty: 'medium'
+  },
+  {
+    id: 'behavioral-general-13',
+    style: 'behavioral',
+    text: 'Give me an example of when you took initiative.',
+    category: 'Initiative',
+    difficulty: 'medium'
+  },
+  {
+    id: 'behavioral-general-14',
+    style: 'behavioral',
+    text: 'Tell me about a time you had to give difficult feedback.',
+    category: 'Feedback',
+    difficulty: 'medium'
+  },
+  {
+    id: 'behavioral-general-15',
+    style: 'behavioral',
+    text: 'Describe a situation where you had to solve a complex problem.',
+    category: 'Problem Solving',
+    difficulty: 'medium'
+  },
+  {
+    id: 'salary-fresher-1',
+    style: 'salary-negotiation',
+    experienceLevel: 'fresher',
+    text: 'What are your salary expectations for this role?',
+    followUp: ['How did you arrive at this figure?'],
+    category: 'Compensation',
+    difficulty: 'easy'
+  },
+  {
+    id: 'salary-fresher-2',
+    style: 'salary-negotiation',
+    experienceLevel: 'fresher',
+    text: 'Besides salary, what other benefits are important to you?',
+    followUp: ['How do you prioritize these benefits?'],
+    category: 'Benefits',
+    difficulty: 'easy'
+  },
+  {
+    id: 'salary-fresher-3',
+    style: 'salary-negotiation',
+    experienceLevel: 'fresher',
+    text: 'How flexible are you with your salary expectations?',
+    followUp: ['What factors would make you consider a lower offer?'],
+    category: 'Flexibility',
+    difficulty: 'medium'
+  },
+  {
+    id: 'salary-junior-1',
+    style: 'salary-negotiation',
+    experienceLevel: 'junior',
+    text: 'Based on your experience and skills, justify your salary expectation.',
+    followUp: ['How does this compare to your current compensation?'],
+    category: 'Justification',
+    difficulty: 'medium'
+  },
+  {
+    id: 'salary-junior-2',
+    style: 'salary-negotiation',
+    experienceLevel: 'junior',
+    text: 'What would you do if our budget for this role is lower than your expectations?',
+    followUp: ['Are there other forms of compensation you would consider?'],
+    category: 'Negotiation',
+    difficulty: 'medium'
+  },
+  {
+    id: 'salary-junior-3',
+    style: 'salary-negotiation',
+    experienceLevel: 'junior',
+    text: 'How do you research salary ranges for positions?',
+    followUp: ['What sources do you trust most?'],
+    category: 'Market Research',
+    difficulty: 'medium'
+  },
+  {
+    id: 'salary-mid-1',
+    style: 'salary-negotiation',
+    experienceLevel: 'mid-level',
+    text: 'What value do you bring that justifies a premium over other candidates?',
+    followUp: ['Can you quantify the impact you have made in previous roles?'],
+    category: 'Value Proposition',
+    difficulty: 'medium'
+  },
+  {
+    id: 'salary-mid-2',
+    style: 'salary-negotiation',
+    experienceLevel: 'mid-level',
+    text: 'How do you approach total compensation versus base salary?',
+    followUp: ['What mix works best for your situation?'],
+    category: 'Total Compensation',
+    difficulty: 'medium'
+  },
+  {
+    id: 'salary-mid-3',
+    style: 'salary-negotiation',
+    experienceLevel: 'mid-level',
+    text: 'What are your long-term compensation growth expectations?',
+    followUp: ['How do you see your value increasing over time?'],
+    category: 'Growth Expectations',
+    difficulty: 'hard'
+  },
+  {
+    id: 'salary-senior-1',
+    style: 'salary-negotiation',
+    experienceLevel: 'senior',
+    text: 'How do you evaluate equity compensation versus cash compensation?',
+    followUp: ['What factors do you consider when assessing equity offers?'],
+    category: 'Equity Evaluation',
+    difficulty: 'hard'
+  },
+  {
+    id: 'salary-senior-2',
+    style: 'salary-negotiation',
+    experienceLevel: 'senior',
+    text: 'What would make you accept an offer that is below your initial expectations?',
+    followUp: ['How do you weigh compensation against other factors?'],
+    category: 'Trade-offs',
+    difficulty: 'hard'
+  },
+  {
+    id: 'salary-senior-3',
+    style: 'salary-negotiation',
+    experienceLevel: 'senior',
+    text: 'How do you negotiate when you have multiple offers?',
+    followUp: ['What is your approach to leveraging competing offers?'],
+    category: 'Multiple Offers',
+    difficulty: 'hard'
+  },
+  {
+    id: 'salary-lead-1',
+    style: 'salary-negotiation',
+    experienceLevel: 'lead-manager',
+    text: 'How do you structure compensation discussions for executive-level roles?',
+    followUp: ['What components are most important at this level?'],
+    category: 'Executive Compensation',
+    difficulty: 'hard'
+  },
+  {
+    id: 'salary-lead-2',
+    style: 'salary-negotiation',
+    experienceLevel: 'lead-manager',
+    text: 'How do you approach performance-based compensation structures?',
+    followUp: ['What metrics do you think should drive variable compensation?'],
+    category: 'Performance Pay',
+    difficulty: 'hard'
+  },
+  {
+    id: 'salary-lead-3',
+    style: 'salary-negotiation',
+    experienceLevel: 'lead-manager',
+    text: 'What is your philosophy on compensation transparency and equity?',
+    followUp: ['How do you ensure fair compensation across your team?'],
+    category: 'Compensation Philosophy',
+    difficulty: 'hard'
+  },
+  {
+    id: 'salary-general-1',
+    style: 'salary-negotiation',
+    text: 'How do you evaluate the total compensation package?',
+    category: 'Total Compensation',
+    difficulty: 'medium'
+  },
+  {
+    id: 'salary-general-2',
+    style: 'salary-negotiation',
+    text: 'What factors are most important to you besides salary?',
+    category: 'Benefits',
+    difficulty: 'medium'
+  },
+  {
+    id: 'salary-general-3',
+    style: 'salary-negotiation',
+    text: 'How flexible are you with your compensation requirements?',
+    category: 'Flexibility',
+    difficulty: 'medium'
+  },
+  {
+    id: 'salary-general-4',
+    style: 'salary-negotiation',
+    text: 'How do you research market rates for your position?',
+    category: 'Market Research',
+    difficulty: 'medium'
+  },
+  {
+    id: 'salary-general-5',
+    style: 'salary-negotiation',
+    text: 'What benefits are most valuable to you?',
+    category: 'Benefits',
+    difficulty: 'medium'
+  },
+  {
+    id: 'salary-general-6',
+    style: 'salary-negotiation',
+    text: 'How do you approach negotiating equity or stock options?',
+    category: 'Equity Evaluation',
+    difficulty: 'medium'
+  },
+  {
+    id: 'salary-general-7',
+    style: 'salary-negotiation',
+    text: 'What\'s your timeline for making a decision on an offer?',
+    category: 'Negotiation',
+    difficulty: 'medium'
+  },
+  {
+    id: 'salary-general-8',
+    style: 'salary-negotiation',
+    text: 'How do you balance salary with career growth opportunities?',
+    category: 'Growth Expectations',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-fresher-1',
+    style: 'case-study',
+    experienceLevel: 'fresher',
+    text: 'A user reports that a web page is loading slowly. Walk me through how you would investigate this issue.',
+    followUp: ['What tools would you use?', 'How would you prioritize potential causes?'],
+    category: 'Problem Solving',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-fresher-2',
+    style: 'case-study',
+    experienceLevel: 'fresher',
+    text: 'You need to choose between two similar JavaScript libraries for a project. How would you make this decision?',
+    followUp: ['What criteria would you use?', 'How would you present your recommendation?'],
+    category: 'Decision Making',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-fresher-3',
+    style: 'case-study',
+    experienceLevel: 'fresher',
+    text: 'A client wants to add a new feature that conflicts with the existing design. How would you handle this?',
+    followUp: ['How would you communicate the trade-offs?'],
+    category: 'Client Management',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-junior-1',
+    style: 'case-study',
+    experienceLevel: 'junior',
+    text: 'Design a simple booking system for a restaurant. What are the key components and considerations?',
+    followUp: ['How would you handle conflicts in reservations?', 'What about different table sizes?'],
+    category: 'System Design',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-junior-2',
+    style: 'case-study',
+    experienceLevel: 'junior',
+    text: 'Your team is consistently missing sprint deadlines. How would you analyze and address this problem?',
+    followUp: ['What data would you collect?', 'How would you present solutions to management?'],
+    category: 'Process Improvement',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-junior-3',
+    style: 'case-study',
+    experienceLevel: 'junior',
+    text: 'A legacy system needs to be modernized. How would you approach planning this migration?',
+    followUp: ['How would you minimize downtime?', 'What risks would you identify?'],
+    category: 'Migration Planning',
+    difficulty: 'hard'
+  },
+  {
+    id: 'case-mid-1',
+    style: 'case-study',
+    experienceLevel: 'mid-level',
+    text: 'Design a monitoring system for a microservices architecture. What would you monitor and why?',
+    followUp: ['How would you handle alerting?', 'What about distributed tracing?'],
+    category: 'System Design',
+    difficulty: 'hard'
+  },
+  {
+    id: 'case-mid-2',
+    style: 'case-study',
+    experienceLevel: 'mid-level',
+    text: 'A competitor just launched a feature similar to yours but with better performance. How would you respond?',
+    followUp: ['How would you prioritize improvements?', 'What would your timeline look like?'],
+    category: 'Competitive Response',
+    difficulty: 'hard'
+  },
+  {
+    id: 'case-mid-3',
+    style: 'case-study',
+    experienceLevel: 'mid-level',
+    text: 'Your application needs to handle a 10x increase in traffic. How would you prepare?',
+    followUp: ['What would you optimize first?', 'How would you test your improvements?'],
+    category: 'Scaling',
+    difficulty: 'hard'
+  },
+  {
+    id: 'case-senior-1',
+    style: 'case-study',
+    experienceLevel: 'senior',
+    text: 'Design the architecture for a global content delivery system. Consider latency, reliability, and cost.',
+    followUp: ['How would you handle data consistency?', 'What about regional compliance requirements?'],
+    category: 'Architecture Design',
+    difficulty: 'hard'
+  },
+  {
+    id: 'case-senior-2',
+    style: 'case-study',
+    experienceLevel: 'senior',
+    text: 'Your company wants to adopt a new technology stack. How would you evaluate and plan this transition?',
+    followUp: ['How would you manage risk?', 'What about team training?'],
+    category: 'Technology Strategy',
+    difficulty: 'hard'
+  },
+  {
+    id: 'case-senior-3',
+    style: 'case-study',
+    experienceLevel: 'senior',
+    text: 'A critical security vulnerability was discovered in your production system. Walk me through your response.',
+    followUp: ['How would you communicate with stakeholders?', 'What about preventing future incidents?'],
+    category: 'Crisis Management',
+    difficulty: 'hard'
+  },
+  {
+    id: 'case-lead-1',
+    style: 'case-study',
+    experienceLevel: 'lead-manager',
+    text: 'Your engineering organization needs to scale from 50 to 200 developers. How would you structure this growth?',
+    followUp: ['How would you maintain culture?', 'What about maintaining code quality?'],
+    category: 'Organizational Scaling',
+    difficulty: 'hard'
+  },
+  {
+    id: 'case-lead-2',
+    style: 'case-study',
+    experienceLevel: 'lead-manager',
+    text: 'Two of your key teams are in conflict over shared resources and priorities. How would you resolve this?',
+    followUp: ['How would you prevent similar conflicts in the future?'],
+    category: 'Conflict Resolution',
+    difficulty: 'hard'
+  },
+  {
+    id: 'case-lead-3',
+    style: 'case-study',
+    experienceLevel: 'lead-manager',
+    text: 'The business wants to cut engineering costs by 30% while maintaining delivery velocity. How would you approach this?',
+    followUp: ['What trade-offs would you present?', 'How would you measure success?'],
+    category: 'Resource Management',
+    difficulty: 'hard'
+  },
+  {
+    id: 'case-general-1',
+    style: 'case-study',
+    text: 'How would you approach designing a system for handling high traffic?',
+    category: 'System Design',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-general-2',
+    style: 'case-study',
+    text: 'Walk me through how you would solve a performance issue.',
+    category: 'Problem Solving',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-general-3',
+    style: 'case-study',
+    text: 'Describe your process for making technical decisions.',
+    category: 'Decision Making',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-general-4',
+    style: 'case-study',
+    text: 'How would you handle a critical production incident?',
+    category: 'Crisis Management',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-general-5',
+    style: 'case-study',
+    text: 'What\'s your approach to evaluating new technologies?',
+    category: 'Technology Strategy',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-general-6',
+    style: 'case-study',
+    text: 'How would you design a scalable database architecture?',
+    category: 'Architecture Design',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-general-7',
+    style: 'case-study',
+    text: 'Describe how you would implement a caching strategy.',
+    category: 'Architecture Design',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-general-8',
+    style: 'case-study',
+    text: 'How would you approach migrating a legacy system?',
+    category: 'Migration Planning',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-general-9',
+    style: 'case-study',
+    text: 'What\'s your process for conducting a technical audit?',
+    category: 'Process Improvement',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-general-10',
+    style: 'case-study',
+    text: 'How would you design a monitoring and alerting system?',
+    category: 'System Design',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-general-11',
+    style: 'case-study',
+    text: 'Describe your approach to capacity planning.',
+    category: 'Scaling',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-general-12',
+    style: 'case-study',
+    text: 'How would you implement a disaster recovery plan?',
+    category: 'Crisis Management',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-general-13',
+    style: 'case-study',
+    text: 'What\'s your strategy for managing technical debt?',
+    category: 'Technology Strategy',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-general-14',
+    style: 'case-study',
+    text: 'How would you approach API design and versioning?',
+    category: 'Architecture Design',
+    difficulty: 'medium'
+  },
+  {
+    id: 'case-general-15',
+    style: 'case-study',
+    text: 'Describe your process for security assessment and implementation.',
+    category: 'Process Improvement',
+    difficulty: 'medium'
   }
-};
\ No newline at end of file
+];
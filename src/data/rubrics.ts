@@ -0,0 +1,292 @@
+import { InterviewStyle, Rubric, RubricCriterion, RubricLevel } from '../types';
+
+// Score bands shared by every built-in criterion; custom rubrics start from the same bands
+export const RUBRIC_LEVEL_BANDS: { label: string; minScore: number }[] = [
+  { label: 'Exceeds', minScore: 85 },
+  { label: 'Meets', minScore: 70 },
+  { label: 'Approaching', minScore: 55 },
+  { label: 'Below', minScore: 0 }
+];
+
+const levels = (...descriptors: [string, string, string, string]): RubricLevel[] =>
+  RUBRIC_LEVEL_BANDS.map((band, index) => ({ ...band, descriptor: descriptors[index] }));
+
+const clarity: RubricCriterion = {
+  id: 'clarity',
+  name: 'Clarity',
+  description: 'Answers are easy to follow and get to the point',
+  weight: 1,
+  dimension: 'clarity',
+  keywords: [],
+  levels: levels(
+    'Precise and concise; every sentence moves the answer forward',
+    'Clear main point with little padding',
+    'Point is there but buried in detail or repetition',
+    'Hard to tell what the answer is'
+  )
+};
+
+const structure: RubricCriterion = {
+  id: 'structure',
+  name: 'Structure',
+  description: 'Answers follow a logical order with clear reasoning',
+  weight: 1,
+  dimension: 'structure',
+  keywords: ['first', 'second', 'third', 'because', 'therefore', 'however', 'additionally'],
+  levels: levels(
+    'Signposted structure with reasons and a summary',
+    'Logical order with reasons given',
+    'Some order, but jumps between points',
+    'Unstructured stream of thoughts'
+  )
+};
+
+const communication: RubricCriterion = {
+  id: 'communication',
+  name: 'Communication',
+  description: 'Engages the interviewer and develops answers fully',
+  weight: 1,
+  dimension: 'communication',
+  keywords: [],
+  levels: levels(
+    'Engaging, well-developed answers pitched at the right level',
+    'Answers are developed and appropriate for the audience',
+    'Answers are thin or drift off the question',
+    'One-line or off-topic answers'
+  )
+};
+
+const confidence: RubricCriterion = {
+  id: 'confidence',
+  name: 'Confidence',
+  description: 'Commits to positions and owns decisions without excessive hedging',
+  weight: 1,
+  dimension: 'confidence',
+  keywords: ['definitely', 'certainly', 'confident', 'sure', 'absolutely', 'clearly'],
+  levels: levels(
+    'Takes clear positions and defends them calmly',
+    'Mostly decisive, hedges only where genuinely unsure',
+    'Frequent hedging ("maybe", "I think")',
+    'Avoids committing to any answer'
+  )
+};
+
+export const defaultRubrics: Record<InterviewStyle, Rubric> = {
+  technical: {
+    id: 'default-technical',
+    name: 'Technical Interview',
+    description: 'Correctness and depth first, then how clearly it is explained',
+    styles: ['technical'],
+    criteria: [
+      {
+        id: 'technical-depth',
+        name: 'Technical Depth',
+        description: 'Accurate, detailed understanding of the concepts and trade-offs involved',
+        weight: 2,
+        dimension: 'technical',
+        keywords: ['function', 'variable', 'class', 'method', 'algorithm', 'data structure', 'performance', 'optimization'],
+        levels: levels(
+          'Accurate and deep; discusses trade-offs, complexity and edge cases unprompted',
+          'Accurate with reasonable depth on the main concepts',
+          'Partly accurate or stays at buzzword level',
+          'Incorrect or missing the core concept'
+        )
+      },
+      clarity,
+      structure,
+      communication,
+      confidence
+    ]
+  },
+  hr: {
+    id: 'default-hr',
+    name: 'HR Interview',
+    description: 'Motivation and fit, communicated clearly',
+    styles: ['hr'],
+    criteria: [
+      {
+        id: 'motivation-fit',
+        name: 'Motivation & Fit',
+        description: 'Shows genuine reasons for the role and how they match the team and culture',
+        weight: 2,
+        dimension: 'technical',
+        keywords: ['team', 'culture', 'values', 'growth', 'learn', 'mission', 'collaborate'],
+        levels: levels(
+          'Specific, researched reasons tied to the company and their own goals',
+          'Clear motivation with some link to the company',
+          'Generic reasons that could apply anywhere',
+          'No clear motivation'
+        )
+      },
+      clarity,
+      communication,
+      structure,
+      confidence
+    ]
+  },
+  behavioral: {
+    id: 'default-behavioral',
+    name: 'Behavioral Interview',
+    description: 'Complete STAR stories that show ownership and measurable impact',
+    styles: ['behavioral'],
+    criteria: [
+      {
+        ...structure,
+        name: 'STAR Structure',
+        description: 'Stories cover Situation, Task, Action and Result',
+        weight: 2,
+        keywords: ['situation', 'task', 'action', 'result', 'my role', 'outcome'],
+        levels: levels(
+          'Every story is a complete, balanced STAR with the focus on Action and Result',
+          'STAR is complete with minor gaps',
+          'One or more STAR parts missing or thin',
+          'No recognizable story structure'
+        )
+      },
+      {
+        id: 'ownership',
+        name: 'Ownership',
+        description: 'Makes clear what they personally did and decided',
+        weight: 1.5,
+        dimension: 'technical',
+        keywords: ['i led', 'i decided', 'i built', 'i owned', 'my responsibility', 'i took'],
+        levels: levels(
+          'Consistently "I", with the reasoning behind their own decisions',
+          'Own contribution is clear',
+          'Mostly "we"; hard to separate their part',
+          'Their own role is unclear'
+        )
+      },
+      {
+        id: 'impact',
+        name: 'Impact',
+        description: 'Results are concrete and measured',
+        weight: 1.5,
+        keywords: ['increased', 'reduced', 'improved', 'saved', 'percent', '%', 'grew'],
+        levels: levels(
+          'Quantified results and what they learned',
+          'Concrete results, some measured',
+          'Vague results ("it went well")',
+          'No result given'
+        )
+      },
+      communication,
+      confidence
+    ]
+  },
+  'salary-negotiation': {
+    id: 'default-salary-negotiation',
+    name: 'Salary Negotiation',
+    description: 'Research-backed asks, value framing and professional tactics',
+    styles: ['salary-negotiation'],
+    criteria: [
+      {
+        id: 'market-research',
+        name: 'Market Research',
+        description: 'Anchors the ask in market data',
+        weight: 1.5,
+        dimension: 'technical',
+        keywords: ['market', 'range', 'benchmark', 'data', 'levels', 'research'],
+        levels: levels(
+          'Cites specific market ranges and sources for the level',
+          'Has a researched range',
+          'A number without justification',
+          'No idea of market value'
+        )
+      },
+      {
+        id: 'value-articulation',
+        name: 'Value Articulation',
+        description: 'Ties the ask to the value they bring',
+        weight: 1.5,
+        keywords: ['impact', 'delivered', 'experience', 'skills', 'value'],
+        levels: levels(
+          'Links the ask to specific past impact and what they will deliver',
+          'Mentions relevant experience and value',
+          'General claims of being a good fit',
+          'No case made for the ask'
+        )
+      },
+      {
+        id: 'negotiation-tactics',
+        name: 'Negotiation Tactics',
+        description: 'Negotiates the whole package and keeps options open',
+        weight: 1,
+        dimension: 'structure',
+        keywords: ['total compensation', 'equity', 'bonus', 'flexible', 'counter', 'package'],
+        levels: levels(
+          'Negotiates total compensation with trade-offs and a clear walk-away point',
+          'Counters and considers more than base salary',
+          'Accepts or rejects without negotiating',
+          'Concedes immediately or becomes confrontational'
+        )
+      },
+      { ...communication, name: 'Professionalism', description: 'Stays collaborative and positive throughout' },
+      confidence
+    ]
+  },
+  'case-study': {
+    id: 'default-case-study',
+    name: 'Case Study',
+    description: 'Structured problem solving, sound analysis and a clear recommendation',
+    styles: ['case-study'],
+    criteria: [
+      {
+        ...structure,
+        name: 'Problem Structuring',
+        description: 'Breaks the problem into clear, complete parts',
+        weight: 2,
+        keywords: ['framework', 'break down', 'assume', 'segment', 'drivers', 'first'],
+        levels: levels(
+          'MECE structure stated up front and followed',
+          'Reasonable structure covering the main drivers',
+          'Partial structure with gaps',
+          'Dives in with no structure'
+        )
+      },
+      {
+        id: 'hypothesis',
+        name: 'Hypothesis-Driven Thinking',
+        description: 'States hypotheses and asks for the data that tests them',
+        weight: 1.5,
+        dimension: 'structure',
+        keywords: ['hypothesis', 'i suspect', 'i would expect', 'to test', 'which means', 'this suggests'],
+        levels: levels(
+          'Leads with a hypothesis, asks for the data to test it and draws the "so what"',
+          'States hypotheses and uses the data to confirm or reject them',
+          'Works through data without a clear hypothesis',
+          'Waits to be handed data and draws no conclusions'
+        )
+      },
+      {
+        id: 'analysis',
+        name: 'Analysis',
+        description: 'Uses numbers and evidence to work through the case',
+        weight: 1.5,
+        dimension: 'technical',
+        keywords: ['revenue', 'cost', 'estimate', 'margin', 'market size', 'profit'],
+        levels: levels(
+          'Sound estimates and calculations with sanity checks',
+          'Uses numbers to support the main points',
+          'Mostly qualitative with few numbers',
+          'No analysis'
+        )
+      },
+      {
+        id: 'recommendation',
+        name: 'Recommendation',
+        description: 'Ends with a clear recommendation, risks and next steps',
+        weight: 1.5,
+        keywords: ['recommend', 'therefore', 'next steps', 'risk'],
+        levels: levels(
+          'Clear recommendation backed by the analysis, with risks and next steps',
+          'Clear recommendation',
+          'Hedged or unclear conclusion',
+          'No recommendation'
+        )
+      },
+      communication,
+      clarity
+    ]
+  }
+};
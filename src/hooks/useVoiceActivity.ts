@@ -0,0 +1,72 @@
+import { useEffect, useRef } from 'react';
+import { SpeechOnsetDetector, measureAudioLevel } from '../utils/voiceActivity';
+
+interface UseVoiceActivityOptions {
+  /** Only listen while this is true, e.g. while the interviewer is speaking */
+  enabled: boolean;
+  /** Called once per enabled stretch, when the candidate starts talking */
+  onSpeechStart: () => void;
+}
+
+/**
+ * Opens the microphone with echo cancellation while enabled and calls onSpeechStart when the
+ * candidate starts talking. Runs separately from the published LiveKit track, which is only
+ * open during the candidate's own turn.
+ */
+export const useVoiceActivity = ({ enabled, onSpeechStart }: UseVoiceActivityOptions): void => {
+  const onSpeechStartRef = useRef(onSpeechStart);
+
+  useEffect(() => {
+    onSpeechStartRef.current = onSpeechStart;
+  }, [onSpeechStart]);
+
+  useEffect(() => {
+    if (!enabled || !navigator.mediaDevices?.getUserMedia) return;
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let audioContext: AudioContext | null = null;
+    let interval: ReturnType<typeof setInterval> | undefined;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true }
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        audioContext = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = 512;
+        audioContext.createMediaStreamSource(stream).connect(analyser);
+
+        const samples = new Uint8Array(analyser.fftSize);
+        const detector = new SpeechOnsetDetector();
+
+        interval = setInterval(() => {
+          analyser.getByteTimeDomainData(samples);
+          if (detector.addSample(measureAudioLevel(samples))) {
+            clearInterval(interval);
+            onSpeechStartRef.current();
+          }
+        }, 50);
+      } catch (error) {
+        console.warn('⚠️ Voice activity detection unavailable:', error);
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      stream?.getTracks().forEach(track => track.stop());
+      if (audioContext && audioContext.state !== 'closed') {
+        audioContext.close();
+      }
+    };
+  }, [enabled]);
+};
@@ -1,11 +1,14 @@
 import axios from 'axios';
-import { InterviewConfig, AnalyticsData, InterviewResponse } from '../types';
+import { InterviewConfig, AnalyticsData, InterviewResponse, CodingSubmission, SystemDesignDiagram, Difficulty, HiringCommitteeSummary, InterviewStyle, CaseExhibit } from '../types';
+import { StreamEvent, readEventStream } from '../utils/eventStream';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL;
 
+const REQUEST_TIMEOUT_MS = 120000;
+
 const apiClient = axios.create({
   baseURL: API_BASE_URL,
-  timeout: 120000, // Increase this value to 120 seconds (2 minutes)
+  timeout: REQUEST_TIMEOUT_MS, // Increase this value to 120 seconds (2 minutes)
   headers: {
     'Content-Type': 'application/json',
   },
@@ -18,6 +21,12 @@ export interface QuestionGenerationRequest {
   questionNumber?: number;
 }
 
+export interface QuestionGenerationResult {
+  question: string;
+  /** Only returned when adaptive difficulty is enabled */
+  difficulty?: Difficulty;
+}
+
 export interface FollowUpRequest {
   question: string;
   response: string;
@@ -28,6 +37,20 @@ export interface ResponseAnalysisRequest {
   question: string;
   response: string;
   config: InterviewConfig;
+  coding?: CodingSubmission;
+  diagram?: SystemDesignDiagram;
+  /** Case exhibits shown so far, so the candidate's math can be checked */
+  exhibits?: CaseExhibit[];
+}
+
+/**
+ * The fields of a single-answer analysis the client reads; the backend may return more
+ */
+export interface ResponseAnalysisResult {
+  score: number;
+  feedback: string;
+  strengths?: string[];
+  improvements?: string[];
 }
 
 export interface AnalyticsRequest {
@@ -35,12 +58,47 @@ export interface AnalyticsRequest {
   config: InterviewConfig;
 }
 
+/**
+ * Partial analytics pushed while the analysis agents work: one 'review' per scored answer, then the 'overall' summary
+ */
+export type AnalyticsStreamUpdate =
+  | {
+      type: 'review';
+      index: number;
+      total: number;
+      review: { questionId: string; question: string; score: number; feedback: string };
+    }
+  | {
+      type: 'overall';
+      strengths: string[];
+      improvements: string[];
+      executiveSummary?: string;
+    };
+
+/**
+ * One finished round of a loop, trimmed to what the hiring committee needs
+ */
+export interface HiringCommitteeRound {
+  name: string;
+  style: InterviewStyle;
+  duration: number;
+  overallScore: number;
+  responseAnalysis: AnalyticsData['responseAnalysis'];
+  strengths: string[];
+  improvements: string[];
+  questionReviews: { question: string; response: string; score: number; feedback: string }[];
+}
+
+export interface HiringCommitteeRequest {
+  config: InterviewConfig;
+  rounds: HiringCommitteeRound[];
+}
+
 export class APIService {
-  static async generateQuestion(request: QuestionGenerationRequest): Promise<string> {
+  static async generateQuestion(request: QuestionGenerationRequest): Promise<QuestionGenerationResult> {
     try {
-      console.log(`pmr base URL ${baseURL}` );
       const response = await apiClient.post('/generate-question', request);
-      return response.data.question;
+      return { question: response.data.question, difficulty: response.data.difficulty };
     } catch (error) {
       console.error('Error generating question:', error);
       throw new Error('Failed to generate question. Please try again.');
@@ -77,6 +135,128 @@ export class APIService {
     }
   }
 
+  static async generateHiringDecision(request: HiringCommitteeRequest): Promise<HiringCommitteeSummary> {
+    try {
+      const response = await apiClient.post('/hiring-committee', request);
+      return response.data.summary;
+    } catch (error) {
+      console.error('Error generating hiring committee summary:', error);
+      throw new Error('Failed to generate hiring committee summary.');
+    }
+  }
+
+  /**
+   * Like generateQuestion, but onText receives the question as it is written so far
+   */
+  static async streamQuestion(request: QuestionGenerationRequest, onText?: (text: string) => void, signal?: AbortSignal): Promise<QuestionGenerationResult> {
+    try {
+      let text = '';
+      const result = await this.stream<QuestionGenerationResult>('/generate-question/stream', request, ({ event, data }) => {
+        if (event === 'token') {
+          text += (data as { text: string }).text;
+          onText?.(text);
+        }
+      }, signal);
+      return { question: result.question, difficulty: result.difficulty };
+    } catch (error) {
+      console.error('Error streaming question:', error);
+      throw new Error('Failed to generate question. Please try again.');
+    }
+  }
+
+  /**
+   * Like analyzeResponse, but onFeedback receives the written feedback as it arrives
+   */
+  static async streamResponseAnalysis(request: ResponseAnalysisRequest, onFeedback?: (feedback: string) => void, signal?: AbortSignal): Promise<ResponseAnalysisResult> {
+    try {
+      let feedback = '';
+      const result = await this.stream<{ analysis: ResponseAnalysisResult }>('/analyze-response/stream', request, ({ event, data }) => {
+        if (event === 'token') {
+          feedback += (data as { text: string }).text;
+          onFeedback?.(feedback);
+        }
+      }, signal);
+      return result.analysis;
+    } catch (error) {
+      console.error('Error streaming response analysis:', error);
+      throw new Error('Failed to analyze response.');
+    }
+  }
+
+  /**
+   * Like generateAnalytics, but onUpdate hears about each analysis step as it finishes
+   */
+  static async streamAnalytics(request: AnalyticsRequest, onUpdate?: (update: AnalyticsStreamUpdate) => void, signal?: AbortSignal): Promise<AnalyticsData> {
+    try {
+      const result = await this.stream<{ analytics: AnalyticsData }>('/generate-analytics/stream', request, ({ event, data }) => {
+        if (event === 'review' || event === 'overall') {
+          onUpdate?.({ type: event, ...(data as object) } as AnalyticsStreamUpdate);
+        }
+      }, signal);
+      return result.analytics;
+    } catch (error) {
+      console.error('Error streaming analytics:', error);
+      throw new Error('Failed to generate analytics.');
+    }
+  }
+
+  /**
+   * POST to a streaming endpoint, passing progress events to onEvent and resolving with the 'done' event's data.
+   * Aborts when signal does, or when the server goes quiet for as long as a regular request may take.
+   */
+  private static async stream<T>(url: string, data: unknown, onEvent: (event: StreamEvent) => void, signal?: AbortSignal): Promise<T> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    const restartIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(abort, REQUEST_TIMEOUT_MS);
+    };
+
+    if (signal?.aborted) abort();
+    signal?.addEventListener('abort', abort);
+    restartIdleTimer();
+
+    try {
+      const response = await fetch(`${API_BASE_URL}${url}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+        body: JSON.stringify(data),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`POST ${url} failed with status ${response.status}`);
+      }
+
+      let result: T | undefined;
+      await readEventStream(response, streamEvent => {
+        restartIdleTimer();
+        if (streamEvent.event === 'done') {
+          result = streamEvent.data as T;
+        } else if (streamEvent.event === 'error') {
+          const { message, error } = streamEvent.data as { message?: string; error?: string };
+          throw new Error(message || error);
+        } else {
+          onEvent(streamEvent);
+        }
+      });
+
+      if (result === undefined) {
+        throw new Error(`POST ${url} ended without a result`);
+      }
+      return result;
+    } catch (error) {
+      if (controller.signal.aborted && !signal?.aborted) {
+        throw new Error(`POST ${url} timed out after ${REQUEST_TIMEOUT_MS / 1000}s without a response`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(idleTimer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
   static async checkHealth(): Promise<boolean> {
     try {
       const response = await apiClient.get('/health');
@@ -0,0 +1,58 @@
+import { CompanyPack } from '../types';
+import { companyPacks } from '../data/companyPacks';
+import { parseCompanyPack, validateCompanyPack } from '../utils/companyPack';
+
+const STORAGE_KEY = 'interview-practice:company-packs';
+
+export class CompanyPackService {
+  /**
+   * Built-in packs followed by the ones the candidate imported; an imported pack with a built-in's id replaces it
+   */
+  static getPacks(): CompanyPack[] {
+    const imported = this.getImportedPacks();
+    const importedIds = new Set(imported.map(pack => pack.id));
+    return [...companyPacks.filter(pack => !importedIds.has(pack.id)), ...imported];
+  }
+
+  static getImportedPacks(): CompanyPack[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return [];
+
+      const parsed: unknown = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed.map(validateCompanyPack) : [];
+    } catch (error) {
+      console.error('Error loading imported company packs:', error);
+      return [];
+    }
+  }
+
+  static isImported(id: string): boolean {
+    return this.getImportedPacks().some(pack => pack.id === id);
+  }
+
+  /**
+   * Parse a JSON or YAML pack file and keep it for future sessions
+   */
+  static async importPack(file: File): Promise<CompanyPack> {
+    const pack = parseCompanyPack(await file.text(), file.name);
+    const others = this.getImportedPacks().filter(item => item.id !== pack.id);
+
+    this.store([...others, pack]);
+    console.log(`🏢 Imported company pack: ${pack.name}`);
+    return pack;
+  }
+
+  static removePack(id: string): void {
+    this.store(this.getImportedPacks().filter(pack => pack.id !== id));
+  }
+
+  private static store(packs: CompanyPack[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(packs));
+    } catch (error) {
+      console.error('Error saving company packs:', error);
+      throw new Error('Could not save the company pack in this browser');
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { AnalyticsData, DrillCard, InterviewConfig } from '../types';
+import { QuestionBankService } from './questionBankService';
+import { DRILL_SCORE_THRESHOLD, createDrillCard, scheduleCard } from '../utils/spacedRepetition';
+
+const STORAGE_KEY = 'interview-practice:drill-deck';
+
+const normalizeQuestion = (question: string) => question.trim().toLowerCase();
+
+export class DrillService {
+  static getDeck(): DrillCard[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return [];
+
+      const parsed: unknown = JSON.parse(stored);
+      return Array.isArray(parsed) ? (parsed as DrillCard[]) : [];
+    } catch (error) {
+      console.error('Error loading drill deck:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Update the deck from a finished interview: questions already in the deck are rescheduled with their new
+   * score, and new questions that scored below the threshold are added. Coding and whiteboard answers are skipped.
+   */
+  static recordSession(sessionId: string, config: InterviewConfig, analytics: AnalyticsData): { added: number; reviewed: number } {
+    const deck = this.getDeck();
+    let added = 0;
+    let reviewed = 0;
+
+    analytics.questionReviews
+      .filter(review => !review.coding && !review.diagram)
+      .forEach(review => {
+        const index = deck.findIndex(card => normalizeQuestion(card.question) === normalizeQuestion(review.question));
+
+        if (index >= 0) {
+          if (deck[index].lastSessionId === sessionId) return;
+          deck[index] = { ...scheduleCard(deck[index], review.score), lastSessionId: sessionId };
+          reviewed++;
+        } else if (review.score < DRILL_SCORE_THRESHOLD) {
+          const card = createDrillCard(review.question, {
+            category: QuestionBankService.findQuestion(review.question)?.category || config.topic,
+            topic: config.topic,
+            style: config.style,
+            experienceLevel: config.experienceLevel
+          }, review.score);
+          deck.push({ ...card, lastSessionId: sessionId });
+          added++;
+        }
+      });
+
+    if (added > 0 || reviewed > 0) {
+      this.store(deck);
+      console.log(`🗂️ Drill deck updated: ${added} added, ${reviewed} rescheduled`);
+    }
+    return { added, reviewed };
+  }
+
+  static removeCard(id: string): void {
+    this.store(this.getDeck().filter(card => card.id !== id));
+  }
+
+  private static store(deck: DrillCard[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(deck));
+    } catch (error) {
+      console.error('Error saving drill deck:', error);
+    }
+  }
+}
@@ -0,0 +1,185 @@
+import { APIService } from './apiService';
+import { InterviewSession, InterviewStyle, ExperienceLevel } from '../types';
+
+const DB_NAME = 'interview-practice';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+
+// Mirror completed sessions to the Express history store when enabled
+const SERVER_SYNC_ENABLED = import.meta.env.VITE_HISTORY_SYNC === 'true';
+
+export interface HistoryFilter {
+  style?: InterviewStyle;
+  experienceLevel?: ExperienceLevel;
+  search?: string;
+  from?: number;
+  to?: number;
+}
+
+export class HistoryService {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Open (and upgrade if needed) the IndexedDB database
+   */
+  private static openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not supported in this browser'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            store.createIndex('completedAt', 'completedAt');
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a later call to retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private static async runTransaction<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  static generateSessionId(): string {
+    return `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  /**
+   * Save a completed interview session locally (and on the server when sync is enabled)
+   */
+  static async saveSession(session: InterviewSession): Promise<void> {
+    try {
+      await this.runTransaction('readwrite', store => store.put(session));
+      console.log(`💾 Interview session ${session.id} saved to history`);
+    } catch (error) {
+      console.error('Error saving interview session:', error);
+      throw new Error('Failed to save interview session.');
+    }
+
+    if (SERVER_SYNC_ENABLED) {
+      try {
+        await APIService.post('/history', { session });
+      } catch (error) {
+        // Local copy is the source of truth; server sync is best effort
+        console.warn('Failed to sync interview session to server:', error);
+      }
+    }
+  }
+
+  /**
+   * List saved sessions, newest first, optionally filtered
+   */
+  static async getSessions(filter: HistoryFilter = {}): Promise<InterviewSession[]> {
+    let sessions: InterviewSession[] = [];
+
+    try {
+      sessions = await this.runTransaction<InterviewSession[]>('readonly', store => store.getAll());
+    } catch (error) {
+      console.error('Error loading interview history:', error);
+    }
+
+    if (SERVER_SYNC_ENABLED) {
+      try {
+        const response = await APIService.get('/history');
+        const remoteSessions: InterviewSession[] = response.data.sessions || [];
+        const localIds = new Set(sessions.map(session => session.id));
+        sessions = [...sessions, ...remoteSessions.filter(session => !localIds.has(session.id))];
+      } catch (error) {
+        console.warn('Failed to load interview history from server:', error);
+      }
+    }
+
+    return this.applyFilter(sessions, filter).sort((a, b) => b.completedAt - a.completedAt);
+  }
+
+  static async getSession(id: string): Promise<InterviewSession | null> {
+    try {
+      const session = await this.runTransaction<InterviewSession | undefined>('readonly', store => store.get(id));
+      if (session) {
+        return session;
+      }
+    } catch (error) {
+      console.error(`Error loading interview session ${id}:`, error);
+    }
+
+    // getSessions lists synced sessions from other devices, so they have to open from the server too
+    if (SERVER_SYNC_ENABLED) {
+      try {
+        const response = await APIService.get(`/history/${id}`);
+        return response.data.session || null;
+      } catch (error) {
+        console.warn(`Failed to load interview session ${id} from server:`, error);
+      }
+    }
+
+    return null;
+  }
+
+  static async deleteSession(id: string): Promise<void> {
+    try {
+      await this.runTransaction('readwrite', store => store.delete(id));
+    } catch (error) {
+      console.error(`Error deleting interview session ${id}:`, error);
+      throw new Error('Failed to delete interview session.');
+    }
+
+    if (SERVER_SYNC_ENABLED) {
+      try {
+        await APIService.delete(`/history/${id}`);
+      } catch (error) {
+        console.warn('Failed to delete interview session on server:', error);
+      }
+    }
+  }
+
+  private static applyFilter(sessions: InterviewSession[], filter: HistoryFilter): InterviewSession[] {
+    const search = filter.search?.trim().toLowerCase();
+
+    return sessions.filter(session => {
+      if (filter.style && session.config.style !== filter.style) return false;
+      if (filter.experienceLevel && session.config.experienceLevel !== filter.experienceLevel) return false;
+      if (filter.from && session.completedAt < filter.from) return false;
+      if (filter.to && session.completedAt > filter.to) return false;
+
+      if (search) {
+        const haystack = [
+          session.config.topic,
+          session.config.companyName,
+          ...session.responses.map(response => response.question)
+        ].join(' ').toLowerCase();
+
+        if (!haystack.includes(search)) return false;
+      }
+
+      return true;
+    });
+  }
+}
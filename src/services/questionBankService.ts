@@ -0,0 +1,122 @@
+import { BankQuestion, QuestionBankFormat } from '../types';
+import { questionBank } from '../data/questions';
+import { findBankQuestion, mergeQuestions, normalizeQuestionText, parseQuestionBank, serializeQuestionBank, validateBankQuestion } from '../utils/questionBank';
+
+const STORAGE_KEY = 'interview-practice:question-bank';
+const REMOVED_KEY = 'interview-practice:question-bank-removed';
+
+export class QuestionBankService {
+  /**
+   * Built-in questions (with the candidate's edits in place, minus the ones they removed) followed by the ones they added
+   */
+  static getQuestions(): BankQuestion[] {
+    const custom = this.getCustomQuestions();
+    const customById = new Map(custom.map(question => [question.id, question]));
+    const removed = new Set(this.getRemovedIds());
+    const builtIn = questionBank
+      .filter(question => !removed.has(question.id))
+      .map(question => customById.get(question.id) || question);
+    const builtInIds = new Set(questionBank.map(question => question.id));
+
+    return [...builtIn, ...custom.filter(question => !builtInIds.has(question.id))];
+  }
+
+  /**
+   * Questions the candidate added, imported or edited
+   */
+  static getCustomQuestions(): BankQuestion[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return [];
+
+      const parsed: unknown = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed.map(validateBankQuestion) : [];
+    } catch (error) {
+      console.error('Error loading question bank:', error);
+      return [];
+    }
+  }
+
+  static isBuiltIn(id: string): boolean {
+    return questionBank.some(question => question.id === id);
+  }
+
+  static findQuestion(text: string): BankQuestion | undefined {
+    return findBankQuestion(this.getQuestions(), text);
+  }
+
+  static saveQuestion(question: BankQuestion): BankQuestion {
+    const saved = validateBankQuestion(question);
+    const duplicate = this.getQuestions().find(item =>
+      item.id !== saved.id && item.style === saved.style && normalizeQuestionText(item.text) === normalizeQuestionText(saved.text)
+    );
+    if (duplicate) throw new Error('The bank already has this question for this style');
+
+    this.store([...this.getCustomQuestions().filter(item => item.id !== saved.id), saved]);
+    this.storeRemovedIds(this.getRemovedIds().filter(id => id !== saved.id));
+    return saved;
+  }
+
+  static removeQuestions(ids: string[]): void {
+    this.store(this.getCustomQuestions().filter(question => !ids.includes(question.id)));
+    const builtInIds = ids.filter(id => this.isBuiltIn(id));
+    if (builtInIds.length > 0) {
+      this.storeRemovedIds(Array.from(new Set([...this.getRemovedIds(), ...builtInIds])));
+    }
+  }
+
+  /**
+   * Parse a JSON, CSV or Markdown question file and merge it into the bank
+   */
+  static async importQuestions(file: File): Promise<{ added: number; updated: number; skipped: number }> {
+    const incoming = parseQuestionBank(await file.text(), file.name);
+    const { questions, added, updated, skipped } = mergeQuestions(this.getQuestions(), incoming);
+
+    // Keep only what differs from the built-in bank, so built-in questions pick up future fixes
+    const builtIn = new Map(questionBank.map(question => [question.id, JSON.stringify(question)]));
+    this.store(questions.filter(question => builtIn.get(question.id) !== JSON.stringify(question)));
+    this.storeRemovedIds(this.getRemovedIds().filter(id => !questions.some(question => question.id === id)));
+
+    console.log(`📚 Imported question bank: ${added} added, ${updated} updated, ${skipped} skipped`);
+    return { added, updated, skipped };
+  }
+
+  static exportQuestions(format: QuestionBankFormat): string {
+    return serializeQuestionBank(this.getQuestions(), format);
+  }
+
+  /**
+   * Drop every edit, addition and removal and go back to the built-in bank
+   */
+  static resetQuestions(): void {
+    localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(REMOVED_KEY);
+  }
+
+  private static getRemovedIds(): string[] {
+    try {
+      const parsed: unknown = JSON.parse(localStorage.getItem(REMOVED_KEY) || '[]');
+      return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+    } catch (error) {
+      console.error('Error loading removed questions:', error);
+      return [];
+    }
+  }
+
+  private static storeRemovedIds(ids: string[]): void {
+    try {
+      localStorage.setItem(REMOVED_KEY, JSON.stringify(ids));
+    } catch (error) {
+      console.error('Error saving removed questions:', error);
+    }
+  }
+
+  private static store(questions: BankQuestion[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(questions));
+    } catch (error) {
+      console.error('Error saving question bank:', error);
+      throw new Error('Could not save the question bank in this browser');
+    }
+  }
+}
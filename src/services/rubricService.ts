@@ -0,0 +1,55 @@
+import { InterviewStyle, Rubric } from '../types';
+import { defaultRubrics } from '../data/rubrics';
+import { appliesToStyle, validateRubric } from '../utils/rubric';
+
+const STORAGE_KEY = 'interview-practice:rubrics';
+
+export class RubricService {
+  /**
+   * The style's default rubric followed by custom rubrics that apply to the style
+   */
+  static getRubrics(style: InterviewStyle): Rubric[] {
+    return [
+      defaultRubrics[style],
+      ...this.getCustomRubrics().filter(rubric => appliesToStyle(rubric, style))
+    ];
+  }
+
+  static getCustomRubrics(): Rubric[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return [];
+
+      const parsed: unknown = JSON.parse(stored);
+      return Array.isArray(parsed) ? (parsed as Rubric[]) : [];
+    } catch (error) {
+      console.error('Error loading custom rubrics:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Validate and save a custom rubric, replacing any earlier version with the same id
+   */
+  static saveRubric(rubric: Rubric): Rubric {
+    const validated = validateRubric(rubric);
+    const others = this.getCustomRubrics().filter(item => item.id !== validated.id);
+
+    this.store([...others, validated]);
+    console.log(`📏 Saved rubric: ${validated.name}`);
+    return validated;
+  }
+
+  static removeRubric(id: string): void {
+    this.store(this.getCustomRubrics().filter(rubric => rubric.id !== id));
+  }
+
+  private static store(rubrics: Rubric[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(rubrics));
+    } catch (error) {
+      console.error('Error saving rubrics:', error);
+      throw new Error('Could not save the rubric in this browser');
+    }
+  }
+}
@@ -4,6 +4,122 @@ export interface InterviewConfig {
   experienceLevel: ExperienceLevel;
   companyName: string;
   duration: number;
+  resume?: ResumeProfile;
+  jobDescription?: JobDescriptionProfile;
+  coachMode?: boolean;
+  adaptiveDifficulty?: boolean;
+  companyPack?: CompanyPack;
+  /** Rubric answers are graded against; the style's default rubric when not chosen */
+  rubric?: Rubric;
+  /** Rounds to run back to back; set on the config the loop starts from */
+  loop?: LoopRound[];
+  /** Where a round sits in its loop and what was said in earlier rounds */
+  loopContext?: LoopContext;
+  persona?: InterviewerPersonaId;
+  /** Drill sessions ask only the due cards from this list, in order */
+  drill?: DrillCard[];
+  /** Follow-ups the interviewer may ask on one question before moving on; 0 turns follow-ups off */
+  maxFollowUpDepth?: number;
+}
+
+export type InterviewerPersonaId = 'friendly' | 'skeptical' | 'rapid-fire' | 'silent-note-taker' | 'hostile-bar-raiser';
+
+export type FollowUpAggressiveness = 'low' | 'medium' | 'high';
+
+/**
+ * How a persona sounds through browser TTS; voiceHints are matched against installed voice names
+ */
+export interface PersonaVoice {
+  rate: number;
+  pitch: number;
+  volume: number;
+  voiceHints: string[];
+}
+
+/**
+ * Client-side description of an interviewer persona. Prompt templates live with the server agents.
+ */
+export interface InterviewerPersona {
+  id: InterviewerPersonaId;
+  name: string;
+  description: string;
+  followUpAggressiveness: FollowUpAggressiveness;
+  voice: PersonaVoice;
+  /** Seconds of answering before the interviewer cuts in; omitted for personas that let you finish */
+  interruptAfterSeconds?: number;
+  interjections: string[];
+}
+
+export interface LoopRound {
+  name: string;
+  style: InterviewStyle;
+  duration: number;
+}
+
+export interface LoopContext {
+  roundNumber: number;
+  totalRounds: number;
+  roundName: string;
+  previousRounds: PriorRoundContext[];
+}
+
+/**
+ * Summary of an earlier round that later interviewers can refer back to
+ */
+export interface PriorRoundContext {
+  name: string;
+  style: InterviewStyle;
+  score: number;
+  highlights: { question: string; response: string }[];
+}
+
+/**
+ * Shareable description of how a specific company interviews, authored as JSON or YAML
+ */
+export interface CompanyPack {
+  id: string;
+  name: string;
+  description?: string;
+  values: string[];
+  leadershipPrinciples: string[];
+  rounds: CompanyRound[];
+  questionStyles: string[];
+  questions: CompanyPackQuestion[];
+  rubric: CompanyRubricCriterion[];
+}
+
+export interface CompanyRound {
+  name: string;
+  style: InterviewStyle;
+  focus?: string;
+}
+
+export interface CompanyPackQuestion {
+  text: string;
+  style: InterviewStyle;
+  difficulty?: Difficulty;
+  category?: string;
+}
+
+export interface CompanyRubricCriterion {
+  name: string;
+  description: string;
+  weight: number;
+}
+
+export interface ResumeProfile {
+  fileName?: string;
+  summary: string;
+  skills: string[];
+  projects: string[];
+  experience: string[];
+}
+
+export interface JobDescriptionProfile {
+  title?: string;
+  skills: string[];
+  requirements: string[];
+  responsibilities: string[];
 }
 
 export type InterviewStyle = 
@@ -25,35 +141,514 @@ export interface Question {
   text: string;
   followUp?: string[];
   category: string;
-  difficulty: 'easy' | 'medium' | 'hard';
+  difficulty: Difficulty;
+  exemplar?: Pick<ExemplarAnswer, 'answer' | 'keyConcepts'>;
+}
+
+/**
+ * Question bank entry: a question plus where it applies and the tags used to organize the bank
+ */
+export interface BankQuestion extends Question {
+  style: InterviewStyle;
+  /** Omitted when the question suits every experience level */
+  experienceLevel?: ExperienceLevel;
+  tags?: string[];
 }
 
+export type QuestionBankFormat = 'json' | 'csv' | 'markdown';
+
+/**
+ * What a strong answer looks like, either curated in the question bank or generated for the candidate's level
+ */
+export interface ExemplarAnswer {
+  answer: string;
+  keyConcepts: string[];
+  source: 'question-bank' | 'llm';
+}
+
+export interface ConceptCoverage {
+  covered: string[];
+  missed: string[];
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
 export interface InterviewResponse {
   questionId: string;
   question: string;
   response: string;
   timestamp: number;
   duration: number;
+  coding?: CodingSubmission;
+  diagram?: SystemDesignDiagram;
+  liveFeedback?: LiveFeedback;
+  attempts?: AnswerAttempt[];
+  difficulty?: Difficulty;
+  delivery?: DeliveryMetrics;
+  exemplar?: ExemplarAnswer;
+  /** Case exhibits revealed with this question */
+  exhibits?: CaseExhibit[];
+  mathChecks?: CaseMathCheck[];
+  /** Set on follow-up answers: the main question they drill into and how many follow-ups deep they are */
+  parentQuestionId?: string;
+  followUpDepth?: number;
+}
+
+/**
+ * How a spoken answer was delivered, measured from the transcript and the microphone level stream
+ */
+export interface DeliveryMetrics {
+  wordCount: number;
+  durationMs: number;
+  wordsPerMinute: number;
+  fillerCount: number;
+  fillers: Record<string, number>;
+  /** Pause and talk-time figures are only present when an audio level stream was available */
+  longPauses?: number;
+  longestPauseMs?: number;
+  talkTimeRatio?: number;
+}
+
+export interface DeliverySummary {
+  averageWpm: number;
+  fillersPerMinute: number;
+  totalFillers: number;
+  topFillers: { filler: string; count: number }[];
+  longPauses?: number;
+  talkTimeRatio?: number;
+}
+
+export interface LiveFeedback {
+  score: number;
+  strength: string;
+  improvement: string;
+  /** The AI's written feedback on the whole answer; offline feedback has none */
+  summary?: string;
+  source: 'ai' | 'offline';
+}
+
+/**
+ * An earlier answer to the same question, kept when the candidate retries in coach mode
+ */
+export interface AnswerAttempt {
+  response: string;
+  timestamp: number;
+  liveFeedback?: LiveFeedback;
+}
+
+export type DiagramNodeKind = 'client' | 'loadBalancer' | 'service' | 'database' | 'cache' | 'queue' | 'storage' | 'external';
+
+export interface DiagramNode {
+  id: string;
+  kind: DiagramNodeKind;
+  label: string;
+  x: number;
+  y: number;
+}
+
+export interface DiagramEdge {
+  id: string;
+  from: string;
+  to: string;
+  label: string;
+}
+
+export interface SystemDesignDiagram {
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+export interface DesignReview {
+  components: string;
+  dataFlow: string;
+  scaling: string;
+  score: number;
+}
+
+export type StarComponent = 'situation' | 'task' | 'action' | 'result';
+
+export type StarStrength = 'strong' | 'weak' | 'missing';
+
+export interface StarSegment {
+  strength: StarStrength;
+  excerpt: string;
+  feedback: string;
+}
+
+export interface StarAnalysis {
+  situation: StarSegment;
+  task: StarSegment;
+  action: StarSegment;
+  result: StarSegment;
+  score: number;
+  missing: StarComponent[];
+  weak: StarComponent[];
+}
+
+export type CodingLanguage = 'javascript' | 'typescript';
+
+export interface CodingTestCase {
+  args: unknown[];
+  expected: unknown;
+}
+
+export interface CodingChallenge {
+  id: string;
+  title: string;
+  prompt: string;
+  functionName: string;
+  difficulty: Difficulty;
+  experienceLevels: ExperienceLevel[];
+  starterCode: Record<CodingLanguage, string>;
+  examples: CodingTestCase[];
+  hiddenTests: CodingTestCase[];
+}
+
+export interface CodingTestResult {
+  index: number;
+  passed: boolean;
+  input: string;
+  expected: string;
+  actual?: string;
+  error?: string;
+  runtimeMs: number;
+}
+
+export interface CodingSubmission {
+  challengeId: string;
+  language: CodingLanguage;
+  code: string;
+  results: CodingTestResult[];
+  passedCount: number;
+  totalCount: number;
+  runtimeMs: number;
+  logs?: string[];
+  timedOut?: boolean;
+  error?: string;
+}
+
+export interface CodingAnalysis {
+  correctness: number;
+  codeQuality: number;
+  testsPassed: number;
+  testsTotal: number;
+  averageRuntimeMs: number;
+}
+
+/**
+ * A compensation package on the table in a salary negotiation
+ */
+export interface NegotiationOffer {
+  base: number;
+  bonusPercent: number;
+  /** Annual equity value */
+  equity: number;
+  signOn: number;
+  /** Weeks from the offer until the start date */
+  startInWeeks: number;
+}
+
+export type NegotiationStatus = 'open' | 'final-offer' | 'accepted' | 'declined' | 'rescinded';
+
+export type ConcessionStrategy = 'firm' | 'balanced' | 'flexible';
+
+/**
+ * What the recruiter knows and the candidate does not: the budget band, where they walk away and how readily they concede
+ */
+export interface NegotiationScenario {
+  strategy: ConcessionStrategy;
+  baseBand: { min: number; max: number };
+  maxBonusPercent: number;
+  maxEquity: number;
+  maxSignOn: number;
+  maxStartInWeeks: number;
+  /** First-year value beyond which the recruiter stops negotiating */
+  walkAwayValue: number;
+  /** Turns of back-and-forth before the recruiter makes a final offer */
+  patience: number;
+}
+
+export interface NegotiationTurn {
+  candidateMessage: string;
+  recruiterReply: string;
+  offer: NegotiationOffer;
+  status: NegotiationStatus;
+}
+
+export interface NegotiationState {
+  scenario: NegotiationScenario;
+  initialOffer: NegotiationOffer;
+  offer: NegotiationOffer;
+  status: NegotiationStatus;
+  /** The recruiter's latest message, which is what the candidate answers next */
+  recruiterMessage: string;
+  turns: NegotiationTurn[];
+  /** Consecutive demands beyond the walk-away point */
+  overreachCount: number;
+}
+
+export interface NegotiationSummary {
+  status: NegotiationStatus;
+  strategy: ConcessionStrategy;
+  initialOffer: NegotiationOffer;
+  finalOffer: NegotiationOffer;
+  /** The best package the recruiter could have agreed to, revealed after the interview */
+  maxOffer: NegotiationOffer;
+  initialValue: number;
+  finalValue: number;
+  maxValue: number;
+  /** Share (0-100) of the room between the opening offer and the hidden maximum that the candidate won; 0 without a deal */
+  capturePercent: number;
+  turns: NegotiationTurn[];
+}
+
+export type CaseExhibitChart = 'table' | 'bar' | 'line';
+
+/**
+ * Data the interviewer can hand over during a case. Bar and line charts plot the first column against the second.
+ */
+export interface CaseExhibit {
+  id: string;
+  title: string;
+  chart: CaseExhibitChart;
+  columns: string[];
+  rows: (string | number)[][];
+  /** Words in a candidate's request that should reveal this exhibit, e.g. "costs" or "market size" */
+  keywords: string[];
+  /** What the interviewer asks once the exhibit is on the table */
+  prompt: string;
+  note?: string;
+}
+
+/**
+ * A figure the candidate is expected to work out from the exhibits, for checking their math
+ */
+export interface CaseCalculation {
+  label: string;
+  value: number;
+  /** Words that show a sentence is about this figure */
+  keywords: string[];
+  unit?: '%';
+}
+
+export interface CaseStudy {
+  id: string;
+  title: string;
+  prompt: string;
+  experienceLevels: ExperienceLevel[];
+  exhibits: CaseExhibit[];
+  calculations: CaseCalculation[];
+}
+
+export type CaseStage = 'structure' | 'analysis' | 'recommendation' | 'complete';
+
+export interface CaseSessionState {
+  caseStudy: CaseStudy;
+  stage: CaseStage;
+  /** Exhibit ids in the order they were shown */
+  revealed: string[];
+  /** Exhibits shown because the candidate asked for the data */
+  requested: string[];
+  /** Exhibits handed over with the current message */
+  latest: string[];
+  interviewerMessage: string;
+}
+
+export interface CaseMathCheck {
+  /** The sentence or equation the number was taken from */
+  statement: string;
+  stated: number;
+  expected: number;
+  correct: boolean;
+  /** Which expected figure was checked; absent for equations checked on their own arithmetic */
+  label?: string;
+  unit?: '%';
+}
+
+export interface CasePhaseScore {
+  score: number;
+  feedback: string;
+  signals: string[];
+}
+
+export interface CaseStudySummary {
+  caseId: string;
+  title: string;
+  structuring: CasePhaseScore;
+  hypothesis: CasePhaseScore;
+  recommendation: CasePhaseScore;
+  exhibitsRequested: number;
+  exhibitsTotal: number;
+  mathChecks: CaseMathCheck[];
+}
+
+export type ResponseDimension = 'clarity' | 'structure' | 'technical' | 'communication' | 'confidence';
+
+/**
+ * Descriptor for one band of a rubric criterion, e.g. what "Meets" looks like for Clarity
+ */
+export interface RubricLevel {
+  label: string;
+  minScore: number;
+  descriptor: string;
+}
+
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  description: string;
+  weight: number;
+  /** Bands ordered from highest to lowest minScore */
+  levels: RubricLevel[];
+  /** Words and phrases that show the criterion in an answer; used by offline grading */
+  keywords: string[];
+  /** Legacy response dimension this criterion feeds, so history and progress trends keep working */
+  dimension?: ResponseDimension;
+}
+
+export interface Rubric {
+  id: string;
+  name: string;
+  description?: string;
+  styles: InterviewStyle[];
+  criteria: RubricCriterion[];
+}
+
+export interface RubricScore {
+  criterionId: string;
+  name: string;
+  weight: number;
+  score: number;
+  level: string;
+  feedback?: string;
 }
 
 export interface AnalyticsData {
   overallScore: number;
   strengths: string[];
   improvements: string[];
-  responseAnalysis: {
-    clarity: number;
-    structure: number;
-    technical: number;
-    communication: number;
-    confidence: number;
-  };
+  responseAnalysis: Record<ResponseDimension, number>;
+  /** Per-criterion scores for the rubric the session was graded against */
+  rubricScores?: RubricScore[];
+  rubricName?: string;
   questionReviews: {
     questionId: string;
     question: string;
     response: string;
     score: number;
     feedback: string;
+    rubricScores?: RubricScore[];
+    coding?: CodingSubmission;
+    codeReview?: {
+      correctness: number;
+      codeQuality: number;
+      feedback: string;
+    };
+    diagram?: SystemDesignDiagram;
+    designReview?: DesignReview;
+    star?: StarAnalysis;
+    liveFeedback?: LiveFeedback;
+    attempts?: AnswerAttempt[];
+    delivery?: DeliveryMetrics;
+    exemplar?: ExemplarAnswer;
+    conceptCoverage?: ConceptCoverage;
+    exhibits?: CaseExhibit[];
+    mathChecks?: CaseMathCheck[];
+    parentQuestionId?: string;
+    followUpDepth?: number;
   }[];
+  codingAnalysis?: CodingAnalysis;
+  negotiation?: NegotiationSummary;
+  caseStudy?: CaseStudySummary;
+  adaptiveDifficulty?: AdaptiveDifficultySummary;
+  delivery?: DeliverySummary;
+  metadata?: AnalyticsMetadata;
+}
+
+export interface DifficultyStep {
+  questionId: string;
+  difficulty: Difficulty;
+  score: number;
 }
 
-export type AppScreen = 'config' | 'interview' | 'analytics';
\ No newline at end of file
+export interface AdaptiveDifficultySummary {
+  path: DifficultyStep[];
+  /** Hardest level answered well; undefined when no answer cleared the bar */
+  ceiling?: Difficulty;
+}
+
+export interface AnalyticsMetadata {
+  generatedAt?: string;
+  analysisMethod?: string;
+  totalResponses?: number;
+  wasEndedEarly?: boolean;
+  completionRate?: number;
+  maxQuestionsCalculated?: number;
+  [key: string]: unknown;
+}
+
+export interface InterviewSession {
+  id: string;
+  config: InterviewConfig;
+  responses: InterviewResponse[];
+  analytics: AnalyticsData;
+  startedAt: number;
+  completedAt: number;
+  /** What the candidate typed in the notes panel during the interview */
+  notes?: string;
+}
+
+export type TranscriptFormat = 'markdown' | 'pdf' | 'html' | 'text';
+
+export interface LoopRoundResult {
+  round: LoopRound;
+  sessionId: string;
+  config: InterviewConfig;
+  responses: InterviewResponse[];
+  analytics: AnalyticsData;
+}
+
+export type HiringRecommendation = 'strong-hire' | 'hire' | 'lean-no-hire' | 'no-hire';
+
+export type RoundVerdict = 'pass' | 'borderline' | 'fail';
+
+export interface HiringCommitteeSummary {
+  recommendation: HiringRecommendation;
+  overallScore: number;
+  justification: string;
+  strengths: string[];
+  concerns: string[];
+  rounds: { name: string; style: InterviewStyle; score: number; verdict: RoundVerdict }[];
+  source: 'ai' | 'offline';
+}
+
+export type AppScreen = 'config' | 'interview' | 'analytics' | 'history' | 'progress' | 'loop-summary' | 'drill' | 'question-bank';
+
+/**
+ * A weak question kept for spaced-repetition practice, scheduled with SM-2
+ */
+export interface DrillCard {
+  id: string;
+  question: string;
+  category: string;
+  topic: string;
+  style: InterviewStyle;
+  experienceLevel: ExperienceLevel;
+  easeFactor: number;
+  /** Days until the next review */
+  interval: number;
+  repetitions: number;
+  dueAt: number;
+  lastScore: number;
+  addedAt: number;
+  lastReviewedAt?: number;
+  /** Session that last added or rescheduled the card, so recording a session twice changes nothing */
+  lastSessionId?: string;
+}
+
+export interface DrillCategorySummary {
+  category: string;
+  total: number;
+  due: number;
+  averageScore: number;
+}
@@ -0,0 +1,18 @@
+import { AdaptiveDifficultySummary, DifficultyStep } from '../types';
+import { DIFFICULTIES } from '../../shared/adaptiveDifficulty.js';
+
+export { DIFFICULTIES, STEP_DOWN_SCORE, STEP_UP_SCORE, getNextDifficulty, getStartingDifficulty } from '../../shared/adaptiveDifficulty.js';
+
+// An answer at or above this score counts as handled when working out the ceiling
+const CEILING_SCORE = 70;
+
+export function summarizeDifficultyPath(path: DifficultyStep[]): AdaptiveDifficultySummary {
+  const handled = path
+    .filter(step => step.score >= CEILING_SCORE)
+    .map(step => DIFFICULTIES.indexOf(step.difficulty));
+
+  return {
+    path,
+    ceiling: handled.length > 0 ? DIFFICULTIES[Math.max(...handled)] : undefined
+  };
+}
@@ -1,6 +1,39 @@
-import { InterviewConfig, Question, AnalyticsData, InterviewResponse } from '../types';
-import { APIService } from '../services/apiService';
+import { InterviewConfig, Question, AnalyticsData, InterviewResponse, CodingChallenge, CodingSubmission, CodingAnalysis, SystemDesignDiagram, StarAnalysis, StarComponent, LiveFeedback, AnswerAttempt, Difficulty, AdaptiveDifficultySummary, DeliveryMetrics, RubricCriterion, RubricScore, DrillCard, BankQuestion, NegotiationOffer, NegotiationState, CaseExhibit, CaseSessionState } from '../types';
+import { APIService, AnalyticsStreamUpdate } from '../services/apiService';
 import { browserTTS } from './speechSynthesis';
+import { assessCodeQuality, getCorrectnessScore } from './codeQuality';
+import { isDiagramEmpty, reviewDiagram } from './diagram';
+import { analyzeStar, getStarLabel, summarizeStar } from './starAnalyzer';
+import { DIFFICULTIES, getNextDifficulty, getStartingDifficulty, summarizeDifficultyPath } from './adaptiveDifficulty';
+import { PACE_RANGE, summarizeDelivery } from './deliveryMetrics';
+import { getCompanyPackQuestions } from './companyPack';
+import { getLoopCallbackQuestion } from './interviewLoop';
+import { getPersona, getPersonaSpeechOptions } from './interviewerPersona';
+import { analyzeConceptCoverage, findBankExemplar } from './exemplar';
+import { getDueCards } from './spacedRepetition';
+import { getDefaultRubric, getRubricLevel, getWeightedRubricScore, toResponseAnalysis, toRubricScore } from './rubric';
+import { getInterviewQuestions } from './questionBank';
+import { QuestionBankService } from '../services/questionBankService';
+import { MAX_NEGOTIATION_TURNS, createNegotiation, isNegotiationClosed, respondToCandidate, summarizeNegotiation } from './negotiation';
+import { getBankFollowUp, getMaxFollowUpDepth, shouldFollowUp } from './followUp';
+import { advanceCase, analyzeCaseStudy, checkCaseMath, createCaseSession, getCaseTurnCount, getLatestExhibits, getRevealedExhibits, isCaseComplete } from './caseStudy';
+
+interface ActiveFollowUp {
+  question: string;
+  parentQuestionId: string;
+  depth: number;
+}
+
+/**
+ * A follow-up decided on after an answer, written when the next question is asked
+ */
+interface PendingFollowUp {
+  parentQuestionId: string;
+  depth: number;
+  /** The question and answer being drilled into */
+  question: string;
+  answer: string;
+}
 
 export class AIInterviewSimulator {
   private config: InterviewConfig;
@@ -14,9 +47,27 @@ export class AIInterviewSimulator {
   private enableTTS: boolean = false;
   private onTTSStart?: () => void;
   private onTTSEnd?: () => void;
+  private maxQuestionsOverride?: number;
+  private pendingAttempts: AnswerAttempt[] = [];
+  private currentDifficulty?: Difficulty;
+  private adaptiveFallbackQuestions: { text: string; difficulty: Difficulty }[] = [];
+  private drillCards: DrillCard[];
+  private questionBank: BankQuestion[];
+  private notes = '';
+  private negotiation: NegotiationState | null;
+  // State before the last candidate turn, so a coach-mode retry can take the turn back
+  private previousNegotiation: NegotiationState | null = null;
+  private caseSession: CaseSessionState | null;
+  private previousCaseSession: CaseSessionState | null = null;
+  // Follow-ups drill into a main question without using up one of the session's questions
+  private activeFollowUp: ActiveFollowUp | null = null;
+  private pendingFollowUp: PendingFollowUp | null = null;
+  // Aborted by cancelPendingRequests when the screen waiting on a streamed request goes away
+  private requestController = new AbortController();
 
   constructor(config: InterviewConfig, enableTTS: boolean = false) {
-    this.config = config;
+    // Answers are always graded against a rubric, so resolve the style's default up front for the backend too
+    this.config = config.rubric ? config : { ...config, rubric: getDefaultRubric(config.style) };
     this.currentQuestionIndex = 0;
     this.startTime = Date.now();
     this.responses = [];
@@ -25,6 +76,13 @@ export class AIInterviewSimulator {
     this.nextQuestionCache = null;
     this.isInterviewEnded = false;
     this.enableTTS = enableTTS;
+    // Drill sessions are fixed to the cards that are due when the session starts
+    this.drillCards = config.drill ? getDueCards(config.drill) : [];
+    this.questionBank = QuestionBankService.getQuestions();
+    // Salary negotiations are played against a recruiter with a hidden budget rather than a list of questions
+    this.negotiation = config.style === 'salary-negotiation' && !config.drill ? createNegotiation(this.config) : null;
+    // Case interviews walk through a case with exhibits the interviewer hands over as the candidate asks for data
+    this.caseSession = config.style === 'case-study' && !config.drill ? createCaseSession(this.config) : null;
   }
 
   /**
@@ -58,12 +116,7 @@ export class AIInterviewSimulator {
       
       await browserTTS.speak(
         question,
-        {
-          rate: 0.9,
-          pitch: 1.0,
-          volume: 1.0,
-          lang: 'en-US'
-        },
+        getPersonaSpeechOptions(this.config.persona),
         () => {
           console.log('[AISimulator] TTS started');
           this.onTTSStart?.();
@@ -81,7 +134,23 @@ export class AIInterviewSimulator {
     }
   }
 
-  async getNextQuestion(): Promise<string | null> {
+  /**
+   * Speak an interviewer interjection (e.g. a persona cutting in) in the persona's voice
+   */
+  speakInterjection(text: string): void {
+    if (!this.enableTTS) return;
+
+    this.speakQuestion(text).catch(error => {
+      console.error('Error speaking interjection:', error);
+    });
+  }
+
+  /**
+   * onPartial, when given, receives a generated question as it is written so far
+   */
+  async getNextQuestion(onPartial?: (text: string) => void): Promise<string | null> {
+    const { signal } = this.requestController;
+
     try {
       // Check if interview has been manually ended
       if (this.isInterviewEnded) {
@@ -89,6 +158,16 @@ export class AIInterviewSimulator {
         return null;
       }
 
+      const followUp = await this.takePendingFollowUp();
+      if (followUp) {
+        if (this.enableTTS) {
+          this.speakQuestion(followUp).catch(error => {
+            console.error('Error speaking follow-up question:', error);
+          });
+        }
+        return followUp;
+      }
+
       // Calculate maximum questions based on duration with proper scaling
       const maxQuestions = this.calculateMaxQuestions();
       console.log(`📊 Question ${this.currentQuestionIndex + 1} of ${maxQuestions} (Duration: ${this.config.duration} minutes)`);
@@ -110,8 +189,26 @@ export class AIInterviewSimulator {
 
       let question: string | null = null;
 
-      // Use cached question if available
-      if (this.nextQuestionCache) {
+      if (this.negotiation) {
+        if (isNegotiationClosed(this.negotiation)) {
+          console.log(`🤝 Negotiation ${this.negotiation.status}`);
+          return null;
+        }
+        question = this.negotiation.recruiterMessage;
+        this.generatedQuestions.push(question);
+      } else if (this.caseSession) {
+        if (isCaseComplete(this.caseSession)) {
+          console.log('📊 Case complete');
+          return null;
+        }
+        question = this.caseSession.interviewerMessage;
+        this.generatedQuestions.push(question);
+      } else if (this.config.drill) {
+        question = this.drillCards[this.currentQuestionIndex].question;
+        console.log(`🗂️ Drill card ${this.currentQuestionIndex + 1} of ${this.drillCards.length}`);
+        this.generatedQuestions.push(question);
+      } else if (this.nextQuestionCache) {
+        // Use cached question if available
         console.log('✅ Using cached next question');
         question = this.nextQuestionCache;
         this.nextQuestionCache = null;
@@ -121,21 +218,29 @@ export class AIInterviewSimulator {
         const startTime = Date.now();
         
         try {
-          question = await APIService.generateQuestion({
+          const result = await APIService.streamQuestion({
             config: this.config,
             previousQuestions: this.generatedQuestions,
             previousResponses: this.responses,
             questionNumber: this.currentQuestionIndex + 1
-          });
+          }, onPartial, signal);
+          question = result.question;
+          this.currentDifficulty = result.difficulty;
 
           const duration = Date.now() - startTime;
-          console.log(`✅ Agentic question received in ${duration}ms`);
+          console.log(`✅ Agentic question received in ${duration}ms${result.difficulty ? ` (${result.difficulty})` : ''}`);
 
           this.generatedQuestions.push(question);
           
-          // Pre-generate next question in background if not the last question
-          this.preGenerateNextQuestion();
+          // Pre-generate next question in background if not the last question.
+          // Adaptive questions, and personas that follow up on answers, depend on the answer to this one,
+          // so they can't be generated ahead.
+          const followsUp = getPersona(this.config.persona)?.followUpAggressiveness;
+          if (!this.config.adaptiveDifficulty && (!followsUp || followsUp === 'low')) {
+            this.preGenerateNextQuestion();
+          }
         } catch (error) {
+          if (signal.aborted) throw error;
           console.error('❌ Error getting question from agentic framework:', error);
           console.log('🔄 Falling back to predefined questions with TTS');
           this.isUsingLLM = false;
@@ -156,6 +261,8 @@ export class AIInterviewSimulator {
       
       return question;
     } catch (error) {
+      // Cancelled, not failed: stay online for whoever uses the simulator next
+      if (signal.aborted) throw error;
       console.error('❌ Error in getNextQuestion:', error);
       console.log('🔄 Falling back to predefined questions with TTS');
       // Fallback to predefined questions if LLM fails
@@ -177,6 +284,22 @@ export class AIInterviewSimulator {
    * Calculate maximum questions based on duration with proper scaling
    */
   private calculateMaxQuestions(): number {
+    if (this.maxQuestionsOverride) {
+      return this.maxQuestionsOverride;
+    }
+
+    if (this.config.drill) {
+      return this.drillCards.length;
+    }
+
+    if (this.negotiation) {
+      return MAX_NEGOTIATION_TURNS;
+    }
+
+    if (this.caseSession) {
+      return getCaseTurnCount(this.caseSession.caseStudy);
+    }
+
     // More sophisticated calculation based on duration
     // Assumes roughly 3-8 minutes per question depending on complexity and experience level
     
@@ -248,9 +371,9 @@ export class AIInterviewSimulator {
           previousQuestions: this.generatedQuestions,
           previousResponses: this.responses,
           questionNumber: this.currentQuestionIndex + 2
-        }).then(question => {
+        }).then(result => {
           if (!this.isInterviewEnded) { // Only cache if interview hasn't ended
-            this.nextQuestionCache = question;
+            this.nextQuestionCache = result.question;
             console.log('✅ Next question pre-generated and cached');
           }
         }).catch(error => {
@@ -264,90 +387,21 @@ export class AIInterviewSimulator {
   }
 
   private getFallbackQuestion(): string | null {
-    const fallbackQuestions = {
-      technical: [
-        "Explain the difference between synchronous and asynchronous programming.",
-        "How would you optimize the performance of a web application?",
-        "Describe your approach to debugging a complex issue.",
-        "What are the key principles of good software design?",
-        "How do you ensure code quality in your projects?",
-        "Explain the concept of design patterns and give examples.",
-        "How do you handle error handling in your applications?",
-        "Describe your experience with testing methodologies.",
-        "What are the security considerations in web development?",
-        "How do you approach code reviews and collaboration?",
-        "Explain the importance of documentation in software development.",
-        "How do you stay updated with new technologies and trends?",
-        "Describe your experience with version control systems.",
-        "What are the best practices for database design?",
-        "How do you approach performance monitoring and optimization?"
-      ],
-      hr: [
-        "Tell me about yourself and your career goals.",
-        "Why are you interested in this position?",
-        "How do you handle working under pressure?",
-        "What motivates you in your work?",
-        "Where do you see yourself in 5 years?",
-        "Describe your ideal work environment.",
-        "How do you handle feedback and criticism?",
-        "What are your greatest strengths and weaknesses?",
-        "Why are you looking to leave your current position?",
-        "How do you prioritize work-life balance?",
-        "What type of management style works best for you?",
-        "How do you handle conflicts with colleagues?",
-        "What are your salary expectations?",
-        "How do you continue learning and developing professionally?",
-        "What questions do you have about our company?"
-      ],
-      behavioral: [
-        "Tell me about a challenging project you worked on.",
-        "Describe a time when you had to work with a difficult team member.",
-        "Give me an example of when you had to learn something new quickly.",
-        "Tell me about a time you failed and how you handled it.",
-        "Describe a situation where you had to make a difficult decision.",
-        "Tell me about a time you had to meet a tight deadline.",
-        "Describe a situation where you had to persuade someone.",
-        "Give me an example of when you showed leadership.",
-        "Tell me about a time you had to adapt to change.",
-        "Describe a situation where you went above and beyond.",
-        "Tell me about a time you had to handle multiple priorities.",
-        "Describe a situation where you had to work with limited resources.",
-        "Give me an example of when you took initiative.",
-        "Tell me about a time you had to give difficult feedback.",
-        "Describe a situation where you had to solve a complex problem."
-      ],
-      'salary-negotiation': [
-        "What are your salary expectations for this role?",
-        "How do you evaluate the total compensation package?",
-        "What factors are most important to you besides salary?",
-        "How flexible are you with your compensation requirements?",
-        "What would make you accept an offer below your expectations?",
-        "How do you research market rates for your position?",
-        "What benefits are most valuable to you?",
-        "How do you approach negotiating equity or stock options?",
-        "What's your timeline for making a decision on an offer?",
-        "How do you balance salary with career growth opportunities?"
-      ],
-      'case-study': [
-        "How would you approach designing a system for handling high traffic?",
-        "Walk me through how you would solve a performance issue.",
-        "Describe your process for making technical decisions.",
-        "How would you handle a critical production incident?",
-        "What's your approach to evaluating new technologies?",
-        "How would you design a scalable database architecture?",
-        "Describe how you would implement a caching strategy.",
-        "How would you approach migrating a legacy system?",
-        "What's your process for conducting a technical audit?",
-        "How would you design a monitoring and alerting system?",
-        "Describe your approach to capacity planning.",
-        "How would you implement a disaster recovery plan?",
-        "What's your strategy for managing technical debt?",
-        "How would you approach API design and versioning?",
-        "Describe your process for security assessment and implementation."
-      ]
-    };
-    
-    const questions = fallbackQuestions[this.config.style] || fallbackQuestions.technical;
+    if (this.config.adaptiveDifficulty) {
+      return this.getAdaptiveFallbackQuestion();
+    }
+
+    // A selected company pack's questions come first, then the question bank's for the style and level
+    const questions = [
+      ...this.getCompanyPackQuestions(),
+      ...getInterviewQuestions(this.questionBank, this.config.style, this.config.experienceLevel)
+    ].map(item => item.text);
+
+    // Later rounds of a loop pick up on an earlier answer right after the opening question
+    const callbackQuestion = getLoopCallbackQuestion(this.config);
+    if (callbackQuestion) {
+      questions.splice(1, 0, callbackQuestion);
+    }
     
     if (this.currentQuestionIndex >= questions.length) {
       console.log('🏁 Exhausted all fallback questions');
@@ -359,55 +413,280 @@ export class AIInterviewSimulator {
     return question;
   }
 
-  async submitResponse(response: string): Promise<void> {
-    const currentQuestion = this.generatedQuestions[this.currentQuestionIndex] || 
+  /**
+   * Pick an unused question bank entry at the target difficulty, preferring the candidate's own level.
+   * Memoized per question index so the question stays the same if asked for again (e.g. on submit or retry).
+   */
+  private getAdaptiveFallbackQuestion(): string | null {
+    const existing = this.adaptiveFallbackQuestions[this.currentQuestionIndex];
+    if (existing) {
+      this.currentDifficulty = existing.difficulty;
+      return existing.text;
+    }
+
+    const target = this.getTargetDifficulty();
+    const asked = new Set([...this.generatedQuestions, ...this.adaptiveFallbackQuestions.map(item => item.text)]);
+    const levelQuestions = getInterviewQuestions(this.questionBank, this.config.style, this.config.experienceLevel);
+    const otherQuestions = this.questionBank.filter(item => item.style === this.config.style && !levelQuestions.includes(item));
+    const candidates = [...this.getCompanyPackQuestions(), ...levelQuestions, ...otherQuestions].filter(item => !asked.has(item.text));
+
+    // Fall back to the nearest difficulty when the bank has nothing left at the target
+    const byDistance = [...DIFFICULTIES].sort((a, b) =>
+      Math.abs(DIFFICULTIES.indexOf(a) - DIFFICULTIES.indexOf(target)) - Math.abs(DIFFICULTIES.indexOf(b) - DIFFICULTIES.indexOf(target))
+    );
+    for (const difficulty of byDistance) {
+      const match = candidates.find(item => item.difficulty === difficulty);
+      if (match) {
+        this.adaptiveFallbackQuestions[this.currentQuestionIndex] = { text: match.text, difficulty };
+        this.currentDifficulty = difficulty;
+        console.log(`📈 Adaptive fallback question at ${difficulty} difficulty (target ${target})`);
+        return match.text;
+      }
+    }
+
+    console.log('🏁 Exhausted adaptive question bank');
+    return null;
+  }
+
+  private getCompanyPackQuestions(): Question[] {
+    return this.config.companyPack ? getCompanyPackQuestions(this.config.companyPack, this.config.style) : [];
+  }
+
+  private getTargetDifficulty(): Difficulty {
+    const latest = this.responses[this.responses.length - 1];
+    if (!latest?.difficulty) return getStartingDifficulty(this.config.experienceLevel);
+    return getNextDifficulty(latest.difficulty, this.scoreResponse(latest));
+  }
+
+  /**
+   * Quick score for a single answer: coach feedback when available, otherwise the offline heuristic
+   */
+  private scoreResponse(response: InterviewResponse): number {
+    return response.liveFeedback?.score ?? this.generateOfflineFeedback(response).score;
+  }
+
+  async submitResponse(response: string, attachments: { diagram?: SystemDesignDiagram } = {}): Promise<void> {
+    const followUp = this.activeFollowUp;
+    const currentQuestion = followUp?.question ||
+                           this.generatedQuestions[this.currentQuestionIndex] || 
                            this.getFallbackQuestion();
     
     if (!currentQuestion) return;
 
     const responseData: InterviewResponse = {
-      questionId: `q${this.currentQuestionIndex + 1}`,
+      questionId: followUp ? `${followUp.parentQuestionId}-f${followUp.depth}` : `q${this.currentQuestionIndex + 1}`,
       question: currentQuestion,
       response,
       timestamp: Date.now(),
-      duration: Date.now() - this.startTime
+      duration: Date.now() - this.startTime,
+      ...(attachments.diagram && !isDiagramEmpty(attachments.diagram) && { diagram: attachments.diagram }),
+      ...(this.pendingAttempts.length > 0 && { attempts: this.pendingAttempts }),
+      ...(!followUp && this.currentDifficulty && { difficulty: this.currentDifficulty }),
+      ...(followUp && { parentQuestionId: followUp.parentQuestionId, followUpDepth: followUp.depth }),
+      ...this.getExemplar(currentQuestion),
+      ...this.getCaseAttachments(response)
     };
 
+    this.pendingAttempts = [];
     this.responses.push(responseData);
-    this.currentQuestionIndex++;
+    if (!followUp) {
+      this.currentQuestionIndex++;
+    }
+    this.activeFollowUp = null;
+    this.pendingFollowUp = this.planFollowUp(responseData, followUp);
+
+    if (this.negotiation) {
+      this.previousNegotiation = this.negotiation;
+      this.negotiation = respondToCandidate(this.negotiation, response);
+    }
+
+    if (this.caseSession) {
+      this.previousCaseSession = this.caseSession;
+      this.caseSession = advanceCase(this.caseSession, response);
+    }
 
     // Skip real-time response analysis to improve performance
     // Analysis will be done comprehensively at the end
     console.log('📝 Response submitted, skipping real-time analysis for better performance');
   }
 
-  async generateFollowUp(previousResponse: string): Promise<string | null> {
+  /**
+   * Voice interviews get their questions from the voice agent, so the spoken question is recorded with the answer
+   */
+  recordVoiceResponse(question: string, response: string, delivery?: DeliveryMetrics): void {
+    this.responses.push({
+      questionId: `q${this.responses.length + 1}`,
+      question,
+      response,
+      timestamp: Date.now(),
+      duration: Date.now() - this.startTime,
+      ...(delivery && { delivery }),
+      ...this.getExemplar(question)
+    });
+    this.currentQuestionIndex = this.responses.length;
+  }
+
+  /**
+   * Coach mode: score the most recent answer right away so the candidate can act on it before moving on.
+   * onPartial, when given, receives the AI's written feedback as it arrives.
+   */
+  async getLiveFeedback(onPartial?: (feedback: string) => void): Promise<LiveFeedback | null> {
+    const latest = this.responses[this.responses.length - 1];
+    if (!latest) return null;
+
+    if (this.isUsingLLM) {
+      const { signal } = this.requestController;
+      try {
+        const analysis = await APIService.streamResponseAnalysis({
+          question: latest.question,
+          response: latest.response,
+          config: this.config,
+          diagram: latest.diagram,
+          ...(this.caseSession && { exhibits: this.responses.flatMap(item => item.exhibits || []) })
+        }, onPartial, signal);
+
+        latest.liveFeedback = {
+          score: Math.round(analysis.score),
+          strength: analysis.strengths?.[0] || analysis.feedback,
+          improvement: analysis.improvements?.[0] || analysis.feedback,
+          summary: analysis.feedback,
+          source: 'ai'
+        };
+        return latest.liveFeedback;
+      } catch (error) {
+        if (signal.aborted) throw error;
+        console.error('Error getting live feedback, using offline feedback:', error);
+      }
+    }
+
+    latest.liveFeedback = this.generateOfflineFeedback(latest);
+    return latest.liveFeedback;
+  }
+
+  /**
+   * Coach mode: take back the last answer so the question can be answered again.
+   * The withdrawn answer is kept and stored as an earlier attempt on the next submission.
+   */
+  retryLastResponse(): InterviewResponse | null {
+    const latest = this.responses.pop();
+    if (!latest) return null;
+
+    this.pendingAttempts = [
+      ...(latest.attempts || []),
+      { response: latest.response, timestamp: latest.timestamp, liveFeedback: latest.liveFeedback }
+    ];
+    this.pendingFollowUp = null;
+    if (latest.parentQuestionId) {
+      this.activeFollowUp = { question: latest.question, parentQuestionId: latest.parentQuestionId, depth: latest.followUpDepth || 1 };
+    } else {
+      this.currentQuestionIndex--;
+    }
+    if (this.negotiation && this.previousNegotiation) {
+      this.negotiation = this.previousNegotiation;
+      this.previousNegotiation = null;
+    }
+    if (this.caseSession && this.previousCaseSession) {
+      this.caseSession = this.previousCaseSession;
+      this.previousCaseSession = null;
+    }
+    return latest;
+  }
+
+  /**
+   * Record a coding challenge answer along with its test run
+   */
+  submitCodingResponse(challenge: CodingChallenge, explanation: string, submission: CodingSubmission): void {
+    this.responses.push({
+      questionId: `q${this.currentQuestionIndex + 1}`,
+      question: `${challenge.title}: ${challenge.prompt}`,
+      response: explanation.trim() || 'No explanation given; see code submission.',
+      timestamp: Date.now(),
+      duration: Date.now() - this.startTime,
+      coding: submission
+    });
+    this.currentQuestionIndex++;
+  }
+
+  /**
+   * Fix the number of questions when the question set is known up front (e.g. coding challenges)
+   */
+  setMaxQuestions(count: number): void {
+    this.maxQuestionsOverride = count;
+  }
+
+  private async generateFollowUp(question: string, previousResponse: string): Promise<string | null> {
     if (!this.isUsingLLM) return null;
 
     try {
-      const currentQuestion = this.generatedQuestions[this.currentQuestionIndex - 1];
-      if (!currentQuestion) return null;
-
-      const followUp = await APIService.generateFollowUp({
-        question: currentQuestion,
+      return await APIService.generateFollowUp({
+        question,
         response: previousResponse,
         config: this.config
       });
-
-      // Speak follow-up if TTS is enabled
-      if (followUp && this.enableTTS) {
-        this.speakQuestion(followUp).catch(error => {
-          console.error('Error speaking follow-up question:', error);
-        });
-      }
-
-      return followUp;
     } catch (error) {
       console.error('Error generating follow-up:', error);
       return null;
     }
   }
 
+  /**
+   * After an answer, decide from its quality and the time left whether to probe deeper before the next main question
+   */
+  private planFollowUp(response: InterviewResponse, answered: ActiveFollowUp | null): PendingFollowUp | null {
+    // Scripted sessions (drills, negotiations, cases) run their own conversation
+    if (this.config.drill || this.negotiation || this.caseSession || this.maxQuestionsOverride || this.isInterviewEnded) {
+      return null;
+    }
+
+    const depth = answered ? answered.depth : 0;
+    const probe = shouldFollowUp({
+      answer: response.response,
+      depth,
+      maxDepth: getMaxFollowUpDepth(this.config),
+      remainingMs: this.config.duration * 60 * 1000 - (Date.now() - this.startTime),
+      remainingQuestions: Math.max(0, this.calculateMaxQuestions() - this.currentQuestionIndex),
+      aggressiveness: getPersona(this.config.persona)?.followUpAggressiveness
+    });
+    if (!probe) return null;
+
+    return {
+      question: response.question,
+      answer: response.response,
+      parentQuestionId: answered ? answered.parentQuestionId : response.questionId,
+      depth: depth + 1
+    };
+  }
+
+  /**
+   * The planned follow-up: the bank's own follow-up for the main question when it has one at this depth,
+   * otherwise one generated from the last answer. Null when no follow-up was planned or none could be written.
+   */
+  private async takePendingFollowUp(): Promise<string | null> {
+    const pending = this.pendingFollowUp;
+    this.pendingFollowUp = null;
+    if (!pending) return null;
+
+    const parentQuestion = this.responses.find(item => item.questionId === pending.parentQuestionId)?.question || pending.question;
+    const question = getBankFollowUp(parentQuestion, pending.depth) || await this.generateFollowUp(pending.question, pending.answer);
+    if (!question) return null;
+
+    console.log(`🔍 Follow-up ${pending.depth} on ${pending.parentQuestionId}`);
+    this.activeFollowUp = { question, parentQuestionId: pending.parentQuestionId, depth: pending.depth };
+    return question;
+  }
+
+  // Follow-ups don't count toward completion; they drill into a question already answered
+  private getMainResponseCount(): number {
+    return this.responses.filter(response => !response.parentQuestionId).length;
+  }
+
+  /**
+   * Whether the question being answered is a follow-up, and how deep
+   */
+  getFollowUpDepth(): number {
+    return this.activeFollowUp ? this.activeFollowUp.depth : 0;
+  }
+
   /**
    * Stop any ongoing TTS
    */
@@ -423,13 +702,18 @@ export class AIInterviewSimulator {
   }
 
   isInterviewComplete(): boolean {
-    if (this.isInterviewEnded) {
+    if (this.isInterviewEnded || this.isScenarioOver()) {
       return true;
     }
     
     const maxQuestions = this.calculateMaxQuestions();
     const timeElapsed = Date.now() - this.startTime;
     const maxDuration = this.config.duration * 60 * 1000;
+
+    // A follow-up on the last question is still to come
+    if (this.pendingFollowUp && timeElapsed <= maxDuration) {
+      return false;
+    }
     
     return this.currentQuestionIndex >= maxQuestions || timeElapsed > maxDuration;
   }
@@ -444,32 +728,70 @@ export class AIInterviewSimulator {
     this.stopTTS(); // Stop any ongoing speech
   }
 
+  /**
+   * Abort streamed requests still in flight, e.g. when the screen waiting on them unmounts.
+   * Cancelled calls reject instead of falling back to offline results.
+   */
+  cancelPendingRequests(): void {
+    this.requestController.abort();
+    this.requestController = new AbortController();
+  }
+
   /**
    * Check if interview was ended early
    */
   wasEndedEarly(): boolean {
+    if (this.isScenarioOver()) {
+      return false;
+    }
     const maxQuestions = this.calculateMaxQuestions();
     return this.isInterviewEnded && this.currentQuestionIndex < maxQuestions;
   }
 
+  /**
+   * Negotiations and cases end on their own terms (a deal, a recommendation) rather than after a number of questions
+   */
+  private isScenarioOver(): boolean {
+    return (!!this.negotiation && isNegotiationClosed(this.negotiation)) || (!!this.caseSession && isCaseComplete(this.caseSession));
+  }
+
+  /**
+   * Case exhibits handed over so far, in the order they were shown
+   */
+  getCaseExhibits(): CaseExhibit[] {
+    return this.caseSession ? getRevealedExhibits(this.caseSession) : [];
+  }
+
+  /**
+   * The offer currently on the table in a salary negotiation; the recruiter's limits stay hidden
+   */
+  getNegotiationOffer(): NegotiationOffer | null {
+    return this.negotiation ? this.negotiation.offer : null;
+  }
+
   getProgress(): { current: number; total: number; percentage: number } {
     const maxQuestions = this.calculateMaxQuestions();
-    const current = Math.min(this.currentQuestionIndex + 1, maxQuestions);
+    // A follow-up belongs to the question just answered
+    const current = Math.min(this.currentQuestionIndex + (this.activeFollowUp ? 0 : 1), maxQuestions);
     const percentage = (current / maxQuestions) * 100;
     
     return { current, total: maxQuestions, percentage };
   }
 
-  async generateAnalytics(): Promise<AnalyticsData> {
+  /**
+   * onUpdate, when given, hears about each answer and the overall summary as the analysis agents finish them
+   */
+  async generateAnalytics(onUpdate?: (update: AnalyticsStreamUpdate) => void): Promise<AnalyticsData> {
     if (this.isUsingLLM && this.responses.length > 0) {
+      const { signal } = this.requestController;
       try {
         console.log('🧠 Starting comprehensive agentic analytics generation...');
         const startTime = Date.now();
         
-        const analytics = await APIService.generateAnalytics({
+        const analytics = await APIService.streamAnalytics({
           responses: this.responses,
           config: this.config
-        });
+        }, onUpdate, signal);
         
         const duration = Date.now() - startTime;
         console.log(`✅ Agentic analytics completed in ${duration}ms`);
@@ -477,11 +799,68 @@ export class AIInterviewSimulator {
         // Add early termination info to metadata
         if (analytics.metadata) {
           analytics.metadata.wasEndedEarly = this.wasEndedEarly();
-          analytics.metadata.completionRate = (this.responses.length / this.calculateMaxQuestions()) * 100;
+          analytics.metadata.completionRate = (this.getMainResponseCount() / this.calculateMaxQuestions()) * 100;
+        }
+
+        // Test results are deterministic, so fill in coding scores locally if the backend omitted them
+        if (!analytics.codingAnalysis) {
+          analytics.codingAnalysis = this.calculateCodingAnalysis();
+        }
+
+        if (analytics.rubricScores && !analytics.rubricName) {
+          analytics.rubricName = this.getRubric().name;
+        }
+
+        // Earlier attempts, coach feedback and delivery metrics live only on the client, so attach them to the matching reviews
+        analytics.questionReviews = analytics.questionReviews.map(review => {
+          const response = this.responses.find(item => item.questionId === review.questionId);
+          return response
+            ? {
+              ...review,
+              liveFeedback: response.liveFeedback,
+              attempts: response.attempts,
+              delivery: response.delivery,
+              exhibits: response.exhibits,
+              mathChecks: response.mathChecks,
+              parentQuestionId: response.parentQuestionId,
+              followUpDepth: response.followUpDepth
+            }
+            : review;
+        });
+
+        // Back-fill model answers and concept coverage the backend left out
+        analytics.questionReviews = analytics.questionReviews.map(review => {
+          const exemplar = review.exemplar || this.responses.find(item => item.questionId === review.questionId)?.exemplar;
+          if (!exemplar) return review;
+          return { ...review, exemplar, conceptCoverage: review.conceptCoverage || analyzeConceptCoverage(review.response, exemplar.keyConcepts) };
+        });
+
+        if (!analytics.delivery) {
+          analytics.delivery = this.calculateDeliverySummary();
+        }
+
+        if (!analytics.adaptiveDifficulty) {
+          analytics.adaptiveDifficulty = this.calculateAdaptiveDifficulty(analytics.questionReviews);
+        }
+
+        // Back-fill STAR breakdowns for behavioral answers the backend did not break down
+        if (this.config.style === 'behavioral') {
+          analytics.questionReviews = analytics.questionReviews.map(review =>
+            review.star || review.coding ? review : { ...review, star: analyzeStar(review.response) }
+          );
+        }
+
+        if (this.negotiation) {
+          analytics.negotiation = summarizeNegotiation(this.negotiation);
+        }
+
+        if (this.caseSession) {
+          analytics.caseStudy = analyzeCaseStudy(this.caseSession, this.responses);
         }
         
         return analytics;
       } catch (error) {
+        if (signal.aborted) throw error;
         console.error('Error generating LLM analytics:', error);
       }
     }
@@ -491,36 +870,75 @@ export class AIInterviewSimulator {
   }
 
   private generateFallbackAnalytics(): AnalyticsData {
-    const totalResponses = this.responses.length;
-    
-    const responseAnalysis = {
+    const rubric = this.getRubric();
+    const rubricScores = rubric.criteria.map(criterion => toRubricScore(criterion, this.scoreCriterion(criterion)));
+    const overallScore = getWeightedRubricScore(rubricScores);
+
+    // Dimensions no criterion maps to follow the overall score, except the two that need no rubric input
+    const responseAnalysis = toResponseAnalysis(rubric, rubricScores, {
       clarity: this.calculateClarityScore(),
-      structure: this.calculateStructureScore(),
-      technical: this.calculateTechnicalScore(),
+      structure: overallScore,
+      technical: overallScore,
       communication: this.calculateCommunicationScore(),
-      confidence: this.calculateConfidenceScore()
-    };
-
-    const overallScore = Math.round(
-      Object.values(responseAnalysis).reduce((sum, score) => sum + score, 0) / 5
-    );
+      confidence: overallScore
+    });
 
-    const strengths = this.generateStrengths(responseAnalysis);
-    const improvements = this.generateImprovements(responseAnalysis);
+    const strengths = this.generateStrengths(rubricScores);
+    const improvements = this.generateImprovements(rubricScores);
     const questionReviews = this.generateQuestionReviews();
+    const codingAnalysis = this.calculateCodingAnalysis();
+    const adaptiveDifficulty = this.calculateAdaptiveDifficulty(questionReviews);
+    const delivery = this.calculateDeliverySummary();
+
+    if (codingAnalysis) {
+      if (codingAnalysis.correctness >= 80) strengths.push('Solutions passed most hidden test cases');
+      if (codingAnalysis.correctness < 60) improvements.push('Test your solutions against edge cases before submitting');
+      if (codingAnalysis.codeQuality < 70) improvements.push('Focus on readable code: clear names, shallow nesting, no leftover debugging');
+    }
+
+    const starAnalyses = this.getStarAnalyses();
+    if (starAnalyses.length > 0) {
+      const complete = starAnalyses.filter(star => star.missing.length === 0).length;
+      if (complete === starAnalyses.length) strengths.push('Answers consistently followed the STAR structure');
+
+      // Point at the STAR component most often missing across answers
+      const missingCounts = new Map<StarComponent, number>();
+      starAnalyses.forEach(star => star.missing.forEach(component => {
+        missingCounts.set(component, (missingCounts.get(component) || 0) + 1);
+      }));
+      const [mostMissing] = [...missingCounts.entries()].sort((a, b) => b[1] - a[1]);
+      if (mostMissing) {
+        improvements.push(`${getStarLabel(mostMissing[0])} was missing from ${mostMissing[1]} of ${starAnalyses.length} answers; cover every part of STAR`);
+      }
+    }
+
+    if (delivery) {
+      if (delivery.fillersPerMinute >= 4) improvements.push(`Cut down on filler words (${delivery.fillersPerMinute} per minute); pause silently instead`);
+      if (delivery.averageWpm > PACE_RANGE.max) improvements.push(`Slow down; around ${PACE_RANGE.min}-${PACE_RANGE.max} words per minute is easier to follow`);
+      if (delivery.fillersPerMinute < 2 && delivery.averageWpm >= PACE_RANGE.min && delivery.averageWpm <= PACE_RANGE.max) {
+        strengths.push('Spoke at a steady pace with few filler words');
+      }
+    }
 
     return {
       overallScore,
       strengths,
       improvements,
       responseAnalysis,
+      rubricScores,
+      rubricName: rubric.name,
       questionReviews,
+      ...(codingAnalysis && { codingAnalysis }),
+      ...(adaptiveDifficulty && { adaptiveDifficulty }),
+      ...(delivery && { delivery }),
+      ...(this.negotiation && { negotiation: summarizeNegotiation(this.negotiation) }),
+      ...(this.caseSession && { caseStudy: analyzeCaseStudy(this.caseSession, this.responses) }),
       metadata: {
         generatedAt: new Date().toISOString(),
         analysisMethod: 'fallback',
         totalResponses: this.responses.length,
         wasEndedEarly: this.wasEndedEarly(),
-        completionRate: (this.responses.length / this.calculateMaxQuestions()) * 100,
+        completionRate: (this.getMainResponseCount() / this.calculateMaxQuestions()) * 100,
         maxQuestionsCalculated: this.calculateMaxQuestions(),
         ttsEnabled: this.enableTTS,
         ttsSupported: browserTTS.isSupported()
@@ -534,8 +952,36 @@ export class AIInterviewSimulator {
     return Math.round(clarityScore);
   }
 
-  private calculateStructureScore(): number {
-    const structureKeywords = ['first', 'second', 'third', 'because', 'therefore', 'however', 'additionally'];
+  private getRubric() {
+    return this.config.rubric || getDefaultRubric(this.config.style);
+  }
+
+  /**
+   * Offline score for one rubric criterion, using the heuristic for its response dimension and the criterion's own keywords
+   */
+  private scoreCriterion(criterion: RubricCriterion): number {
+    switch (criterion.dimension) {
+      case 'clarity':
+        return this.calculateClarityScore();
+      case 'communication':
+        return this.calculateCommunicationScore();
+      case 'structure':
+        return this.calculateStructureScore(criterion.keywords);
+      case 'confidence':
+        return this.calculateConfidenceScore(criterion.keywords);
+      default:
+        return this.calculateKeywordScore(criterion.keywords);
+    }
+  }
+
+  private calculateStructureScore(structureKeywords: string[]): number {
+    // Behavioral answers are judged on STAR coverage rather than connective words
+    const starAnalyses = this.getStarAnalyses();
+    if (starAnalyses.length > 0) {
+      const average = starAnalyses.reduce((sum, star) => sum + star.score, 0) / starAnalyses.length;
+      return Math.round(40 + average * 0.55);
+    }
+
     let structuredResponses = 0;
 
     this.responses.forEach(response => {
@@ -549,21 +995,20 @@ export class AIInterviewSimulator {
     return Math.min(95, structureScore);
   }
 
-  private calculateTechnicalScore(): number {
-    if (this.config.style !== 'technical') return 75;
+  private calculateKeywordScore(keywords: string[]): number {
+    if (keywords.length === 0) return 75;
 
-    const technicalKeywords = ['function', 'variable', 'class', 'method', 'algorithm', 'data structure', 'performance', 'optimization'];
-    let technicalResponses = 0;
+    let matchingResponses = 0;
 
     this.responses.forEach(response => {
-      const hasTechnical = technicalKeywords.some(keyword => 
+      const hasKeyword = keywords.some(keyword => 
         response.response.toLowerCase().includes(keyword)
       );
-      if (hasTechnical) technicalResponses++;
+      if (hasKeyword) matchingResponses++;
     });
 
-    const technicalScore = Math.round(60 + (technicalResponses / this.responses.length) * 35);
-    return Math.min(95, technicalScore);
+    const keywordScore = Math.round(60 + (matchingResponses / this.responses.length) * 35);
+    return Math.min(95, keywordScore);
   }
 
   private calculateCommunicationScore(): number {
@@ -572,8 +1017,7 @@ export class AIInterviewSimulator {
     return Math.round(communicationScore);
   }
 
-  private calculateConfidenceScore(): number {
-    const confidenceIndicators = ['definitely', 'certainly', 'confident', 'sure', 'absolutely', 'clearly'];
+  private calculateConfidenceScore(confidenceIndicators: string[]): number {
     const uncertaintyIndicators = ['maybe', 'perhaps', 'might', 'not sure', 'think', 'probably'];
     
     let confidencePoints = 0;
@@ -592,17 +1036,17 @@ export class AIInterviewSimulator {
     return Math.round(confidenceScore);
   }
 
-  private generateStrengths(analysis: any): string[] {
-    const strengths = [];
-    
-    if (analysis.clarity >= 80) strengths.push("Clear and articulate communication");
-    if (analysis.structure >= 80) strengths.push("Well-structured responses using logical flow");
-    if (analysis.technical >= 80) strengths.push("Strong technical knowledge and accuracy");
-    if (analysis.communication >= 80) strengths.push("Excellent communication skills");
-    if (analysis.confidence >= 80) strengths.push("Confident and decisive responses");
+  private generateStrengths(rubricScores: RubricScore[]): string[] {
+    const strengths = rubricScores
+      .filter(item => item.score >= 80)
+      .map(item => {
+        const criterion = this.getRubric().criteria.find(entry => entry.id === item.criterionId);
+        const descriptor = criterion && getRubricLevel(criterion, item.score)?.descriptor;
+        return `${item.name}: ${descriptor || criterion?.description || 'a consistent strength'}`;
+      });
     
     // Add completion-based strengths
-    const completionRate = (this.responses.length / this.calculateMaxQuestions()) * 100;
+    const completionRate = (this.getMainResponseCount() / this.calculateMaxQuestions()) * 100;
     if (completionRate >= 80) {
       strengths.push("Completed most of the interview successfully");
     }
@@ -610,14 +1054,15 @@ export class AIInterviewSimulator {
     return strengths.length > 0 ? strengths : ["Shows enthusiasm and willingness to learn"];
   }
 
-  private generateImprovements(analysis: any): string[] {
-    const improvements = [];
-    
-    if (analysis.clarity < 70) improvements.push("Work on articulating thoughts more clearly and concisely");
-    if (analysis.structure < 70) improvements.push("Structure responses using frameworks like STAR method");
-    if (analysis.technical < 70) improvements.push("Strengthen technical knowledge in core areas");
-    if (analysis.communication < 70) improvements.push("Practice active listening and more engaging responses");
-    if (analysis.confidence < 70) improvements.push("Build confidence through more practice and preparation");
+  private generateImprovements(rubricScores: RubricScore[]): string[] {
+    // Point at what the next band up looks like for each weak criterion
+    const improvements = rubricScores
+      .filter(item => item.score < 70)
+      .map(item => {
+        const criterion = this.getRubric().criteria.find(entry => entry.id === item.criterionId);
+        const target = criterion?.levels.filter(level => level.minScore > item.score).pop();
+        return `${item.name}: ${target?.descriptor ? `aim for "${target.descriptor}"` : criterion?.description || 'needs more practice'}`;
+      });
     
     // Add completion-based improvements
     if (this.wasEndedEarly()) {
@@ -627,26 +1072,210 @@ export class AIInterviewSimulator {
     return improvements.length > 0 ? improvements : ["Continue practicing interview scenarios"];
   }
 
+  private generateOfflineFeedback(response: InterviewResponse): LiveFeedback {
+    if (response.diagram) {
+      const designReview = reviewDiagram(response.diagram);
+      return { score: designReview.score, strength: designReview.components, improvement: designReview.scaling, source: 'offline' };
+    }
+
+    if (this.config.style === 'behavioral') {
+      const star = analyzeStar(response.response);
+      const strong = (['situation', 'task', 'action', 'result'] as StarComponent[]).find(component => star[component].strength === 'strong');
+      const gap = [...star.missing, ...star.weak][0];
+
+      return {
+        score: Math.round(40 + star.score * 0.55),
+        strength: strong ? `Clear ${getStarLabel(strong).toLowerCase()} in your STAR structure` : 'You attempted a concrete story',
+        improvement: gap ? star[gap].feedback : 'Keep the same STAR structure in your other answers',
+        source: 'offline'
+      };
+    }
+
+    const text = response.response.toLowerCase();
+    const words = text.split(/\s+/).filter(Boolean).length;
+    const checks = [
+      {
+        passed: /for example|for instance|such as|e\.g\.|in my (last|previous) (role|project)/.test(text),
+        strength: 'Backed your answer with a concrete example',
+        improvement: 'Add a concrete example from your own experience',
+        points: 10
+      },
+      {
+        passed: /\d/.test(text),
+        strength: 'Used specific numbers to make your point',
+        improvement: 'Quantify your point with numbers (scale, latency, time saved)',
+        points: 5
+      },
+      {
+        passed: ['first', 'second', 'because', 'therefore', 'however', 'finally'].some(keyword => text.includes(keyword)),
+        strength: 'Answer has a logical structure',
+        improvement: 'Structure the answer: main point first, then reasons, then a short summary',
+        points: 5
+      },
+      {
+        passed: words >= 60,
+        strength: 'Gave a well-developed answer',
+        improvement: 'Expand the answer; aim for at least a few full sentences',
+        points: 5
+      }
+    ];
+
+    const score = 45 + Math.min(25, Math.round(words / 6)) + checks.reduce((sum, check) => sum + (check.passed ? check.points : 0), 0);
+
+    return {
+      score: Math.min(95, score),
+      strength: checks.find(check => check.passed)?.strength || 'You answered the question directly',
+      improvement: checks.find(check => !check.passed)?.improvement || 'Keep answers this focused throughout the interview',
+      source: 'offline'
+    };
+  }
+
+  private calculateAdaptiveDifficulty(questionReviews: AnalyticsData['questionReviews']): AdaptiveDifficultySummary | undefined {
+    const path = this.responses
+      .filter((response): response is InterviewResponse & { difficulty: Difficulty } => !!response.difficulty)
+      .map(response => {
+        const review = questionReviews.find(item => item.questionId === response.questionId);
+        return {
+          questionId: response.questionId,
+          difficulty: response.difficulty,
+          score: Math.round(review ? review.score : this.scoreResponse(response))
+        };
+      });
+
+    return path.length > 0 ? summarizeDifficultyPath(path) : undefined;
+  }
+
+  private calculateDeliverySummary() {
+    return summarizeDelivery(
+      this.responses
+        .map(response => response.delivery)
+        .filter((delivery): delivery is DeliveryMetrics => !!delivery)
+    );
+  }
+
+  private getStarAnalyses(): StarAnalysis[] {
+    if (this.config.style !== 'behavioral') return [];
+
+    return this.responses
+      .filter(response => !response.coding)
+      .map(response => analyzeStar(response.response));
+  }
+
+  private calculateCodingAnalysis(): CodingAnalysis | undefined {
+    const submissions = this.responses
+      .map(response => response.coding)
+      .filter((coding): coding is CodingSubmission => !!coding);
+
+    if (submissions.length === 0) return undefined;
+
+    const average = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+    return {
+      correctness: average(submissions.map(getCorrectnessScore)),
+      codeQuality: average(submissions.map(submission => assessCodeQuality(submission.code).score)),
+      testsPassed: submissions.reduce((sum, submission) => sum + submission.passedCount, 0),
+      testsTotal: submissions.reduce((sum, submission) => sum + submission.totalCount, 0),
+      averageRuntimeMs: average(submissions.map(submission => submission.runtimeMs))
+    };
+  }
+
   private generateQuestionReviews() {
-    return this.responses.map((response, index) => {
-      const score = Math.round(60 + Math.random() * 35);
-      
-      const feedbacks = [
-        "Good response with relevant examples. Consider adding more specific details.",
-        "Well-structured answer. Could benefit from mentioning potential challenges.",
-        "Solid understanding shown. Try to explain concepts more simply.",
-        "Great use of specific examples. Consider discussing lessons learned.",
-        "Clear communication demonstrated. Could explore alternative approaches."
-      ];
+    return this.responses.map((response) => ({
+      ...this.generateQuestionReview(response),
+      liveFeedback: response.liveFeedback,
+      attempts: response.attempts,
+      delivery: response.delivery,
+      exhibits: response.exhibits,
+      mathChecks: response.mathChecks,
+      parentQuestionId: response.parentQuestionId,
+      followUpDepth: response.followUpDepth,
+      ...(response.exemplar && {
+        exemplar: response.exemplar,
+        conceptCoverage: analyzeConceptCoverage(response.response, response.exemplar.keyConcepts)
+      })
+    }));
+  }
+
+  /**
+   * Case answers keep the exhibits shown with the question and a check of the candidate's math against them
+   */
+  private getCaseAttachments(response: string): Pick<InterviewResponse, 'exhibits' | 'mathChecks'> {
+    if (!this.caseSession) return {};
+
+    const exhibits = getLatestExhibits(this.caseSession);
+    const revealed = getRevealedExhibits(this.caseSession);
+    const mathChecks = checkCaseMath(response, this.caseSession.caseStudy, revealed.length > 0 ? revealed : this.caseSession.caseStudy.exhibits);
+    return {
+      ...(exhibits.length > 0 && { exhibits }),
+      ...(mathChecks.length > 0 && { mathChecks })
+    };
+  }
+
+  /**
+   * Bank questions carry a curated model answer, which is sent along so the backend does not generate one
+   */
+  private getExemplar(question: string): Pick<InterviewResponse, 'exemplar'> {
+    const exemplar = findBankExemplar(question);
+    return exemplar ? { exemplar } : {};
+  }
+
+  private generateQuestionReview(response: InterviewResponse) {
+    if (response.coding) {
+      const correctness = getCorrectnessScore(response.coding);
+      const quality = assessCodeQuality(response.coding.code);
 
       return {
         questionId: response.questionId,
         question: response.question,
         response: response.response,
-        score,
-        feedback: feedbacks[Math.floor(Math.random() * feedbacks.length)]
+        score: Math.round(correctness * 0.7 + quality.score * 0.3),
+        feedback: `Passed ${response.coding.passedCount} of ${response.coding.totalCount} tests. ${quality.notes.join('. ') || 'Code is clean and readable.'}`,
+        coding: response.coding,
+        codeReview: {
+          correctness,
+          codeQuality: quality.score,
+          feedback: quality.notes.join('. ')
+        }
       };
-    });
+    }
+
+    if (response.diagram) {
+      const designReview = reviewDiagram(response.diagram);
+
+      return {
+        questionId: response.questionId,
+        question: response.question,
+        response: response.response,
+        score: designReview.score,
+        feedback: `${designReview.components} ${designReview.scaling}`,
+        diagram: response.diagram,
+        designReview
+      };
+    }
+
+    if (this.config.style === 'behavioral') {
+      const star = analyzeStar(response.response);
+
+      return {
+        questionId: response.questionId,
+        question: response.question,
+        response: response.response,
+        score: Math.round(40 + star.score * 0.55),
+        feedback: summarizeStar(star),
+        star
+      };
+    }
+
+    // Same deterministic heuristic as coach mode, so the drill deck schedules from real scores
+    const offline = this.generateOfflineFeedback(response);
+
+    return {
+      questionId: response.questionId,
+      question: response.question,
+      response: response.response,
+      score: offline.score,
+      feedback: `${offline.strength}. ${offline.improvement}.`
+    };
   }
 
   // Add method to check if using LLM
@@ -661,6 +1290,29 @@ export class AIInterviewSimulator {
     this.nextQuestionCache = null; // Clear any cached questions
   }
 
+  getConfig(): InterviewConfig {
+    return this.config;
+  }
+
+  getResponses(): InterviewResponse[] {
+    return [...this.responses];
+  }
+
+  getStartTime(): number {
+    return this.startTime;
+  }
+
+  /**
+   * The candidate's notes panel, kept with the session so they appear in history and exported transcripts
+   */
+  setNotes(notes: string): void {
+    this.notes = notes;
+  }
+
+  getNotes(): string {
+    return this.notes;
+  }
+
   // Add method to get performance stats
   getPerformanceStats() {
     return {
@@ -672,7 +1324,7 @@ export class AIInterviewSimulator {
       maxQuestions: this.calculateMaxQuestions(),
       isInterviewEnded: this.isInterviewEnded,
       wasEndedEarly: this.wasEndedEarly(),
-      completionRate: (this.responses.length / this.calculateMaxQuestions()) * 100,
+      completionRate: (this.getMainResponseCount() / this.calculateMaxQuestions()) * 100,
       ttsEnabled: this.enableTTS,
       ttsStatus: this.getTTSStatus()
     };
@@ -0,0 +1,374 @@
+import { CaseCalculation, CaseExhibit, CaseMathCheck, CasePhaseScore, CaseSessionState, CaseStudy, CaseStudySummary, InterviewConfig, InterviewResponse } from '../types';
+import { getCaseStudyForLevel } from '../data/caseStudies';
+
+// Stated figures within this share of the expected value count as correct, allowing for rounding
+const FIGURE_TOLERANCE = 0.03;
+const EQUATION_TOLERANCE = 0.02;
+
+// Candidates often drop the unit ("profit is 28" for $28M), so figures are also compared at these scales
+const SCALES = [1, 1e3, 1e6, 1e9];
+
+const NUMBER_SOURCE = '\\$?(?:\\d{1,3}(?:,\\d{3})+|\\d+(?:\\.\\d+)?)\\s*(?:k\\b|thousand|mm?\\b|million|bn\\b|b\\b|billion)?\\s*(?:%|percent)?';
+const NUMBER_PATTERN = /\$?(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(k\b|thousand|mm?\b|million|bn\b|b\b|billion)?\s*(%|percent)?/gi;
+const EQUATION_PATTERN = new RegExp(`${NUMBER_SOURCE}(?:\\s*[x×*/+\\-−]\\s*${NUMBER_SOURCE})+\\s*(?:=|≈|equals)\\s*~?${NUMBER_SOURCE}`, 'gi');
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3, m: 1e6, mm: 1e6, million: 1e6, b: 1e9, bn: 1e9, billion: 1e9
+};
+
+const STRUCTURE_CUES = /\b(framework|break (it|this|the problem) down|buckets?|branches|drivers?|mece|issue tree|segments?|revenue (and|vs\.?|versus) costs?|on one side|two (sides|parts)|three (areas|parts|buckets))\b/i;
+const CLARIFY_CUES = /\?|\b(clarify|confirm|objective|goal is|to make sure i understand)\b/i;
+const ORDINAL_CUES = /\b(first(ly)?|second(ly)?|third(ly)?|fourth|finally|lastly)\b/gi;
+const HYPOTHESIS_CUES = /\b(my hypothesis|i hypothesi[sz]e|hypothesis is|i suspect|i'?d expect|i would expect|i'?d guess|my guess|i believe the|i think the (issue|problem|driver|main)|my (hunch|bet)|to test (this|that))\b/gi;
+const INSIGHT_CUES = /\b(this (means|suggests|tells us|shows|implies)|which means|so what|that means|implies|is driven by|the (main|key) driver|explains)\b/gi;
+const VERDICT_CUES = /\b(i (would |'d )?recommend|my recommendation|recommend(ation)? is|(should|shouldn'?t|should not) (launch|enter|go|proceed|invest|add|open|cut|raise|focus)|go ahead|no-go|(do not|don'?t) (launch|enter|proceed)|my answer is)\b/i;
+const HEDGE_CUES = /\b(it depends|hard to say|not sure|could go either way|difficult to tell)\b/i;
+const RISK_CUES = /\b(risks?|downside|concerns?|watch out|sensitiv\w+|what could go wrong)\b/i;
+const NEXT_STEP_CUES = /\b(next steps?|i'?d (want to|check|validate|test|look)|further analysis|pilot|validate|follow up)\b/i;
+
+export function formatExhibitValue(value: string | number): string {
+  return typeof value === 'number' ? value.toLocaleString('en-US') : value;
+}
+
+export function formatFigure(value: number, unit?: '%'): string {
+  if (unit === '%') return `${+value.toFixed(1)}%`;
+  if (Math.abs(value) >= 1e6) return `${+(value / 1e6).toFixed(2)}M`;
+  if (Math.abs(value) >= 1e4) return `${+(value / 1e3).toFixed(1)}k`;
+  return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
+
+function parseNumber(match: RegExpExecArray | RegExpMatchArray): { value: number; isPercent: boolean; hasUnit: boolean } {
+  const base = parseFloat(match[1].replace(/,/g, ''));
+  const suffix = match[2]?.toLowerCase();
+  return {
+    value: base * (suffix ? MULTIPLIERS[suffix] : 1),
+    isPercent: !!match[3],
+    hasUnit: !!suffix || match[0].startsWith('$')
+  };
+}
+
+function isClose(a: number, b: number, tolerance: number): boolean {
+  return Math.abs(a - b) <= Math.abs(b) * tolerance;
+}
+
+function matchesAtAnyScale(stated: number, expected: number, tolerance: number): boolean {
+  return SCALES.some(scale => isClose(stated * scale, expected, tolerance) || isClose(stated, expected * scale, tolerance));
+}
+
+/**
+ * Evaluate "a × b + c" left to right with multiplication and division first; percentages count as fractions
+ */
+function evaluateExpression(expression: string): number | null {
+  const tokens = expression.match(new RegExp(`${NUMBER_SOURCE}|[x×*/+\\-−]`, 'gi')) || [];
+  const terms: number[] = [];
+  let operator = '+';
+
+  for (const token of tokens) {
+    const number = new RegExp(NUMBER_PATTERN.source, 'i').exec(token);
+    if (number && /\d/.test(token)) {
+      const { value, isPercent } = parseNumber(number);
+      const operand = isPercent ? value / 100 : value;
+      if (operator === '+') terms.push(operand);
+      else if (operator === '-' || operator === '−') terms.push(-operand);
+      else if (operator === '/') {
+        if (operand === 0 || terms.length === 0) return null;
+        terms[terms.length - 1] /= operand;
+      } else {
+        if (terms.length === 0) return null;
+        terms[terms.length - 1] *= operand;
+      }
+    } else {
+      operator = token.toLowerCase() === 'x' || token === '×' ? '*' : token;
+    }
+  }
+
+  return terms.length > 0 ? terms.reduce((sum, term) => sum + term, 0) : null;
+}
+
+function checkEquations(text: string): CaseMathCheck[] {
+  return (text.match(EQUATION_PATTERN) || []).flatMap(statement => {
+    const [expression, result] = statement.split(/=|≈|equals/i);
+    const expected = evaluateExpression(expression);
+    const resultMatch = new RegExp(NUMBER_PATTERN.source, 'i').exec(result);
+    if (expected === null || !resultMatch) return [];
+
+    const parsed = parseNumber(resultMatch);
+    const stated = parsed.isPercent ? parsed.value / 100 : parsed.value;
+    return [{
+      statement: statement.trim(),
+      stated: parsed.value,
+      expected: parsed.isPercent ? expected * 100 : expected,
+      correct: matchesAtAnyScale(stated, expected, EQUATION_TOLERANCE),
+      ...(parsed.isPercent && { unit: '%' as const })
+    }];
+  });
+}
+
+function getExhibitValues(exhibits: CaseExhibit[]): number[] {
+  return exhibits.flatMap(exhibit => exhibit.rows.flat())
+    .map(cell => (typeof cell === 'number' ? cell : parseFloat(String(cell))))
+    .filter(value => !Number.isNaN(value));
+}
+
+/**
+ * Compare the figures a candidate states against the values worked out from the case exhibits.
+ * Equations ("477.5k × 10% = 47.75k") are checked on their own arithmetic; other figures are checked when the sentence
+ * names what the figure is (e.g. "margin"). Numbers copied straight from an exhibit are inputs, not results, and are skipped.
+ */
+export function checkCaseMath(text: string, caseStudy: CaseStudy, exhibits: CaseExhibit[] = caseStudy.exhibits): CaseMathCheck[] {
+  const equations = checkEquations(text);
+  const inputs = getExhibitValues(exhibits);
+  const remaining = equations.reduce((rest, check) => rest.replace(check.statement, ' '), text);
+
+  const figures = remaining
+    .split(/(?<=[.!?;])\s+|\n+/)
+    .flatMap(sentence => {
+      const lower = sentence.toLowerCase();
+      const relevant = caseStudy.calculations.filter(calculation => calculation.keywords.some(keyword => lower.includes(keyword)));
+      if (relevant.length === 0) return [];
+
+      const numbers = [...sentence.matchAll(NUMBER_PATTERN)]
+        .map(match => parseNumber(match))
+        // Years and exhibit inputs are not results
+        .filter(number => number.hasUnit || number.isPercent || number.value < 1900 || number.value > 2100)
+        .filter(number => !inputs.includes(number.value));
+      if (numbers.length === 0) return [];
+
+      for (const number of numbers) {
+        const matched = relevant.find(calculation =>
+          (calculation.unit === '%') === number.isPercent &&
+          (number.isPercent ? isClose(number.value, calculation.value, FIGURE_TOLERANCE) : matchesAtAnyScale(number.value, calculation.value, FIGURE_TOLERANCE))
+        );
+        if (matched) {
+          return [{ statement: sentence.trim(), stated: number.value, expected: matched.value, correct: true, label: matched.label, unit: matched.unit }];
+        }
+      }
+
+      // Only call a figure wrong when it is plausibly an attempt at one of the expected values
+      const attempt = numbers
+        .flatMap(number => relevant
+          .filter(calculation => (calculation.unit === '%') === number.isPercent)
+          .map(calculation => ({ number, calculation, ratio: closestRatio(number.value, calculation) })))
+        .sort((a, b) => a.ratio - b.ratio)[0];
+      if (!attempt || attempt.ratio > 2) return [];
+
+      return [{
+        statement: sentence.trim(),
+        stated: attempt.number.value,
+        expected: attempt.calculation.value,
+        correct: false,
+        label: attempt.calculation.label,
+        unit: attempt.calculation.unit
+      }];
+    });
+
+  return [...equations, ...figures];
+}
+
+function closestRatio(stated: number, calculation: CaseCalculation): number {
+  const scales = calculation.unit === '%' ? [1] : SCALES;
+  return Math.min(...scales.flatMap(scale => [stated * scale, stated / scale]).map(value =>
+    value > 0 && calculation.value > 0 ? Math.max(value / calculation.value, calculation.value / value) : Infinity
+  ));
+}
+
+// Exhibits are numbered in the order they are handed over, as in a live case
+function getExhibitLabel(state: CaseSessionState, exhibit: CaseExhibit): string {
+  return `Exhibit ${state.revealed.indexOf(exhibit.id) + 1}: ${exhibit.title}`;
+}
+
+export function getRevealedExhibits(state: CaseSessionState): CaseExhibit[] {
+  return state.revealed
+    .map(id => state.caseStudy.exhibits.find(exhibit => exhibit.id === id))
+    .filter((exhibit): exhibit is CaseExhibit => !!exhibit);
+}
+
+export function getLatestExhibits(state: CaseSessionState): CaseExhibit[] {
+  return state.caseStudy.exhibits.filter(exhibit => state.latest.includes(exhibit.id));
+}
+
+/**
+ * The unrevealed exhibit a candidate message asks for, if any. Interviewers hand over one exhibit at a time,
+ * so the exhibit whose keywords the message mentions most wins.
+ */
+export function findRequestedExhibit(state: CaseSessionState, message: string): CaseExhibit | null {
+  const lower = message.toLowerCase();
+  const [best] = state.caseStudy.exhibits
+    .filter(exhibit => !state.revealed.includes(exhibit.id))
+    .map(exhibit => ({ exhibit, hits: exhibit.keywords.filter(keyword => lower.includes(keyword)).length }))
+    .filter(item => item.hits > 0)
+    .sort((a, b) => b.hits - a.hits);
+  return best ? best.exhibit : null;
+}
+
+export function createCaseSession(config: InterviewConfig, caseStudy: CaseStudy = getCaseStudyForLevel(config.experienceLevel)): CaseSessionState {
+  return {
+    caseStudy,
+    stage: 'structure',
+    revealed: [],
+    requested: [],
+    latest: [],
+    interviewerMessage: `${caseStudy.prompt} How would you structure your approach? Ask me for any data you'd like to see along the way.`
+  };
+}
+
+/**
+ * The interviewer's next move after a candidate answer: hand over the exhibit they asked for, offer the next one,
+ * or ask for a recommendation once all the data is out. Returns the next state; the input state is not changed.
+ */
+export function advanceCase(state: CaseSessionState, message: string): CaseSessionState {
+  if (state.stage === 'recommendation' || state.stage === 'complete') {
+    return { ...state, stage: 'complete', latest: [], interviewerMessage: '' };
+  }
+
+  const requested = findRequestedExhibit(state, message);
+  const next = requested || state.caseStudy.exhibits.find(exhibit => !state.revealed.includes(exhibit.id));
+
+  if (!next) {
+    return {
+      ...state,
+      stage: 'recommendation',
+      latest: [],
+      interviewerMessage: `Thanks. The CEO has just walked in and has two minutes. What's your recommendation, and what would you want to check next?`
+    };
+  }
+
+  const revealedState = { ...state, revealed: [...state.revealed, next.id] };
+  const lead = requested ? 'Good idea, here you go.' : 'Let me share some data that may help.';
+  return {
+    ...revealedState,
+    stage: 'analysis',
+    requested: requested ? [...state.requested, next.id] : state.requested,
+    latest: [next.id],
+    interviewerMessage: `${lead} ${getExhibitLabel(revealedState, next)}. ${next.prompt}`
+  };
+}
+
+export function isCaseComplete(state: CaseSessionState): boolean {
+  return state.stage === 'complete';
+}
+
+// The structure answer, every data answer and the recommendation
+export function getCaseTurnCount(caseStudy: CaseStudy): number {
+  return caseStudy.exhibits.length + 2;
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+function clampScore(score: number): number {
+  return Math.max(0, Math.min(100, Math.round(score)));
+}
+
+function scoreStructuring(answer: string | undefined): CasePhaseScore {
+  if (!answer) {
+    return { score: 0, feedback: 'No structure was given before the case moved on.', signals: [] };
+  }
+
+  const listItems = answer.split('\n').filter(line => /^\s*([-*•]|\d+[.)])\s+/.test(line)).length;
+  const branches = Math.max(listItems, countMatches(answer, ORDINAL_CUES));
+  const hasFramework = STRUCTURE_CUES.test(answer);
+  const clarifies = CLARIFY_CUES.test(answer);
+
+  const signals = [
+    ...(branches > 0 ? [`${branches} distinct branch${branches === 1 ? '' : 'es'}`] : []),
+    ...(hasFramework ? ['Named a framework or drivers'] : []),
+    ...(clarifies ? ['Clarified the objective'] : [])
+  ];
+  const score = clampScore(20 + Math.min(branches, 4) * 15 + (hasFramework ? 15 : 0) + (clarifies ? 10 : 0));
+
+  return {
+    score,
+    feedback: branches >= 3
+      ? 'Laid out a clear structure before diving into the data.'
+      : 'State two to four distinct branches up front (e.g. revenue versus costs) before asking for data.',
+    signals
+  };
+}
+
+function scoreHypothesis(answers: string[], state: CaseSessionState, mathChecks: CaseMathCheck[]): CasePhaseScore {
+  const text = answers.join('\n');
+  const hypotheses = countMatches(text, HYPOTHESIS_CUES);
+  const insights = countMatches(text, INSIGHT_CUES);
+  const requestedShare = state.revealed.length > 0 ? state.requested.length / state.revealed.length : 0;
+  const correct = mathChecks.filter(check => check.correct).length;
+  const accuracy = mathChecks.length > 0 ? correct / mathChecks.length : null;
+
+  const signals = [
+    ...(hypotheses > 0 ? [`${hypotheses} hypothesis statement${hypotheses === 1 ? '' : 's'}`] : []),
+    ...(insights > 0 ? [`Drew the "so what" ${insights} time${insights === 1 ? '' : 's'}`] : []),
+    `Asked for ${state.requested.length} of ${state.revealed.length} exhibits`,
+    ...(accuracy !== null ? [`${correct} of ${mathChecks.length} calculations correct`] : [])
+  ];
+  const score = clampScore(
+    Math.min(hypotheses, 2) * 15 + Math.min(insights, 2) * 10 + requestedShare * 30 + (accuracy === null ? 10 : accuracy * 20)
+  );
+
+  const feedback = hypotheses === 0
+    ? 'State a hypothesis early ("I suspect labor costs are driving this") and ask for the data that would test it.'
+    : requestedShare < 0.5
+      ? 'Good hypotheses; drive the case by asking for the data that tests them rather than waiting to be handed exhibits.'
+      : accuracy !== null && accuracy < 1
+        ? 'Hypothesis-driven, but double-check the math against the exhibits before drawing conclusions.'
+        : 'Led with hypotheses and asked for the data to test them.';
+
+  return { score, feedback, signals };
+}
+
+function scoreRecommendation(answer: string | undefined): CasePhaseScore {
+  if (!answer) {
+    return { score: 0, feedback: 'The case ended before a recommendation was given.', signals: [] };
+  }
+
+  const [firstSentence = ''] = answer.split(/(?<=[.!?])\s+/);
+  const hasVerdict = VERDICT_CUES.test(answer);
+  const leadsWithVerdict = VERDICT_CUES.test(firstSentence);
+  const usesNumbers = /\d/.test(answer);
+  const namesRisks = RISK_CUES.test(answer);
+  const namesNextSteps = NEXT_STEP_CUES.test(answer);
+  const hedges = HEDGE_CUES.test(answer);
+
+  const signals = [
+    ...(hasVerdict ? ['Clear recommendation'] : []),
+    ...(leadsWithVerdict ? ['Led with the answer'] : []),
+    ...(usesNumbers ? ['Backed by numbers'] : []),
+    ...(namesRisks ? ['Named risks'] : []),
+    ...(namesNextSteps ? ['Proposed next steps'] : []),
+    ...(hedges ? ['Hedged'] : [])
+  ];
+  const score = clampScore(
+    (hasVerdict ? 35 : 0) + (leadsWithVerdict ? 10 : 0) + (usesNumbers ? 20 : 0) + (namesRisks ? 20 : 0) + (namesNextSteps ? 15 : 0) - (hedges ? 15 : 0)
+  );
+
+  const feedback = !hasVerdict
+    ? 'Open with a clear yes or no ("I recommend we launch") before the supporting points.'
+    : !usesNumbers
+      ? 'Back the recommendation with the key numbers from your analysis.'
+      : !namesRisks || !namesNextSteps
+        ? 'Close with the main risks and the next steps you would take.'
+        : 'A clear, evidence-backed recommendation with risks and next steps.';
+
+  return { score, feedback, signals };
+}
+
+/**
+ * Grade structuring, hypothesis-driven analysis and the recommendation separately from the case answers
+ */
+export function analyzeCaseStudy(state: CaseSessionState, responses: InterviewResponse[]): CaseStudySummary {
+  const answers = responses.map(response => response.response);
+  const hasRecommendation = state.stage === 'complete' && answers.length > 1;
+  const analysisAnswers = answers.slice(0, hasRecommendation ? -1 : undefined);
+  const mathChecks = responses.flatMap(response => response.mathChecks || []);
+
+  return {
+    caseId: state.caseStudy.id,
+    title: state.caseStudy.title,
+    structuring: scoreStructuring(answers[0]),
+    hypothesis: scoreHypothesis(analysisAnswers, state, mathChecks),
+    recommendation: scoreRecommendation(hasRecommendation ? answers[answers.length - 1] : undefined),
+    exhibitsRequested: state.requested.length,
+    exhibitsTotal: state.caseStudy.exhibits.length,
+    mathChecks
+  };
+}
@@ -0,0 +1,8 @@
+import { CodingSubmission } from '../types';
+
+export { assessCodeQuality } from '../../shared/codeQuality.js';
+export type { CodeQualityAssessment } from '../../shared/codeQuality.js';
+
+export function getCorrectnessScore(submission: CodingSubmission): number {
+  return submission.totalCount > 0 ? Math.round((submission.passedCount / submission.totalCount) * 100) : 0;
+}
@@ -0,0 +1,135 @@
+import { CodingChallenge, CodingLanguage, CodingSubmission, CodingTestCase, CodingTestResult } from '../types';
+import type { RunnerMessage } from '../workers/codeRunner.worker';
+
+const RUN_TIMEOUT_MS = 5000;
+const MAX_LOGS = 50;
+
+/**
+ * Strip TypeScript types so the worker only ever executes plain JavaScript.
+ * The compiler is loaded lazily because it is large and only needed for TypeScript runs.
+ */
+async function toJavaScript(code: string, language: CodingLanguage): Promise<string> {
+  if (language === 'javascript') return code;
+
+  const ts = await import('typescript');
+  const output = ts.transpileModule(code, {
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext
+    },
+    reportDiagnostics: false
+  });
+
+  return output.outputText;
+}
+
+function runInWorker(code: string, functionName: string, tests: CodingTestCase[]): Promise<{
+  results: CodingTestResult[];
+  logs: string[];
+  error?: string;
+  timedOut: boolean;
+}> {
+  return new Promise(resolve => {
+    const worker = new Worker(new URL('../workers/codeRunner.worker.ts', import.meta.url), { type: 'module' });
+    const nonce = Array.from(crypto.getRandomValues(new Uint32Array(4)), value => value.toString(36)).join('');
+    const results: CodingTestResult[] = [];
+    const logs: string[] = [];
+    let error: string | undefined;
+
+    const finish = (timedOut: boolean) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve({ results, logs, error, timedOut });
+    };
+
+    const timer = setTimeout(() => finish(true), RUN_TIMEOUT_MS);
+
+    worker.onmessage = (event: MessageEvent<RunnerMessage & { nonce: string }>) => {
+      const message = event.data;
+      // Anything without this run's nonce was posted by the candidate code, not the runner
+      if (message?.nonce !== nonce) return;
+
+      switch (message.type) {
+        case 'result':
+          results.push({
+            index: message.index,
+            passed: message.passed,
+            input: message.input,
+            expected: message.expected,
+            actual: message.actual,
+            error: message.error,
+            runtimeMs: message.runtimeMs
+          });
+          break;
+        case 'log':
+          if (logs.length < MAX_LOGS) logs.push(message.message);
+          break;
+        case 'error':
+          error = message.error;
+          break;
+        case 'done':
+          finish(false);
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      error = event.message || 'Code runner crashed';
+      finish(false);
+    };
+
+    worker.postMessage({ code, functionName, tests, nonce });
+  });
+}
+
+/**
+ * Run candidate code against a challenge in a sandboxed worker.
+ * With hidden=false only the visible examples are run, so candidates can check their work.
+ */
+export async function runChallenge(
+  challenge: CodingChallenge,
+  code: string,
+  language: CodingLanguage,
+  hidden: boolean = true
+): Promise<CodingSubmission> {
+  const tests = hidden ? [...challenge.examples, ...challenge.hiddenTests] : challenge.examples;
+  const start = performance.now();
+
+  let javascript: string;
+  try {
+    javascript = await toJavaScript(code, language);
+  } catch (error) {
+    console.error('Error transpiling TypeScript:', error);
+    javascript = code;
+  }
+
+  const { results, logs, error, timedOut } = await runInWorker(javascript, challenge.functionName, tests);
+
+  // Tests that never reported back (timeout or crash) count as failures
+  const completed = new Set(results.map(result => result.index));
+  tests.forEach((test, index) => {
+    if (completed.has(index)) return;
+    results.push({
+      index,
+      passed: false,
+      input: test.args.map(arg => JSON.stringify(arg)).join(', '),
+      expected: JSON.stringify(test.expected),
+      error: timedOut ? `Timed out after ${RUN_TIMEOUT_MS / 1000}s` : error || 'Not run',
+      runtimeMs: 0
+    });
+  });
+  results.sort((a, b) => a.index - b.index);
+
+  return {
+    challengeId: challenge.id,
+    language,
+    code,
+    results,
+    passedCount: results.filter(result => result.passed).length,
+    totalCount: tests.length,
+    runtimeMs: Math.round(performance.now() - start),
+    logs,
+    timedOut,
+    error
+  };
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { parseCompanyPack, parseYaml } from './companyPack';
+
+describe('parseYaml', () => {
+  it('reads nested mappings and lists', () => {
+    const yaml = [
+      'name: Acme',
+      'rounds:',
+      '  - name: Phone screen',
+      '    style: technical',
+      '  - name: Onsite',
+      '    style: behavioral',
+      'meta:',
+      '  owner:',
+      '    team: Recruiting',
+      '  tags:',
+      '  - hiring',
+      '  - 2024'
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      name: 'Acme',
+      rounds: [
+        { name: 'Phone screen', style: 'technical' },
+        { name: 'Onsite', style: 'behavioral' }
+      ],
+      meta: { owner: { team: 'Recruiting' }, tags: ['hiring', 2024] }
+    });
+  });
+
+  it('reads inline lists, including quoted items with commas', () => {
+    expect(parseYaml('values: [Ownership, "Bias, for action", \'Frugality\', 3, true]')).toEqual({
+      values: ['Ownership', 'Bias, for action', 'Frugality', 3, true]
+    });
+  });
+
+  it('keeps line breaks in | blocks and folds > blocks onto one line', () => {
+    const yaml = [
+      'literal: |',
+      '  First line',
+      '  Second line',
+      'folded: >',
+      '  First line',
+      '  Second line',
+      'after: done'
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      literal: 'First line\nSecond line',
+      folded: 'First line Second line',
+      after: 'done'
+    });
+  });
+
+  it('skips comment lines and trailing comments, but not # inside quotes', () => {
+    const yaml = [
+      '# Company pack',
+      '---',
+      'name: Acme # the display name',
+      '  # an indented comment',
+      'tagline: "We ship #1"',
+      'motto: \'Always # on\'',
+      'values: [Ownership, Trust] # two of them'
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      name: 'Acme',
+      tagline: 'We ship #1',
+      motto: 'Always # on',
+      values: ['Ownership', 'Trust']
+    });
+  });
+
+  it('reads quoted keys and values', () => {
+    const yaml = [
+      '"question style": "Tell me: what happened?"',
+      "'round name': 'It''s the onsite'",
+      '"- not a list": plain',
+      'escaped: "line\\nbreak"'
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      'question style': 'Tell me: what happened?',
+      'round name': "It's the onsite",
+      '- not a list': 'plain',
+      escaped: 'line\nbreak'
+    });
+  });
+
+  it('reads null, boolean and number scalars', () => {
+    expect(parseYaml('a: ~\nb: null\nc:\nd: false\ne: -1.5')).toEqual({ a: null, b: null, c: null, d: false, e: -1.5 });
+  });
+
+  it('rejects a line without a key', () => {
+    expect(() => parseYaml('name: Acme\njust some text')).toThrow('Expected "key: value" on line 2');
+  });
+
+  it('rejects a line indented past its mapping', () => {
+    expect(() => parseYaml('name: Acme\n    stray: value')).toThrow('Unexpected indentation on line 2');
+  });
+});
+
+describe('parseCompanyPack', () => {
+  it('builds a pack from YAML', () => {
+    const pack = parseCompanyPack([
+      'name: Acme Corp',
+      'values: [Ownership, Trust]',
+      'questions:',
+      '  - text: Tell me about a time you disagreed with your manager.',
+      '    difficulty: Medium',
+      'rubric:',
+      '  - name: Ownership',
+      '    weight: 2'
+    ].join('\n'), 'acme.yaml');
+
+    expect(pack).toMatchObject({
+      id: 'acme-corp',
+      name: 'Acme Corp',
+      values: ['Ownership', 'Trust'],
+      questions: [{ text: 'Tell me about a time you disagreed with your manager.', style: 'behavioral', difficulty: 'medium' }],
+      rubric: [{ name: 'Ownership', description: '', weight: 2 }]
+    });
+  });
+
+  it('names the format when the file cannot be read', () => {
+    expect(() => parseCompanyPack('name: Acme\n  oops: [', 'acme.yml')).toThrow('Could not read YAML: Unexpected indentation on line 2');
+    expect(() => parseCompanyPack('{ "name": ', 'acme.json')).toThrow(/^Could not read JSON/);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Company pack parsing and helpers.
+ * Packs are authored as JSON or a small YAML subset (nested mappings, lists, quoted/plain scalars,
+ * inline [a, b] lists and | or > block text), parsed here without extra dependencies.
+ */
+import { CompanyPack, CompanyPackQuestion, CompanyRound, CompanyRubricCriterion, Difficulty, InterviewStyle } from '../types';
+
+export const COMPANY_PACK_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+const STYLES: InterviewStyle[] = ['technical', 'hr', 'behavioral', 'salary-negotiation', 'case-study'];
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+interface YamlLine {
+  number: number;
+  indent: number;
+  text: string;
+}
+
+function stripComment(value: string): string {
+  if (/^["']/.test(value.trim())) return value;
+  return value.replace(/\s+#.*$/, '');
+}
+
+function splitInlineList(value: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim()) items.push(current);
+  return items;
+}
+
+function parseScalar(raw: string): unknown {
+  const value = stripComment(raw).trim();
+
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (value.startsWith('[') && value.endsWith(']')) return splitInlineList(value.slice(1, -1)).map(parseScalar);
+  if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length > 1) return value.slice(1, -1).replace(/''/g, "'");
+
+  return value;
+}
+
+class YamlReader {
+  private position = 0;
+
+  constructor(private lines: YamlLine[]) {}
+
+  read(): unknown {
+    if (this.lines.length === 0) return null;
+
+    const value = this.readNode(this.lines[0].indent);
+    const leftover = this.lines[this.position];
+    if (leftover) throw new Error(`Unexpected indentation on line ${leftover.number}`);
+
+    return value;
+  }
+
+  private isSequenceItem(line: YamlLine): boolean {
+    return line.text === '-' || line.text.startsWith('- ');
+  }
+
+  private readNode(indent: number): unknown {
+    const line = this.lines[this.position];
+    return this.isSequenceItem(line) ? this.readSequence(indent) : this.readMapping(indent);
+  }
+
+  private readNested(parentIndent: number, allowSameIndentList: boolean): unknown {
+    const next = this.lines[this.position];
+    if (!next) return null;
+    if (next.indent > parentIndent || (allowSameIndentList && next.indent === parentIndent && this.isSequenceItem(next))) {
+      return this.readNode(next.indent);
+    }
+    return null;
+  }
+
+  private readBlockText(parentIndent: number, folded: boolean): string {
+    const parts: string[] = [];
+    while (this.position < this.lines.length && this.lines[this.position].indent > parentIndent) {
+      parts.push(this.lines[this.position].text);
+      this.position++;
+    }
+    return parts.join(folded ? ' ' : '\n');
+  }
+
+  private readSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position];
+      if (line.indent !== indent || !this.isSequenceItem(line)) break;
+
+      const content = line.text.slice(1).trimStart();
+      if (!content) {
+        this.position++;
+        items.push(this.readNested(indent, false));
+      } else if (/^("[^"]*"|'[^']*'|[^\s"'[{#][^:#]*?):(\s|$)/.test(content)) {
+        // "- key: value" starts a mapping whose keys line up with the first key
+        this.lines[this.position] = { ...line, indent: indent + (line.text.length - content.length), text: content };
+        items.push(this.readMapping(this.lines[this.position].indent));
+      } else {
+        this.position++;
+        items.push(parseScalar(content));
+      }
+    }
+
+    return items;
+  }
+
+  private readMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position];
+      if (line.indent !== indent || this.isSequenceItem(line)) break;
+
+      const match = line.text.match(/^("[^"]*"|'[^']*'|[^:]+?):(?:\s+(.*))?$/);
+      if (!match) throw new Error(`Expected "key: value" on line ${line.number}`);
+
+      const key = String(parseScalar(match[1]));
+      const rest = stripComment(match[2] || '').trim();
+      this.position++;
+
+      if (rest === '|' || rest === '>') {
+        result[key] = this.readBlockText(indent, rest === '>');
+      } else if (rest === '') {
+        result[key] = this.readNested(indent, true);
+      } else {
+        result[key] = parseScalar(rest);
+      }
+    }
+
+    return result;
+  }
+}
+
+export function parseYaml(text: string): unknown {
+  const lines = text
+    .replace(/\t/g, '  ')
+    .split(/\r?\n/)
+    .map((raw, index) => ({ number: index + 1, indent: raw.length - raw.trimStart().length, text: raw.trim() }))
+    .filter(line => line.text && !line.text.startsWith('#') && line.text !== '---');
+
+  return new YamlReader(lines).read();
+}
+
+function toStringList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new Error(`"${field}" must be a list`);
+  return value.filter(item => item !== null && item !== '').map(item => String(item).trim());
+}
+
+function toObjectList(value: unknown, field: string): Record<string, unknown>[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new Error(`"${field}" must be a list`);
+  return value.map((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new Error(`"${field}" entry ${index + 1} must be an object`);
+    }
+    return item as Record<string, unknown>;
+  });
+}
+
+function toStyle(value: unknown, field: string): InterviewStyle {
+  const style = String(value || '').trim().toLowerCase() as InterviewStyle;
+  if (!STYLES.includes(style)) {
+    throw new Error(`${field} has unknown style "${value}"; use one of ${STYLES.join(', ')}`);
+  }
+  return style;
+}
+
+export function createCompanyPackId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'company-pack';
+}
+
+/**
+ * Check the shape of a parsed pack and fill defaults, with errors that point at the offending field
+ */
+export function validateCompanyPack(data: unknown): CompanyPack {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('A company pack must be an object with at least a "name"');
+  }
+
+  const source = data as Record<string, unknown>;
+  const name = typeof source.name === 'string' ? source.name.trim() : '';
+  if (!name) throw new Error('A company pack needs a "name"');
+
+  const rounds: CompanyRound[] = toObjectList(source.rounds, 'rounds').map((round, index) => ({
+    name: String(round.name || `Round ${index + 1}`),
+    style: toStyle(round.style, `Round ${index + 1}`),
+    ...(round.focus ? { focus: String(round.focus) } : {})
+  }));
+
+  const questions: CompanyPackQuestion[] = toObjectList(source.questions, 'questions').map((question, index) => {
+    if (!question.text) throw new Error(`Question ${index + 1} needs "text"`);
+    const difficulty = String(question.difficulty || '').toLowerCase() as Difficulty;
+    return {
+      text: String(question.text).trim(),
+      style: toStyle(question.style || 'behavioral', `Question ${index + 1}`),
+      ...(DIFFICULTIES.includes(difficulty) && { difficulty }),
+      ...(question.category ? { category: String(question.category) } : {})
+    };
+  });
+
+  const rubric: CompanyRubricCriterion[] = toObjectList(source.rubric, 'rubric').map((criterion, index) => {
+    if (!criterion.name) throw new Error(`Rubric entry ${index + 1} needs a "name"`);
+    const weight = Number(criterion.weight ?? 1);
+    return {
+      name: String(criterion.name),
+      description: String(criterion.description || ''),
+      weight: Number.isFinite(weight) && weight > 0 ? weight : 1
+    };
+  });
+
+  return {
+    id: typeof source.id === 'string' && source.id.trim() ? createCompanyPackId(source.id) : createCompanyPackId(name),
+    name,
+    ...(typeof source.description === 'string' && source.description.trim() ? { description: source.description.trim() } : {}),
+    values: toStringList(source.values, 'values'),
+    leadershipPrinciples: toStringList(source.leadershipPrinciples, 'leadershipPrinciples'),
+    rounds,
+    questionStyles: toStringList(source.questionStyles, 'questionStyles'),
+    questions,
+    rubric
+  };
+}
+
+export function parseCompanyPack(text: string, fileName = ''): CompanyPack {
+  const isJson = fileName.toLowerCase().endsWith('.json') || text.trim().startsWith('{');
+
+  let data: unknown;
+  try {
+    data = isJson ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Could not read ${isJson ? 'JSON' : 'YAML'}: ${error instanceof Error ? error.message : 'invalid format'}`);
+  }
+
+  return validateCompanyPack(data);
+}
+
+export { getCompanyPackQuestions } from '../../shared/companyPack.js';
+
+export function serializeCompanyPack(pack: CompanyPack): string {
+  return JSON.stringify(pack, null, 2);
+}
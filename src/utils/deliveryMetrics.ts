@@ -0,0 +1,153 @@
+import { DeliveryMetrics, DeliverySummary } from '../types';
+
+// Audio level (0-100) at or above which the candidate counts as speaking
+const SPEAKING_LEVEL = 12;
+
+// Silence longer than this in the middle of an answer counts as a hesitation
+export const LONG_PAUSE_MS = 2000;
+
+// Comfortable conversational pace for interview answers
+export const PACE_RANGE = { min: 110, max: 170 };
+
+const FILLER_PATTERNS: Record<string, RegExp> = {
+  um: /\b(um+|umm+|erm+|hmm+)\b/gi,
+  uh: /\b(uh+|er)\b/gi,
+  // "like" only counts where it is not doing real work as a verb or comparison ("I'd like", "looks like", "like this")
+  like: /\b(?<!\b(?:i|you|we|they|would|i'd|we'd|they'd|don't|didn't|not|really|just|feel|felt|look|looks|looked|seem|seems|seemed|sounds|something|things|more|much|exactly)\s)like\b(?!\s(?:to|this|that|these|those|it|a|an|the)\b)/gi,
+  'you know': /\b(?<!\b(?:do|did|don't|if|as)\s)you know\b(?!\s(?:how|what|that|if|whether|where|when|why|who|about)\b)/gi
+};
+
+interface LevelSample {
+  level: number;
+  timestamp: number;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export function countFillers(transcript: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+
+  for (const [filler, pattern] of Object.entries(FILLER_PATTERNS)) {
+    const matches = transcript.match(pattern)?.length || 0;
+    if (matches > 0) counts[filler] = matches;
+  }
+
+  return counts;
+}
+
+/**
+ * Collects microphone levels for one spoken answer and turns them, together with the final
+ * transcript, into delivery metrics. Pauses are only counted between the first and last moment
+ * of speech, so waiting before starting or after finishing is not treated as hesitation.
+ */
+export class DeliveryTracker {
+  private samples: LevelSample[] = [];
+
+  constructor(private startedAt: number = Date.now()) {}
+
+  addSample(level: number, timestamp: number = Date.now()): void {
+    this.samples.push({ level, timestamp });
+  }
+
+  finish(transcript: string, endedAt: number = Date.now()): DeliveryMetrics {
+    const durationMs = Math.max(0, endedAt - this.startedAt);
+    const wordCount = countWords(transcript);
+    const fillers = countFillers(transcript);
+    const fillerCount = Object.values(fillers).reduce((sum, count) => sum + count, 0);
+    const audio = this.analyzeLevels();
+
+    // Measure pace over the time actually spent answering when the level stream shows it
+    const speakingWindowMs = audio?.speakingWindowMs || durationMs;
+    const wordsPerMinute = speakingWindowMs > 0 ? Math.round(wordCount / (speakingWindowMs / 60000)) : 0;
+
+    return {
+      wordCount,
+      durationMs,
+      wordsPerMinute,
+      fillerCount,
+      fillers,
+      ...(audio && {
+        longPauses: audio.longPauses,
+        longestPauseMs: audio.longestPauseMs,
+        talkTimeRatio: durationMs > 0 ? Math.round((audio.talkTimeMs / durationMs) * 100) / 100 : 0
+      })
+    };
+  }
+
+  private analyzeLevels() {
+    const speaking = this.samples.filter(sample => sample.level >= SPEAKING_LEVEL);
+    if (speaking.length === 0) return null;
+
+    const firstSpeech = speaking[0].timestamp;
+    const lastSpeech = speaking[speaking.length - 1].timestamp;
+
+    let talkTimeMs = 0;
+    let longPauses = 0;
+    let longestPauseMs = 0;
+    let silenceStart: number | null = null;
+
+    this.samples.forEach((sample, index) => {
+      const next = this.samples[index + 1];
+      const isSpeaking = sample.level >= SPEAKING_LEVEL;
+
+      if (isSpeaking && next) talkTimeMs += next.timestamp - sample.timestamp;
+      if (sample.timestamp < firstSpeech || sample.timestamp > lastSpeech) return;
+
+      if (!isSpeaking && silenceStart === null) {
+        silenceStart = sample.timestamp;
+      } else if (isSpeaking && silenceStart !== null) {
+        const pauseMs = sample.timestamp - silenceStart;
+        if (pauseMs >= LONG_PAUSE_MS) longPauses++;
+        longestPauseMs = Math.max(longestPauseMs, pauseMs);
+        silenceStart = null;
+      }
+    });
+
+    return {
+      talkTimeMs,
+      longPauses,
+      longestPauseMs,
+      speakingWindowMs: lastSpeech - firstSpeech
+    };
+  }
+}
+
+export function getPaceLabel(wordsPerMinute: number): string {
+  if (wordsPerMinute < PACE_RANGE.min) return 'Slow';
+  if (wordsPerMinute > PACE_RANGE.max) return 'Fast';
+  return 'Steady';
+}
+
+/**
+ * Interview-wide delivery figures; undefined when no answer was spoken
+ */
+export function summarizeDelivery(metrics: DeliveryMetrics[]): DeliverySummary | undefined {
+  if (metrics.length === 0) return undefined;
+
+  const totalFillers = metrics.reduce((sum, item) => sum + item.fillerCount, 0);
+  const totalMinutes = metrics.reduce((sum, item) => sum + item.durationMs, 0) / 60000;
+
+  const fillerTotals = new Map<string, number>();
+  metrics.forEach(item => Object.entries(item.fillers).forEach(([filler, count]) => {
+    fillerTotals.set(filler, (fillerTotals.get(filler) || 0) + count);
+  }));
+
+  const withAudio = metrics.filter(item => item.talkTimeRatio !== undefined);
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  return {
+    averageWpm: Math.round(average(metrics.map(item => item.wordsPerMinute))),
+    fillersPerMinute: totalMinutes > 0 ? Math.round((totalFillers / totalMinutes) * 10) / 10 : 0,
+    totalFillers,
+    topFillers: [...fillerTotals.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+      .map(([filler, count]) => ({ filler, count })),
+    ...(withAudio.length > 0 && {
+      longPauses: withAudio.reduce((sum, item) => sum + (item.longPauses || 0), 0),
+      talkTimeRatio: Math.round(average(withAudio.map(item => item.talkTimeRatio || 0)) * 100) / 100
+    })
+  };
+}
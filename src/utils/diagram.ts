@@ -0,0 +1,188 @@
+import { DiagramNode, DiagramNodeKind, DesignReview, SystemDesignDiagram } from '../types';
+
+export const NODE_WIDTH = 140;
+export const NODE_HEIGHT = 56;
+
+export const nodeKinds: Record<DiagramNodeKind, { label: string; fill: string; stroke: string }> = {
+  client: { label: 'Client', fill: '#eff6ff', stroke: '#2563eb' },
+  loadBalancer: { label: 'Load Balancer', fill: '#f5f3ff', stroke: '#7c3aed' },
+  service: { label: 'Service', fill: '#ecfdf5', stroke: '#059669' },
+  database: { label: 'Database', fill: '#fff7ed', stroke: '#ea580c' },
+  cache: { label: 'Cache', fill: '#fef2f2', stroke: '#dc2626' },
+  queue: { label: 'Queue', fill: '#fefce8', stroke: '#ca8a04' },
+  storage: { label: 'Object Storage', fill: '#f0fdfa', stroke: '#0d9488' },
+  external: { label: 'External API', fill: '#f9fafb', stroke: '#4b5563' }
+};
+
+const SYSTEM_DESIGN_PATTERN = /\b(design|architect)\w*\b.*\b(system|architecture|service|platform|application|scal\w*)\b/i;
+
+/**
+ * Whether a question is asking for a system design (used to open the whiteboard automatically)
+ */
+export function isSystemDesignQuestion(question: string): boolean {
+  return SYSTEM_DESIGN_PATTERN.test(question);
+}
+
+export function createDiagramId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function isDiagramEmpty(diagram: SystemDesignDiagram): boolean {
+  return diagram.nodes.length === 0;
+}
+
+/**
+ * Point where the line between two node centers leaves the source node's box
+ */
+function getBorderPoint(from: DiagramNode, to: DiagramNode): { x: number; y: number } {
+  const cx = from.x + NODE_WIDTH / 2;
+  const cy = from.y + NODE_HEIGHT / 2;
+  const dx = to.x + NODE_WIDTH / 2 - cx;
+  const dy = to.y + NODE_HEIGHT / 2 - cy;
+
+  if (dx === 0 && dy === 0) return { x: cx, y: cy };
+
+  const scale = Math.min(
+    dx !== 0 ? (NODE_WIDTH / 2) / Math.abs(dx) : Infinity,
+    dy !== 0 ? (NODE_HEIGHT / 2) / Math.abs(dy) : Infinity
+  );
+
+  return { x: cx + dx * scale, y: cy + dy * scale };
+}
+
+export function getEdgeEndpoints(from: DiagramNode, to: DiagramNode) {
+  const start = getBorderPoint(from, to);
+  const end = getBorderPoint(to, from);
+  return { x1: start.x, y1: start.y, x2: end.x, y2: end.y };
+}
+
+export function getDiagramBounds(diagram: SystemDesignDiagram, padding = 40) {
+  if (diagram.nodes.length === 0) {
+    return { x: 0, y: 0, width: 400, height: 200 };
+  }
+
+  const xs = diagram.nodes.map(node => node.x);
+  const ys = diagram.nodes.map(node => node.y);
+  const minX = Math.min(...xs) - padding;
+  const minY = Math.min(...ys) - padding;
+
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) + NODE_WIDTH + padding - minX,
+    height: Math.max(...ys) + NODE_HEIGHT + padding - minY
+  };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Serialize the diagram to a standalone SVG document
+ */
+export function diagramToSVG(diagram: SystemDesignDiagram): string {
+  const bounds = getDiagramBounds(diagram);
+  const nodesById = new Map(diagram.nodes.map(node => [node.id, node]));
+
+  const edges = diagram.edges.map(edge => {
+    const from = nodesById.get(edge.from);
+    const to = nodesById.get(edge.to);
+    if (!from || !to) return '';
+
+    const { x1, y1, x2, y2 } = getEdgeEndpoints(from, to);
+    const label = edge.label
+      ? `<text x="${(x1 + x2) / 2}" y="${(y1 + y2) / 2 - 6}" text-anchor="middle" font-size="11" fill="#374151">${escapeXml(edge.label)}</text>`
+      : '';
+
+    return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#6b7280" stroke-width="2" marker-end="url(#arrow)"/>${label}`;
+  });
+
+  const nodes = diagram.nodes.map(node => {
+    const style = nodeKinds[node.kind];
+    return `<g><rect x="${node.x}" y="${node.y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="10" fill="${style.fill}" stroke="${style.stroke}" stroke-width="2"/>` +
+      `<text x="${node.x + NODE_WIDTH / 2}" y="${node.y + 24}" text-anchor="middle" font-size="13" font-weight="600" fill="#111827">${escapeXml(node.label)}</text>` +
+      `<text x="${node.x + NODE_WIDTH / 2}" y="${node.y + 42}" text-anchor="middle" font-size="10" fill="${style.stroke}">${escapeXml(style.label)}</text></g>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}" width="${bounds.width}" height="${bounds.height}" font-family="sans-serif">
+<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280"/></marker></defs>
+<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="#ffffff"/>
+${edges.join('\n')}
+${nodes.join('\n')}
+</svg>`;
+}
+
+export function downloadFile(fileName: string, content: BlobPart, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Heuristic critique used when the LLM design review is unavailable
+ */
+export function reviewDiagram(diagram: SystemDesignDiagram): DesignReview {
+  const kinds = new Set(diagram.nodes.map(node => node.kind));
+  const connected = new Set(diagram.edges.flatMap(edge => [edge.from, edge.to]));
+  const orphans = diagram.nodes.filter(node => !connected.has(node.id));
+  const unlabeled = diagram.edges.filter(edge => !edge.label.trim()).length;
+  const services = diagram.nodes.filter(node => node.kind === 'service').length;
+  let score = 40;
+
+  const componentNotes: string[] = [`${diagram.nodes.length} components drawn.`];
+  if (diagram.nodes.length >= 4) score += 10;
+  if (kinds.has('database') || kinds.has('storage')) {
+    score += 10;
+  } else {
+    componentNotes.push('No persistent data store is shown.');
+  }
+  if (!kinds.has('client')) componentNotes.push('Show where requests originate (client).');
+
+  const flowNotes: string[] = [`${diagram.edges.length} connections drawn.`];
+  if (orphans.length === 0 && diagram.nodes.length > 0) {
+    score += 10;
+  } else if (orphans.length > 0) {
+    flowNotes.push(`Not connected to anything: ${orphans.map(node => node.label).join(', ')}.`);
+  }
+  if (unlabeled > 0) {
+    flowNotes.push(`${unlabeled} connection(s) are unlabeled; name the protocol or data being passed.`);
+  } else if (diagram.edges.length > 0) {
+    score += 5;
+  }
+
+  const scalingNotes: string[] = [];
+  if (kinds.has('loadBalancer')) {
+    score += 10;
+    scalingNotes.push('Load balancer allows horizontal scaling of the service tier.');
+  } else if (services > 0) {
+    scalingNotes.push('No load balancer; consider how the service tier scales horizontally.');
+  }
+  if (kinds.has('cache')) {
+    score += 10;
+    scalingNotes.push('Cache reduces read load on the data store.');
+  } else {
+    scalingNotes.push('Consider a cache for hot reads.');
+  }
+  if (kinds.has('queue')) {
+    score += 5;
+    scalingNotes.push('Queue decouples producers from consumers for bursty workloads.');
+  }
+
+  return {
+    components: componentNotes.join(' '),
+    dataFlow: flowNotes.join(' '),
+    scaling: scalingNotes.join(' '),
+    score: Math.min(95, score)
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * Best-effort text extraction for uploaded resumes.
+ * Handles plain text, DOCX (zip + WordprocessingML) and text-based PDFs using only
+ * browser built-ins. Scanned/image-only PDFs, and PDFs whose fonts don't map back to
+ * text, are rejected with an error rather than returning garbage.
+ */
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = ['.pdf', '.docx', '.txt', '.md'];
+
+// Share of extracted PDF characters that must be readable; fonts whose codes don't map to characters come out as control bytes
+const MIN_READABLE_RATIO = 0.8;
+
+export async function extractTextFromFile(file: File): Promise<string> {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.docx')) {
+    return extractDocxText(new Uint8Array(await file.arrayBuffer()));
+  }
+
+  if (name.endsWith('.pdf')) {
+    return extractPdfText(new Uint8Array(await file.arrayBuffer()));
+  }
+
+  if (name.endsWith('.txt') || name.endsWith('.md') || file.type.startsWith('text/')) {
+    return file.text();
+  }
+
+  throw new Error(`Unsupported file type. Please upload one of: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(', ')}`);
+}
+
+async function decompress(data: Uint8Array, format: 'deflate' | 'deflate-raw'): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function bytesToLatin1(bytes: Uint8Array): string {
+  // Map bytes 1:1 to code points so string offsets line up with byte offsets
+  let result = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    result += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return result;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read a single entry from a zip archive via its central directory
+ */
+async function readZipEntry(bytes: Uint8Array, entryName: string): Promise<Uint8Array | null> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // End of central directory record is within the last 64KB + 22 bytes
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Invalid DOCX file (zip directory not found)');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (name === entryName) {
+      const localNameLength = view.getUint16(localHeaderOffset + 26, true);
+      const localExtraLength = view.getUint16(localHeaderOffset + 28, true);
+      const dataStart = localHeaderOffset + 30 + localNameLength + localExtraLength;
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === 0) return data;
+      if (method === 8) return decompress(data, 'deflate-raw');
+      throw new Error(`Unsupported zip compression method: ${method}`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
+
+async function extractDocxText(bytes: Uint8Array): Promise<string> {
+  const documentXml = await readZipEntry(bytes, 'word/document.xml');
+  if (!documentXml) {
+    throw new Error('Invalid DOCX file (word/document.xml not found)');
+  }
+
+  const xml = new TextDecoder().decode(documentXml);
+
+  return decodeXmlEntities(
+    xml
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:br\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function decodePdfString(literal: string): string {
+  return literal.replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, escape: string) => {
+    switch (escape) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case '(': return '(';
+      case ')': return ')';
+      case '\\': return '\\';
+      default: return String.fromCharCode(parseInt(escape, 8));
+    }
+  });
+}
+
+/**
+ * Hex strings (<48656C6C6F>) hold one byte per character, or UTF-16BE text when they start with a byte order mark
+ */
+function decodePdfHexString(hex: string): string {
+  const digits = hex.replace(/\s+/g, '');
+  const bytes = new Uint8Array(Math.ceil(digits.length / 2));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(digits.slice(i * 2, i * 2 + 2).padEnd(2, '0'), 16);
+  }
+
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  }
+  return bytesToLatin1(bytes);
+}
+
+function isReadable(text: string): boolean {
+  if (!text) return false;
+  const readable = text.match(/[\p{L}\p{N}\p{P}\p{S}\s]/gu)?.length || 0;
+  return readable / text.length >= MIN_READABLE_RATIO;
+}
+
+/**
+ * Pull text-showing operators (Tj, TJ, ', ") out of a PDF content stream
+ */
+function extractTextOperators(content: string): string {
+  const lines: string[] = [];
+  let current = '';
+  const tokenPattern = /(?:\((?:\\.|[^\\)])*\)|<[0-9A-Fa-f\s]*>)\s*(?:Tj|'|")|\[(?:\\.|[^\]])*\]\s*TJ|T\*|Td|TD|ET/g;
+
+  for (const match of content.matchAll(tokenPattern)) {
+    const token = match[0];
+
+    if (token === 'T*' || token === 'Td' || token === 'TD' || token === 'ET') {
+      if (current.trim()) lines.push(current.trim());
+      current = '';
+      continue;
+    }
+
+    for (const part of token.matchAll(/\(((?:\\.|[^\\)])*)\)|<([0-9A-Fa-f\s]*)>/g)) {
+      current += part[1] !== undefined ? decodePdfString(part[1]) : decodePdfHexString(part[2]);
+    }
+  }
+
+  if (current.trim()) lines.push(current.trim());
+  return lines.join('\n');
+}
+
+async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  const raw = bytesToLatin1(bytes);
+  if (!raw.startsWith('%PDF')) {
+    throw new Error('Invalid PDF file');
+  }
+
+  const parts: string[] = [];
+  const streamPattern = /<<([\s\S]*?)>>\s*stream\r?\n/g;
+
+  for (const match of raw.matchAll(streamPattern)) {
+    const dictionary = match[1];
+    const start = (match.index ?? 0) + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) continue;
+
+    // Skip images and fonts; only content streams carry text operators
+    if (/\/Subtype\s*\/(Image|Type1C|CIDFontType0C)/.test(dictionary) || /\/Length1/.test(dictionary)) {
+      continue;
+    }
+
+    try {
+      const data = bytes.subarray(start, end);
+      const content = /\/FlateDecode/.test(dictionary)
+        ? bytesToLatin1(await decompress(data, 'deflate'))
+        : bytesToLatin1(data);
+      const text = extractTextOperators(content);
+      if (text) parts.push(text);
+    } catch {
+      // Truncated or unsupported stream encodings are skipped
+    }
+  }
+
+  const text = parts.join('\n').trim();
+  if (!isReadable(text)) {
+    throw new Error('Could not read text from this PDF. It may be scanned or use fonts without a text encoding; try a DOCX or plain text version.');
+  }
+  return text;
+}
@@ -0,0 +1,49 @@
+export interface StreamEvent {
+  event: string;
+  data: unknown;
+}
+
+// Parse one "event:/data:" block of a Server-Sent Events stream; blocks without data are skipped
+function parseEventBlock(block: string): StreamEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  block.split('\n').forEach(line => {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trim());
+    }
+  });
+
+  if (data.length === 0) return null;
+  return { event, data: JSON.parse(data.join('\n')) };
+}
+
+/**
+ * Read a Server-Sent Events response body (from a POST, which EventSource cannot send), calling onEvent for each event
+ */
+export async function readEventStream(response: Response, onEvent: (event: StreamEvent) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done }).replace(/\r\n/g, '\n');
+
+    const blocks = buffer.split('\n\n');
+    buffer = done ? '' : blocks.pop() || '';
+
+    blocks.forEach(block => {
+      const parsed = parseEventBlock(block);
+      if (parsed) onEvent(parsed);
+    });
+
+    if (done) return;
+  }
+}
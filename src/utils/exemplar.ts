@@ -0,0 +1,44 @@
+import { ExemplarAnswer } from '../types';
+import { QuestionBankService } from '../services/questionBankService';
+import { conceptPattern } from '../../shared/exemplar.js';
+
+export { analyzeConceptCoverage, isConceptCovered } from '../../shared/exemplar.js';
+
+export interface HighlightSegment {
+  text: string;
+  concept?: string;
+}
+
+/**
+ * Curated exemplar for a question that was asked straight from the question bank
+ */
+export function findBankExemplar(question: string): ExemplarAnswer | undefined {
+  const exemplar = QuestionBankService.findQuestion(question)?.exemplar;
+  return exemplar ? { ...exemplar, source: 'question-bank' } : undefined;
+}
+
+/**
+ * Split text into plain runs and runs that mention one of the concepts, for highlighting
+ */
+export function highlightConcepts(text: string, concepts: string[]): HighlightSegment[] {
+  if (concepts.length === 0) return [{ text }];
+
+  // Longest first so "code review" wins over "review"
+  const sorted = [...concepts].sort((a, b) => b.length - a.length);
+  const pattern = conceptPattern(sorted, 'gi');
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) segments.push({ text: text.slice(lastIndex, index) });
+    segments.push({
+      text: match[0],
+      concept: sorted.find(concept => concept.toLowerCase() === match[0].toLowerCase())
+    });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex) });
+  return segments;
+}
@@ -0,0 +1,65 @@
+import { FollowUpAggressiveness, InterviewConfig } from '../types';
+import { QuestionBankService } from '../services/questionBankService';
+
+export const DEFAULT_FOLLOW_UP_DEPTH = 1;
+
+export const FOLLOW_UP_DEPTHS = [0, 1, 2, 3];
+
+// A follow-up takes a couple of minutes, so probing stops once the time left per remaining question drops below this
+const MIN_MS_PER_QUESTION = 2 * 60 * 1000;
+
+// Answers that assess below the threshold get probed; more aggressive interviewers probe decent answers too
+const PROBE_THRESHOLDS: Record<FollowUpAggressiveness, number> = {
+  low: 40,
+  medium: 60,
+  high: 85
+};
+
+// Each level deeper needs a weaker answer to justify another probe
+const DEPTH_PENALTY = 10;
+
+export interface FollowUpContext {
+  answer: string;
+  /** Follow-ups already asked on this question */
+  depth: number;
+  maxDepth: number;
+  remainingMs: number;
+  /** Main questions still to ask after this one */
+  remainingQuestions: number;
+  aggressiveness?: FollowUpAggressiveness;
+}
+
+export function getMaxFollowUpDepth(config: InterviewConfig): number {
+  return config.maxFollowUpDepth ?? DEFAULT_FOLLOW_UP_DEPTH;
+}
+
+/**
+ * Rough 0-100 measure of how complete an answer is: its length, concrete detail, reasoning and outcomes
+ */
+export function assessAnswerDepth(answer: string): number {
+  const words = answer.split(/\s+/).filter(Boolean).length;
+  const length = Math.min(words / 120, 1) * 50;
+  const specifics = /\d|\b(for example|for instance|e\.g\.|such as|specifically|in my (last|previous|current) (role|job|project))\b/i.test(answer) ? 20 : 0;
+  const reasoning = /\b(because|so that|which means|therefore|trade-?offs?|the reason)\b/i.test(answer) ? 20 : 0;
+  const outcome = /\b(result|outcome|impact|measured|improved|reduced|increased)\b/i.test(answer) ? 10 : 0;
+  return Math.round(length + specifics + reasoning + outcome);
+}
+
+/**
+ * Decide after an answer whether to drill deeper into the same question or move on
+ */
+export function shouldFollowUp(context: FollowUpContext): boolean {
+  if (context.depth >= context.maxDepth) return false;
+  if (context.remainingMs / (context.remainingQuestions + 1) < MIN_MS_PER_QUESTION) return false;
+
+  const threshold = PROBE_THRESHOLDS[context.aggressiveness || 'medium'] - context.depth * DEPTH_PENALTY;
+  return assessAnswerDepth(context.answer) < threshold;
+}
+
+/**
+ * The bank's follow-up for a question at the given depth (1 for the first follow-up), when the question came from the bank
+ */
+export function getBankFollowUp(question: string, depth: number): string | null {
+  const followUps = QuestionBankService.findQuestion(question)?.followUp || [];
+  return followUps[depth - 1] || null;
+}
@@ -0,0 +1,27 @@
+import { HiringCommitteeSummary, HiringRecommendation, LoopRoundResult } from '../types';
+import { summarizeRounds } from '../../shared/hiringCommittee.js';
+
+const RECOMMENDATION_LABELS: Record<HiringRecommendation, string> = {
+  'strong-hire': 'Strong Hire',
+  hire: 'Hire',
+  'lean-no-hire': 'Lean No Hire',
+  'no-hire': 'No Hire'
+};
+
+export function getRecommendationLabel(recommendation: HiringRecommendation): string {
+  return RECOMMENDATION_LABELS[recommendation];
+}
+
+/**
+ * Offline hiring committee decision for a finished loop, the same one the server falls back to
+ */
+export function summarizeLoop(results: LoopRoundResult[]): HiringCommitteeSummary {
+  return summarizeRounds(results.map(result => ({
+    name: result.round.name,
+    style: result.round.style,
+    duration: result.round.duration,
+    overallScore: result.analytics.overallScore,
+    strengths: result.analytics.strengths,
+    improvements: result.analytics.improvements
+  })));
+}
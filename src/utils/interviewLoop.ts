@@ -0,0 +1,72 @@
+import { InterviewConfig, LoopRound, LoopRoundResult, PriorRoundContext } from '../types';
+import { appliesToStyle, getDefaultRubric } from './rubric';
+
+// A typical phone screen → onsite loop, used as the starting point in the loop editor
+export const DEFAULT_LOOP: LoopRound[] = [
+  { name: 'Recruiter Screen', style: 'hr', duration: 15 },
+  { name: 'Technical Interview', style: 'technical', duration: 45 },
+  { name: 'Behavioral Interview', style: 'behavioral', duration: 30 },
+  { name: 'Offer Discussion', style: 'salary-negotiation', duration: 15 }
+];
+
+const MAX_HIGHLIGHTS = 3;
+const EXCERPT_LENGTH = 280;
+
+function excerpt(text: string): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > EXCERPT_LENGTH ? `${clean.slice(0, EXCERPT_LENGTH).trim()}…` : clean;
+}
+
+/**
+ * Keep the most substantial answers from a finished round so later interviewers can pick up on them
+ */
+export function buildPriorRoundContext(result: LoopRoundResult): PriorRoundContext {
+  const highlights = [...result.analytics.questionReviews]
+    .filter(review => review.response.trim().split(/\s+/).length >= 15)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_HIGHLIGHTS)
+    .map(review => ({ question: review.question, response: excerpt(review.response) }));
+
+  return {
+    name: result.round.name,
+    style: result.round.style,
+    score: Math.round(result.analytics.overallScore),
+    highlights
+  };
+}
+
+/**
+ * Config for one round of a loop: the shared settings with the round's style and duration,
+ * plus what was said in the rounds before it
+ */
+export function createRoundConfig(base: InterviewConfig, rounds: LoopRound[], results: LoopRoundResult[]): InterviewConfig {
+  const round = rounds[results.length];
+
+  return {
+    ...base,
+    style: round.style,
+    duration: round.duration,
+    // Each round is graded with its own style's rubric unless the chosen one covers that style too
+    rubric: base.rubric && appliesToStyle(base.rubric, round.style) ? base.rubric : getDefaultRubric(round.style),
+    loop: undefined,
+    loopContext: {
+      roundNumber: results.length + 1,
+      totalRounds: rounds.length,
+      roundName: round.name,
+      previousRounds: results.map(buildPriorRoundContext)
+    }
+  };
+}
+
+/**
+ * Offline question that refers back to an earlier round's answer, so the loop feels connected without the LLM
+ */
+export function getLoopCallbackQuestion(config: InterviewConfig): string | null {
+  const previous = config.loopContext?.previousRounds || [];
+  const source = [...previous].reverse().find(round => round.highlights.length > 0);
+  if (!source) return null;
+
+  const highlight = source.highlights[0];
+  const quote = highlight.response.split(/(?<=[.!?])\s/)[0];
+  return `In your ${source.name.toLowerCase()} you said: "${quote}" Can you go deeper on that and tell me what you would do differently now?`;
+}
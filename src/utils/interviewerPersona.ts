@@ -0,0 +1,47 @@
+import { InterviewerPersona, InterviewerPersonaId } from '../types';
+import { interviewerPersonas } from '../data/personas';
+import { browserTTS, SpeechOptions } from './speechSynthesis';
+
+// Voice used when no persona is selected, matching the interviewer's original delivery
+const DEFAULT_SPEECH: SpeechOptions = { rate: 0.9, pitch: 1.0, volume: 1.0, lang: 'en-US' };
+
+// Even interviewers who let you finish step in once a spoken answer runs this long
+export const MAX_ANSWER_SECONDS = 300;
+
+// Lines for interviewers without interjections of their own
+const DEFAULT_INTERJECTIONS = [
+  "Sorry to jump in, but we're running short on time. Can you sum that up?",
+  "Let me stop you there. What was the end result?"
+];
+
+export function getPersona(id?: InterviewerPersonaId): InterviewerPersona | undefined {
+  return id ? interviewerPersonas.find(persona => persona.id === id) : undefined;
+}
+
+export function getPersonaSpeechOptions(id?: InterviewerPersonaId): SpeechOptions {
+  const persona = getPersona(id);
+  if (!persona) return DEFAULT_SPEECH;
+
+  return {
+    rate: persona.voice.rate,
+    pitch: persona.voice.pitch,
+    volume: persona.voice.volume,
+    lang: 'en-US',
+    voice: browserTTS.findVoice(persona.voice.voiceHints)
+  };
+}
+
+/**
+ * Seconds a spoken answer can run before the interviewer cuts in: the persona's patience, capped at MAX_ANSWER_SECONDS
+ */
+export function getInterruptAfterSeconds(persona?: InterviewerPersona): number {
+  return Math.min(persona?.interruptAfterSeconds ?? MAX_ANSWER_SECONDS, MAX_ANSWER_SECONDS);
+}
+
+/**
+ * Interjection for the nth interruption, cycling through the persona's lines (or generic ones)
+ */
+export function getInterjection(persona: InterviewerPersona | undefined, count: number): string {
+  const lines = persona && persona.interjections.length > 0 ? persona.interjections : DEFAULT_INTERJECTIONS;
+  return lines[count % lines.length];
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { InterviewConfig } from '../types';
+import { createNegotiation, respondToCandidate } from './negotiation';
+
+const config: InterviewConfig = {
+  topic: 'Software Engineering',
+  style: 'salary-negotiation',
+  experienceLevel: 'mid-level',
+  companyName: 'Acme',
+  duration: 30
+};
+
+const reply = (message: string) => respondToCandidate(createNegotiation(config, 42), message);
+
+describe('respondToCandidate', () => {
+  it.each([
+    'I accept the offer.',
+    "Sounds good, let's move forward.",
+    "Great, it's a deal!",
+    "I'll take it."
+  ])('closes as accepted for "%s"', message => {
+    expect(reply(message).status).toBe('accepted');
+  });
+
+  it.each([
+    "I can't accept the offer as it stands, can you do better?",
+    "Honestly that's not a great deal for me.",
+    "I'm in a tough spot with this number.",
+    "I'm unable to accept this offer yet.",
+    "That doesn't sound good to me, I won't accept the offer like this."
+  ])('keeps negotiating for "%s"', message => {
+    const next = reply(message);
+    expect(next.status).not.toBe('accepted');
+    expect(next.turns[next.turns.length - 1].recruiterReply).not.toMatch(/welcome aboard/i);
+  });
+});
@@ -0,0 +1,382 @@
+import { ConcessionStrategy, ExperienceLevel, InterviewConfig, NegotiationOffer, NegotiationScenario, NegotiationState, NegotiationStatus, NegotiationSummary } from '../types';
+
+// The negotiation ends without a deal if it is still open after this many candidate turns
+export const MAX_NEGOTIATION_TURNS = 8;
+
+// Typical base salary (USD) at each level; the recruiter's band is built around it
+const MARKET_BASE: Record<ExperienceLevel, number> = {
+  fresher: 70000,
+  junior: 90000,
+  'mid-level': 120000,
+  senior: 155000,
+  'lead-manager': 190000
+};
+
+const MAX_BONUS_PERCENT: Record<ExperienceLevel, number> = {
+  fresher: 8,
+  junior: 10,
+  'mid-level': 15,
+  senior: 18,
+  'lead-manager': 25
+};
+
+// Annual equity ceiling as a share of market base
+const EQUITY_SHARE: Record<ExperienceLevel, number> = {
+  fresher: 0.05,
+  junior: 0.1,
+  'mid-level': 0.15,
+  senior: 0.25,
+  'lead-manager': 0.35
+};
+
+// How much of the gap to an ask the recruiter gives per turn, how far above market the band stretches, and how many turns
+// of back-and-forth they allow before a final offer
+const STRATEGIES: Record<ConcessionStrategy, { concession: number; stretch: number; patience: number }> = {
+  firm: { concession: 0.3, stretch: 0.08, patience: 3 },
+  balanced: { concession: 0.45, stretch: 0.12, patience: 4 },
+  flexible: { concession: 0.6, stretch: 0.16, patience: 5 }
+};
+
+const ACCEPT_PATTERN = /\b(i accept|i'?ll accept|happy to accept|accept (the|your|this) offer|i'?ll take it|(we have|it'?s) a deal|sounds (good|great)|let'?s do it|let'?s move forward)\b/gi;
+// "I can't accept the offer" is a refusal, so a negation in the few words before an acceptance phrase cancels it
+const NEGATION_PATTERN = /\b(not|never|can[’']?t|cannot|won[’']?t|don[’']?t|unable)\b/i;
+const NEGATION_WINDOW_WORDS = 3;
+const DECLINE_PATTERN = /\b(decline|turn (it|this|the offer) down|walk away|not interested|pass on (this|the|your) offer)\b/i;
+const JUSTIFICATION_PATTERN = /\b(competing|another offer|other offer|counter ?offer|market (rate|data|value)|research|levels\.fyi|glassdoor|industry (standard|average)|years of experience|track record|certifi\w*|led|delivered|impact)\b/i;
+const VAGUE_ASK_PATTERN = /\b(flexib\w*|better|improve|increase|room|wiggle|stretch|higher|more)\b/i;
+
+const COMPONENT_LABELS: Record<keyof NegotiationOffer, string> = {
+  base: 'base salary',
+  bonusPercent: 'bonus target',
+  equity: 'equity',
+  signOn: 'sign-on bonus',
+  startInWeeks: 'start date'
+};
+
+// Small seeded generator so a scenario can be recreated from its seed
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function roundTo(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+export function formatMoney(amount: number): string {
+  return `$${Math.round(amount).toLocaleString('en-US')}`;
+}
+
+/**
+ * First-year value of a package: base, target bonus, a year of equity and the sign-on bonus
+ */
+export function getOfferValue(offer: NegotiationOffer): number {
+  return Math.round(offer.base * (1 + offer.bonusPercent / 100) + offer.equity + offer.signOn);
+}
+
+export function getMaxOffer(scenario: NegotiationScenario): NegotiationOffer {
+  return {
+    base: scenario.baseBand.max,
+    bonusPercent: scenario.maxBonusPercent,
+    equity: scenario.maxEquity,
+    signOn: scenario.maxSignOn,
+    startInWeeks: scenario.maxStartInWeeks
+  };
+}
+
+export function describeOffer(offer: NegotiationOffer): string {
+  return [
+    `a base salary of ${formatMoney(offer.base)}`,
+    `a ${offer.bonusPercent}% annual bonus target`,
+    ...(offer.equity > 0 ? [`${formatMoney(offer.equity)} a year in equity`] : []),
+    ...(offer.signOn > 0 ? [`a ${formatMoney(offer.signOn)} sign-on bonus`] : [])
+  ].join(', ') + `, starting in ${offer.startInWeeks} weeks`;
+}
+
+function formatComponent(key: keyof NegotiationOffer, value: number): string {
+  switch (key) {
+    case 'bonusPercent':
+      return `${value}%`;
+    case 'startInWeeks':
+      return `${value} weeks out`;
+    default:
+      return formatMoney(value);
+  }
+}
+
+export function isNegotiationClosed(state: NegotiationState): boolean {
+  return state.status === 'accepted' || state.status === 'declined' || state.status === 'rescinded';
+}
+
+/**
+ * Set up a negotiation for the candidate's level: a hidden scenario and the recruiter's opening offer
+ */
+export function createNegotiation(config: InterviewConfig, seed: number = Date.now()): NegotiationState {
+  const random = mulberry32(seed);
+  const strategies = Object.keys(STRATEGIES) as ConcessionStrategy[];
+  const strategy = strategies[Math.floor(random() * strategies.length)];
+  const { stretch, patience } = STRATEGIES[strategy];
+
+  const market = MARKET_BASE[config.experienceLevel] * (0.95 + random() * 0.1);
+  const scenario: NegotiationScenario = {
+    strategy,
+    baseBand: { min: roundTo(market * 0.9, 1000), max: roundTo(market * (1 + stretch), 1000) },
+    maxBonusPercent: MAX_BONUS_PERCENT[config.experienceLevel],
+    maxEquity: roundTo(market * EQUITY_SHARE[config.experienceLevel], 1000),
+    maxSignOn: roundTo(market * (0.08 + random() * 0.07), 1000),
+    maxStartInWeeks: 6 + Math.floor(random() * 6),
+    walkAwayValue: 0,
+    patience
+  };
+  scenario.walkAwayValue = roundTo(getOfferValue(getMaxOffer(scenario)) * 1.1, 1000);
+
+  const offer: NegotiationOffer = {
+    base: roundTo(scenario.baseBand.min + (scenario.baseBand.max - scenario.baseBand.min) * 0.2, 1000),
+    bonusPercent: Math.round(scenario.maxBonusPercent / 2),
+    equity: roundTo(scenario.maxEquity * 0.5, 1000),
+    signOn: 0,
+    startInWeeks: 2
+  };
+
+  const company = config.companyName || 'the team';
+  return {
+    scenario,
+    initialOffer: offer,
+    offer,
+    status: 'open',
+    recruiterMessage: `Thanks for making time today, and congratulations! Everyone you met at ${company} was impressed, and we'd love to have you in the ${config.topic} role. Our offer is ${describeOffer(offer)}. What are your thoughts?`,
+    turns: [],
+    overreachCount: 0
+  };
+}
+
+function parseAmount(raw: string, thousands: string | undefined): number {
+  const value = parseFloat(raw.replace(/,/g, ''));
+  return thousands ? value * 1000 : value;
+}
+
+/**
+ * The package components a candidate message asks for, e.g. "$150k base and a 20k signing bonus".
+ * Only components that would improve on the current offer are returned.
+ */
+export function parseCounterOffer(message: string, offer: NegotiationOffer): Partial<NegotiationOffer> {
+  const asks: Partial<NegotiationOffer> = {};
+  // Split into clauses without breaking numbers like "150,000" or "7.5%"
+  const clauses = message.split(/(?<!\d)[.,](?!\d)|[;!?\n]|\band\b|\bplus\b|\balso\b|\bwith\b/i);
+
+  clauses.forEach(clause => {
+    const text = clause.toLowerCase();
+    const component: keyof NegotiationOffer | null =
+      /sign[- ]?on|signing|joining bonus|relocation/.test(text) ? 'signOn'
+        : /equity|stock|rsus?\b|shares|options/.test(text) ? 'equity'
+          : /bonus/.test(text) ? 'bonusPercent'
+            : /base|salary|pay\b|comp/.test(text) ? 'base'
+              : /start|join|begin|notice/.test(text) ? 'startInWeeks'
+                : null;
+
+    const weeks = text.match(/(\d+)\s*(weeks?|wks?|months?)/);
+    if (weeks && (component === 'startInWeeks' || component === null)) {
+      const count = parseInt(weeks[1], 10) * (weeks[2].startsWith('month') ? 4 : 1);
+      if (count > offer.startInWeeks) asks.startInWeeks = count;
+      return;
+    }
+
+    const amount = text.match(/\$?\s*(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(k\b|thousand)?\s*(%|percent)?/);
+    if (!amount) return;
+
+    let value = parseAmount(amount[1], amount[2]);
+    const isPercent = !!amount[3];
+
+    if (component === 'bonusPercent' || (isPercent && component === null)) {
+      // A bonus asked for in dollars is converted to a share of base
+      const percent = isPercent || value < 100 ? value : (value / offer.base) * 100;
+      asks.bonusPercent = Math.round(percent * 2) / 2;
+    } else if (isPercent && component === 'base') {
+      asks.base = roundTo(offer.base * (1 + value / 100), 1000);
+    } else if (!isPercent && (component === 'base' || component === 'equity' || component === 'signOn' || component === null)) {
+      // "150 base" means 150k; a bare number only counts as base when it looks like a salary
+      if (value < 1000 && (component !== null || amount[2])) value *= 1000;
+      if (value < 1000) return;
+      asks[component || 'base'] = roundTo(value, 1000);
+    }
+  });
+
+  (Object.keys(asks) as (keyof NegotiationOffer)[]).forEach(key => {
+    if ((asks[key] as number) <= offer[key]) delete asks[key];
+  });
+  return asks;
+}
+
+function recordTurn(
+  state: NegotiationState,
+  candidateMessage: string,
+  updates: { offer?: NegotiationOffer; status?: NegotiationStatus; overreachCount?: number },
+  recruiterReply: string
+): NegotiationState {
+  const offer = updates.offer || state.offer;
+  const status = updates.status || state.status;
+  return {
+    ...state,
+    offer,
+    status,
+    overreachCount: updates.overreachCount ?? 0,
+    recruiterMessage: recruiterReply,
+    turns: [...state.turns, { candidateMessage, recruiterReply, offer, status }]
+  };
+}
+
+/**
+ * Move every asked component part of the way toward the ask, never past the hidden maximum
+ */
+function concede(state: NegotiationState, asks: Partial<NegotiationOffer>, rate: number) {
+  const max = getMaxOffer(state.scenario);
+  const offer = { ...state.offer };
+  const moved: string[] = [];
+  const capped: string[] = [];
+  const held: string[] = [];
+
+  (Object.keys(asks) as (keyof NegotiationOffer)[]).forEach(key => {
+    const current = state.offer[key];
+    const target = Math.min(asks[key] as number, max[key]);
+    if (target <= current) {
+      held.push(COMPONENT_LABELS[key]);
+      return;
+    }
+
+    const step = key === 'bonusPercent' ? 0.5 : key === 'startInWeeks' ? 1 : 1000;
+    let next = current + (target - current) * rate;
+    // Close gaps are simply met rather than haggled over
+    if (target - next <= Math.max(step, target * 0.02)) next = target;
+    next = Math.max(current + step, Math.round(next / step) * step);
+    offer[key] = Math.min(next, target);
+
+    moved.push(`${key === 'startInWeeks' ? 'push the start date to' : `move the ${COMPONENT_LABELS[key]} to`} ${formatComponent(key, offer[key])}`);
+    if (offer[key] === max[key] && (asks[key] as number) > max[key]) {
+      capped.push(COMPONENT_LABELS[key]);
+    }
+  });
+
+  return { offer, moved, capped, held };
+}
+
+function isAcceptance(message: string): boolean {
+  return Array.from(message.matchAll(ACCEPT_PATTERN)).some(match => {
+    const before = message.slice(0, match.index).split(/\s+/).filter(Boolean).slice(-NEGATION_WINDOW_WORDS).join(' ');
+    return !NEGATION_PATTERN.test(before);
+  });
+}
+
+function joinList(items: string[]): string {
+  return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+/**
+ * The recruiter's response to one candidate message. Returns the next state; the input state is not changed.
+ */
+export function respondToCandidate(state: NegotiationState, message: string): NegotiationState {
+  if (isNegotiationClosed(state)) return state;
+
+  const { scenario } = state;
+  const asks = parseCounterOffer(message, state.offer);
+  const hasAsk = Object.keys(asks).length > 0;
+  const turnNumber = state.turns.length + 1;
+
+  if (!hasAsk && isAcceptance(message)) {
+    return recordTurn(state, message, { status: 'accepted' },
+      `Wonderful, I'm thrilled! I'll send the written offer over today: ${describeOffer(state.offer)}. Welcome aboard!`);
+  }
+
+  if (!hasAsk && DECLINE_PATTERN.test(message)) {
+    return recordTurn(state, message, { status: 'declined' },
+      `I'm sorry to hear that, but I understand. The offer stands for a few more days if you change your mind.`);
+  }
+
+  const finalOfferTurns = state.turns.filter(turn => turn.status === 'final-offer').length;
+
+  if (!hasAsk) {
+    if (state.status === 'final-offer') {
+      return finalOfferTurns >= 2
+        ? recordTurn(state, message, { status: 'declined' }, `I don't think we can get any closer, so let's leave it there. Thank you for your time.`)
+        : recordTurn(state, message, {}, `As I said, ${describeOffer(state.offer)} is our final offer. Can we move forward on that basis?`);
+    }
+    if (VAGUE_ASK_PATTERN.test(message)) {
+      return recordTurn(state, message, {},
+        `I want to make this work, but I need something concrete to take back to the team. What number did you have in mind, and for which part of the package?`);
+    }
+    return recordTurn(state, message, {},
+      `Happy to talk it through. The offer is ${describeOffer(state.offer)}. Is there a specific part of the package you'd like to discuss?`);
+  }
+
+  // Demands beyond the walk-away point get pushback, then a final offer, then the recruiter walks away
+  const demanded = { ...state.offer, ...asks };
+  if (getOfferValue(demanded) > scenario.walkAwayValue) {
+    const overreachCount = state.overreachCount + 1;
+    if (state.status === 'final-offer') {
+      return recordTurn(state, message, { status: 'rescinded', overreachCount },
+        `We're simply too far apart. I'm going to have to withdraw the offer, but I wish you the very best in your search.`);
+    }
+    if (overreachCount >= 2) {
+      return recordTurn(state, message, { status: 'final-offer', overreachCount },
+        `I've been straight with you: that's well beyond what this role can pay. Our final offer is ${describeOffer(state.offer)}. I'd need an answer on that.`);
+    }
+    return recordTurn(state, message, { overreachCount },
+      `I appreciate you being direct, but that's well outside the budget for this role. I'd encourage you to look at the whole package: ${describeOffer(state.offer)}. Is there a more realistic figure we can work with?`);
+  }
+
+  if (state.status === 'final-offer') {
+    return finalOfferTurns >= 2
+      ? recordTurn(state, message, { status: 'declined' }, `I'm afraid we can't move any further, so we'll have to leave it there. Thank you for your time.`)
+      : recordTurn(state, message, {}, `I understand, but I've already gone as far as I can. ${describeOffer(state.offer)} is our final offer.`);
+  }
+
+  const justified = JUSTIFICATION_PATTERN.test(message);
+  const rate = Math.min(1, STRATEGIES[scenario.strategy].concession + (justified ? 0.15 : 0));
+  const { offer, moved, capped, held } = concede(state, asks, rate);
+  const isFinal = turnNumber >= scenario.patience;
+
+  const opener = justified
+    ? 'Thanks for sharing that, it helps me make the case internally.'
+    : scenario.strategy === 'firm'
+      ? 'Our bands for this role are fairly fixed, but let me see what I can do.'
+      : 'I hear you, and I went back to the team on this.';
+  const parts = [
+    opener,
+    moved.length > 0 ? `I can ${joinList(moved)}.` : `Unfortunately I don't have any more room there.`,
+    ...(capped.length > 0 ? [`That's the top of what we can do on the ${joinList(capped)}.`] : []),
+    ...(held.length > 0 ? [`I can't move on the ${joinList(held)}.`] : []),
+    isFinal
+      ? `That brings us to ${describeOffer(offer)}, and it's our best and final offer.`
+      : 'How does that sound?'
+  ];
+
+  return recordTurn(state, message, { offer, status: isFinal ? 'final-offer' : 'open' }, parts.join(' '));
+}
+
+export function summarizeNegotiation(state: NegotiationState): NegotiationSummary {
+  const maxOffer = getMaxOffer(state.scenario);
+  const initialValue = getOfferValue(state.initialOffer);
+  const finalValue = getOfferValue(state.offer);
+  const maxValue = getOfferValue(maxOffer);
+  const room = maxValue - initialValue;
+
+  return {
+    status: state.status,
+    strategy: state.scenario.strategy,
+    initialOffer: state.initialOffer,
+    finalOffer: state.offer,
+    maxOffer,
+    initialValue,
+    finalValue,
+    maxValue,
+    capturePercent: state.status === 'accepted' && room > 0
+      ? Math.max(0, Math.min(100, Math.round(((finalValue - initialValue) / room) * 100)))
+      : 0,
+    turns: state.turns
+  };
+}
@@ -0,0 +1,154 @@
+export type PdfTextStyle = 'title' | 'heading' | 'subheading' | 'body' | 'muted';
+
+export interface PdfBlock {
+  text: string;
+  style: PdfTextStyle;
+  /** Left indent in points, for quoted answers and list items */
+  indent?: number;
+}
+
+const PAGE_WIDTH = 595; // A4
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+
+const STYLES: Record<PdfTextStyle, { font: 'F1' | 'F2' | 'F3'; size: number; spaceBefore: number }> = {
+  title: { font: 'F2', size: 18, spaceBefore: 0 },
+  heading: { font: 'F2', size: 13, spaceBefore: 16 },
+  subheading: { font: 'F2', size: 11, spaceBefore: 10 },
+  body: { font: 'F1', size: 10.5, spaceBefore: 3 },
+  muted: { font: 'F3', size: 9, spaceBefore: 2 }
+};
+
+// Helvetica advance widths (per 1000 units of font size) for printable ASCII, from the standard font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Characters outside Latin-1 that have a WinAnsi code, plus plain stand-ins for common typography
+const WIN_ANSI: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"',
+  '–': '-', '—': '-', '…': '...', '•': '\x95', '€': '\x80', '™': '\x99'
+};
+
+function toWinAnsi(text: string): string {
+  return Array.from(text.replace(/\r\n?/g, '\n').replace(/\t/g, '    '))
+    .map(char => {
+      const code = char.charCodeAt(0);
+      if (code < 32 && char !== '\n') return ' ';
+      return WIN_ANSI[char] ?? (code <= 0xff ? char : '?');
+    })
+    .join('');
+}
+
+function textWidth(text: string, style: PdfTextStyle): number {
+  const { font, size } = STYLES[style];
+  // Bold runs a little wider than regular; a small allowance keeps wrapped lines inside the margin
+  const factor = font === 'F2' ? 1.08 : 1;
+  const units = Array.from(text).reduce((sum, char) => sum + (HELVETICA_WIDTHS[char.charCodeAt(0) - 32] ?? 556), 0);
+  return (units * size * factor) / 1000;
+}
+
+function wrapText(text: string, style: PdfTextStyle, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  // Words too long for a line (URLs, code) are broken wherever they overflow
+  const pushLine = (line: string) => {
+    let rest = line;
+    while (rest.length > 1 && textWidth(rest, style) > maxWidth) {
+      let cut = rest.length - 1;
+      while (cut > 1 && textWidth(rest.slice(0, cut), style) > maxWidth) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    lines.push(rest);
+  };
+
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/ +/).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (!line || textWidth(candidate, style) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      pushLine(line);
+      line = word;
+    });
+    pushLine(line);
+  });
+
+  return lines;
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+/**
+ * Lay out blocks of text on A4 pages and write them as a PDF file, with page numbers in the footer.
+ * Uses the standard Helvetica fonts so no font data has to be embedded.
+ */
+export function createTextPdf(blocks: PdfBlock[]): Uint8Array {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  blocks.forEach(block => {
+    const style = STYLES[block.style];
+    const indent = block.indent || 0;
+    const lineHeight = style.size * 1.4;
+    const lines = wrapText(toWinAnsi(block.text), block.style, PAGE_WIDTH - MARGIN * 2 - indent);
+
+    y -= style.spaceBefore;
+    lines.forEach(line => {
+      if (y - lineHeight < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= lineHeight;
+      pages[pages.length - 1].push(
+        `BT /${style.font} ${style.size} Tf ${MARGIN + indent} ${y.toFixed(2)} Td (${escapePdfString(line)}) Tj ET`
+      );
+    });
+  });
+
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '', // Pages, filled in once the page objects are numbered
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Oblique /Encoding /WinAnsiEncoding >>'
+  ];
+
+  const pageRefs = pages.map((commands, index) => {
+    const footer = `BT /F3 8 Tf ${PAGE_WIDTH - MARGIN - 40} ${MARGIN / 2} Td (Page ${index + 1} of ${pages.length}) Tj ET`;
+    const content = [...commands, footer].join('\n');
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    const contentRef = objects.length;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${contentRef} 0 R >>`
+    );
+    return `${objects.length} 0 R`;
+  });
+  objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`;
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, char => char.charCodeAt(0));
+}
@@ -0,0 +1,169 @@
+import { ResumeProfile, JobDescriptionProfile } from '../types';
+
+// Common skills recognised anywhere in the text, even outside a "Skills" section
+const KNOWN_SKILLS = [
+  'JavaScript', 'TypeScript', 'Python', 'Java', 'C++', 'C#', 'Go', 'Rust', 'Ruby', 'PHP', 'Kotlin', 'Swift', 'Scala', 'SQL',
+  'React', 'Angular', 'Vue', 'Next.js', 'Node.js', 'Express', 'Django', 'Flask', 'FastAPI', 'Spring', 'Rails', '.NET',
+  'HTML', 'CSS', 'Tailwind', 'Redux', 'GraphQL', 'REST', 'gRPC', 'WebSockets',
+  'PostgreSQL', 'MySQL', 'MongoDB', 'Redis', 'Elasticsearch', 'DynamoDB', 'Cassandra', 'Kafka', 'RabbitMQ',
+  'AWS', 'Azure', 'GCP', 'Docker', 'Kubernetes', 'Terraform', 'CI/CD', 'Jenkins', 'GitHub Actions', 'Linux',
+  'Machine Learning', 'Deep Learning', 'TensorFlow', 'PyTorch', 'Pandas', 'NumPy', 'Spark', 'Airflow', 'NLP', 'LLM',
+  'Microservices', 'System Design', 'Distributed Systems', 'Data Structures', 'Algorithms',
+  'Testing', 'Jest', 'Cypress', 'Selenium', 'Agile', 'Scrum', 'Leadership', 'Mentoring', 'Stakeholder Management'
+];
+
+// Skills that double as everyday words are only matched with their usual casing
+const CASE_SENSITIVE_SKILLS = new Set(['Express', 'Spring', 'Testing', 'Rails']);
+
+type SectionMap = Record<string, string[]>;
+
+const RESUME_SECTIONS: Record<string, RegExp> = {
+  summary: /^(summary|profile|about me|objective|professional summary)$/i,
+  skills: /^(skills|technical skills|core skills|technologies|tech stack|competencies)$/i,
+  projects: /^(projects|personal projects|key projects|selected projects)$/i,
+  experience: /^(experience|work experience|professional experience|employment( history)?|work history)$/i,
+  education: /^(education|certifications?|awards|publications|interests|languages)$/i
+};
+
+const JOB_SECTIONS: Record<string, RegExp> = {
+  requirements: /^(requirements|qualifications|minimum qualifications|preferred qualifications|what you('|’)ll bring|what we('|’)re looking for|must have|nice to have|you have|about you)$/i,
+  responsibilities: /^(responsibilities|what you('|’)ll do|the role|your role|day to day|key responsibilities|duties)$/i,
+  other: /^(about us|benefits|perks|compensation|about the company|why join us|equal opportunity.*)$/i
+};
+
+const MAX_ITEMS = 8;
+const MAX_ITEM_LENGTH = 200;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function cleanLine(line: string): string {
+  return line.replace(/^[\s•●▪◦*\-–—·>]+/, '').replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string, length = MAX_ITEM_LENGTH): string {
+  return text.length > length ? `${text.slice(0, length - 3).trim()}...` : text;
+}
+
+function unique(items: string[]): string[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = item.toLowerCase();
+    if (!item || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Split text into named sections by matching short heading lines.
+ * Lines before the first recognised heading go into "preamble".
+ */
+function splitSections(text: string, headings: Record<string, RegExp>): SectionMap {
+  const sections: SectionMap = { preamble: [] };
+  let current = 'preamble';
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = cleanLine(rawLine);
+    if (!line) return;
+
+    const heading = line.replace(/[:#]+$/g, '').replace(/^#+\s*/, '').trim();
+    if (heading.length <= 40) {
+      const match = Object.entries(headings).find(([, pattern]) => pattern.test(heading));
+      if (match) {
+        current = match[0];
+        sections[current] = sections[current] || [];
+        return;
+      }
+    }
+
+    sections[current] = sections[current] || [];
+    sections[current].push(line);
+  });
+
+  return sections;
+}
+
+function extractKnownSkills(text: string): string[] {
+  return KNOWN_SKILLS.filter(skill => {
+    const caseSensitive = skill.length <= 4 || CASE_SENSITIVE_SKILLS.has(skill);
+    const pattern = new RegExp(`(^|[^A-Za-z0-9+#.])${escapeRegExp(skill)}($|[^A-Za-z0-9+#])`, caseSensitive ? '' : 'i');
+    return pattern.test(text);
+  });
+}
+
+function splitSkillList(lines: string[]): string[] {
+  return lines
+    .flatMap(line => line.replace(/^[^:]{1,30}:\s*/, '').split(/[,;|•]/))
+    .map(skill => skill.trim())
+    .filter(skill => skill.length > 1 && skill.length <= 40);
+}
+
+/**
+ * Group bullet-style lines under the preceding non-bullet line, so that
+ * "Project name" + its bullets become one entry.
+ */
+function groupEntries(lines: string[]): string[] {
+  const entries: string[] = [];
+
+  lines.forEach(line => {
+    const isHeader = line.length <= 80 && !/[.;]$/.test(line);
+    if (isHeader || entries.length === 0) {
+      entries.push(line);
+    } else {
+      entries[entries.length - 1] = `${entries[entries.length - 1]} — ${line}`;
+    }
+  });
+
+  return entries.map(entry => truncate(entry));
+}
+
+/**
+ * Parse resume text into skills, projects and experience highlights
+ */
+export function parseResume(text: string, fileName?: string): ResumeProfile {
+  const sections = splitSections(text, RESUME_SECTIONS);
+
+  const skills = unique([
+    ...splitSkillList(sections.skills || []),
+    ...extractKnownSkills(text)
+  ]).slice(0, 20);
+
+  const summarySource = sections.summary?.length ? sections.summary : sections.preamble.slice(0, 4);
+
+  return {
+    fileName,
+    summary: truncate(summarySource.join(' '), 400),
+    skills,
+    projects: groupEntries(sections.projects || []).slice(0, MAX_ITEMS),
+    experience: groupEntries(sections.experience || []).slice(0, MAX_ITEMS)
+  };
+}
+
+/**
+ * Parse a pasted job description into requirements, responsibilities and skills
+ */
+export function parseJobDescription(text: string): JobDescriptionProfile {
+  const sections = splitSections(text, JOB_SECTIONS);
+  const preamble = sections.preamble || [];
+
+  // Without headings, fall back to requirement-sounding lines anywhere in the text
+  const requirementLines = sections.requirements?.length
+    ? sections.requirements
+    : preamble.filter(line => /\b(experience|proficien\w*|knowledge|familiar\w*|degree|years|ability|strong|must)\b/i.test(line));
+
+  const title = preamble.find(line => line.length <= 80 && !/[.:]$/.test(line));
+
+  return {
+    title,
+    skills: extractKnownSkills(text).slice(0, 20),
+    requirements: unique(requirementLines.map(line => truncate(line))).slice(0, MAX_ITEMS),
+    responsibilities: unique((sections.responsibilities || []).map(line => truncate(line))).slice(0, MAX_ITEMS)
+  };
+}
+
+export function hasProfileContent(profile?: ResumeProfile | JobDescriptionProfile): boolean {
+  if (!profile) return false;
+  return Object.values(profile).some(value => Array.isArray(value) ? value.length > 0 : false);
+}
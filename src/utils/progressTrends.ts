@@ -0,0 +1,134 @@
+import { AnalyticsData, InterviewSession } from '../types';
+
+export type TrendDimension = 'overall' | keyof AnalyticsData['responseAnalysis'];
+
+export type TrendGrouping = 'style' | 'experienceLevel' | 'topic';
+
+export const TREND_DIMENSIONS: TrendDimension[] = [
+  'overall',
+  'clarity',
+  'structure',
+  'technical',
+  'communication',
+  'confidence'
+];
+
+export interface TrendPoint {
+  sessionId: string;
+  timestamp: number;
+  values: Record<TrendDimension, number>;
+}
+
+export interface TrendGroup {
+  key: string;
+  points: TrendPoint[];
+}
+
+export interface TrendChange {
+  group: string;
+  dimension: TrendDimension;
+  from: number;
+  to: number;
+  delta: number;
+}
+
+/**
+ * Read a single dimension score from a saved session, tolerating missing or non-numeric values
+ */
+export function getDimensionScore(session: InterviewSession, dimension: TrendDimension): number {
+  const raw = dimension === 'overall'
+    ? session.analytics.overallScore
+    : session.analytics.responseAnalysis?.[dimension];
+  const score = Number(raw);
+  return Number.isFinite(score) ? Math.round(score) : 0;
+}
+
+export function toTrendPoint(session: InterviewSession): TrendPoint {
+  const values = {} as Record<TrendDimension, number>;
+  TREND_DIMENSIONS.forEach(dimension => {
+    values[dimension] = getDimensionScore(session, dimension);
+  });
+
+  return {
+    sessionId: session.id,
+    timestamp: session.completedAt,
+    values
+  };
+}
+
+function getGroupKey(session: InterviewSession, grouping: TrendGrouping): string {
+  switch (grouping) {
+    case 'style':
+      return session.config.style;
+    case 'experienceLevel':
+      return session.config.experienceLevel;
+    case 'topic':
+      return session.config.topic.trim().toLowerCase() || 'untitled';
+  }
+}
+
+/**
+ * Group sessions and order each group's points chronologically
+ */
+export function groupSessions(sessions: InterviewSession[], grouping: TrendGrouping): TrendGroup[] {
+  const groups = new Map<string, TrendPoint[]>();
+
+  sessions.forEach(session => {
+    const key = getGroupKey(session, grouping);
+    const points = groups.get(key) || [];
+    points.push(toTrendPoint(session));
+    groups.set(key, points);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, points]) => ({
+      key,
+      points: points.sort((a, b) => a.timestamp - b.timestamp)
+    }))
+    .sort((a, b) => b.points.length - a.points.length);
+}
+
+/**
+ * Trailing rolling average; early points average over however many values are available
+ */
+export function rollingAverage(values: number[], window: number): number[] {
+  const size = Math.max(1, window);
+
+  return values.map((_, index) => {
+    const slice = values.slice(Math.max(0, index - size + 1), index + 1);
+    return Math.round(slice.reduce((sum, value) => sum + value, 0) / slice.length);
+  });
+}
+
+/**
+ * Compare the earliest and latest rolling windows of every group/dimension.
+ * Returned changes are sorted from biggest improvement to biggest regression.
+ */
+export function findTrendChanges(groups: TrendGroup[], window: number): TrendChange[] {
+  const changes: TrendChange[] = [];
+
+  groups.forEach(group => {
+    // Need at least two sessions to talk about change
+    if (group.points.length < 2) return;
+
+    const size = Math.max(1, Math.min(window, Math.floor(group.points.length / 2)));
+
+    TREND_DIMENSIONS.forEach(dimension => {
+      const values = group.points.map(point => point.values[dimension]);
+      const average = (slice: number[]) => slice.reduce((sum, value) => sum + value, 0) / slice.length;
+
+      const from = Math.round(average(values.slice(0, size)));
+      const to = Math.round(average(values.slice(-size)));
+
+      changes.push({
+        group: group.key,
+        dimension,
+        from,
+        to,
+        delta: to - from
+      });
+    });
+  });
+
+  return changes.sort((a, b) => b.delta - a.delta);
+}
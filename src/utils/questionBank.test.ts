@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { BankQuestion, QuestionBankFormat } from '../types';
+import { parseQuestionBank, serializeQuestionBank } from './questionBank';
+
+const questions: BankQuestion[] = [
+  {
+    id: 'technical-rate-limiter',
+    style: 'technical',
+    experienceLevel: 'senior',
+    text: 'Design a rate limiter for a public API, and explain "why" you chose it: fixed window, sliding log or token bucket?',
+    followUp: ['How do you handle bursts?', 'What changes with 10, not 1, regions?'],
+    category: 'System Design',
+    difficulty: 'hard',
+    tags: ['design', 'apis'],
+    exemplar: {
+      answer: 'A token bucket per client, kept in Redis with an atomic script, allows short bursts while capping the average rate.',
+      keyConcepts: ['token bucket', 'atomic updates']
+    }
+  },
+  {
+    id: 'behavioral-conflict',
+    style: 'behavioral',
+    text: 'Tell me about a time you disagreed with a teammate.',
+    category: 'General',
+    difficulty: 'medium'
+  }
+];
+
+const fileNames: Record<QuestionBankFormat, string> = { json: 'bank.json', csv: 'bank.csv', markdown: 'bank.md' };
+
+describe('question bank export and import', () => {
+  it.each(['json', 'csv', 'markdown'] as QuestionBankFormat[])('round-trips %s', format => {
+    const exported = serializeQuestionBank(questions, format);
+    expect(parseQuestionBank(exported, fileNames[format])).toEqual(questions);
+  });
+
+  it.each(['json', 'csv', 'markdown'] as QuestionBankFormat[])('detects %s without a file name', format => {
+    expect(parseQuestionBank(serializeQuestionBank(questions, format))).toEqual(questions);
+  });
+
+  it('keeps line breaks, commas and quotes inside CSV cells', () => {
+    const multiline: BankQuestion = {
+      id: 'technical-logs',
+      style: 'technical',
+      text: 'Walk me through this log:\nERROR "db", timeout after 30s\nWARN retrying, attempt 2',
+      category: 'Debugging, Production',
+      difficulty: 'easy'
+    };
+
+    const exported = serializeQuestionBank([multiline], 'csv');
+    expect(exported).toContain('"Walk me through this log:\nERROR ""db"", timeout after 30s\nWARN retrying, attempt 2"');
+    expect(parseQuestionBank(exported, 'bank.csv')).toEqual([multiline]);
+  });
+
+  it('reads CSV with CRLF line endings and a subset of columns', () => {
+    const csv = 'style,text,tags\r\nhr,"Why this role, and why now?",Motivation|Career\r\n';
+    expect(parseQuestionBank(csv, 'bank.csv')).toMatchObject([
+      { style: 'hr', text: 'Why this role, and why now?', tags: ['motivation', 'career'], category: 'General', difficulty: 'medium' }
+    ]);
+  });
+});
+
+describe('question bank import errors', () => {
+  it('rejects a CSV row with an unknown style', () => {
+    const csv = 'style,text\ntechnical,What is a closure?\nrobot,Beep?\n';
+    expect(() => parseQuestionBank(csv, 'bank.csv')).toThrow('Question 2 has unknown style "robot"');
+  });
+
+  it('rejects a CSV row without text', () => {
+    expect(() => parseQuestionBank('style,text,category\ntechnical,,Basics\n', 'bank.csv')).toThrow('Question 1 needs "text"');
+  });
+
+  it('rejects a CSV row with an unknown difficulty', () => {
+    const csv = 'style,text,difficulty\nbehavioral,Tell me about a failure.,brutal\n';
+    expect(() => parseQuestionBank(csv, 'bank.csv')).toThrow('Question 1 has unknown difficulty "brutal"');
+  });
+
+  it('rejects CSV without a text column or with an unclosed quote', () => {
+    expect(() => parseQuestionBank('style,question\nhr,Why us?\n', 'bank.csv'))
+      .toThrow('Could not read CSV: The header row needs a "text" column');
+    expect(() => parseQuestionBank('style,text\nhr,"Why us?\n', 'bank.csv')).toThrow('Could not read CSV: Unclosed quote');
+  });
+
+  it('rejects JSON that is not a list of questions', () => {
+    expect(() => parseQuestionBank('{ "items": [] }', 'bank.json')).toThrow('A question bank must be a list of questions');
+    expect(() => parseQuestionBank('[]', 'bank.json')).toThrow('The file has no questions');
+    expect(() => parseQuestionBank('[{ "text": "No style" }]', 'bank.json')).toThrow('Question 1 needs a "style"');
+  });
+
+  it('rejects Markdown without front matter', () => {
+    expect(() => parseQuestionBank('What is a closure?\n', 'bank.md'))
+      .toThrow('Could not read MARKDOWN: Markdown questions must start with a "---" front-matter block');
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * Question bank formats and helpers.
+ * The bank imports and exports as JSON (a list, or { questions: [...] }), CSV with one question per row
+ * (list cells separated by "|"), or Markdown files where each question is a front-matter block followed by its text.
+ */
+import { BankQuestion, Difficulty, ExperienceLevel, InterviewStyle, QuestionBankFormat } from '../types';
+import { parseYaml } from './companyPack';
+
+export const QUESTION_BANK_EXTENSIONS = ['.json', '.csv', '.md', '.markdown'];
+
+export const QUESTION_BANK_FILE_TYPES: Record<QuestionBankFormat, { extension: string; mimeType: string }> = {
+  json: { extension: '.json', mimeType: 'application/json' },
+  csv: { extension: '.csv', mimeType: 'text/csv' },
+  markdown: { extension: '.md', mimeType: 'text/markdown' }
+};
+
+const STYLES: InterviewStyle[] = ['technical', 'hr', 'behavioral', 'salary-negotiation', 'case-study'];
+const LEVELS: ExperienceLevel[] = ['fresher', 'junior', 'mid-level', 'senior', 'lead-manager'];
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+const CSV_COLUMNS = ['id', 'style', 'experienceLevel', 'text', 'category', 'difficulty', 'tags', 'followUp', 'exemplarAnswer', 'keyConcepts'];
+const CSV_LIST_SEPARATOR = '|';
+const MODEL_ANSWER_HEADING = '## Model Answer';
+
+// Questions whose significant words overlap at least this much are flagged as likely duplicates
+const DUPLICATE_SIMILARITY = 0.8;
+
+export interface QuestionBankFilter {
+  query?: string;
+  style?: InterviewStyle;
+  experienceLevel?: ExperienceLevel;
+  difficulty?: Difficulty;
+  tag?: string;
+}
+
+export interface QuestionBankMerge {
+  questions: BankQuestion[];
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+export function normalizeQuestionText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+export function createBankQuestionId(style: InterviewStyle): string {
+  return `${style}-custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function toList(value: unknown, field: string, label: string): string[] {
+  if (value === undefined || value === null || value === '') return [];
+  if (typeof value === 'string') return value.split(CSV_LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+  if (!Array.isArray(value)) throw new Error(`${label}: "${field}" must be a list`);
+  return value.filter(item => item !== null && item !== undefined).map(item => String(item).trim()).filter(Boolean);
+}
+
+function toOption<T extends string>(value: unknown, options: T[], field: string, label: string): T | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const option = String(value).trim().toLowerCase() as T;
+  if (!options.includes(option)) {
+    throw new Error(`${label} has unknown ${field} "${value}"; use one of ${options.join(', ')}`);
+  }
+  return option;
+}
+
+/**
+ * Check the shape of an imported question and fill defaults, with errors that point at the offending entry
+ */
+export function validateBankQuestion(data: unknown, index = 0): BankQuestion {
+  const label = `Question ${index + 1}`;
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`${label} must be an object with at least "text" and "style"`);
+  }
+
+  const source = data as Record<string, unknown>;
+  const text = typeof source.text === 'string' ? source.text.trim() : '';
+  if (!text) throw new Error(`${label} needs "text"`);
+
+  const style = toOption(source.style, STYLES, 'style', label);
+  if (!style) throw new Error(`${label} needs a "style"`);
+
+  const experienceLevel = toOption(source.experienceLevel, LEVELS, 'experienceLevel', label);
+  const followUp = toList(source.followUp, 'followUp', label);
+  const tags = toList(source.tags, 'tags', label).map(tag => tag.toLowerCase());
+
+  const exemplarSource = (source.exemplar && typeof source.exemplar === 'object' ? source.exemplar : {}) as Record<string, unknown>;
+  const answer = String(exemplarSource.answer ?? source.exemplarAnswer ?? '').trim();
+  const keyConcepts = toList(exemplarSource.keyConcepts ?? source.keyConcepts, 'keyConcepts', label);
+
+  return {
+    id: typeof source.id === 'string' && source.id.trim() ? source.id.trim() : createBankQuestionId(style),
+    style,
+    ...(experienceLevel && { experienceLevel }),
+    text,
+    ...(followUp.length > 0 && { followUp }),
+    category: typeof source.category === 'string' && source.category.trim() ? source.category.trim() : 'General',
+    difficulty: toOption(source.difficulty, DIFFICULTIES, 'difficulty', label) || 'medium',
+    ...(tags.length > 0 && { tags: Array.from(new Set(tags)) }),
+    ...(answer && keyConcepts.length > 0 && { exemplar: { answer, keyConcepts } })
+  };
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) throw new Error('Unclosed quote');
+  if (cell || row.length > 0) rows.push([...row, cell]);
+  return rows.filter(cells => cells.some(value => value.trim()));
+}
+
+function parseCsv(text: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  if (!columns.includes('text')) throw new Error('The header row needs a "text" column');
+
+  return rows.map(cells => Object.fromEntries(columns.map((column, i) => [column, cells[i]?.trim() ?? ''])));
+}
+
+function parseMarkdown(text: string): Record<string, unknown>[] {
+  // Each question is "---", its front matter, "---", then the question text and an optional model answer section
+  const parts = text.replace(/\r\n/g, '\n').split(/^---[ \t]*$/m);
+  if (parts[0].trim()) throw new Error('Markdown questions must start with a "---" front-matter block');
+
+  const entries: Record<string, unknown>[] = [];
+  for (let i = 1; i < parts.length; i += 2) {
+    const frontMatter = parseYaml(parts[i]) ?? {};
+    if (typeof frontMatter !== 'object' || Array.isArray(frontMatter)) {
+      throw new Error(`Front matter ${entries.length + 1} must be "key: value" lines`);
+    }
+
+    const [question, answer = ''] = (parts[i + 1] || '').split(MODEL_ANSWER_HEADING);
+    entries.push({
+      ...frontMatter,
+      text: question.trim().replace(/\s*\n\s*/g, ' '),
+      ...(answer.trim() && { exemplarAnswer: answer.trim().replace(/\s*\n\s*/g, ' ') })
+    });
+  }
+  return entries;
+}
+
+export function getQuestionBankFormat(text: string, fileName = ''): QuestionBankFormat {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.json')) return 'json';
+  if (name.endsWith('.csv')) return 'csv';
+  if (name.endsWith('.md') || name.endsWith('.markdown')) return 'markdown';
+
+  const start = text.trim();
+  if (start.startsWith('[') || start.startsWith('{')) return 'json';
+  return start.startsWith('---') ? 'markdown' : 'csv';
+}
+
+export function parseQuestionBank(text: string, fileName = ''): BankQuestion[] {
+  const format = getQuestionBankFormat(text, fileName);
+
+  let entries: unknown;
+  try {
+    if (format === 'json') {
+      const data: unknown = JSON.parse(text);
+      entries = Array.isArray(data) ? data : (data as { questions?: unknown } | null)?.questions;
+    } else {
+      entries = format === 'csv' ? parseCsv(text) : parseMarkdown(text);
+    }
+  } catch (error) {
+    throw new Error(`Could not read ${format.toUpperCase()}: ${error instanceof Error ? error.message : 'invalid format'}`);
+  }
+
+  if (!Array.isArray(entries)) throw new Error('A question bank must be a list of questions or { "questions": [...] }');
+  if (entries.length === 0) throw new Error('The file has no questions');
+  return entries.map(validateBankQuestion);
+}
+
+const csvCell = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const yamlList = (key: string, items: string[]) =>
+  items.length > 0 ? [`${key}:`, ...items.map(item => `  - ${JSON.stringify(item)}`)] : [];
+
+export function serializeQuestionBank(questions: BankQuestion[], format: QuestionBankFormat): string {
+  if (format === 'json') return JSON.stringify({ questions }, null, 2);
+
+  if (format === 'csv') {
+    const rows = questions.map(question => [
+      question.id,
+      question.style,
+      question.experienceLevel || '',
+      question.text,
+      question.category,
+      question.difficulty,
+      (question.tags || []).join(CSV_LIST_SEPARATOR),
+      (question.followUp || []).join(CSV_LIST_SEPARATOR),
+      question.exemplar?.answer || '',
+      (question.exemplar?.keyConcepts || []).join(CSV_LIST_SEPARATOR)
+    ]);
+    return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+  }
+
+  return questions
+    .map(question => [
+      '---',
+      `id: ${JSON.stringify(question.id)}`,
+      `style: ${question.style}`,
+      ...(question.experienceLevel ? [`experienceLevel: ${question.experienceLevel}`] : []),
+      `category: ${JSON.stringify(question.category)}`,
+      `difficulty: ${question.difficulty}`,
+      ...yamlList('tags', question.tags || []),
+      ...yamlList('followUp', question.followUp || []),
+      ...yamlList('keyConcepts', question.exemplar?.keyConcepts || []),
+      '---',
+      '',
+      question.text,
+      ...(question.exemplar ? ['', MODEL_ANSWER_HEADING, '', question.exemplar.answer] : []),
+      ''
+    ].join('\n'))
+    .join('\n');
+}
+
+/**
+ * Add imported questions to a bank: a matching id replaces the existing entry, and a question already in the bank
+ * under another id (same style, same wording) is skipped
+ */
+export function mergeQuestions(existing: BankQuestion[], incoming: BankQuestion[]): QuestionBankMerge {
+  const questions = [...existing];
+  let added = 0;
+  let updated = 0;
+  let skipped = 0;
+
+  for (const question of incoming) {
+    const index = questions.findIndex(item => item.id === question.id);
+    const duplicate = questions.some(item =>
+      item.id !== question.id && item.style === question.style && normalizeQuestionText(item.text) === normalizeQuestionText(question.text)
+    );
+
+    if (duplicate) {
+      skipped++;
+    } else if (index >= 0) {
+      questions[index] = question;
+      updated++;
+    } else {
+      questions.push(question);
+      added++;
+    }
+  }
+
+  return { questions, added, updated, skipped };
+}
+
+const significantWords = (text: string) => new Set(normalizeQuestionText(text).split(' ').filter(word => word.length > 2));
+
+function similarity(a: string, b: string): number {
+  const wordsA = significantWords(a);
+  const wordsB = significantWords(b);
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  const total = new Set([...wordsA, ...wordsB]).size;
+  return total === 0 ? 0 : shared / total;
+}
+
+/**
+ * Groups of questions in the same style that are worded the same or nearly so; the first of each group is the one to keep
+ */
+export function findDuplicateQuestions(questions: BankQuestion[]): BankQuestion[][] {
+  const groups: BankQuestion[][] = [];
+  const grouped = new Set<string>();
+
+  questions.forEach((question, index) => {
+    if (grouped.has(question.id)) return;
+
+    const matches = questions
+      .slice(index + 1)
+      .filter(other => !grouped.has(other.id) && other.style === question.style && similarity(question.text, other.text) >= DUPLICATE_SIMILARITY);
+    if (matches.length === 0) return;
+
+    [question, ...matches].forEach(item => grouped.add(item.id));
+    groups.push([question, ...matches]);
+  });
+
+  return groups;
+}
+
+export function searchQuestions(questions: BankQuestion[], filter: QuestionBankFilter): BankQuestion[] {
+  const query = filter.query?.trim().toLowerCase();
+
+  return questions.filter(question => {
+    if (filter.style && question.style !== filter.style) return false;
+    if (filter.experienceLevel && question.experienceLevel && question.experienceLevel !== filter.experienceLevel) return false;
+    if (filter.difficulty && question.difficulty !== filter.difficulty) return false;
+    if (filter.tag && !question.tags?.includes(filter.tag)) return false;
+    if (!query) return true;
+
+    return [question.text, question.category, ...(question.followUp || []), ...(question.tags || [])]
+      .some(value => value.toLowerCase().includes(query));
+  });
+}
+
+export function getQuestionTags(questions: BankQuestion[]): string[] {
+  return Array.from(new Set(questions.flatMap(question => question.tags || []))).sort();
+}
+
+/**
+ * The bank entry for a question that was asked straight from the question bank, matched on its text
+ */
+export function findBankQuestion(questions: BankQuestion[], text: string): BankQuestion | undefined {
+  return questions.find(item => item.text === text);
+}
+
+/**
+ * Questions for an interview in bank order: the level's own questions first, then the ones that suit every level
+ */
+export function getInterviewQuestions(questions: BankQuestion[], style: InterviewStyle, experienceLevel: ExperienceLevel): BankQuestion[] {
+  const forStyle = questions.filter(question => question.style === style);
+  return [
+    ...forStyle.filter(question => question.experienceLevel === experienceLevel),
+    ...forStyle.filter(question => !question.experienceLevel)
+  ];
+}
@@ -0,0 +1,73 @@
+import { AnalyticsData, InterviewStyle, Rubric, RubricCriterion, RubricScore } from '../types';
+import { defaultRubrics, RUBRIC_LEVEL_BANDS } from '../data/rubrics';
+import { toResponseAnalysis as toCriteriaResponseAnalysis } from '../../shared/rubric.js';
+
+export { RESPONSE_DIMENSIONS, getRubricLevel, getWeightedRubricScore, toRubricScore } from '../../shared/rubric.js';
+
+export function getDefaultRubric(style: InterviewStyle): Rubric {
+  return defaultRubrics[style] || defaultRubrics.technical;
+}
+
+export function isDefaultRubric(rubric: Rubric): boolean {
+  return Object.values(defaultRubrics).some(item => item.id === rubric.id);
+}
+
+// Custom rubrics with no styles apply to every style
+export function appliesToStyle(rubric: Rubric, style: InterviewStyle): boolean {
+  return rubric.styles.length === 0 || rubric.styles.includes(style);
+}
+
+export function createRubricId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'rubric';
+  return `${slug}-${Date.now().toString(36)}`;
+}
+
+/**
+ * Blank criterion for the editor, starting from the shared score bands
+ */
+export function createCriterion(name = 'New criterion'): RubricCriterion {
+  return {
+    id: `criterion-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    description: '',
+    weight: 1,
+    keywords: [],
+    levels: RUBRIC_LEVEL_BANDS.map(band => ({ ...band, descriptor: '' }))
+  };
+}
+
+/**
+ * Check a rubric from the editor before it is saved, with errors that point at the offending criterion
+ */
+export function validateRubric(rubric: Rubric): Rubric {
+  const name = rubric.name.trim();
+  if (!name) throw new Error('Give the rubric a name');
+  if (rubric.criteria.length === 0) throw new Error('Add at least one criterion');
+
+  const criteria = rubric.criteria.map((criterion, index) => {
+    const criterionName = criterion.name.trim();
+    if (!criterionName) throw new Error(`Criterion ${index + 1} needs a name`);
+    if (!(criterion.weight > 0)) throw new Error(`"${criterionName}" needs a weight above zero`);
+
+    return {
+      ...criterion,
+      name: criterionName,
+      description: criterion.description.trim(),
+      keywords: criterion.keywords.map(keyword => keyword.trim().toLowerCase()).filter(Boolean),
+      levels: [...criterion.levels].sort((a, b) => b.minScore - a.minScore)
+    };
+  });
+
+  return { ...rubric, name, criteria };
+}
+
+/**
+ * Fill the legacy response dimensions from rubric criteria that map to them, keeping the fallback where none do
+ */
+export function toResponseAnalysis(
+  rubric: Rubric,
+  scores: RubricScore[],
+  fallback: AnalyticsData['responseAnalysis']
+): AnalyticsData['responseAnalysis'] {
+  return toCriteriaResponseAnalysis(rubric.criteria, scores, fallback);
+}
@@ -0,0 +1,127 @@
+import { DrillCard, DrillCategorySummary, InterviewConfig, InterviewStyle, ExperienceLevel } from '../types';
+
+// Answers below this score add the question to the drill deck, and count as a lapse when reviewed
+export const DRILL_SCORE_THRESHOLD = 70;
+export const DRILL_SESSION_SIZE = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const MINUTES_PER_CARD = 4;
+
+/**
+ * SM-2 response quality (0-5) for an answer score, with the pass mark (3) at the drill threshold
+ */
+export function getReviewQuality(score: number): number {
+  if (score >= 90) return 5;
+  if (score >= 80) return 4;
+  if (score >= DRILL_SCORE_THRESHOLD) return 3;
+  if (score >= 50) return 2;
+  if (score >= 30) return 1;
+  return 0;
+}
+
+/**
+ * Reschedule a card after it was answered with the given score, following SM-2
+ */
+export function scheduleCard(card: DrillCard, score: number, now = Date.now()): DrillCard {
+  const quality = getReviewQuality(score);
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let interval: number;
+  let repetitions: number;
+  if (quality < 3) {
+    // A lapse starts the card over, but keeps its (lowered) ease factor
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = card.repetitions + 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * easeFactor);
+  }
+
+  return {
+    ...card,
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    dueAt: now + interval * DAY_MS,
+    lastScore: Math.round(score),
+    lastReviewedAt: now
+  };
+}
+
+/**
+ * New card for a weak answer, scheduled as its first review
+ */
+export function createDrillCard(
+  question: string,
+  details: { category: string; topic: string; style: InterviewStyle; experienceLevel: ExperienceLevel },
+  score: number,
+  now = Date.now()
+): DrillCard {
+  const card: DrillCard = {
+    id: `card-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    question,
+    ...details,
+    easeFactor: INITIAL_EASE_FACTOR,
+    interval: 0,
+    repetitions: 0,
+    dueAt: now,
+    lastScore: Math.round(score),
+    addedAt: now
+  };
+  return scheduleCard(card, score, now);
+}
+
+export function isDue(card: DrillCard, now = Date.now()): boolean {
+  return card.dueAt <= now;
+}
+
+/**
+ * Due cards, most overdue first
+ */
+export function getDueCards(cards: DrillCard[], now = Date.now()): DrillCard[] {
+  return cards.filter(card => isDue(card, now)).sort((a, b) => a.dueAt - b.dueAt);
+}
+
+/**
+ * Per-category totals for the deck, weakest category first
+ */
+export function summarizeCategories(cards: DrillCard[], now = Date.now()): DrillCategorySummary[] {
+  const groups = new Map<string, DrillCard[]>();
+  cards.forEach(card => groups.set(card.category, [...(groups.get(card.category) || []), card]));
+
+  return Array.from(groups.entries())
+    .map(([category, items]) => ({
+      category,
+      total: items.length,
+      due: items.filter(card => isDue(card, now)).length,
+      averageScore: Math.round(items.reduce((sum, card) => sum + card.lastScore, 0) / items.length)
+    }))
+    .sort((a, b) => a.averageScore - b.averageScore);
+}
+
+function mostCommon<T>(values: T[]): T {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Interview config for a short drill session over the given cards
+ */
+export function createDrillConfig(cards: DrillCard[], category?: string): InterviewConfig {
+  const topics = Array.from(new Set(cards.map(card => card.topic))).slice(0, 3);
+
+  return {
+    topic: category ? `Drill: ${category}` : `Drill: ${topics.join(', ')}`,
+    style: mostCommon(cards.map(card => card.style)),
+    experienceLevel: mostCommon(cards.map(card => card.experienceLevel)),
+    companyName: '',
+    duration: Math.max(5, cards.length * MINUTES_PER_CARD),
+    drill: cards
+  };
+}
@@ -78,6 +78,22 @@ export class BrowserTTS {
     return this.voices.length > 0 ? this.voices[0] : null;
   }
 
+  /**
+   * First voice in the language whose name contains one of the hints, in hint order
+   */
+  public findVoice(hints: string[], lang: string = 'en-US'): SpeechSynthesisVoice | null {
+    const langVoices = this.voices.filter(voice => voice.lang.startsWith(lang.split('-')[0]));
+
+    for (const hint of hints) {
+      const match = langVoices.find(voice => voice.name.toLowerCase().includes(hint.toLowerCase()));
+      if (match) {
+        return match;
+      }
+    }
+
+    return this.getPreferredVoice(lang);
+  }
+
   public async speak(
     text: string, 
     options: SpeechOptions = {},
@@ -0,0 +1,160 @@
+import { StarAnalysis, StarComponent, StarSegment, StarStrength } from '../types';
+
+export const STAR_COMPONENTS: StarComponent[] = ['situation', 'task', 'action', 'result'];
+
+const CUES: Record<StarComponent, RegExp[]> = {
+  situation: [
+    /\b(at my (previous|last|current|old) (job|company|role|team))\b/i,
+    /\b(when i was|while i was|while working|back in|a few years ago|last year|in my (previous|last) role)\b/i,
+    /\b(we were|there was|there were|our team|the team was|the company|the project|our product|the client)\b/i,
+    /\b(situation|context|background)\b/i
+  ],
+  task: [
+    /\b(my (task|goal|job|role|responsibility|objective) (was|is))\b/i,
+    /\b(i was (responsible|asked|tasked|expected|assigned))\b/i,
+    /\b(i (needed|had|wanted) to|we (needed|had) to)\b/i,
+    /\b(the (goal|challenge|problem|objective|deadline) was)\b/i
+  ],
+  action: [
+    /\b(i (decided|implemented|created|built|led|organized|reached out|started|proposed|set up|scheduled|analy[sz]ed|designed|wrote|talked|met|suggested|introduced|broke|prioriti[sz]ed|automated|coordinated|escalated|refactored|investigated))\b/i,
+    /\b(so i|first,? i|then,? i|next,? i|after that,? i|i also)\b/i,
+    /\bi \w+ed\b/i
+  ],
+  result: [
+    /\b(as a result|in the end|ultimately|eventually|the outcome|the result|which (led|resulted) to|resulted in|ended up)\b/i,
+    /\b(improved|reduced|increased|saved|cut|grew|delivered|launched|shipped|achieved|exceeded)\b/i,
+    /\b(i learned|lesson|taught me|since then|going forward)\b/i,
+    /\d+\s?(%|percent|x\b|hours|days|weeks|users|customers)/i
+  ]
+};
+
+// Minimum word counts before a component counts as developed rather than just mentioned
+const MIN_WORDS: Record<StarComponent, number> = {
+  situation: 12,
+  task: 8,
+  action: 20,
+  result: 10
+};
+
+const LABELS: Record<StarComponent, string> = {
+  situation: 'Situation',
+  task: 'Task',
+  action: 'Action',
+  result: 'Result'
+};
+
+const STRENGTH_POINTS: Record<StarStrength, number> = { strong: 25, weak: 15, missing: 0 };
+
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9"'])/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Pick the STAR component a sentence belongs to. Sentences without cues inherit the
+ * previous component, since answers usually stay on one part for several sentences.
+ */
+function classifySentence(sentence: string, position: number, previous: StarComponent | null): StarComponent {
+  const scores = STAR_COMPONENTS.map(component => ({
+    component,
+    score: CUES[component].filter(cue => cue.test(sentence)).length
+  }));
+
+  // Early sentences lean towards setting the scene, late ones towards the outcome
+  if (position < 0.25) scores[0].score += 0.5;
+  if (position > 0.75) scores[3].score += 0.5;
+
+  const best = scores.reduce((top, current) => current.score > top.score ? current : top);
+  if (best.score >= 1) return best.component;
+
+  return previous || 'situation';
+}
+
+function excerpt(text: string, maxLength = 160): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength).trim()}…` : text;
+}
+
+function assessSegment(component: StarComponent, text: string): StarSegment {
+  if (!text) {
+    const missingFeedback: Record<StarComponent, string> = {
+      situation: 'Open with a sentence of context: where you were and what was going on.',
+      task: 'State what you specifically were responsible for or trying to achieve.',
+      action: 'Walk through the concrete steps you personally took.',
+      result: 'Finish with the outcome, ideally with a number, and what you learned.'
+    };
+    return { strength: 'missing', excerpt: '', feedback: missingFeedback[component] };
+  }
+
+  const words = countWords(text);
+  const issues: string[] = [];
+
+  if (words < MIN_WORDS[component]) {
+    issues.push(`${LABELS[component]} is only briefly mentioned; add more detail.`);
+  }
+
+  if (component === 'action') {
+    const we = (text.match(/\bwe\b/gi) || []).length;
+    const i = (text.match(/\bi\b/gi) || []).length;
+    if (we > i) issues.push('Mostly "we"; make your own contribution clear with "I".');
+  }
+
+  if (component === 'result' && !/\d/.test(text)) {
+    issues.push('Quantify the impact (time saved, percentage improved, users affected).');
+  }
+
+  return {
+    strength: issues.length > 0 ? 'weak' : 'strong',
+    excerpt: excerpt(text),
+    feedback: issues.join(' ') || `Clear ${LABELS[component].toLowerCase()}.`
+  };
+}
+
+/**
+ * Split a behavioral answer into Situation, Task, Action and Result segments and grade each one.
+ * Deterministic so it can run offline and back-fill LLM reviews.
+ */
+export function analyzeStar(response: string): StarAnalysis {
+  const sentences = splitSentences(response);
+  const segments: Record<StarComponent, string[]> = { situation: [], task: [], action: [], result: [] };
+
+  let previous: StarComponent | null = null;
+  sentences.forEach((sentence, index) => {
+    const position = sentences.length > 1 ? index / (sentences.length - 1) : 0;
+    const component = classifySentence(sentence, position, previous);
+    segments[component].push(sentence);
+    previous = component;
+  });
+
+  const [situation, task, action, result] = STAR_COMPONENTS.map(component =>
+    assessSegment(component, segments[component].join(' '))
+  );
+  const analysis = { situation, task, action, result };
+
+  return {
+    ...analysis,
+    score: STAR_COMPONENTS.reduce((sum, component) => sum + STRENGTH_POINTS[analysis[component].strength], 0),
+    missing: STAR_COMPONENTS.filter(component => analysis[component].strength === 'missing'),
+    weak: STAR_COMPONENTS.filter(component => analysis[component].strength === 'weak')
+  };
+}
+
+/**
+ * One-line summary of the gaps in a STAR breakdown
+ */
+export function summarizeStar(star: StarAnalysis): string {
+  const parts: string[] = [];
+  if (star.missing.length > 0) parts.push(`Missing: ${star.missing.map(component => LABELS[component]).join(', ')}.`);
+  if (star.weak.length > 0) parts.push(`Needs more depth: ${star.weak.map(component => LABELS[component]).join(', ')}.`);
+  return parts.join(' ') || 'All four STAR components are clearly covered.';
+}
+
+export function getStarLabel(component: StarComponent): string {
+  return LABELS[component];
+}
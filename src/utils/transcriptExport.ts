@@ -0,0 +1,295 @@
+import { ExperienceLevel, InterviewSession, InterviewStyle, TranscriptFormat } from '../types';
+import { PdfBlock, createTextPdf } from './pdf';
+
+export const TRANSCRIPT_FILE_TYPES: Record<TranscriptFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: '.md', mimeType: 'text/markdown' },
+  pdf: { label: 'PDF', extension: '.pdf', mimeType: 'application/pdf' },
+  html: { label: 'HTML', extension: '.html', mimeType: 'text/html' },
+  text: { label: 'Plain Text', extension: '.txt', mimeType: 'text/plain' }
+};
+
+const styleLabels: Record<InterviewStyle, string> = {
+  technical: 'Technical',
+  hr: 'HR',
+  behavioral: 'Behavioral',
+  'salary-negotiation': 'Salary Negotiation',
+  'case-study': 'Case Study'
+};
+
+const experienceLabels: Record<ExperienceLevel, string> = {
+  fresher: 'Fresher',
+  junior: 'Junior',
+  'mid-level': 'Mid-Level',
+  senior: 'Senior',
+  'lead-manager': 'Lead/Manager'
+};
+
+export interface TranscriptEntry {
+  number: number;
+  question: string;
+  answer: string;
+  /** Clock time the answer was submitted */
+  answeredAt?: number;
+  /** Time from the start of the interview to the answer */
+  elapsedMs?: number;
+  /** Time spent on this question */
+  answerTimeMs?: number;
+  score?: number;
+  feedback?: string;
+  attempts: number;
+}
+
+/**
+ * Everything an export contains, shared by every format so they all carry the same content
+ */
+export interface Transcript {
+  title: string;
+  details: [string, string][];
+  overallScore: number;
+  strengths: string[];
+  improvements: string[];
+  entries: TranscriptEntry[];
+  notes: string;
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+function formatTimeline(entry: TranscriptEntry): string {
+  return [
+    entry.answeredAt !== undefined && `Answered ${new Date(entry.answeredAt).toLocaleTimeString()}`,
+    entry.elapsedMs !== undefined && `${formatDuration(entry.elapsedMs)} into the interview`,
+    entry.answerTimeMs !== undefined && `${formatDuration(entry.answerTimeMs)} on this question`,
+    entry.attempts > 1 && `${entry.attempts} attempts`
+  ].filter(Boolean).join(' · ');
+}
+
+export function buildTranscript(session: InterviewSession): Transcript {
+  const { config, responses, analytics } = session;
+  const reviews = analytics?.questionReviews || [];
+
+  // Each response's duration is measured from the start of the interview, so time on a question is the difference
+  const entries: TranscriptEntry[] = responses.length > 0
+    ? responses.map((response, index) => {
+        const review = reviews.find(item => item.questionId === response.questionId);
+        const previousElapsed = index > 0 ? responses[index - 1].duration : 0;
+        return {
+          number: index + 1,
+          question: response.question,
+          answer: response.response,
+          answeredAt: response.timestamp,
+          elapsedMs: response.duration,
+          answerTimeMs: response.duration - previousElapsed,
+          score: review?.score,
+          feedback: review?.feedback,
+          attempts: (response.attempts?.length || 0) + 1
+        };
+      })
+    : reviews.map((review, index) => ({
+        number: index + 1,
+        question: review.question,
+        answer: review.response,
+        score: review.score,
+        feedback: review.feedback,
+        attempts: (review.attempts?.length || 0) + 1
+      }));
+
+  const details: [string, string][] = [
+    ['Style', styleLabels[config.style] || config.style],
+    ['Experience level', experienceLabels[config.experienceLevel] || config.experienceLevel],
+    ...(config.companyName ? [['Company', config.companyName] as [string, string]] : []),
+    ...(config.loopContext ? [['Round', `${config.loopContext.roundNumber} of ${config.loopContext.totalRounds}: ${config.loopContext.roundName}`] as [string, string]] : []),
+    ['Date', new Date(session.startedAt).toLocaleString()],
+    ['Duration', formatDuration(session.completedAt - session.startedAt)],
+    ['Questions answered', String(entries.length)]
+  ];
+
+  return {
+    title: `Interview Transcript: ${config.topic}`,
+    details,
+    overallScore: analytics?.overallScore ?? 0,
+    strengths: analytics?.strengths || [],
+    improvements: analytics?.improvements || [],
+    entries,
+    notes: session.notes?.trim() || ''
+  };
+}
+
+export function toMarkdown(transcript: Transcript): string {
+  const lines = [
+    `# ${transcript.title}`,
+    '',
+    ...transcript.details.map(([label, value]) => `- **${label}:** ${value}`),
+    '',
+    '## Summary',
+    '',
+    `**Overall score:** ${transcript.overallScore}%`
+  ];
+
+  if (transcript.strengths.length > 0) {
+    lines.push('', '### Strengths', '', ...transcript.strengths.map(item => `- ${item}`));
+  }
+  if (transcript.improvements.length > 0) {
+    lines.push('', '### Areas to Improve', '', ...transcript.improvements.map(item => `- ${item}`));
+  }
+
+  lines.push('', '## Questions and Answers');
+  transcript.entries.forEach(entry => {
+    lines.push('', `### ${entry.number}. ${entry.question}`);
+    const timeline = formatTimeline(entry);
+    if (timeline) lines.push('', `*${timeline}*`);
+    lines.push('', ...entry.answer.split('\n').map(line => `> ${line}`));
+    if (entry.score !== undefined) {
+      lines.push('', `**Score:** ${entry.score}%${entry.feedback ? ` — ${entry.feedback}` : ''}`);
+    }
+  });
+
+  if (transcript.notes) {
+    lines.push('', '## Notes', '', transcript.notes);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+export function toPlainText(transcript: Transcript): string {
+  const underline = (text: string, char: string) => `${text}\n${char.repeat(Math.min(text.length, 72))}`;
+  const indent = (text: string) => text.split('\n').map(line => `    ${line}`).join('\n');
+
+  const sections = [
+    underline(transcript.title.toUpperCase(), '='),
+    transcript.details.map(([label, value]) => `${label}: ${value}`).join('\n'),
+    [
+      underline('Summary', '-'),
+      `Overall score: ${transcript.overallScore}%`,
+      ...(transcript.strengths.length > 0 ? ['', 'Strengths:', ...transcript.strengths.map(item => `  * ${item}`)] : []),
+      ...(transcript.improvements.length > 0 ? ['', 'Areas to improve:', ...transcript.improvements.map(item => `  * ${item}`)] : [])
+    ].join('\n'),
+    underline('Questions and Answers', '-'),
+    ...transcript.entries.map(entry => [
+      `Q${entry.number}. ${entry.question}`,
+      ...(formatTimeline(entry) ? [`(${formatTimeline(entry)})`] : []),
+      '',
+      indent(entry.answer),
+      ...(entry.score !== undefined ? ['', `Score: ${entry.score}%${entry.feedback ? ` - ${entry.feedback}` : ''}`] : [])
+    ].join('\n')),
+    ...(transcript.notes ? [`${underline('Notes', '-')}\n${transcript.notes}`] : [])
+  ];
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function toHTML(transcript: Transcript): string {
+  const list = (items: string[]) => `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+  const paragraphs = (text: string) => text.split(/\n{2,}/).map(part => `<p>${escapeHtml(part).replace(/\n/g, '<br>')}</p>`).join('');
+
+  const entries = transcript.entries.map(entry => {
+    const timeline = formatTimeline(entry);
+    return `<section class="entry">
+  <h3>${entry.number}. ${escapeHtml(entry.question)}</h3>
+  ${timeline ? `<p class="meta">${escapeHtml(timeline)}</p>` : ''}
+  <blockquote>${paragraphs(entry.answer)}</blockquote>
+  ${entry.score !== undefined ? `<p><span class="score">${entry.score}%</span> ${escapeHtml(entry.feedback || '')}</p>` : ''}
+</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(transcript.title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; max-width: 760px; margin: 40px auto; padding: 0 20px; color: #1f2937; line-height: 1.6; }
+  h1 { font-size: 1.8em; margin-bottom: 0.2em; }
+  h2 { border-bottom: 1px solid #e5e7eb; padding-bottom: 0.3em; margin-top: 2em; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.2em 1em; color: #4b5563; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  .meta { color: #6b7280; font-size: 0.9em; font-style: italic; margin-top: -0.5em; }
+  blockquote { margin: 0.5em 0; padding: 0.5em 1em; border-left: 4px solid #93c5fd; background: #f8fafc; }
+  .score { display: inline-block; font-weight: 700; padding: 0 0.5em; border-radius: 6px; background: #dbeafe; color: #1d4ed8; }
+  .entry { margin-bottom: 1.5em; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(transcript.title)}</h1>
+<dl>${transcript.details.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>
+<h2>Summary</h2>
+<p><span class="score">${transcript.overallScore}%</span> overall</p>
+${transcript.strengths.length > 0 ? `<h3>Strengths</h3>${list(transcript.strengths)}` : ''}
+${transcript.improvements.length > 0 ? `<h3>Areas to Improve</h3>${list(transcript.improvements)}` : ''}
+<h2>Questions and Answers</h2>
+${entries}
+${transcript.notes ? `<h2>Notes</h2>${paragraphs(transcript.notes)}` : ''}
+</body>
+</html>
+`;
+}
+
+export function toPdf(transcript: Transcript): Uint8Array {
+  const blocks: PdfBlock[] = [
+    { text: transcript.title, style: 'title' },
+    ...transcript.details.map(([label, value]): PdfBlock => ({ text: `${label}: ${value}`, style: 'muted' })),
+    { text: 'Summary', style: 'heading' },
+    { text: `Overall score: ${transcript.overallScore}%`, style: 'body' }
+  ];
+
+  if (transcript.strengths.length > 0) {
+    blocks.push({ text: 'Strengths', style: 'subheading' });
+    transcript.strengths.forEach(item => blocks.push({ text: `• ${item}`, style: 'body', indent: 12 }));
+  }
+  if (transcript.improvements.length > 0) {
+    blocks.push({ text: 'Areas to Improve', style: 'subheading' });
+    transcript.improvements.forEach(item => blocks.push({ text: `• ${item}`, style: 'body', indent: 12 }));
+  }
+
+  blocks.push({ text: 'Questions and Answers', style: 'heading' });
+  transcript.entries.forEach(entry => {
+    blocks.push({ text: `${entry.number}. ${entry.question}`, style: 'subheading' });
+    const timeline = formatTimeline(entry);
+    if (timeline) blocks.push({ text: timeline, style: 'muted' });
+    blocks.push({ text: entry.answer, style: 'body', indent: 16 });
+    if (entry.score !== undefined) {
+      blocks.push({ text: `Score: ${entry.score}%${entry.feedback ? ` - ${entry.feedback}` : ''}`, style: 'body' });
+    }
+  });
+
+  if (transcript.notes) {
+    blocks.push({ text: 'Notes', style: 'heading' }, { text: transcript.notes, style: 'body' });
+  }
+
+  return createTextPdf(blocks);
+}
+
+export function exportTranscript(session: InterviewSession, format: TranscriptFormat): string | Uint8Array {
+  const transcript = buildTranscript(session);
+  switch (format) {
+    case 'pdf':
+      return toPdf(transcript);
+    case 'html':
+      return toHTML(transcript);
+    case 'text':
+      return toPlainText(transcript);
+    case 'markdown':
+    default:
+      return toMarkdown(transcript);
+  }
+}
+
+export function getTranscriptFileName(session: InterviewSession, format: TranscriptFormat): string {
+  const slug = session.config.topic.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'interview';
+  const date = new Date(session.startedAt).toISOString().split('T')[0];
+  return `interview-transcript-${slug}-${date}${TRANSCRIPT_FILE_TYPES[format].extension}`;
+}
@@ -0,0 +1,48 @@
+// Audio level (0-100) the candidate must reach to cut in; well above normal speech so leftover interviewer echo doesn't trigger it
+export const BARGE_IN_LEVEL = 25;
+
+// How long the level has to hold before it counts as the candidate talking rather than a cough or a click
+export const BARGE_IN_HOLD_MS = 350;
+
+// A short dip below the level (between syllables) doesn't restart the hold
+const DROPOUT_MS = 150;
+
+/**
+ * Microphone level (0-100) from one buffer of time-domain analyser samples
+ */
+export function measureAudioLevel(samples: Uint8Array): number {
+  const rms = Math.sqrt(samples.reduce((sum, value) => sum + ((value - 128) / 128) ** 2, 0) / samples.length);
+  return Math.min(100, rms * 400);
+}
+
+/**
+ * Watches microphone levels while the interviewer is speaking and reports the moment the
+ * candidate starts talking over them.
+ */
+export class SpeechOnsetDetector {
+  private speechStartedAt: number | null = null;
+  private lastSpeechAt = 0;
+
+  constructor(private level: number = BARGE_IN_LEVEL, private holdMs: number = BARGE_IN_HOLD_MS) {}
+
+  /**
+   * True once the level has stayed above the threshold for the hold time
+   */
+  addSample(level: number, timestamp: number = Date.now()): boolean {
+    if (level >= this.level) {
+      if (this.speechStartedAt === null || timestamp - this.lastSpeechAt > DROPOUT_MS) {
+        this.speechStartedAt = timestamp;
+      }
+      this.lastSpeechAt = timestamp;
+    }
+
+    return this.speechStartedAt !== null &&
+      timestamp - this.lastSpeechAt <= DROPOUT_MS &&
+      this.lastSpeechAt - this.speechStartedAt >= this.holdMs;
+  }
+
+  reset(): void {
+    this.speechStartedAt = null;
+    this.lastSpeechAt = 0;
+  }
+}
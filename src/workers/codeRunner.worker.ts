@@ -0,0 +1,146 @@
+/**
+ * Sandboxed test runner for coding challenges.
+ * Runs candidate JavaScript against test cases off the main thread; the caller
+ * terminates the worker on timeout, so infinite loops cannot freeze the page.
+ * Every message carries the nonce the caller sent, so candidate code can't forge results.
+ */
+
+interface RunRequest {
+  code: string;
+  functionName: string;
+  tests: { args: unknown[]; expected: unknown }[];
+  nonce: string;
+}
+
+export type RunnerMessage =
+  | { type: 'result'; index: number; passed: boolean; input: string; expected: string; actual?: string; error?: string; runtimeMs: number }
+  | { type: 'log'; message: string }
+  | { type: 'error'; error: string }
+  | { type: 'done' };
+
+// Captured before any candidate code runs, so the code can't reach or replace what the runner itself relies on
+const postToRunner = self.postMessage.bind(self);
+const { is, keys } = Object;
+const { isArray } = Array;
+const { stringify } = JSON;
+const clone = structuredClone;
+const now = performance.now.bind(performance);
+
+// Globals that reach the network or the page. They are deleted from the worker scope and the prototypes
+// the built-ins live on, since candidate code can get hold of the global object (e.g. Function('return this')())
+const BLOCKED_GLOBALS = [
+  'postMessage', 'fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'BroadcastChannel',
+  'Worker', 'SharedWorker', 'importScripts', 'indexedDB', 'caches'
+];
+
+function removeBlockedGlobals(): void {
+  for (let scope: object | null = self; scope && scope !== Object.prototype; scope = Object.getPrototypeOf(scope)) {
+    for (const name of BLOCKED_GLOBALS) {
+      if (Object.prototype.hasOwnProperty.call(scope, name)) {
+        delete (scope as Record<string, unknown>)[name];
+      }
+    }
+  }
+
+  // Anything that couldn't be deleted is shadowed with a permanent undefined instead
+  for (const name of BLOCKED_GLOBALS) {
+    if (name in self) {
+      Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+    }
+  }
+}
+
+removeBlockedGlobals();
+
+let nonce = '';
+const send = (message: RunnerMessage) => postToRunner({ ...message, nonce });
+
+function format(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  try {
+    return stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+// Plain loops over the captured built-ins, since candidate code may have patched Array.prototype
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (is(a, b)) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') return false;
+
+  if (isArray(a) !== isArray(b)) return false;
+
+  const keysA = keys(a as object);
+  const keysB = keys(b as object);
+  if (keysA.length !== keysB.length) return false;
+
+  for (let i = 0; i < keysA.length; i++) {
+    if (!deepEqual((a as Record<string, unknown>)[keysA[i]], (b as Record<string, unknown>)[keysA[i]])) return false;
+  }
+  return true;
+}
+
+const sandboxConsole = {
+  log: (...args: unknown[]) => send({ type: 'log', message: args.map(arg => typeof arg === 'string' ? arg : format(arg)).join(' ') })
+};
+
+self.onmessage = (event: MessageEvent<RunRequest>) => {
+  const { code, functionName, tests } = event.data;
+  nonce = event.data.nonce;
+  let candidate: unknown;
+
+  // Formatted up front, before candidate code gets a chance to patch the built-ins formatting uses
+  const inputs = tests.map(test => test.args.map(format).join(', '));
+  const expectations = tests.map(test => format(test.expected));
+
+  try {
+    const factory = new Function(
+      'console',
+      `"use strict";\n${code}\nreturn typeof ${functionName} === 'function' ? ${functionName} : undefined;`
+    );
+    candidate = factory({ ...sandboxConsole, info: sandboxConsole.log, warn: sandboxConsole.log, error: sandboxConsole.log });
+  } catch (error) {
+    send({ type: 'error', error: `Compilation error: ${(error as Error).message}` });
+    send({ type: 'done' });
+    return;
+  }
+
+  if (typeof candidate !== 'function') {
+    send({ type: 'error', error: `Function "${functionName}" was not found. Make sure it is declared with that exact name.` });
+    send({ type: 'done' });
+    return;
+  }
+
+  for (let index = 0; index < tests.length; index++) {
+    const test = tests[index];
+    const input = inputs[index];
+    const expected = expectations[index];
+    const start = now();
+
+    try {
+      const actual = (candidate as (...args: unknown[]) => unknown)(...clone(test.args));
+      send({
+        type: 'result',
+        index,
+        passed: deepEqual(actual, test.expected),
+        input,
+        expected,
+        actual: format(actual),
+        runtimeMs: now() - start
+      });
+    } catch (error) {
+      send({
+        type: 'result',
+        index,
+        passed: false,
+        input,
+        expected,
+        error: (error as Error)?.message || String(error),
+        runtimeMs: now() - start
+      });
+    }
+  }
+
+  send({ type: 'done' });
+};